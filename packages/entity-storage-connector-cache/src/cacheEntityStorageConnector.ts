@@ -0,0 +1,560 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Guards, Is, ObjectHelper } from "@twin.org/core";
+import {
+	ComparisonOperator,
+	EntityConditions,
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	type EntityCondition,
+	type IEntitySchema,
+	type IEntitySchemaProperty,
+	type SortDirection
+} from "@twin.org/entity";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageExpiryHelper,
+	EntityStorageTransactionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { nameof } from "@twin.org/nameof";
+import type { ICacheEntityStorageConnectorConstructorOptions } from "./models/ICacheEntityStorageConnectorConstructorOptions";
+import type { ICacheEntityStorageStatistics } from "./models/ICacheEntityStorageStatistics";
+
+/**
+ * Class for performing entity storage operations which caches the entities read by id from
+ * another entity storage connector in a bounded least recently used cache. The cached entities
+ * are invalidated when they are changed through this connector, changes made directly to the
+ * other connector are only seen once the cached entity expires or is evicted.
+ */
+export class CacheEntityStorageConnector<T = unknown> implements IEntityStorageConnector<T> {
+	/**
+	 * Default maximum number of entities to cache.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_MAX_ENTRIES: number = 1000;
+
+	/**
+	 * Runtime name for the class.
+	 */
+	public readonly CLASS_NAME: string = nameof<CacheEntityStorageConnector>();
+
+	/**
+	 * The schema for the entity.
+	 * @internal
+	 */
+	private readonly _entitySchema: IEntitySchema<T>;
+
+	/**
+	 * The primary key.
+	 * @internal
+	 */
+	private readonly _primaryKey: IEntitySchemaProperty<T>;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
+	/**
+	 * The maximum number of entities to cache.
+	 * @internal
+	 */
+	private readonly _maxEntries: number;
+
+	/**
+	 * The number of milliseconds an entity is cached for.
+	 * @internal
+	 */
+	private readonly _timeToLive?: number;
+
+	/**
+	 * The entity storage connector which is cached.
+	 * @internal
+	 */
+	private readonly _entityStorage: IEntityStorageConnector<T>;
+
+	/**
+	 * The entity storage connector the cached entities are stored in, if not stored in memory.
+	 * @internal
+	 */
+	private readonly _cacheEntityStorage?: IEntityStorageConnector<T>;
+
+	/**
+	 * The cached entries by id in least recently used order, the entity is only
+	 * stored in the entry if there is no entity storage connector for the cache.
+	 * @internal
+	 */
+	private readonly _entries: Map<string, { expires?: number; entity?: T }>;
+
+	/**
+	 * The number of changes made through the connector, entities which were read while
+	 * a change was being made are not cached as they could be out of date.
+	 * @internal
+	 */
+	private _changeCounter: number;
+
+	/**
+	 * The statistics for the cache.
+	 * @internal
+	 */
+	private _statistics: Omit<ICacheEntityStorageStatistics, "entries">;
+
+	/**
+	 * Create a new instance of CacheEntityStorageConnector.
+	 * @param options The options for the connector.
+	 */
+	constructor(options: ICacheEntityStorageConnectorConstructorOptions) {
+		Guards.object(this.CLASS_NAME, nameof(options), options);
+		Guards.stringValue(this.CLASS_NAME, nameof(options.entitySchema), options.entitySchema);
+		Guards.object(this.CLASS_NAME, nameof(options.config), options.config);
+		Guards.stringValue(
+			this.CLASS_NAME,
+			nameof(options.config.entityStorageConnectorType),
+			options.config.entityStorageConnectorType
+		);
+		if (!Is.undefined(options.config.maxEntries)) {
+			Guards.integer(this.CLASS_NAME, nameof(options.config.maxEntries), options.config.maxEntries);
+		}
+		if (!Is.undefined(options.config.timeToLive)) {
+			Guards.number(this.CLASS_NAME, nameof(options.config.timeToLive), options.config.timeToLive);
+		}
+
+		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
+		this._maxEntries =
+			options.config.maxEntries ?? CacheEntityStorageConnector._DEFAULT_MAX_ENTRIES;
+		this._timeToLive = Is.undefined(options.config.timeToLive)
+			? undefined
+			: options.config.timeToLive * 1000;
+		this._entityStorage = EntityStorageConnectorFactory.get<IEntityStorageConnector<T>>(
+			options.config.entityStorageConnectorType
+		);
+		if (Is.stringValue(options.config.cacheEntityStorageConnectorType)) {
+			this._cacheEntityStorage = EntityStorageConnectorFactory.get<IEntityStorageConnector<T>>(
+				options.config.cacheEntityStorageConnectorType
+			);
+		}
+		this._entries = new Map();
+		this._changeCounter = 0;
+		this._statistics = { hits: 0, misses: 0, evictions: 0 };
+	}
+
+	/**
+	 * Get the schema for the entities.
+	 * @returns The schema for the entities.
+	 */
+	public getSchema(): IEntitySchema {
+		return this._entitySchema as IEntitySchema;
+	}
+
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return this._entityStorage.getCapabilities();
+	}
+
+	/**
+	 * Get an entity, entities read by id are returned from the cache if they are in it,
+	 * entities read using a secondary index are always read from the entity storage.
+	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
+	 * @param secondaryIndex Get the item using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The object if it can be found or undefined.
+	 */
+	public async get(
+		id: string,
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<T | undefined> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		if (!Is.empty(secondaryIndex) && secondaryIndex !== this._primaryKey.property) {
+			return this._entityStorage.get(id, secondaryIndex, conditions);
+		}
+
+		const changeCounter = this._changeCounter;
+		let entity = await this.getCached(id);
+		if (Is.undefined(entity)) {
+			entity = await this._entityStorage.get(id);
+			if (!Is.undefined(entity)) {
+				await this.setCached(entity, changeCounter);
+			}
+		}
+
+		return this.matchesConditions(entity, conditions) ? entity : undefined;
+	}
+
+	/**
+	 * Set an entity and remove it from the cache.
+	 * @param entity The entity to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
+	 * @returns The id of the entity.
+	 */
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
+		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
+
+		await this.withInvalidation([entity[this._primaryKey.property] as string], async () =>
+			this._entityStorage.set(entity, conditions, expectedVersion, timeToLive)
+		);
+	}
+
+	/**
+	 * Remove the entity and remove it from the cache.
+	 * @param id The id of the entity to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns Nothing.
+	 */
+	public async remove(
+		id: string,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		await this.withInvalidation([id], async () =>
+			this._entityStorage.remove(id, conditions, expectedVersion)
+		);
+	}
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics and remove it from the cache.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		await this.withInvalidation([id], async () => this._entityStorage.patch(id, patch, conditions));
+	}
+
+	/**
+	 * Set multiple entities and remove them from the cache.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		return this.withInvalidation(
+			entities.map(entity => entity[this._primaryKey.property] as string),
+			async () => this._entityStorage.setBatch(entities, conditions)
+		);
+	}
+
+	/**
+	 * Get multiple entities, the entities in the cache are returned from it and the others
+	 * are read from the entity storage.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (!Is.empty(secondaryIndex) && secondaryIndex !== this._primaryKey.property) {
+			return this._entityStorage.getBatch(ids, secondaryIndex, conditions);
+		}
+
+		const changeCounter = this._changeCounter;
+		const results: (IEntityStorageBatchResult<T> | undefined)[] = [];
+		const missingIds: string[] = [];
+		for (const id of ids) {
+			const entity = await this.getCached(id);
+			if (Is.undefined(entity)) {
+				results.push(undefined);
+				missingIds.push(id);
+			} else {
+				results.push({ id, success: true, entity });
+			}
+		}
+
+		const missingResults =
+			missingIds.length > 0 ? await this._entityStorage.getBatch(missingIds) : [];
+		for (const missingResult of missingResults) {
+			if (!Is.undefined(missingResult.entity)) {
+				await this.setCached(missingResult.entity, changeCounter);
+			}
+		}
+
+		let missingIndex = 0;
+		return results.map(result => {
+			const finalResult = result ?? missingResults[missingIndex++];
+			return this.matchesConditions(finalResult.entity, conditions)
+				? finalResult
+				: { id: finalResult.id, success: finalResult.success, error: finalResult.error };
+		});
+	}
+
+	/**
+	 * Remove multiple entities and remove them from the cache.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		return this.withInvalidation(ids, async () => this._entityStorage.removeBatch(ids, conditions));
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically and remove the entities from the cache.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		Guards.array<IEntityStorageTransactionOperation<T>>(
+			this.CLASS_NAME,
+			nameof(operations),
+			operations
+		);
+
+		await this.withInvalidation(
+			operations.map(operation =>
+				EntityStorageTransactionHelper.getOperationId(operation, this._primaryKey.property)
+			),
+			async () => this._entityStorage.transaction(operations)
+		);
+	}
+
+	/**
+	 * Subscribe to the changes made to entities.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		return this._entityStorage.subscribe(conditions, callback);
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		return this._entityStorage.unsubscribe(subscriptionId);
+	}
+
+	/**
+	 * Count all the entities which match the conditions, the count is always read from the entity storage.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		return this._entityStorage.count(conditions);
+	}
+
+	/**
+	 * Find all the entities which match the conditions, the entities are always read from the entity storage.
+	 * @param conditions The conditions to match for the entities.
+	 * @param sortProperties The optional sort order.
+	 * @param properties The optional properties to return, defaults to all.
+	 * @param cursor The cursor to request the next page of entities.
+	 * @param pageSize The suggested number of entities to return in each chunk, in some scenarios can return a different amount.
+	 * @returns All the entities for the storage matching the conditions,
+	 * and a cursor which can be used to request more entities.
+	 */
+	public async query(
+		conditions?: EntityCondition<T>,
+		sortProperties?: {
+			property: keyof T;
+			sortDirection: SortDirection;
+		}[],
+		properties?: (keyof T)[],
+		cursor?: string,
+		pageSize?: number
+	): Promise<{
+		/**
+		 * The entities, which can be partial if a limited keys list was provided.
+		 */
+		entities: Partial<T>[];
+		/**
+		 * An optional cursor, when defined can be used to call find to get more entities.
+		 */
+		cursor?: string;
+	}> {
+		return this._entityStorage.query(conditions, sortProperties, properties, cursor, pageSize);
+	}
+
+	/**
+	 * Get the statistics for the cache.
+	 * @returns The statistics.
+	 */
+	public getStatistics(): ICacheEntityStorageStatistics {
+		return { ...this._statistics, entries: this._entries.size };
+	}
+
+	/**
+	 * Reset the statistics for the cache, the cached entities are not removed.
+	 */
+	public resetStatistics(): void {
+		this._statistics = { hits: 0, misses: 0, evictions: 0 };
+	}
+
+	/**
+	 * Remove all the entities from the cache.
+	 * @returns Nothing.
+	 */
+	public async clear(): Promise<void> {
+		const ids = Array.from(this._entries.keys());
+		this._entries.clear();
+		for (const id of ids) {
+			await this._cacheEntityStorage?.remove(id);
+		}
+	}
+
+	/**
+	 * Get an entity from the cache and make it the most recently used.
+	 * @param id The id of the entity.
+	 * @returns The entity if it is in the cache and has not expired.
+	 * @internal
+	 */
+	private async getCached(id: string): Promise<T | undefined> {
+		const entry = this._entries.get(id);
+		let entity: T | undefined;
+		if (!Is.undefined(entry) && (Is.undefined(entry.expires) || entry.expires > Date.now())) {
+			entity = Is.undefined(this._cacheEntityStorage)
+				? entry.entity
+				: await this._cacheEntityStorage.get(id);
+		}
+
+		if (Is.undefined(entity) || EntityStorageExpiryHelper.isExpired(entity, this._expiryProperty)) {
+			if (!Is.undefined(entry)) {
+				await this.removeCached(id);
+			}
+			this._statistics.misses++;
+			return;
+		}
+
+		this._entries.delete(id);
+		this._entries.set(id, entry as { expires?: number; entity?: T });
+		this._statistics.hits++;
+		return ObjectHelper.clone(entity);
+	}
+
+	/**
+	 * Add an entity to the cache, evicting the least recently used entities if it is full.
+	 * @param entity The entity to add.
+	 * @param changeCounter The change counter from before the entity was read.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async setCached(entity: T, changeCounter: number): Promise<void> {
+		if (changeCounter !== this._changeCounter || this._maxEntries <= 0) {
+			return;
+		}
+
+		const id = entity[this._primaryKey.property] as string;
+		const expires = Is.undefined(this._timeToLive) ? undefined : Date.now() + this._timeToLive;
+		if (Is.undefined(this._cacheEntityStorage)) {
+			this._entries.delete(id);
+			this._entries.set(id, { expires, entity: ObjectHelper.clone(entity) });
+		} else {
+			await this._cacheEntityStorage.set(entity);
+			this._entries.delete(id);
+			this._entries.set(id, { expires });
+		}
+
+		while (this._entries.size > this._maxEntries) {
+			const leastRecentId = this._entries.keys().next().value as string;
+			await this.removeCached(leastRecentId);
+			this._statistics.evictions++;
+		}
+	}
+
+	/**
+	 * Remove an entity from the cache.
+	 * @param id The id of the entity.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async removeCached(id: string): Promise<void> {
+		this._entries.delete(id);
+		await this._cacheEntityStorage?.remove(id);
+	}
+
+	/**
+	 * Perform a change and remove the changed entities from the cache, the entities are
+	 * removed even if the change fails as it could have been partially applied.
+	 * @param ids The ids of the entities being changed.
+	 * @param action The action which makes the change.
+	 * @returns The result of the action.
+	 * @internal
+	 */
+	private async withInvalidation<U>(ids: string[], action: () => Promise<U>): Promise<U> {
+		this._changeCounter++;
+		try {
+			return await action();
+		} finally {
+			this._changeCounter++;
+			for (const id of ids) {
+				if (this._entries.has(id)) {
+					await this.removeCached(id);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Does the entity match the conditions.
+	 * @param entity The entity to check.
+	 * @param conditions The conditions to match.
+	 * @returns True if the entity exists and matches the conditions.
+	 * @internal
+	 */
+	private matchesConditions(
+		entity: T | undefined,
+		conditions: { property: keyof T; value: unknown }[] | undefined
+	): boolean {
+		return (
+			!Is.undefined(entity) &&
+			EntityConditions.check(entity, {
+				conditions: (conditions ?? []).map(c => ({
+					property: c.property as string,
+					comparison: ComparisonOperator.Equals,
+					value: c.value
+				}))
+			})
+		);
+	}
+}
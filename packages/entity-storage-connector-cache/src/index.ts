@@ -0,0 +1,6 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+export * from "./cacheEntityStorageConnector";
+export * from "./models/ICacheEntityStorageConnectorConfig";
+export * from "./models/ICacheEntityStorageConnectorConstructorOptions";
+export * from "./models/ICacheEntityStorageStatistics";
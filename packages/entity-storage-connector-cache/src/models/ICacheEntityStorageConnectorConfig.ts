@@ -0,0 +1,30 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Configuration for the Cache Entity Storage Connector.
+ */
+export interface ICacheEntityStorageConnectorConfig {
+	/**
+	 * The type of the entity storage connector registered in the factory which is cached.
+	 */
+	entityStorageConnectorType: string;
+
+	/**
+	 * The type of the entity storage connector registered in the factory to store the cached
+	 * entities in, defaults to storing them in the memory of the process.
+	 */
+	cacheEntityStorageConnectorType?: string;
+
+	/**
+	 * The maximum number of entities to cache, the least recently used entities are evicted
+	 * when it is reached, defaults to 1000.
+	 */
+	maxEntries?: number;
+
+	/**
+	 * The number of seconds an entity is cached before it is read again, defaults to caching
+	 * the entity until it is changed or evicted.
+	 */
+	timeToLive?: number;
+}
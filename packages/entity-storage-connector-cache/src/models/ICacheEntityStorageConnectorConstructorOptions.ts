@@ -0,0 +1,18 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { ICacheEntityStorageConnectorConfig } from "./ICacheEntityStorageConnectorConfig";
+
+/**
+ * Options for the Cache Entity Storage Connector constructor.
+ */
+export interface ICacheEntityStorageConnectorConstructorOptions {
+	/**
+	 * The name of the entity schema.
+	 */
+	entitySchema: string;
+
+	/**
+	 * The configuration for the connector.
+	 */
+	config: ICacheEntityStorageConnectorConfig;
+}
@@ -0,0 +1,27 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The statistics for the cache.
+ */
+export interface ICacheEntityStorageStatistics {
+	/**
+	 * The number of reads which were returned from the cache.
+	 */
+	hits: number;
+
+	/**
+	 * The number of reads which were not in the cache.
+	 */
+	misses: number;
+
+	/**
+	 * The number of entities evicted because the cache was full.
+	 */
+	evictions: number;
+
+	/**
+	 * The number of entities currently in the cache.
+	 */
+	entries: number;
+}
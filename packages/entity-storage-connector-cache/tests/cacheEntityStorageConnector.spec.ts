@@ -0,0 +1,407 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { GeneralError, I18n } from "@twin.org/core";
+import { EntitySchemaFactory, EntitySchemaHelper, entity, property } from "@twin.org/entity";
+import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType
+} from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorTestSuite,
+	type TestSuiteEntity
+} from "@twin.org/entity-storage-test-suite";
+import { nameof } from "@twin.org/nameof";
+import { CacheEntityStorageConnector } from "../src/cacheEntityStorageConnector";
+import type { ICacheEntityStorageConnectorConfig } from "../src/models/ICacheEntityStorageConnectorConfig";
+
+/**
+ * Test Type Definition.
+ */
+@entity()
+class TestType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Category.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public category!: string;
+
+	/**
+	 * Value.
+	 */
+	@property({ type: "number" })
+	public value!: number;
+}
+
+let innerEntityStorage: MemoryEntityStorageConnector<TestType>;
+
+/**
+ * Create a connector which caches the entities in the inner memory connector.
+ * @param config The optional config to use in addition to the inner connector type.
+ * @returns The connector.
+ */
+function createConnector(
+	config?: Omit<ICacheEntityStorageConnectorConfig, "entityStorageConnectorType">
+): CacheEntityStorageConnector<TestType> {
+	return new CacheEntityStorageConnector<TestType>({
+		entitySchema: nameof<TestType>(),
+		config: {
+			entityStorageConnectorType: "inner",
+			...config
+		}
+	});
+}
+
+describe("CacheEntityStorageConnector", () => {
+	beforeAll(async () => {
+		I18n.addDictionary("en", await import("../locales/en.json"));
+
+		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
+	});
+
+	beforeEach(() => {
+		innerEntityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		EntityStorageConnectorFactory.register("inner", () => innerEntityStorage);
+	});
+
+	afterEach(() => {
+		EntityStorageConnectorFactory.unregister("inner");
+		vi.useRealTimers();
+	});
+
+	test("can fail to construct when there is no options", async () => {
+		expect(
+			() =>
+				new CacheEntityStorageConnector(
+					undefined as unknown as {
+						entitySchema: string;
+						config: ICacheEntityStorageConnectorConfig;
+					}
+				)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.objectUndefined",
+				properties: {
+					property: "options",
+					value: "undefined"
+				}
+			})
+		);
+	});
+
+	test("can fail to construct when the connector type is not registered", async () => {
+		expect(
+			() =>
+				new CacheEntityStorageConnector<TestType>({
+					entitySchema: nameof<TestType>(),
+					config: { entityStorageConnectorType: "missing" }
+				})
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "factory.noGet"
+			})
+		);
+	});
+
+	test("can construct", async () => {
+		const connector = createConnector();
+		expect(connector).toBeDefined();
+		expect(connector.getSchema()).toEqual(EntitySchemaHelper.getSchema(TestType));
+		expect(connector.getStatistics()).toEqual({ hits: 0, misses: 0, evictions: 0, entries: 0 });
+	});
+
+	test("can read through the cache", async () => {
+		const connector = createConnector();
+		await innerEntityStorage.set({ id: "1", category: "a", value: 1 });
+
+		const getSpy = vi.spyOn(innerEntityStorage, "get");
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 1 });
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 1 });
+		expect(await connector.get("2")).toBeUndefined();
+
+		expect(getSpy).toHaveBeenCalledTimes(2);
+		expect(connector.getStatistics()).toEqual({ hits: 1, misses: 2, evictions: 0, entries: 1 });
+	});
+
+	test("can return a copy of the cached entity", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+
+		const result = await connector.get("1");
+		if (result) {
+			result.value = 2;
+		}
+
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 1 });
+	});
+
+	test("can check the conditions for a cached entity", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+		await connector.get("1");
+
+		expect(await connector.get("1", undefined, [{ property: "category", value: "a" }])).toEqual({
+			id: "1",
+			category: "a",
+			value: 1
+		});
+		expect(
+			await connector.get("1", undefined, [{ property: "category", value: "b" }])
+		).toBeUndefined();
+		expect(connector.getStatistics().hits).toEqual(2);
+	});
+
+	test("can always read using a secondary index from the inner connector", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+
+		const getSpy = vi.spyOn(innerEntityStorage, "get");
+		expect(await connector.get("a", "category")).toEqual({ id: "1", category: "a", value: 1 });
+		expect(await connector.get("a", "category")).toEqual({ id: "1", category: "a", value: 1 });
+
+		expect(getSpy).toHaveBeenCalledTimes(2);
+		expect(connector.getStatistics()).toEqual({ hits: 0, misses: 0, evictions: 0, entries: 0 });
+	});
+
+	test("can invalidate the cache when an entity is set", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+		await connector.get("1");
+
+		await connector.set({ id: "1", category: "a", value: 2 });
+		expect(connector.getStatistics().entries).toEqual(0);
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 2 });
+	});
+
+	test("can invalidate the cache when an entity is removed", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+		await connector.get("1");
+
+		await connector.remove("1");
+		expect(await connector.get("1")).toBeUndefined();
+	});
+
+	test("can invalidate the cache when an entity is patched", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+		await connector.get("1");
+
+		await connector.patch("1", { value: 2 });
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 2 });
+	});
+
+	test("can invalidate the cache when batches are changed", async () => {
+		const connector = createConnector();
+		await connector.setBatch([
+			{ id: "1", category: "a", value: 1 },
+			{ id: "2", category: "a", value: 2 }
+		]);
+		await connector.getBatch(["1", "2"]);
+		expect(connector.getStatistics().entries).toEqual(2);
+
+		await connector.setBatch([{ id: "1", category: "a", value: 3 }]);
+		expect(connector.getStatistics().entries).toEqual(1);
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 3 });
+
+		await connector.removeBatch(["1", "2"]);
+		expect(connector.getStatistics().entries).toEqual(0);
+		expect(await connector.get("2")).toBeUndefined();
+	});
+
+	test("can invalidate the cache when a transaction is performed", async () => {
+		const connector = createConnector();
+		await connector.setBatch([
+			{ id: "1", category: "a", value: 1 },
+			{ id: "2", category: "a", value: 2 }
+		]);
+		await connector.getBatch(["1", "2"]);
+
+		await connector.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", category: "a", value: 3 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" }
+		]);
+
+		expect(connector.getStatistics().entries).toEqual(0);
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 3 });
+		expect(await connector.get("2")).toBeUndefined();
+	});
+
+	test("can invalidate the cache when a change fails", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+		await connector.get("1");
+
+		vi.spyOn(innerEntityStorage, "set").mockRejectedValueOnce(new GeneralError("Test", "failed"));
+		await expect(connector.set({ id: "1", category: "a", value: 2 })).rejects.toThrow("failed");
+		expect(connector.getStatistics().entries).toEqual(0);
+	});
+
+	test("can not cache an entity read while it is being changed", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+
+		const getPromise = connector.get("1");
+		await connector.set({ id: "1", category: "a", value: 2 });
+		await getPromise;
+
+		expect(connector.getStatistics().entries).toEqual(0);
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 2 });
+	});
+
+	test("can get a batch using the cache and the inner connector", async () => {
+		const connector = createConnector();
+		await connector.setBatch([
+			{ id: "1", category: "a", value: 1 },
+			{ id: "2", category: "b", value: 2 }
+		]);
+		await connector.get("1");
+
+		const getBatchSpy = vi.spyOn(innerEntityStorage, "getBatch");
+		const results = await connector.getBatch(["1", "2", "3"]);
+
+		expect(getBatchSpy).toHaveBeenCalledWith(["2", "3"]);
+		expect(results).toEqual([
+			{ id: "1", success: true, entity: { id: "1", category: "a", value: 1 } },
+			{ id: "2", success: true, entity: { id: "2", category: "b", value: 2 } },
+			{ id: "3", success: true }
+		]);
+		expect(connector.getStatistics()).toEqual({ hits: 1, misses: 3, evictions: 0, entries: 2 });
+
+		expect(
+			await connector.getBatch(["1", "2"], undefined, [{ property: "category", value: "b" }])
+		).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true, entity: { id: "2", category: "b", value: 2 } }
+		]);
+	});
+
+	test("can evict the least recently used entities", async () => {
+		const connector = createConnector({ maxEntries: 2 });
+		await connector.setBatch([
+			{ id: "1", category: "a", value: 1 },
+			{ id: "2", category: "a", value: 2 },
+			{ id: "3", category: "a", value: 3 }
+		]);
+
+		await connector.get("1");
+		await connector.get("2");
+		await connector.get("1");
+		await connector.get("3");
+
+		expect(connector.getStatistics()).toEqual({ hits: 1, misses: 3, evictions: 1, entries: 2 });
+
+		const getSpy = vi.spyOn(innerEntityStorage, "get");
+		await connector.get("1");
+		expect(getSpy).not.toHaveBeenCalled();
+		await connector.get("2");
+		expect(getSpy).toHaveBeenCalledTimes(1);
+	});
+
+	test("can expire the cached entities using the time to live", async () => {
+		vi.useFakeTimers();
+		const connector = createConnector({ timeToLive: 10 });
+		await connector.set({ id: "1", category: "a", value: 1 });
+		await connector.get("1");
+
+		await innerEntityStorage.set({ id: "1", category: "a", value: 2 });
+
+		vi.advanceTimersByTime(5000);
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 1 });
+
+		vi.advanceTimersByTime(5000);
+		expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 2 });
+		expect(connector.getStatistics()).toEqual({ hits: 1, misses: 2, evictions: 0, entries: 1 });
+	});
+
+	test("can store the cached entities in another connector", async () => {
+		const cacheEntityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		EntityStorageConnectorFactory.register("cache", () => cacheEntityStorage);
+
+		try {
+			const connector = createConnector({
+				cacheEntityStorageConnectorType: "cache",
+				maxEntries: 1
+			});
+			await connector.setBatch([
+				{ id: "1", category: "a", value: 1 },
+				{ id: "2", category: "a", value: 2 }
+			]);
+
+			await connector.get("1");
+			expect(cacheEntityStorage.getStore()).toEqual([{ id: "1", category: "a", value: 1 }]);
+
+			const getSpy = vi.spyOn(innerEntityStorage, "get");
+			expect(await connector.get("1")).toEqual({ id: "1", category: "a", value: 1 });
+			expect(getSpy).not.toHaveBeenCalled();
+
+			await connector.get("2");
+			expect(cacheEntityStorage.getStore()).toEqual([{ id: "2", category: "a", value: 2 }]);
+
+			await connector.remove("2");
+			expect(cacheEntityStorage.getStore()).toEqual([]);
+		} finally {
+			EntityStorageConnectorFactory.unregister("cache");
+		}
+	});
+
+	test("can reset the statistics and clear the cache", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", category: "a", value: 1 });
+		await connector.get("1");
+		await connector.get("1");
+
+		connector.resetStatistics();
+		expect(connector.getStatistics()).toEqual({ hits: 0, misses: 0, evictions: 0, entries: 1 });
+
+		await connector.clear();
+		expect(connector.getStatistics().entries).toEqual(0);
+	});
+
+	test("can query using the inner connector", async () => {
+		const connector = createConnector();
+		await connector.setBatch([
+			{ id: "1", category: "a", value: 1 },
+			{ id: "2", category: "b", value: 2 }
+		]);
+
+		const result = await connector.query();
+		expect(result.entities).toHaveLength(2);
+		expect(await connector.count()).toEqual(2);
+	});
+});
+
+describe("CacheEntityStorageConnector conformance", () => {
+	EntityStorageConnectorTestSuite.run({
+		createConnector: async entitySchema => {
+			EntityStorageConnectorFactory.register(
+				"inner-test-suite",
+				() => new MemoryEntityStorageConnector<TestSuiteEntity>({ entitySchema })
+			);
+			return new CacheEntityStorageConnector<TestSuiteEntity>({
+				entitySchema,
+				config: {
+					entityStorageConnectorType: "inner-test-suite"
+				}
+			});
+		},
+		removeConnector: async () => {
+			EntityStorageConnectorFactory.unregister("inner-test-suite");
+		}
+	});
+});
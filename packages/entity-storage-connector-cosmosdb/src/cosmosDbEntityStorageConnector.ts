@@ -1,17 +1,40 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
 import {
+	BulkOperationType,
+	type BulkOperationResult,
+	ChangeFeedMode,
+	type ChangeFeedPullModelIterator,
+	ChangeFeedStartFrom,
 	type Container,
 	CosmosClient,
 	CosmosDbDiagnosticLevel,
+	type ContainerRequest,
 	type FeedOptions,
+	type Item,
 	type ItemDefinition,
+	type JSONObject,
+	type OperationInput,
+	type PartitionKey,
+	type PartitionKeyDefinition,
+	PartitionKeyDefinitionVersion,
 	PartitionKeyKind,
+	type PatchOperation,
+	PatchOperationType,
 	type Resource,
 	type SqlParameter,
-	type SqlQuerySpec
+	type SqlQuerySpec,
+	StatusCodes
 } from "@azure/cosmos";
-import { BaseError, Coerce, GeneralError, Guards, Is, ObjectHelper } from "@twin.org/core";
+import {
+	BaseError,
+	Coerce,
+	GeneralError,
+	Guards,
+	type IError,
+	Is,
+	ObjectHelper
+} from "@twin.org/core";
 import {
 	ComparisonOperator,
 	type EntityCondition,
@@ -24,9 +47,24 @@ import {
 	LogicalOperator,
 	SortDirection
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageBatchHelper,
+	EntityStorageChangeEmitter,
+	EntityStorageChangeType,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
 import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
+import { CosmosDbEntityStorageThroughputMode } from "./models/cosmosDbEntityStorageThroughputMode";
 import type { ICosmosDbEntityStorageConnectorConfig } from "./models/ICosmosDbEntityStorageConnectorConfig";
 import type { ICosmosDbEntityStorageConnectorConstructorOptions } from "./models/ICosmosDbEntityStorageConnectorConstructorOptions";
 
@@ -58,6 +96,48 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 	 */
 	private static readonly _PARTITION_ID_VALUE: string = "1";
 
+	/**
+	 * The maximum number of properties in a hierarchical partition key.
+	 * @internal
+	 */
+	private static readonly _PARTITION_KEY_PROPERTIES_MAX: number = 3;
+
+	/**
+	 * The default request units per second for manual throughput.
+	 * @internal
+	 */
+	private static readonly _THROUGHPUT: number = 400;
+
+	/**
+	 * The default maximum request units per second for autoscale throughput.
+	 * @internal
+	 */
+	private static readonly _AUTOSCALE_THROUGHPUT: number = 1000;
+
+	/**
+	 * The default maximum number of retries for throttled requests.
+	 * @internal
+	 */
+	private static readonly _RETRY_MAX: number = 9;
+
+	/**
+	 * The default maximum time in milliseconds to wait for the retries of a throttled request.
+	 * @internal
+	 */
+	private static readonly _RETRY_MAX_WAIT_TIME: number = 30000;
+
+	/**
+	 * The maximum number of operations in a patch request.
+	 * @internal
+	 */
+	private static readonly _PATCH_OPERATIONS_SIZE: number = 10;
+
+	/**
+	 * The interval in milliseconds between polls of the change feed.
+	 * @internal
+	 */
+	private static readonly _CHANGE_FEED_POLL_INTERVAL: number = 1000;
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -69,12 +149,30 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 	 */
 	private readonly _entitySchema: IEntitySchema<T>;
 
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
 	/**
 	 * The primary key.
 	 * @internal
 	 */
 	private readonly _primaryKey: IEntitySchemaProperty<T>;
 
+	/**
+	 * The properties for the partition key, undefined if the entities are stored in a single partition.
+	 * @internal
+	 */
+	private readonly _partitionKeyProperties?: (keyof T)[];
+
 	/**
 	 * The configuration for the connector.
 	 * @internal
@@ -93,6 +191,24 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 	 */
 	private readonly _container: Container;
 
+	/**
+	 * The subscriptions to changes in the container.
+	 * @internal
+	 */
+	private readonly _changeEmitter: EntityStorageChangeEmitter<T>;
+
+	/**
+	 * The change feed for the container, only polled while there are subscriptions.
+	 * @internal
+	 */
+	private _changeFeed?: ChangeFeedPullModelIterator<ItemDefinition>;
+
+	/**
+	 * The timer for the next poll of the change feed.
+	 * @internal
+	 */
+	private _changeFeedTimer?: ReturnType<typeof setTimeout>;
+
 	/**
 	 * Create a new instance of CosmosDbEntityStorageConnector.
 	 * @param options The options for the connector.
@@ -117,28 +233,76 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 			nameof(options.config.containerId),
 			options.config.containerId
 		);
+		if (!Is.undefined(options.config.throughput?.mode)) {
+			Guards.arrayOneOf<CosmosDbEntityStorageThroughputMode>(
+				this.CLASS_NAME,
+				nameof(options.config.throughput.mode),
+				options.config.throughput.mode,
+				Object.values(CosmosDbEntityStorageThroughputMode)
+			);
+		}
 
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
 
 		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
 
+		if (!Is.undefined(options.config.partitionKeyProperties)) {
+			Guards.arrayValue<string>(
+				this.CLASS_NAME,
+				nameof(options.config.partitionKeyProperties),
+				options.config.partitionKeyProperties
+			);
+			// The values of the partition key must be strings, numbers or booleans
+			if (
+				options.config.partitionKeyProperties.length >
+					CosmosDbEntityStorageConnector._PARTITION_KEY_PROPERTIES_MAX ||
+				options.config.partitionKeyProperties.some(
+					property =>
+						!(this._entitySchema.properties ?? []).some(
+							p => p.property === property && p.type !== "object" && p.type !== "array"
+						)
+				)
+			) {
+				throw new GeneralError(this.CLASS_NAME, "partitionKeyInvalid", {
+					properties: options.config.partitionKeyProperties.join(", ")
+				});
+			}
+			this._partitionKeyProperties = options.config.partitionKeyProperties as (keyof T)[];
+		}
+
 		this._config = options.config;
 
 		this._client = new CosmosClient({
 			endpoint: this._config.endpoint,
 			key: this._config.key,
-			diagnosticLevel: CosmosDbDiagnosticLevel.debug
+			diagnosticLevel: CosmosDbDiagnosticLevel.debug,
+			connectionPolicy: {
+				// The throttled requests are retried after the time returned by the instance
+				retryOptions: {
+					maxRetryAttemptCount:
+						this._config.retry?.maxRetries ?? CosmosDbEntityStorageConnector._RETRY_MAX,
+					maxWaitTimeInSeconds: Math.ceil(
+						(this._config.retry?.maxWaitTime ??
+							CosmosDbEntityStorageConnector._RETRY_MAX_WAIT_TIME) / 1000
+					)
+				}
+			}
 		});
 
 		this._container = this._client
 			.database(this._config.databaseId)
 			.container(this._config.containerId);
+
+		this._changeEmitter = new EntityStorageChangeEmitter<T>();
 	}
 
 	/**
 	 * Initialize the Cosmos DB environment.
 	 * @param nodeLoggingConnectorType Optional type of the logging connector.
 	 * @returns A promise that resolves to a boolean indicating success.
+	 * @throws GeneralError if the existing container has a different partition key to the configuration.
 	 */
 	public async bootstrap(nodeLoggingConnectorType?: string): Promise<boolean> {
 		const nodeLogging = LoggingConnectorFactory.getIfExists(
@@ -201,21 +365,20 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 		}
 
 		// Create the container if it does not exist
+		let containerPartitionKey: PartitionKeyDefinition | undefined;
 		try {
 			const { resource: containerDefinition } = await this._client
 				.database(this._config.databaseId)
-				.containers.createIfNotExists(
-					{
-						id: this._config.containerId,
-						partitionKey: {
-							kind: PartitionKeyKind.Hash,
-							paths: [CosmosDbEntityStorageConnector._PARTITION_ID_PATH]
-						}
-					},
-					{ offerThroughput: 400 }
-				);
+				.containers.createIfNotExists({
+					id: this._config.containerId,
+					partitionKey: this.getPartitionKeyDefinition(),
+					// Enables the time to live on the items without a default expiry
+					defaultTtl: Is.undefined(this._expiryProperty) ? undefined : -1,
+					...this.getThroughput()
+				});
 
 			if (containerDefinition) {
+				containerPartitionKey = containerDefinition.partitionKey;
 				await nodeLogging?.log({
 					level: "info",
 					source: this.CLASS_NAME,
@@ -251,6 +414,20 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 			return false;
 		}
 
+		// An existing container keeps the partition key it was created with
+		const partitionKeyDefinition = this.getPartitionKeyDefinition();
+		if (
+			!Is.undefined(containerPartitionKey) &&
+			((containerPartitionKey.kind ?? PartitionKeyKind.Hash) !== partitionKeyDefinition.kind ||
+				!ObjectHelper.equal(containerPartitionKey.paths, partitionKeyDefinition.paths))
+		) {
+			throw new GeneralError(this.CLASS_NAME, "containerPartitionKeyMismatch", {
+				containerId: this._config.containerId,
+				paths: containerPartitionKey.paths.join(", "),
+				expectedPaths: partitionKeyDefinition.paths.join(", ")
+			});
+		}
+
 		return true;
 	}
 
@@ -262,6 +439,17 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: true,
+			subscriptions: true
+		};
+	}
+
 	/**
 	 * Get an entity from Cosmos DB.
 	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
@@ -277,17 +465,26 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
 		try {
-			// No secondary index or conditions
-			if (Is.empty(secondaryIndex) && !Is.arrayValue(conditions)) {
+			const partitionKey = this.findPartitionKey([
+				{ property: secondaryIndex ?? this._primaryKey.property, value: id },
+				...(conditions ?? [])
+			]);
+
+			// No secondary index and the partition key is known so the item can be read directly
+			if (Is.empty(secondaryIndex) && !Is.undefined(partitionKey)) {
 				const { resource: item } = await this._container
-					.item(id, CosmosDbEntityStorageConnector._PARTITION_ID_VALUE)
+					.item(id, partitionKey)
 					.read<ItemDefinition>();
+				if (
+					Is.empty(item) ||
+					(Is.arrayValue(conditions) && !this.verifyConditions(conditions, item as T))
+				) {
+					return undefined;
+				}
 				return this.itemToEntity(item);
 			}
 
-			const whereQuery: string[] = [
-				`c.${CosmosDbEntityStorageConnector._PARTITION_ID_NAME} = @partitionKey`
-			];
+			const whereQuery: string[] = [];
 
 			// With a secondary index
 			if (Is.stringValue(secondaryIndex)) {
@@ -309,13 +506,13 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 
 			const query: SqlQuerySpec = {
 				query: `SELECT * FROM c WHERE ${whereQuery.join(" AND ")}`,
-				parameters: [
-					{ name: "@id", value: id },
-					{ name: "@partitionKey", value: CosmosDbEntityStorageConnector._PARTITION_ID_VALUE }
-				]
+				parameters: [{ name: "@id", value: id }]
 			};
 
-			const { resources: items } = await this._container.items.query(query).fetchAll();
+			// If the partition key is not known the query is made across all the partitions
+			const { resources: items } = await this._container.items
+				.query(query, { partitionKey })
+				.fetchAll();
 
 			if (items.length === 1) {
 				return this.itemToEntity(items[0]);
@@ -344,37 +541,78 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 * @throws GeneralError if the entity exists with different values for the partition key properties.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
 
 		const id = entity[this._primaryKey.property] as string;
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+		const expiringEntity = EntityStorageExpiryHelper.applyTimeToLive(
+			entity,
+			this._expiryProperty,
+			timeToLive
+		);
+
 		try {
-			if (Is.arrayValue(conditions)) {
-				const item = await this._container.item(
-					id,
-					CosmosDbEntityStorageConnector._PARTITION_ID_VALUE
-				);
+			await this.guardPartitionKeyUnchanged(id, expiringEntity);
+
+			const newItem = this.entityToItem(id, expiringEntity);
+
+			if (Is.arrayValue(conditions) || !Is.undefined(expectedVersion)) {
+				const item = this._container.item(id, this.getPartitionKey(expiringEntity));
 				const { resource: itemData } = await item.read<ItemDefinition>();
-				if (Is.notEmpty(itemData) && !this.verifyConditions(conditions, itemData as T)) {
+				const conditionsMatch =
+					Is.empty(itemData) ||
+					!Is.arrayValue(conditions) ||
+					this.verifyConditions(conditions, itemData as T);
+
+				if (Is.undefined(expectedVersion)) {
+					if (!conditionsMatch) {
+						return;
+					}
+				} else {
+					EntityStorageVersionHelper.verifyVersion(
+						id,
+						this._versionProperty,
+						expectedVersion,
+						conditionsMatch ? (itemData as T | undefined) : undefined
+					);
+					// Only replace the item if it has not been changed since it was read
+					await item.replace(newItem, {
+						accessCondition: { type: "IfMatch", condition: (itemData as Resource)._etag }
+					});
 					return;
 				}
 			}
 
-			await this._container.items.upsert({
-				id,
-				[CosmosDbEntityStorageConnector._PARTITION_ID_NAME]:
-					CosmosDbEntityStorageConnector._PARTITION_ID_VALUE,
-				...entity
-			});
+			await this._container.items.upsert(newItem);
 		} catch (err) {
+			if (
+				!Is.undefined(expectedVersion) &&
+				Is.object<{ code?: number }>(err) &&
+				err.code === StatusCodes.PreconditionFailed
+			) {
+				throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+			}
+			if (BaseError.isErrorMessage(err, /\.partitionKeyImmutable$/)) {
+				throw err;
+			}
 			if (BaseError.isErrorCode(err, "ResourceNotFoundException")) {
 				throw new GeneralError(
 					this.CLASS_NAME,
@@ -400,28 +638,53 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
 		try {
-			const item = await this._container.item(
+			const { item, itemData } = await this.readItem(
 				id,
-				CosmosDbEntityStorageConnector._PARTITION_ID_VALUE
+				this.findPartitionKey([
+					{ property: this._primaryKey.property, value: id },
+					...(conditions ?? [])
+				])
+			);
+			const conditionsMatch =
+				Is.empty(itemData) ||
+				!Is.arrayValue(conditions) ||
+				this.verifyConditions(conditions, itemData as T);
+
+			EntityStorageVersionHelper.verifyVersion(
+				id,
+				this._versionProperty,
+				expectedVersion,
+				conditionsMatch ? (itemData as T | undefined) : undefined
 			);
-			const { resource: itemData } = await item.read<ItemDefinition>();
-			if (Is.notEmpty(itemData)) {
-				if (Is.arrayValue(conditions) && !this.verifyConditions(conditions, itemData as T)) {
-					return;
-				}
 
-				await item.delete();
+			if (!Is.undefined(item) && Is.notEmpty(itemData) && conditionsMatch) {
+				// Only delete the item if it has not been changed since it was read
+				await item.delete(
+					Is.undefined(expectedVersion)
+						? undefined
+						: { accessCondition: { type: "IfMatch", condition: (itemData as Resource)._etag } }
+				);
 			}
 		} catch (err) {
+			if (
+				!Is.undefined(expectedVersion) &&
+				Is.object<{ code?: number }>(err) &&
+				(err.code === StatusCodes.PreconditionFailed || err.code === StatusCodes.NotFound)
+			) {
+				throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+			}
 			if (
 				BaseError.fromError(err) &&
 				Is.object<{ body?: { code?: string } }>(err) &&
@@ -440,6 +703,447 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 		}
 	}
 
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		const partitionKeyProperty = this._partitionKeyProperties?.find(
+			property => property !== this._primaryKey.property && property in (patch as object)
+		);
+		if (!Is.undefined(partitionKeyProperty)) {
+			throw new GeneralError(this.CLASS_NAME, "partitionKeyImmutable", {
+				property: partitionKeyProperty
+			});
+		}
+
+		try {
+			const { item, itemData } = await this.readItem(
+				id,
+				this.findPartitionKey([
+					{ property: this._primaryKey.property, value: id },
+					...(conditions ?? [])
+				])
+			);
+			if (Is.undefined(item) || Is.empty(itemData)) {
+				return;
+			}
+			if (Is.arrayValue(conditions) && !this.verifyConditions(conditions, itemData as T)) {
+				return;
+			}
+
+			const patchEntries = Object.entries(patch as object).filter(
+				([key, value]) =>
+					key !== this._primaryKey.property && key !== this._versionProperty && !Is.undefined(value)
+			);
+
+			const operations: PatchOperation[] = [];
+			for (const [key, value] of patchEntries) {
+				if (Is.null(value)) {
+					// Removing a path which does not exist is an error
+					if (!Is.undefined(itemData[key])) {
+						operations.push({ op: PatchOperationType.remove, path: `/${key}` });
+					}
+				} else {
+					operations.push({
+						op: PatchOperationType.set,
+						path: `/${key}`,
+						value: EntityStoragePatchHelper.applyPatch(itemData[key] as unknown, value)
+					});
+				}
+			}
+
+			if (!Is.undefined(this._versionProperty) && operations.length > 0) {
+				operations.push({
+					op: PatchOperationType.set,
+					path: `/${String(this._versionProperty)}`,
+					value: EntityStorageVersionHelper.generateVersion()
+				});
+			}
+
+			// There is a limit to the number of operations in a single patch request
+			for (
+				let i = 0;
+				i < operations.length;
+				i += CosmosDbEntityStorageConnector._PATCH_OPERATIONS_SIZE
+			) {
+				await item.patch(
+					operations.slice(i, i + CosmosDbEntityStorageConnector._PATCH_OPERATIONS_SIZE)
+				);
+			}
+		} catch (err) {
+			if (
+				BaseError.fromError(err) &&
+				Is.object<{ body?: { code?: string } }>(err) &&
+				err.body?.code === "NotFound"
+			) {
+				return;
+			}
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"patchFailed",
+				{
+					id
+				},
+				err
+			);
+		}
+	}
+
+	/**
+	 * Set multiple entities, if conditions are provided each entity is set individually
+	 * as the existing items need to be verified. An entity which exists with different values
+	 * for the partition key properties fails as it can not be moved to another partition.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		if (Is.arrayValue(conditions)) {
+			return EntityStorageBatchHelper.setBatch(this, entities, conditions);
+		}
+
+		const results: IEntityStorageBatchResult<T>[] = [];
+		const validIndexes: number[] = [];
+		const operations: OperationInput[] = [];
+
+		for (let i = 0; i < entities.length; i++) {
+			const id = entities[i]?.[this._primaryKey.property] as string;
+			try {
+				Guards.object<T>(this.CLASS_NAME, nameof(entities[i]), entities[i]);
+				EntitySchemaHelper.validateEntity(entities[i], this.getSchema());
+				await this.guardPartitionKeyUnchanged(id, entities[i]);
+				operations.push({
+					operationType: BulkOperationType.Upsert,
+					partitionKey: this.getPartitionKey(entities[i]),
+					resourceBody: this.entityToItem(id, entities[i]) as JSONObject
+				});
+				validIndexes.push(i);
+				results.push({ id, success: true });
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		await this.executeBulk("setFailed", results, validIndexes, operations);
+
+		return results;
+	}
+
+	/**
+	 * Get multiple entities, if a secondary index or conditions are provided, or the partition
+	 * keys are not known from the ids, each entity is retrieved individually as bulk reads can
+	 * only use the id and partition key.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		const partitionKeys = ids.map(id =>
+			this.findPartitionKey([{ property: this._primaryKey.property, value: id }])
+		);
+
+		if (
+			!Is.empty(secondaryIndex) ||
+			Is.arrayValue(conditions) ||
+			partitionKeys.some(partitionKey => Is.undefined(partitionKey))
+		) {
+			return EntityStorageBatchHelper.getBatch(this, ids, secondaryIndex, conditions);
+		}
+
+		const results: IEntityStorageBatchResult<T>[] = ids.map(id => ({ id, success: true }));
+
+		const bulkResults = await this.executeBulk(
+			"getFailed",
+			results,
+			ids.map((_, index) => index),
+			ids.map((id, index) => ({
+				operationType: BulkOperationType.Read,
+				partitionKey: partitionKeys[index],
+				id
+			}))
+		);
+
+		for (let i = 0; i < bulkResults.length; i++) {
+			const resourceBody = bulkResults[i].response?.resourceBody;
+			if (results[i].success && Is.object<ItemDefinition & Resource>(resourceBody)) {
+				results[i].entity = this.itemToEntity(resourceBody);
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Remove multiple entities, if conditions are provided, or the partition keys are not known
+	 * from the ids, each entity is removed individually as the existing items need to be verified
+	 * or found.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		const partitionKeys = ids.map(id =>
+			this.findPartitionKey([{ property: this._primaryKey.property, value: id }])
+		);
+
+		if (
+			Is.arrayValue(conditions) ||
+			partitionKeys.some(partitionKey => Is.undefined(partitionKey))
+		) {
+			return EntityStorageBatchHelper.removeBatch(this, ids, conditions);
+		}
+
+		const results: IEntityStorageBatchResult<T>[] = ids.map(id => ({ id, success: true }));
+
+		await this.executeBulk(
+			"removeFailed",
+			results,
+			ids.map((_, index) => index),
+			ids.map((id, index) => ({
+				operationType: BulkOperationType.Delete,
+				partitionKey: partitionKeys[index],
+				id
+			}))
+		);
+
+		return results;
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * All of the operations must be for entities in the same partition.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		try {
+			const batchOperations: OperationInput[] = [];
+			const batchIndexes: number[] = [];
+			const batchPartitionKeys: PartitionKey[] = [];
+
+			for (let i = 0; i < operations.length; i++) {
+				const operation = operations[i];
+				const id = EntityStorageTransactionHelper.getOperationId(
+					operation,
+					this._primaryKey.property
+				);
+
+				// Read the current item when we need to know its version or that it exists, when
+				// there is an expected version the batch is conditional on the etag of the item
+				// so that it fails if the item changes before the batch is executed
+				let partitionKey =
+					operation.type === EntityStorageTransactionOperationType.Set
+						? this.getPartitionKey(operation.entity as T)
+						: this.findPartitionKey([{ property: this._primaryKey.property, value: id }]);
+				let eTag: string | undefined;
+				if (
+					!Is.undefined(operation.expectedVersion) ||
+					operation.type === EntityStorageTransactionOperationType.Remove
+				) {
+					const existing = await this.readItem(id, partitionKey);
+					EntityStorageVersionHelper.verifyVersion(
+						id,
+						this._versionProperty,
+						operation.expectedVersion,
+						existing.itemData as T | undefined
+					);
+					eTag = existing.itemData?._etag;
+					partitionKey ??= existing.partitionKey;
+				}
+
+				if (operation.type === EntityStorageTransactionOperationType.Set) {
+					await this.guardPartitionKeyUnchanged(id, operation.entity as T);
+					batchOperations.push({
+						operationType: BulkOperationType.Upsert,
+						partitionKey,
+						ifMatch: Is.undefined(operation.expectedVersion) ? undefined : eTag,
+						resourceBody: this.entityToItem(id, operation.entity as T) as JSONObject
+					});
+					batchIndexes.push(i);
+					batchPartitionKeys.push(partitionKey as PartitionKey);
+				} else if (Is.stringValue(eTag)) {
+					// The delete input type does not include ifMatch but it is supported by the service
+					batchOperations.push({
+						operationType: BulkOperationType.Delete,
+						partitionKey,
+						id,
+						ifMatch: Is.undefined(operation.expectedVersion) ? undefined : eTag
+					} as OperationInput);
+					batchIndexes.push(i);
+					batchPartitionKeys.push(partitionKey as PartitionKey);
+				}
+			}
+
+			// A batch can only contain operations for items in the same partition
+			if (
+				batchPartitionKeys.some(
+					partitionKey => !ObjectHelper.equal(partitionKey, batchPartitionKeys[0])
+				)
+			) {
+				throw new GeneralError(this.CLASS_NAME, "transactionMultiplePartitions");
+			}
+
+			if (batchOperations.length > 0) {
+				const response = await this._container.items.batch(batchOperations, batchPartitionKeys[0]);
+
+				const batchResults = response.result ?? [];
+				for (let i = 0; i < batchResults.length; i++) {
+					const statusCode = batchResults[i].statusCode;
+					if (statusCode >= 300) {
+						const operation = operations[batchIndexes[i]];
+						const id = EntityStorageTransactionHelper.getOperationId(
+							operation,
+							this._primaryKey.property
+						);
+						if (statusCode === StatusCodes.PreconditionFailed) {
+							throw EntityStorageVersionHelper.conflictError(
+								id,
+								operation.expectedVersion as string
+							);
+						}
+						// The other operations in a failed batch report a failed dependency
+						if (statusCode !== StatusCodes.FailedDependency) {
+							throw new GeneralError(this.CLASS_NAME, "transactionOperationFailed", {
+								id,
+								statusCode
+							});
+						}
+					}
+				}
+			}
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "transactionFailed", undefined, err);
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities by polling the change feed for the container.
+	 * The change feed only contains the latest version of each item, so creations are notified
+	 * as updates and removals are not notified.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		const subscriptionId = this._changeEmitter.subscribe(conditions, callback);
+
+		if (Is.undefined(this._changeFeed)) {
+			try {
+				const changeFeed = this._container.items.getChangeFeedIterator<ItemDefinition>({
+					changeFeedStartFrom: ChangeFeedStartFrom.Now(
+						Is.undefined(this._partitionKeyProperties)
+							? CosmosDbEntityStorageConnector._PARTITION_ID_VALUE
+							: undefined
+					),
+					changeFeedMode: ChangeFeedMode.LatestVersion
+				});
+				this._changeFeed = changeFeed;
+				// The first read establishes the starting point for the changes
+				await changeFeed.readNext();
+				this.scheduleChangeFeedPoll(changeFeed);
+			} catch (err) {
+				this._changeFeed = undefined;
+				this._changeEmitter.unsubscribe(subscriptionId);
+				throw new GeneralError(this.CLASS_NAME, "subscribeFailed", undefined, err);
+			}
+		}
+
+		return subscriptionId;
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		this._changeEmitter.unsubscribe(subscriptionId);
+
+		if (!this._changeEmitter.hasSubscriptions()) {
+			this._changeFeed = undefined;
+			if (!Is.undefined(this._changeFeedTimer)) {
+				clearTimeout(this._changeFeedTimer);
+				this._changeFeedTimer = undefined;
+			}
+		}
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		try {
+			const attributeNames: { [id: string]: string } = {};
+			const attributeValues: { [id: string]: unknown } = {};
+			let queryClause = this.buildQueryParameters("", conditions, attributeNames, attributeValues);
+
+			if (queryClause.length > 0) {
+				queryClause = ` WHERE ${queryClause}`;
+			}
+
+			const querySpecs: SqlQuerySpec = {
+				query: `SELECT VALUE COUNT(1) FROM c${queryClause}`,
+				parameters: Object.keys(attributeValues).map(
+					key => ({ name: `@${key}`, value: attributeValues[key] }) as SqlParameter
+				)
+			};
+
+			// If the conditions do not contain the partition key the query is made across all the partitions
+			const feedResponse = await this._container.items
+				.query<number>(querySpecs, {
+					partitionKey: this.findPartitionKey(this.getEqualityValues(conditions))
+				})
+				.fetchAll();
+
+			return feedResponse.resources.reduce((total, value) => total + value, 0);
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "countFailed", undefined, err);
+		}
+	}
+
 	/**
 	 * Find all the entities which match the conditions.
 	 * @param conditions The conditions to match for the entities.
@@ -490,22 +1194,21 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 			let queryClause = this.buildQueryParameters("", conditions, attributeNames, attributeValues);
 
 			if (queryClause.length > 0) {
-				queryClause = ` AND ${queryClause}`;
+				queryClause = ` WHERE ${queryClause}`;
 			}
 
 			const querySpecs: SqlQuerySpec = {
-				query: `SELECT ${properties ? properties.map(p => `c.${p as string}`).join(", ") : "*"} FROM c WHERE c.partitionId = @partitionId ${queryClause} ${orderByClause}`,
-				parameters: [
-					{ name: "@partitionId", value: CosmosDbEntityStorageConnector._PARTITION_ID_VALUE },
-					...Object.keys(attributeValues).map(
-						key => ({ name: `@${key}`, value: attributeValues[key] }) as SqlParameter
-					)
-				]
+				query: `SELECT ${properties ? properties.map(p => `c.${p as string}`).join(", ") : "*"} FROM c${queryClause} ${orderByClause}`,
+				parameters: Object.keys(attributeValues).map(
+					key => ({ name: `@${key}`, value: attributeValues[key] }) as SqlParameter
+				)
 			};
 
+			// If the conditions do not contain the partition key the query is made across all the partitions
 			const feedOptions: FeedOptions = {
 				maxItemCount: returnSize,
-				continuationToken: cursor
+				continuationToken: cursor,
+				partitionKey: this.findPartitionKey(this.getEqualityValues(conditions))
 			};
 
 			const feedResponse = await this._container.items.query(querySpecs, feedOptions).fetchNext();
@@ -525,9 +1228,11 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 	 */
 	public async containerDelete(): Promise<void> {
 		try {
-			await this._container.deleteAllItemsForPartitionKey(
-				CosmosDbEntityStorageConnector._PARTITION_ID_VALUE
-			);
+			if (Is.undefined(this._partitionKeyProperties)) {
+				await this._container.deleteAllItemsForPartitionKey(
+					CosmosDbEntityStorageConnector._PARTITION_ID_VALUE
+				);
+			}
 			await this._container.delete();
 		} catch {
 			// Ignore errors
@@ -744,18 +1449,317 @@ export class CosmosDbEntityStorageConnector<T = unknown> implements IEntityStora
 	}
 
 	/**
-	 * Convert an entity to an item.
+	 * Execute bulk operations and update the results for any which failed, a not found
+	 * status is not treated as a failure.
+	 * @param failedMessage The message to use for failed operations.
+	 * @param results The results to update.
+	 * @param indexes The indexes of the results for each of the operations.
+	 * @param operations The operations to execute.
+	 * @returns The results of the bulk operations.
+	 * @internal
+	 */
+	private async executeBulk(
+		failedMessage: string,
+		results: IEntityStorageBatchResult<T>[],
+		indexes: number[],
+		operations: OperationInput[]
+	): Promise<BulkOperationResult[]> {
+		if (operations.length === 0) {
+			return [];
+		}
+
+		try {
+			const bulkResults = await this._container.items.executeBulkOperations(operations);
+
+			for (let i = 0; i < bulkResults.length; i++) {
+				const statusCode =
+					bulkResults[i].response?.statusCode ?? Coerce.number(bulkResults[i].error?.code);
+				if (statusCode !== 404 && (Is.empty(statusCode) || statusCode >= 300)) {
+					const result = results[indexes[i]];
+					result.success = false;
+					result.error = this.batchItemError(
+						failedMessage,
+						result.id,
+						bulkResults[i].error ?? { statusCode }
+					);
+				}
+			}
+
+			return bulkResults;
+		} catch (err) {
+			for (const index of indexes) {
+				results[index].success = false;
+				results[index].error = this.batchItemError(failedMessage, results[index].id, err);
+			}
+			return [];
+		}
+	}
+
+	/**
+	 * Create the error for an item in a batch.
+	 * @param failedMessage The message to use if the error is not a missing container.
+	 * @param id The id of the item.
+	 * @param err The error that occurred.
+	 * @returns The error.
+	 * @internal
+	 */
+	private batchItemError(failedMessage: string, id: string, err: unknown): IError {
+		if (BaseError.isErrorCode(err, "NotFound")) {
+			return new GeneralError(
+				this.CLASS_NAME,
+				"containerDoesNotExist",
+				{
+					container: this._config.containerId
+				},
+				err
+			).toJsonObject();
+		}
+		return new GeneralError(this.CLASS_NAME, failedMessage, { id }, err).toJsonObject();
+	}
+
+	/**
+	 * Schedule the next poll of the change feed, if it is still the active change feed.
+	 * @param changeFeed The change feed to poll.
+	 * @internal
+	 */
+	private scheduleChangeFeedPoll(changeFeed: ChangeFeedPullModelIterator<ItemDefinition>): void {
+		if (this._changeFeed !== changeFeed) {
+			return;
+		}
+		this._changeFeedTimer = setTimeout(async () => {
+			this._changeFeedTimer = undefined;
+			try {
+				const response = await changeFeed.readNext();
+				if (response.statusCode !== StatusCodes.NotModified) {
+					for (const item of response.result) {
+						const entity = this.itemToEntity(item);
+						await this._changeEmitter.notify({
+							type: EntityStorageChangeType.Updated,
+							id: entity[this._primaryKey.property] as string,
+							entity
+						});
+					}
+				}
+			} catch {
+				// Failed polls are retried on the next interval
+			}
+			this.scheduleChangeFeedPoll(changeFeed);
+		}, CosmosDbEntityStorageConnector._CHANGE_FEED_POLL_INTERVAL);
+	}
+
+	/**
+	 * Get the definition of the partition key for the container, more than one property creates
+	 * a hierarchical partition key.
+	 * @returns The partition key definition.
+	 * @internal
+	 */
+	private getPartitionKeyDefinition(): PartitionKeyDefinition {
+		if (Is.undefined(this._partitionKeyProperties)) {
+			return {
+				kind: PartitionKeyKind.Hash,
+				paths: [CosmosDbEntityStorageConnector._PARTITION_ID_PATH]
+			};
+		}
+		return {
+			kind:
+				this._partitionKeyProperties.length > 1
+					? PartitionKeyKind.MultiHash
+					: PartitionKeyKind.Hash,
+			paths: this._partitionKeyProperties.map(property => `/${String(property)}`),
+			version: PartitionKeyDefinitionVersion.V2
+		};
+	}
+
+	/**
+	 * Get the throughput to provision for the container.
+	 * @returns The throughput properties for the container request.
+	 * @internal
+	 */
+	private getThroughput(): Pick<ContainerRequest, "throughput" | "maxThroughput"> {
+		const mode = this._config.throughput?.mode ?? CosmosDbEntityStorageThroughputMode.Manual;
+		if (mode === CosmosDbEntityStorageThroughputMode.Autoscale) {
+			return {
+				maxThroughput:
+					this._config.throughput?.throughput ??
+					CosmosDbEntityStorageConnector._AUTOSCALE_THROUGHPUT
+			};
+		} else if (mode === CosmosDbEntityStorageThroughputMode.Manual) {
+			return {
+				throughput:
+					this._config.throughput?.throughput ?? CosmosDbEntityStorageConnector._THROUGHPUT
+			};
+		}
+		return {};
+	}
+
+	/**
+	 * Get the partition key for an entity.
+	 * @param entity The entity to get the partition key for.
+	 * @returns The partition key.
+	 * @throws GeneralError if the entity does not have a value for all of the partition key properties.
+	 * @internal
+	 */
+	private getPartitionKey(entity: Partial<T>): PartitionKey {
+		const partitionKey = this.findPartitionKey(
+			(this._partitionKeyProperties ?? []).map(property => ({ property, value: entity[property] }))
+		);
+		if (Is.undefined(partitionKey)) {
+			throw new GeneralError(this.CLASS_NAME, "partitionKeyMissing", {
+				properties: this._partitionKeyProperties?.join(", ")
+			});
+		}
+		return partitionKey;
+	}
+
+	/**
+	 * Find the partition key from the values of properties, such as the id and the conditions
+	 * for an operation.
+	 * @param values The values of the properties.
+	 * @returns The partition key, or undefined if there is not a value for all of the partition key properties.
+	 * @internal
+	 */
+	private findPartitionKey(
+		values: { property: keyof T; value: unknown }[]
+	): PartitionKey | undefined {
+		if (Is.undefined(this._partitionKeyProperties)) {
+			return CosmosDbEntityStorageConnector._PARTITION_ID_VALUE;
+		}
+		const partitionKey: (string | number | boolean)[] = [];
+		for (const property of this._partitionKeyProperties) {
+			const value = values.find(v => v.property === property)?.value;
+			if (!Is.string(value) && !Is.number(value) && !Is.boolean(value)) {
+				return undefined;
+			}
+			partitionKey.push(value);
+		}
+		return partitionKey.length === 1 ? partitionKey[0] : partitionKey;
+	}
+
+	/**
+	 * Guard that setting an entity does not change its partition key, the id is only unique within
+	 * a partition so an upsert to a different partition would create a second item with the id.
+	 * @param id The id of the entity.
+	 * @param entity The entity being set.
+	 * @throws GeneralError if an item with the id exists with different values for the partition key properties.
+	 * @internal
+	 */
+	private async guardPartitionKeyUnchanged(id: string, entity: T): Promise<void> {
+		// When the id is the only partition key property the item can only be in one partition
+		const properties = (this._partitionKeyProperties ?? []).filter(
+			property => property !== this._primaryKey.property
+		);
+		if (properties.length === 0) {
+			return;
+		}
+
+		const { itemData } = await this.readItem(id);
+		const changedProperty = Is.undefined(itemData)
+			? undefined
+			: properties.find(
+					property => !ObjectHelper.equal(itemData[String(property)], entity[property])
+				);
+		if (!Is.undefined(changedProperty)) {
+			throw new GeneralError(this.CLASS_NAME, "partitionKeyImmutable", {
+				property: changedProperty
+			});
+		}
+	}
+
+	/**
+	 * Get the values which properties must be equal to for an entity to match the conditions.
+	 * @param condition The conditions to get the values from.
+	 * @returns The values of the properties.
+	 * @internal
+	 */
+	private getEqualityValues(
+		condition: EntityCondition<T> | undefined
+	): { property: keyof T; value: unknown }[] {
+		if (Is.undefined(condition)) {
+			return [];
+		}
+		if ("conditions" in condition) {
+			// Only the conditions which must all be matched restrict the values
+			return (condition.logicalOperator ?? LogicalOperator.And) === LogicalOperator.And
+				? condition.conditions.flatMap(c => this.getEqualityValues(c))
+				: [];
+		}
+		return condition.comparison === ComparisonOperator.Equals
+			? [{ property: condition.property as keyof T, value: condition.value }]
+			: [];
+	}
+
+	/**
+	 * Read an item, if the partition key is not known the item is found using a query across
+	 * all the partitions.
+	 * @param id The id of the item to read.
+	 * @param partitionKey The partition key for the item if it is known.
+	 * @returns The item with its data and partition key, which are undefined if the item does not exist.
+	 * @internal
+	 */
+	private async readItem(
+		id: string,
+		partitionKey?: PartitionKey
+	): Promise<{ item?: Item; itemData?: ItemDefinition & Resource; partitionKey?: PartitionKey }> {
+		if (Is.undefined(partitionKey)) {
+			const { resources: items } = await this._container.items
+				.query<ItemDefinition & Resource>({
+					query: "SELECT * FROM c WHERE c.id = @id",
+					parameters: [{ name: "@id", value: id }]
+				})
+				.fetchAll();
+			if (items.length === 0) {
+				return {};
+			}
+			const itemPartitionKey = this.getPartitionKey(items[0] as T);
+			return {
+				item: this._container.item(id, itemPartitionKey),
+				itemData: items[0],
+				partitionKey: itemPartitionKey
+			};
+		}
+
+		const item = this._container.item(id, partitionKey);
+		const { resource: itemData } = await item.read<ItemDefinition>();
+		return { item, itemData, partitionKey };
+	}
+
+	/**
+	 * Convert an entity to an item with a new version, the item expires with the entity.
+	 * @param id The id of the entity.
+	 * @param entity The entity to convert.
+	 * @returns The item.
+	 * @internal
+	 */
+	private entityToItem(id: string, entity: T): ItemDefinition {
+		const item: ItemDefinition = {
+			id,
+			...EntityStorageVersionHelper.nextVersion(entity, this._versionProperty),
+			ttl: EntityStorageExpiryHelper.getTimeToLive(entity, this._expiryProperty)
+		};
+		// Without partition key properties all the items are stored in the same partition
+		if (Is.undefined(this._partitionKeyProperties)) {
+			item[CosmosDbEntityStorageConnector._PARTITION_ID_NAME] =
+				CosmosDbEntityStorageConnector._PARTITION_ID_VALUE;
+		}
+		return item;
+	}
+
+	/**
+	 * Convert an item to an entity.
 	 * @param item The item to convert.
 	 * @returns The entity.
 	 * @internal
 	 */
 	private itemToEntity(item: (ItemDefinition & Resource) | undefined): T {
-		ObjectHelper.propertyDelete(item, "partitionId");
+		if (Is.undefined(this._partitionKeyProperties)) {
+			ObjectHelper.propertyDelete(item, CosmosDbEntityStorageConnector._PARTITION_ID_NAME);
+		}
 		ObjectHelper.propertyDelete(item, "_attachments");
 		ObjectHelper.propertyDelete(item, "_etag");
 		ObjectHelper.propertyDelete(item, "_rid");
 		ObjectHelper.propertyDelete(item, "_self");
 		ObjectHelper.propertyDelete(item, "_ts");
+		ObjectHelper.propertyDelete(item, "ttl");
 		return item as T;
 	}
 }
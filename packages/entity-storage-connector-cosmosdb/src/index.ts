@@ -3,3 +3,6 @@
 export * from "./cosmosDbEntityStorageConnector";
 export * from "./models/ICosmosDbEntityStorageConnectorConfig";
 export * from "./models/ICosmosDbEntityStorageConnectorConstructorOptions";
+export * from "./models/ICosmosDbEntityStorageConnectorRetryConfig";
+export * from "./models/ICosmosDbEntityStorageConnectorThroughputConfig";
+export * from "./models/cosmosDbEntityStorageThroughputMode";
@@ -1,5 +1,7 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
+import type { ICosmosDbEntityStorageConnectorRetryConfig } from "./ICosmosDbEntityStorageConnectorRetryConfig";
+import type { ICosmosDbEntityStorageConnectorThroughputConfig } from "./ICosmosDbEntityStorageConnectorThroughputConfig";
 
 /**
  * Configuration for the Cosmos DB Entity Storage Connector.
@@ -24,4 +26,22 @@ export interface ICosmosDbEntityStorageConnectorConfig {
 	 * The ID of the container for the storage.
 	 */
 	containerId: string;
+
+	/**
+	 * The properties of the entity to use as the partition key, up to three properties can be
+	 * provided to create a hierarchical partition key, the values of the properties can not be
+	 * changed once an entity is stored, defaults to storing all the entities in a single partition.
+	 */
+	partitionKeyProperties?: string[];
+
+	/**
+	 * The throughput provisioned when the container is created, defaults to 400 request units
+	 * per second.
+	 */
+	throughput?: ICosmosDbEntityStorageConnectorThroughputConfig;
+
+	/**
+	 * The retries for requests which are throttled by the Cosmos DB instance.
+	 */
+	retry?: ICosmosDbEntityStorageConnectorRetryConfig;
 }
@@ -0,0 +1,18 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Configuration for retrying the requests which are throttled by the Cosmos DB instance, the
+ * requests are retried after the time returned by the instance.
+ */
+export interface ICosmosDbEntityStorageConnectorRetryConfig {
+	/**
+	 * The maximum number of times a throttled request is retried, defaults to 9.
+	 */
+	maxRetries?: number;
+
+	/**
+	 * The maximum time in milliseconds to wait for the retries of a request, defaults to 30000.
+	 */
+	maxWaitTime?: number;
+}
@@ -0,0 +1,19 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { CosmosDbEntityStorageThroughputMode } from "./cosmosDbEntityStorageThroughputMode";
+
+/**
+ * Configuration for the throughput provisioned when the container is created.
+ */
+export interface ICosmosDbEntityStorageConnectorThroughputConfig {
+	/**
+	 * The mode for the throughput, defaults to manual.
+	 */
+	mode?: CosmosDbEntityStorageThroughputMode;
+
+	/**
+	 * The request units per second in manual mode, defaults to 400, or the maximum request units
+	 * per second in autoscale mode, defaults to 1000, it is not used in serverless mode.
+	 */
+	throughput?: number;
+}
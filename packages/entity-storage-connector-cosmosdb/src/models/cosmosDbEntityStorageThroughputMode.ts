@@ -0,0 +1,29 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The modes for the throughput provisioned for the container.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const CosmosDbEntityStorageThroughputMode = {
+	/**
+	 * A fixed number of request units per second are provisioned.
+	 */
+	Manual: "manual",
+
+	/**
+	 * The request units per second are scaled automatically up to a maximum.
+	 */
+	Autoscale: "autoscale",
+
+	/**
+	 * No throughput is provisioned, the account must be a serverless account.
+	 */
+	Serverless: "serverless"
+} as const;
+
+/**
+ * The modes for the throughput provisioned for the container.
+ */
+export type CosmosDbEntityStorageThroughputMode =
+	(typeof CosmosDbEntityStorageThroughputMode)[keyof typeof CosmosDbEntityStorageThroughputMode];
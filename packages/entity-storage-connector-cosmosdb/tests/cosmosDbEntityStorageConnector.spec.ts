@@ -11,7 +11,11 @@ import {
 	property
 } from "@twin.org/entity";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
-import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType,
+	type IEntityStorageChange
+} from "@twin.org/entity-storage-models";
 import {
 	EntityStorageLoggingConnector,
 	type LogEntry,
@@ -21,6 +25,7 @@ import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
 import { TEST_COSMOS_CONFIG } from "./setupTestEnv";
 import { CosmosDbEntityStorageConnector } from "../src/cosmosDbEntityStorageConnector";
+import { CosmosDbEntityStorageThroughputMode } from "../src/models/cosmosDbEntityStorageThroughputMode";
 import type { ICosmosDbEntityStorageConnectorConfig } from "../src/models/ICosmosDbEntityStorageConnectorConfig";
 
 /**
@@ -35,6 +40,30 @@ class SubType {
 	public field1!: string;
 }
 
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
 /**
  * Test Type Definition.
  */
@@ -84,6 +113,36 @@ class TestType {
 	}[];
 }
 
+/**
+ * Test Tenant Type Definition.
+ */
+@entity()
+class TestTenantType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Node Identity.
+	 */
+	@property({ type: "string" })
+	public nodeIdentity!: string;
+
+	/**
+	 * User Identity.
+	 */
+	@property({ type: "string" })
+	public userIdentity!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+}
+
 let memoryEntityStorage: MemoryEntityStorageConnector<LogEntry>;
 const config: ICosmosDbEntityStorageConnectorConfig = TEST_COSMOS_CONFIG;
 
@@ -93,6 +152,12 @@ describe("CosmosDbEntityStorageConnector", () => {
 
 		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
 		EntitySchemaFactory.register(nameof<SubType>(), () => EntitySchemaHelper.getSchema(SubType));
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
+		EntitySchemaFactory.register(nameof<TestTenantType>(), () =>
+			EntitySchemaHelper.getSchema(TestTenantType)
+		);
 
 		initSchema();
 	});
@@ -174,6 +239,42 @@ describe("CosmosDbEntityStorageConnector", () => {
 		expect(I18n.hasMessage("info.cosmosDbEntityStorageConnector.containerExists")).toEqual(true);
 	});
 
+	test("can fail to construct when the partition key properties are not in the schema", async () => {
+		expect(
+			() =>
+				new CosmosDbEntityStorageConnector<TestTenantType>({
+					entitySchema: nameof<TestTenantType>(),
+					config: { ...config, partitionKeyProperties: ["nodeIdentity", "tenant"] }
+				})
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "cosmosDbEntityStorageConnector.partitionKeyInvalid",
+				properties: {
+					properties: "nodeIdentity, tenant"
+				}
+			})
+		);
+	});
+
+	test("can fail to construct when the throughput mode is not valid", async () => {
+		expect(
+			() =>
+				new CosmosDbEntityStorageConnector<TestTenantType>({
+					entitySchema: nameof<TestTenantType>(),
+					config: {
+						...config,
+						throughput: { mode: "dedicated" as CosmosDbEntityStorageThroughputMode }
+					}
+				})
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.arrayOneOf"
+			})
+		);
+	});
+
 	test("can fail to set an item with no entity", async () => {
 		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
@@ -429,6 +530,232 @@ describe("CosmosDbEntityStorageConnector", () => {
 		expect(result).toBeUndefined();
 	});
 
+	test("can set a batch of items", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: 22 }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const result = await entityStorage.get("2");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can get a batch of items", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results.map(r => r.id)).toEqual(["2", "3", "1"]);
+		expect(results.every(r => r.success)).toEqual(true);
+		expect(results[0].entity?.value1).toEqual("bbb");
+		expect(results[1].entity).toBeUndefined();
+		expect(results[2].entity?.value1).toEqual("aaa");
+	});
+
+	test("can remove a batch of items", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		expect(await entityStorage.get("1")).toBeUndefined();
+		expect(await entityStorage.get("2")).toBeDefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the transaction capability", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().transactions).toEqual(true);
+	});
+
+	test("can set and remove items in a transaction", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "aaa", value2: 11 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+		]);
+
+		expect(await entityStorage.get("1")).toBeDefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the subscription capability", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(true);
+	});
+
+	test("can subscribe to the changes made to items", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await vi.waitFor(() => expect(changes.map(c => c.id)).toContain("1"), { timeout: 5000 });
+		await entityStorage.unsubscribe(subscriptionId);
+		expect(changes[0].entity?.value1).toEqual("aaa");
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { ...config, containerId: `${config.containerId}expiring` }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 1);
+		await entityStorage.set({ id: "2", value1: "bbb" }, undefined, undefined, 60);
+
+		await vi.waitFor(async () => expect(await entityStorage.get("1")).toBeUndefined(), {
+			timeout: 5000
+		});
+		const item = await entityStorage.get("2");
+		expect(item?.entityExpiry).toBeGreaterThan(Date.now() / 1000);
+		const result = await entityStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await entityStorage.count()).toEqual(1);
+		await entityStorage.containerDelete();
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: 1 }, undefined, undefined, 60)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
+	test("can count items with empty store", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "bbb",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("patched");
+		expect(result?.value2).toEqual(11);
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
 	test("can find items with empty store", async () => {
 		const entityStorage = new CosmosDbEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
@@ -667,4 +994,122 @@ describe("CosmosDbEntityStorageConnector", () => {
 		expect(result).toBeDefined();
 		expect(result.entities.length).toEqual(5);
 	});
+
+	test("can store items using a hierarchical partition key", async () => {
+		const entityStorage = new CosmosDbEntityStorageConnector<TestTenantType>({
+			entitySchema: nameof<TestTenantType>(),
+			config: {
+				...config,
+				containerId: `${config.containerId}-tenant`,
+				partitionKeyProperties: ["nodeIdentity", "userIdentity"],
+				throughput: { mode: CosmosDbEntityStorageThroughputMode.Autoscale },
+				retry: { maxRetries: 5, maxWaitTime: 10000 }
+			}
+		});
+
+		try {
+			await entityStorage.bootstrap();
+			await entityStorage.set({
+				id: "1",
+				nodeIdentity: "node-1",
+				userIdentity: "user-1",
+				value1: "a"
+			});
+			await entityStorage.set({
+				id: "2",
+				nodeIdentity: "node-1",
+				userIdentity: "user-1",
+				value1: "b"
+			});
+			await entityStorage.set({
+				id: "3",
+				nodeIdentity: "node-2",
+				userIdentity: "user-1",
+				value1: "c"
+			});
+
+			// Read directly from the partition, or across the partitions without the partition key
+			expect(
+				await entityStorage.get("1", undefined, [
+					{ property: "nodeIdentity", value: "node-1" },
+					{ property: "userIdentity", value: "user-1" }
+				])
+			).toEqual({ id: "1", nodeIdentity: "node-1", userIdentity: "user-1", value1: "a" });
+			expect(
+				await entityStorage.get("1", undefined, [
+					{ property: "nodeIdentity", value: "node-2" },
+					{ property: "userIdentity", value: "user-1" }
+				])
+			).toBeUndefined();
+			const entity3 = await entityStorage.get("3");
+			expect(entity3?.value1).toEqual("c");
+
+			const result = await entityStorage.query({
+				conditions: [
+					{ property: "nodeIdentity", comparison: ComparisonOperator.Equals, value: "node-1" },
+					{ property: "userIdentity", comparison: ComparisonOperator.Equals, value: "user-1" }
+				]
+			});
+			expect(result.entities.map(e => e.id).sort()).toEqual(["1", "2"]);
+			expect(await entityStorage.count()).toEqual(3);
+
+			await expect(entityStorage.patch("1", { nodeIdentity: "node-2" })).rejects.toMatchObject({
+				name: "GeneralError",
+				message: "cosmosDbEntityStorageConnector.partitionKeyImmutable",
+				properties: { property: "nodeIdentity" }
+			});
+			await entityStorage.patch("1", { value1: "aa" });
+			const entity1 = await entityStorage.get("1");
+			expect(entity1?.value1).toEqual("aa");
+
+			await expect(
+				entityStorage.set({ id: "1", nodeIdentity: "node-2", userIdentity: "user-1", value1: "d" })
+			).rejects.toMatchObject({
+				name: "GeneralError",
+				message: "cosmosDbEntityStorageConnector.partitionKeyImmutable",
+				properties: { property: "nodeIdentity" }
+			});
+			const setBatchResults = await entityStorage.setBatch([
+				{ id: "1", nodeIdentity: "node-2", userIdentity: "user-1", value1: "d" }
+			]);
+			expect(setBatchResults[0].success).toEqual(false);
+			expect(await entityStorage.count()).toEqual(3);
+
+			const mismatchedStorage = new CosmosDbEntityStorageConnector<TestTenantType>({
+				entitySchema: nameof<TestTenantType>(),
+				config: {
+					...config,
+					containerId: `${config.containerId}-tenant`,
+					partitionKeyProperties: ["nodeIdentity"]
+				}
+			});
+			await expect(mismatchedStorage.bootstrap()).rejects.toMatchObject({
+				name: "GeneralError",
+				message: "cosmosDbEntityStorageConnector.containerPartitionKeyMismatch",
+				properties: {
+					paths: "/nodeIdentity, /userIdentity",
+					expectedPaths: "/nodeIdentity"
+				}
+			});
+
+			await expect(
+				entityStorage.transaction([
+					{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+					{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+				])
+			).rejects.toMatchObject({
+				name: "GeneralError",
+				message: "cosmosDbEntityStorageConnector.transactionFailed",
+				inner: {
+					name: "GeneralError",
+					message: "cosmosDbEntityStorageConnector.transactionMultiplePartitions"
+				}
+			});
+
+			await entityStorage.removeBatch(["2", "3"]);
+			expect(await entityStorage.count()).toEqual(1);
+		} finally {
+			await entityStorage.containerDelete();
+		}
+	});
 });
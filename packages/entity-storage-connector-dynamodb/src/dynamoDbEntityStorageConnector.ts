@@ -6,13 +6,19 @@ import {
 	DynamoDB,
 	type GlobalSecondaryIndex,
 	QueryCommand,
+	TransactionCanceledException,
 	waitUntilTableExists
 } from "@aws-sdk/client-dynamodb";
 import {
+	BatchGetCommand,
+	BatchWriteCommand,
+	type BatchWriteCommandInput,
 	DeleteCommand,
 	DynamoDBDocumentClient,
 	GetCommand,
-	PutCommand
+	PutCommand,
+	TransactWriteCommand,
+	UpdateCommand
 } from "@aws-sdk/lib-dynamodb";
 import { type NativeAttributeValue, unmarshall } from "@aws-sdk/util-dynamodb";
 import {
@@ -21,6 +27,7 @@ import {
 	Converter,
 	GeneralError,
 	Guards,
+	type IError,
 	Is,
 	ObjectHelper
 } from "@twin.org/core";
@@ -36,7 +43,20 @@ import {
 	LogicalOperator,
 	SortDirection
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageBatchHelper,
+	EntityStorageChangeEmitter,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
 import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
 import type { IDynamoDbEntityStorageConnectorConfig } from "./models/IDynamoDbEntityStorageConnectorConfig";
@@ -64,6 +84,30 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 	 */
 	private static readonly _PARTITION_ID_VALUE: string = "1";
 
+	/**
+	 * The maximum number of items in a batch write.
+	 * @internal
+	 */
+	private static readonly _BATCH_WRITE_SIZE: number = 25;
+
+	/**
+	 * The maximum number of items in a batch get.
+	 * @internal
+	 */
+	private static readonly _BATCH_GET_SIZE: number = 100;
+
+	/**
+	 * The maximum number of times unprocessed items in a batch are retried.
+	 * @internal
+	 */
+	private static readonly _BATCH_MAX_RETRIES: number = 5;
+
+	/**
+	 * The delay in milliseconds before the first retry of unprocessed items, which doubles for each retry.
+	 * @internal
+	 */
+	private static readonly _BATCH_RETRY_DELAY: number = 50;
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -75,6 +119,18 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 	 */
 	private readonly _entitySchema: IEntitySchema<T>;
 
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
 	/**
 	 * The primary key.
 	 * @internal
@@ -113,6 +169,8 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 		Guards.stringValue(this.CLASS_NAME, nameof(options.config.tableName), options.config.tableName);
 
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
 
 		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
 
@@ -229,6 +287,18 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 					}
 				);
 
+				// The expired items are deleted by DynamoDB, this can take some time
+				// so they are also excluded when reading
+				if (!Is.undefined(this._expiryProperty)) {
+					await dbConnection.updateTimeToLive({
+						TableName: this._config.tableName,
+						TimeToLiveSpecification: {
+							AttributeName: this._expiryProperty as string,
+							Enabled: true
+						}
+					});
+				}
+
 				await nodeLogging?.log({
 					level: "info",
 					source: this.CLASS_NAME,
@@ -289,6 +359,17 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: true,
+			subscriptions: false
+		};
+	}
+
 	/**
 	 * Get an entity.
 	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
@@ -319,7 +400,9 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 				const response = await docClient.send(getCommand);
 
 				delete response.Item?.[DynamoDbEntityStorageConnector._PARTITION_ID_NAME];
-				return response.Item as T;
+				return EntityStorageExpiryHelper.isExpired(response.Item as T, this._expiryProperty)
+					? undefined
+					: (response.Item as T);
 			}
 
 			const finalConditions: EntityCondition<T> = {
@@ -376,36 +459,57 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
 
 		const id = entity[this._primaryKey.property];
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+		const expiringEntity = EntityStorageExpiryHelper.applyTimeToLive(
+			entity,
+			this._expiryProperty,
+			timeToLive
+		);
+
 		try {
 			const docClient = this.createDocClient();
 
 			const { conditionExpression, attributeNames, attributeValues } =
-				this.buildConditionExpression(conditions);
+				this.buildConditionExpression(this.addVersionCondition(conditions, expectedVersion));
+
+			// Only set the condition expression if we have conditions to match
+			// and the primary key exists, otherwise we are creating a new object,
+			// if an expected version is provided the object must already exist
+			let finalConditionExpression: string | undefined;
+			if (!Is.undefined(expectedVersion)) {
+				finalConditionExpression = `attribute_exists(${this._primaryKey.property as string}) AND ${conditionExpression}`;
+			} else if (Is.stringValue(conditionExpression)) {
+				finalConditionExpression = `(attribute_exists(${this._primaryKey.property as string}) AND ${conditionExpression}) OR attribute_not_exists(${this._primaryKey.property as string})`;
+			}
 
 			const putCommand = new PutCommand({
 				TableName: this._config.tableName,
 				Item: {
 					[DynamoDbEntityStorageConnector._PARTITION_ID_NAME]:
 						DynamoDbEntityStorageConnector._PARTITION_ID_VALUE,
-					...entity
+					...EntityStorageVersionHelper.nextVersion(expiringEntity, this._versionProperty)
 				} as { [id: string]: unknown },
-				// Only set the condition expression if we have conditions to match
-				// and the primary key exists, otherwise we are creating a new object
-				ConditionExpression: Is.stringValue(conditionExpression)
-					? `(attribute_exists(${this._primaryKey.property as string}) AND ${conditionExpression}) OR attribute_not_exists(${this._primaryKey.property as string})`
-					: undefined,
+				ConditionExpression: finalConditionExpression,
 				ExpressionAttributeNames: attributeNames,
 				ExpressionAttributeValues: attributeValues
 			});
@@ -413,6 +517,9 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 			await docClient.send(putCommand);
 		} catch (err) {
 			if (BaseError.isErrorName(err, "ConditionalCheckFailedException")) {
+				if (!Is.undefined(expectedVersion)) {
+					throw EntityStorageVersionHelper.conflictError(id as string, expectedVersion);
+				}
 				return;
 			}
 
@@ -442,19 +549,24 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+
 		try {
 			const docClient = this.createDocClient();
 
 			const { conditionExpression, attributeNames, attributeValues } =
-				this.buildConditionExpression(conditions);
+				this.buildConditionExpression(this.addVersionCondition(conditions, expectedVersion));
 
 			const deleteCommand = new DeleteCommand({
 				TableName: this._config.tableName,
@@ -471,6 +583,9 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 			await docClient.send(deleteCommand);
 		} catch (err) {
 			if (BaseError.isErrorName(err, "ConditionalCheckFailedException")) {
+				if (!Is.undefined(expectedVersion)) {
+					throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+				}
 				return;
 			}
 			if (BaseError.isErrorCode(err, "ResourceNotFoundException")) {
@@ -495,6 +610,492 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 		}
 	}
 
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		try {
+			const { conditionExpression, attributeNames, attributeValues } =
+				this.buildConditionExpression(conditions);
+
+			const updateNames: { [id: string]: string } = { ...attributeNames };
+			const updateValues: { [key: string]: NativeAttributeValue } = { ...attributeValues };
+			const setExpressions: string[] = [];
+			const removeExpressions: string[] = [];
+			let existing: T | undefined;
+
+			const patchEntries = Object.entries(patch as object).filter(
+				([key, value]) =>
+					key !== this._primaryKey.property && key !== this._versionProperty && !Is.undefined(value)
+			);
+
+			for (const [key, value] of patchEntries) {
+				const attributeName = `#patch${setExpressions.length + removeExpressions.length}`;
+				updateNames[attributeName] = key;
+				if (Is.null(value)) {
+					removeExpressions.push(attributeName);
+				} else {
+					let finalValue = value;
+					if (Is.object(value)) {
+						// Nested paths can only be updated if their parents already exist
+						// so nested objects are merged with the currently stored value
+						existing = existing ?? (await this.get(id, undefined, conditions));
+						if (Is.undefined(existing)) {
+							return;
+						}
+						finalValue = EntityStoragePatchHelper.applyPatch(
+							existing[key as keyof T] as unknown,
+							value
+						);
+					}
+					const attributeValueName = `:${attributeName.slice(1)}`;
+					updateValues[attributeValueName] = finalValue;
+					setExpressions.push(`${attributeName} = ${attributeValueName}`);
+				}
+			}
+
+			if (
+				!Is.undefined(this._versionProperty) &&
+				setExpressions.length + removeExpressions.length > 0
+			) {
+				updateNames["#patchVersion"] = this._versionProperty as string;
+				updateValues[":patchVersion"] = EntityStorageVersionHelper.generateVersion();
+				setExpressions.push("#patchVersion = :patchVersion");
+			}
+
+			const updateExpressions: string[] = [];
+			if (setExpressions.length > 0) {
+				updateExpressions.push(`SET ${setExpressions.join(", ")}`);
+			}
+			if (removeExpressions.length > 0) {
+				updateExpressions.push(`REMOVE ${removeExpressions.join(", ")}`);
+			}
+
+			if (updateExpressions.length === 0) {
+				return;
+			}
+
+			const docClient = this.createDocClient();
+
+			const updateCommand = new UpdateCommand({
+				TableName: this._config.tableName,
+				Key: {
+					[DynamoDbEntityStorageConnector._PARTITION_ID_NAME]:
+						DynamoDbEntityStorageConnector._PARTITION_ID_VALUE,
+					[this._primaryKey.property as string]: id
+				},
+				UpdateExpression: updateExpressions.join(" "),
+				// The entity must already exist, otherwise the update would create it
+				ConditionExpression: Is.stringValue(conditionExpression)
+					? `attribute_exists(${this._primaryKey.property as string}) AND ${conditionExpression}`
+					: `attribute_exists(${this._primaryKey.property as string})`,
+				ExpressionAttributeNames: updateNames,
+				ExpressionAttributeValues: Is.objectValue(updateValues) ? updateValues : undefined
+			});
+
+			await docClient.send(updateCommand);
+		} catch (err) {
+			if (BaseError.isErrorName(err, "ConditionalCheckFailedException")) {
+				return;
+			}
+			if (BaseError.isErrorCode(err, "ResourceNotFoundException")) {
+				throw new GeneralError(
+					this.CLASS_NAME,
+					"tableDoesNotExist",
+					{
+						table: this._config.tableName
+					},
+					err
+				);
+			}
+
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"patchFailed",
+				{
+					id
+				},
+				err
+			);
+		}
+	}
+
+	/**
+	 * Set multiple entities, batch writes do not support conditions so if they are provided
+	 * each entity is set individually.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		if (Is.arrayValue(conditions)) {
+			return EntityStorageBatchHelper.setBatch(this, entities, conditions);
+		}
+
+		const results: IEntityStorageBatchResult<T>[] = [];
+		const validIndexes: number[] = [];
+
+		for (let i = 0; i < entities.length; i++) {
+			const id = entities[i]?.[this._primaryKey.property] as unknown as string;
+			try {
+				Guards.object<T>(this.CLASS_NAME, nameof(entities[i]), entities[i]);
+				EntitySchemaHelper.validateEntity(entities[i], this.getSchema());
+				results.push({ id, success: true });
+				validIndexes.push(i);
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		await this.batchWrite(
+			"setFailed",
+			results,
+			validIndexes,
+			index => ({
+				PutRequest: {
+					Item: {
+						[DynamoDbEntityStorageConnector._PARTITION_ID_NAME]:
+							DynamoDbEntityStorageConnector._PARTITION_ID_VALUE,
+						...EntityStorageVersionHelper.nextVersion(entities[index], this._versionProperty)
+					} as { [id: string]: unknown }
+				}
+			}),
+			request => request.PutRequest?.Item?.[this._primaryKey.property as string] as string
+		);
+
+		return results;
+	}
+
+	/**
+	 * Get multiple entities, batch gets can only use the primary key so if a secondary index
+	 * or conditions are provided each entity is retrieved individually.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (!Is.empty(secondaryIndex) || Is.arrayValue(conditions)) {
+			return EntityStorageBatchHelper.getBatch(this, ids, secondaryIndex, conditions);
+		}
+
+		const results: IEntityStorageBatchResult<T>[] = ids.map(id => ({ id, success: true }));
+		const docClient = this.createDocClient();
+
+		for (let i = 0; i < ids.length; i += DynamoDbEntityStorageConnector._BATCH_GET_SIZE) {
+			const chunk = [...new Set(ids.slice(i, i + DynamoDbEntityStorageConnector._BATCH_GET_SIZE))];
+			try {
+				let keys: { [key: string]: unknown }[] = chunk.map(id => ({
+					[DynamoDbEntityStorageConnector._PARTITION_ID_NAME]:
+						DynamoDbEntityStorageConnector._PARTITION_ID_VALUE,
+					[this._primaryKey.property]: id
+				}));
+
+				// The unprocessed keys are retried with an increasing delay before they are reported
+				for (
+					let attempt = 0;
+					keys.length > 0 && attempt <= DynamoDbEntityStorageConnector._BATCH_MAX_RETRIES;
+					attempt++
+				) {
+					if (attempt > 0) {
+						await this.batchRetryDelay(attempt);
+					}
+					const response = await docClient.send(
+						new BatchGetCommand({
+							RequestItems: {
+								[this._config.tableName]: { Keys: keys }
+							}
+						})
+					);
+
+					for (const item of response.Responses?.[this._config.tableName] ?? []) {
+						delete item[DynamoDbEntityStorageConnector._PARTITION_ID_NAME];
+						if (!EntityStorageExpiryHelper.isExpired(item as T, this._expiryProperty)) {
+							for (const result of results) {
+								if (result.id === item[this._primaryKey.property as string]) {
+									result.entity = item as T;
+								}
+							}
+						}
+					}
+
+					keys = response.UnprocessedKeys?.[this._config.tableName]?.Keys ?? [];
+				}
+
+				const unprocessedIds = keys.map(key => key[this._primaryKey.property as string] as string);
+				for (const result of results) {
+					if (unprocessedIds.includes(result.id)) {
+						result.success = false;
+						result.error = new GeneralError(this.CLASS_NAME, "batchItemUnprocessed", {
+							id: result.id
+						}).toJsonObject();
+					}
+				}
+			} catch (err) {
+				for (const result of results) {
+					if (chunk.includes(result.id)) {
+						result.success = false;
+						result.error = this.batchItemError("getFailed", result.id, err);
+					}
+				}
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Remove multiple entities, batch writes do not support conditions so if they are provided
+	 * each entity is removed individually.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (Is.arrayValue(conditions)) {
+			return EntityStorageBatchHelper.removeBatch(this, ids, conditions);
+		}
+
+		const results: IEntityStorageBatchResult<T>[] = ids.map(id => ({ id, success: true }));
+
+		await this.batchWrite(
+			"removeFailed",
+			results,
+			ids.map((_, index) => index),
+			index => ({
+				DeleteRequest: {
+					Key: {
+						[DynamoDbEntityStorageConnector._PARTITION_ID_NAME]:
+							DynamoDbEntityStorageConnector._PARTITION_ID_VALUE,
+						[this._primaryKey.property as string]: ids[index]
+					}
+				}
+			}),
+			request => request.DeleteRequest?.Key?.[this._primaryKey.property as string] as string
+		);
+
+		return results;
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		try {
+			const docClient = this.createDocClient();
+
+			const transactItems = operations.map(operation => {
+				const id = EntityStorageTransactionHelper.getOperationId(
+					operation,
+					this._primaryKey.property
+				);
+				const { conditionExpression, attributeNames, attributeValues } =
+					this.buildConditionExpression(
+						this.addVersionCondition(undefined, operation.expectedVersion)
+					);
+
+				// If an expected version is provided the object must already exist
+				const condition = {
+					ConditionExpression: Is.undefined(operation.expectedVersion)
+						? undefined
+						: `attribute_exists(${this._primaryKey.property as string}) AND ${conditionExpression}`,
+					ExpressionAttributeNames: attributeNames,
+					ExpressionAttributeValues: attributeValues
+				};
+
+				if (operation.type === EntityStorageTransactionOperationType.Set) {
+					return {
+						Put: {
+							TableName: this._config.tableName,
+							Item: {
+								[DynamoDbEntityStorageConnector._PARTITION_ID_NAME]:
+									DynamoDbEntityStorageConnector._PARTITION_ID_VALUE,
+								...EntityStorageVersionHelper.nextVersion(
+									operation.entity as T,
+									this._versionProperty
+								)
+							} as { [id: string]: unknown },
+							...condition
+						}
+					};
+				}
+				return {
+					Delete: {
+						TableName: this._config.tableName,
+						Key: {
+							[DynamoDbEntityStorageConnector._PARTITION_ID_NAME]:
+								DynamoDbEntityStorageConnector._PARTITION_ID_VALUE,
+							[this._primaryKey.property as string]: id
+						},
+						...condition
+					}
+				};
+			});
+
+			await docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+		} catch (err) {
+			if (err instanceof TransactionCanceledException) {
+				// The cancellation reasons are in the same order as the operations
+				const reasons = err.CancellationReasons ?? [];
+				const failedIndex = reasons.findIndex(r => r.Code === "ConditionalCheckFailed");
+				if (failedIndex !== -1) {
+					throw EntityStorageVersionHelper.conflictError(
+						EntityStorageTransactionHelper.getOperationId(
+							operations[failedIndex],
+							this._primaryKey.property
+						),
+						operations[failedIndex].expectedVersion as string
+					);
+				}
+			}
+
+			if (BaseError.isErrorCode(err, "ResourceNotFoundException")) {
+				throw new GeneralError(
+					this.CLASS_NAME,
+					"tableDoesNotExist",
+					{
+						tableName: this._config.tableName
+					},
+					err
+				);
+			}
+
+			throw new GeneralError(this.CLASS_NAME, "transactionFailed", undefined, err);
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, this connector does not support subscriptions.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 * @throws NotSupportedError as the connector does not support subscriptions.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		throw EntityStorageChangeEmitter.notSupportedError();
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities, this connector does not support subscriptions.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 * @throws NotSupportedError as the connector does not support subscriptions.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		throw EntityStorageChangeEmitter.notSupportedError();
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		try {
+			const attributeNames: { [id: string]: string } = { "#partitionId": "partitionId" };
+			const attributeValues: { [id: string]: AttributeValue } = {
+				[`:${DynamoDbEntityStorageConnector._PARTITION_ID_NAME}`]: {
+					S: DynamoDbEntityStorageConnector._PARTITION_ID_VALUE
+				}
+			};
+
+			const expressions = this.buildQueryParameters(
+				"",
+				conditions,
+				attributeNames,
+				attributeValues
+			);
+
+			let keyExpression = "#partitionId = :partitionId";
+			if (expressions.keyCondition.length > 0) {
+				keyExpression += ` AND ${expressions.keyCondition}`;
+			}
+
+			const connection = this.createDocClient();
+
+			// The count is limited to the items evaluated in each page
+			// so we need to keep requesting until there are no more pages
+			let total = 0;
+			let exclusiveStartKey: { [id: string]: AttributeValue } | undefined;
+			do {
+				const query = new QueryCommand({
+					TableName: this._config.tableName,
+					KeyConditionExpression: keyExpression,
+					FilterExpression: this.addExpiryFilter(
+						expressions.filterCondition,
+						attributeNames,
+						attributeValues
+					),
+					ExpressionAttributeNames: attributeNames,
+					ExpressionAttributeValues: attributeValues,
+					Select: "COUNT",
+					ExclusiveStartKey: exclusiveStartKey
+				});
+
+				const results = await connection.send(query);
+
+				total += results.Count ?? 0;
+				exclusiveStartKey = results.LastEvaluatedKey;
+			} while (!Is.empty(exclusiveStartKey));
+
+			return total;
+		} catch (err) {
+			if (BaseError.isErrorCode(err, "ResourceNotFoundException")) {
+				throw new GeneralError(
+					this.CLASS_NAME,
+					"tableDoesNotExist",
+					{
+						table: this._config.tableName
+					},
+					err
+				);
+			}
+			throw new GeneralError(this.CLASS_NAME, "countFailed", undefined, err);
+		}
+	}
+
 	/**
 	 * Find all the entities which match the conditions.
 	 * @param conditions The conditions to match for the entities.
@@ -616,6 +1217,36 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 		};
 	}
 
+	/**
+	 * Add the filter to exclude the expired items, if the schema supports expiry.
+	 * @param filterCondition The existing filter condition.
+	 * @param attributeNames The attribute names to use in the query.
+	 * @param attributeValues The attribute values to use in the query.
+	 * @returns The filter expression or undefined if there is no filter.
+	 * @internal
+	 */
+	private addExpiryFilter(
+		filterCondition: string,
+		attributeNames: { [id: string]: string },
+		attributeValues: { [id: string]: AttributeValue }
+	): string | undefined {
+		if (Is.undefined(this._expiryProperty)) {
+			return Is.stringValue(filterCondition) ? filterCondition : undefined;
+		}
+
+		attributeNames["#entityExpiry"] = this._expiryProperty as string;
+		attributeValues[":entityExpiryNow"] = this.propertyToDbValue(
+			EntityStorageExpiryHelper.now(),
+			"integer"
+		);
+		const expiryFilter =
+			"(attribute_not_exists(#entityExpiry) OR #entityExpiry > :entityExpiryNow)";
+
+		return Is.stringValue(filterCondition)
+			? `${filterCondition} AND ${expiryFilter}`
+			: expiryFilter;
+	}
+
 	/**
 	 * Map the framework comparison operators to those in DynamoDB.
 	 * @param objectPath The prefix to use for the condition.
@@ -919,9 +1550,11 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 				TableName: this._config.tableName,
 				IndexName: indexName,
 				KeyConditionExpression: keyExpression,
-				FilterExpression: Is.stringValue(expressions.filterCondition)
-					? expressions.filterCondition
-					: undefined,
+				FilterExpression: this.addExpiryFilter(
+					expressions.filterCondition,
+					attributeNames,
+					attributeValues
+				),
 				ExpressionAttributeNames: attributeNames,
 				ExpressionAttributeValues: attributeValues,
 				ProjectionExpression: properties?.map(p => p as string).join(", "),
@@ -967,6 +1600,125 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 		}
 	}
 
+	/**
+	 * Perform batch write requests in chunks, updating the results for any failures, the
+	 * unprocessed items are retried with an increasing delay before they are reported.
+	 * @param failedMessage The message to use if the request fails.
+	 * @param results The results to update.
+	 * @param indexes The indexes of the results to create requests for.
+	 * @param createRequest Create the request for the result at the index.
+	 * @param requestId Get the id from a request.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async batchWrite(
+		failedMessage: string,
+		results: IEntityStorageBatchResult<T>[],
+		indexes: number[],
+		createRequest: (
+			index: number
+		) => NonNullable<BatchWriteCommandInput["RequestItems"]>[string][number],
+		requestId: (
+			request: NonNullable<BatchWriteCommandInput["RequestItems"]>[string][number]
+		) => string
+	): Promise<void> {
+		const docClient = this.createDocClient();
+
+		// A batch can not contain the same key more than once, so only the last request for each
+		// id is written and its result is used for the other requests with the same id
+		const lastIndexes = new Map<string, number>();
+		for (const index of indexes) {
+			lastIndexes.set(results[index].id, index);
+		}
+		const uniqueIndexes = indexes.filter(index => lastIndexes.get(results[index].id) === index);
+
+		for (
+			let i = 0;
+			i < uniqueIndexes.length;
+			i += DynamoDbEntityStorageConnector._BATCH_WRITE_SIZE
+		) {
+			const chunk = uniqueIndexes.slice(i, i + DynamoDbEntityStorageConnector._BATCH_WRITE_SIZE);
+			try {
+				let requests = chunk.map(index => createRequest(index));
+				for (
+					let attempt = 0;
+					requests.length > 0 && attempt <= DynamoDbEntityStorageConnector._BATCH_MAX_RETRIES;
+					attempt++
+				) {
+					if (attempt > 0) {
+						await this.batchRetryDelay(attempt);
+					}
+					const response = await docClient.send(
+						new BatchWriteCommand({
+							RequestItems: {
+								[this._config.tableName]: requests
+							}
+						})
+					);
+					requests = response.UnprocessedItems?.[this._config.tableName] ?? [];
+				}
+
+				const unprocessedIds = requests.map(request => requestId(request));
+				for (const index of chunk) {
+					if (unprocessedIds.includes(results[index].id)) {
+						results[index].success = false;
+						results[index].error = new GeneralError(this.CLASS_NAME, "batchItemUnprocessed", {
+							id: results[index].id
+						}).toJsonObject();
+					}
+				}
+			} catch (err) {
+				for (const index of chunk) {
+					results[index].success = false;
+					results[index].error = this.batchItemError(failedMessage, results[index].id, err);
+				}
+			}
+		}
+
+		for (const index of indexes) {
+			const lastIndex = lastIndexes.get(results[index].id);
+			if (!Is.undefined(lastIndex) && lastIndex !== index) {
+				results[index].success = results[lastIndex].success;
+				results[index].error = results[lastIndex].error;
+			}
+		}
+	}
+
+	/**
+	 * Wait before retrying the unprocessed items in a batch.
+	 * @param attempt The number of the retry, starting at one.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async batchRetryDelay(attempt: number): Promise<void> {
+		const multiplier = 2 ** (attempt - 1);
+		await new Promise(resolve =>
+			setTimeout(resolve, DynamoDbEntityStorageConnector._BATCH_RETRY_DELAY * multiplier)
+		);
+	}
+
+	/**
+	 * Create the error for an item in a batch.
+	 * @param failedMessage The message to use if the error is not a missing table.
+	 * @param id The id of the item.
+	 * @param err The error that occurred.
+	 * @returns The error.
+	 * @internal
+	 */
+	private batchItemError(failedMessage: string, id: string, err: unknown): IError {
+		if (BaseError.isErrorCode(err, "ResourceNotFoundException")) {
+			return new GeneralError(
+				this.CLASS_NAME,
+				"tableDoesNotExist",
+				{
+					table: this._config.tableName
+				},
+				err
+			).toJsonObject();
+		}
+		return new GeneralError(this.CLASS_NAME, failedMessage, { id }, err).toJsonObject();
+	}
+
 	/**
 	 * Build the condition expression for the query.
 	 * @param conditions The conditions to build the expression from.
@@ -1008,4 +1760,21 @@ export class DynamoDbEntityStorageConnector<T = unknown> implements IEntityStora
 		}
 		return { conditionExpression, attributeNames, attributeValues };
 	}
+
+	/**
+	 * Add a condition for the expected version to the conditions.
+	 * @param conditions The conditions to add the version condition to.
+	 * @param expectedVersion The version the entity is expected to have.
+	 * @returns The conditions including the version condition if one is required.
+	 * @internal
+	 */
+	private addVersionCondition(
+		conditions: { property: keyof T; value: unknown }[] | undefined,
+		expectedVersion: string | undefined
+	): { property: keyof T; value: unknown }[] | undefined {
+		if (Is.undefined(expectedVersion) || Is.undefined(this._versionProperty)) {
+			return conditions;
+		}
+		return [...(conditions ?? []), { property: this._versionProperty, value: expectedVersion }];
+	}
 }
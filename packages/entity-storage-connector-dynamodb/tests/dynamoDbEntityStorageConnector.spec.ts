@@ -1,6 +1,7 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
 /* eslint-disable max-classes-per-file */
+import { BatchGetCommand, BatchWriteCommand, DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
 import { I18n, ObjectHelper } from "@twin.org/core";
 import {
 	ComparisonOperator,
@@ -11,7 +12,10 @@ import {
 	property
 } from "@twin.org/entity";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
-import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType
+} from "@twin.org/entity-storage-models";
 import {
 	EntityStorageLoggingConnector,
 	type LogEntry,
@@ -84,6 +88,30 @@ class TestType {
 	}[];
 }
 
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
 let memoryEntityStorage: MemoryEntityStorageConnector<LogEntry>;
 
 describe("DynamoDbEntityStorageConnector", () => {
@@ -92,6 +120,9 @@ describe("DynamoDbEntityStorageConnector", () => {
 
 		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
 		EntitySchemaFactory.register(nameof<SubType>(), () => EntitySchemaHelper.getSchema(SubType));
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
 
 		initSchema();
 	});
@@ -391,6 +422,422 @@ describe("DynamoDbEntityStorageConnector", () => {
 		expect(result).toBeUndefined();
 	});
 
+	test("can set a batch of items", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: 22 }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const result = await entityStorage.get("2");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can set a batch of items with duplicate ids", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: 22 },
+			{ id: "1", value1: "ccc", value2: 33 }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true },
+			{ id: "1", success: true }
+		]);
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("ccc");
+		expect(result?.value2).toEqual(33);
+	});
+
+	test("can retry the unprocessed items when setting a batch of items", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+
+		// The first batch write only processes the first item
+		const send = DynamoDBDocumentClient.prototype.send as (
+			this: DynamoDBDocumentClient,
+			command: unknown
+		) => Promise<{ [key: string]: unknown }>;
+		let isFirstWrite = true;
+		const sendSpy = vi
+			.spyOn(DynamoDBDocumentClient.prototype, "send")
+			.mockImplementation(async function mockSend(this: DynamoDBDocumentClient, command: unknown) {
+				if (command instanceof BatchWriteCommand && isFirstWrite) {
+					isFirstWrite = false;
+					const requests = command.input.RequestItems?.[TEST_DYNAMODB_CONFIG.tableName] ?? [];
+					await send.call(
+						this,
+						new BatchWriteCommand({
+							RequestItems: { [TEST_DYNAMODB_CONFIG.tableName]: requests.slice(0, 1) }
+						})
+					);
+					return { UnprocessedItems: { [TEST_DYNAMODB_CONFIG.tableName]: requests.slice(1) } };
+				}
+				return send.call(this, command);
+			} as never);
+
+		try {
+			const results = await entityStorage.setBatch([
+				{ id: "1", value1: "aaa", value2: 11 },
+				{ id: "2", value1: "bbb", value2: 22 },
+				{ id: "3", value1: "ccc", value2: 33 }
+			]);
+
+			expect(results.every(r => r.success)).toEqual(true);
+			expect(
+				sendSpy.mock.calls.filter(call => call[0] instanceof BatchWriteCommand).length
+			).toEqual(2);
+		} finally {
+			sendSpy.mockRestore();
+		}
+		const result2 = await entityStorage.get("2");
+		expect(result2?.value1).toEqual("bbb");
+		const result3 = await entityStorage.get("3");
+		expect(result3?.value1).toEqual("ccc");
+	});
+
+	test("can fail the items which remain unprocessed when setting a batch of items", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+
+		// Every batch write leaves the last item unprocessed
+		const send = DynamoDBDocumentClient.prototype.send as (
+			this: DynamoDBDocumentClient,
+			command: unknown
+		) => Promise<{ [key: string]: unknown }>;
+		const sendSpy = vi
+			.spyOn(DynamoDBDocumentClient.prototype, "send")
+			.mockImplementation(async function mockSend(this: DynamoDBDocumentClient, command: unknown) {
+				if (command instanceof BatchWriteCommand) {
+					const requests = command.input.RequestItems?.[TEST_DYNAMODB_CONFIG.tableName] ?? [];
+					if (requests.length > 1) {
+						await send.call(
+							this,
+							new BatchWriteCommand({
+								RequestItems: { [TEST_DYNAMODB_CONFIG.tableName]: requests.slice(0, -1) }
+							})
+						);
+					}
+					return { UnprocessedItems: { [TEST_DYNAMODB_CONFIG.tableName]: requests.slice(-1) } };
+				}
+				return send.call(this, command);
+			} as never);
+
+		try {
+			const results = await entityStorage.setBatch([
+				{ id: "1", value1: "aaa", value2: 11 },
+				{ id: "2", value1: "bbb", value2: 22 }
+			]);
+
+			expect(results[0]).toEqual({ id: "1", success: true });
+			expect(results[1].success).toEqual(false);
+			expect(results[1].error?.message).toEqual(
+				"dynamoDbEntityStorageConnector.batchItemUnprocessed"
+			);
+			// The initial write and each of the retries
+			expect(
+				sendSpy.mock.calls.filter(call => call[0] instanceof BatchWriteCommand).length
+			).toEqual(6);
+		} finally {
+			sendSpy.mockRestore();
+		}
+	});
+
+	test("can get a batch of items", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results.map(r => r.id)).toEqual(["2", "3", "1"]);
+		expect(results.every(r => r.success)).toEqual(true);
+		expect(results[0].entity?.value1).toEqual("bbb");
+		expect(results[1].entity).toBeUndefined();
+		expect(results[2].entity?.value1).toEqual("aaa");
+	});
+
+	test("can retry the unprocessed keys when getting a batch of items", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		// The first batch get only processes the first key
+		const send = DynamoDBDocumentClient.prototype.send as (
+			this: DynamoDBDocumentClient,
+			command: unknown
+		) => Promise<{ [key: string]: unknown }>;
+		let isFirstGet = true;
+		const sendSpy = vi
+			.spyOn(DynamoDBDocumentClient.prototype, "send")
+			.mockImplementation(async function mockSend(this: DynamoDBDocumentClient, command: unknown) {
+				if (command instanceof BatchGetCommand && isFirstGet) {
+					isFirstGet = false;
+					const keys = command.input.RequestItems?.[TEST_DYNAMODB_CONFIG.tableName]?.Keys ?? [];
+					const response = await send.call(
+						this,
+						new BatchGetCommand({
+							RequestItems: { [TEST_DYNAMODB_CONFIG.tableName]: { Keys: keys.slice(0, 1) } }
+						})
+					);
+					return {
+						...response,
+						UnprocessedKeys: { [TEST_DYNAMODB_CONFIG.tableName]: { Keys: keys.slice(1) } }
+					};
+				}
+				return send.call(this, command);
+			} as never);
+
+		try {
+			const results = await entityStorage.getBatch(["1", "2"]);
+
+			expect(results.every(r => r.success)).toEqual(true);
+			expect(results[0].entity?.value1).toEqual("aaa");
+			expect(results[1].entity?.value1).toEqual("bbb");
+			expect(sendSpy.mock.calls.filter(call => call[0] instanceof BatchGetCommand).length).toEqual(
+				2
+			);
+		} finally {
+			sendSpy.mockRestore();
+		}
+	});
+
+	test("can remove a batch of items with duplicate ids", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.removeBatch(["1", "2", "1"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true },
+			{ id: "1", success: true }
+		]);
+		expect(await entityStorage.get("1")).toBeUndefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+	});
+
+	test("can remove a batch of items", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		expect(await entityStorage.get("1")).toBeUndefined();
+		expect(await entityStorage.get("2")).toBeDefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the transaction capability", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().transactions).toEqual(true);
+	});
+
+	test("can set and remove items in a transaction", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "aaa", value2: 11 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+		]);
+
+		expect(await entityStorage.get("1")).toBeDefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the subscription capability", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(false);
+	});
+
+	test("can fail to subscribe as it is not supported", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await expect(entityStorage.subscribe(undefined, async () => {})).rejects.toMatchObject({
+			name: "NotSupportedError",
+			message: "entityStorageChangeEmitter.subscriptionsNotSupported"
+		});
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { ...TEST_DYNAMODB_CONFIG, tableName: `${TEST_DYNAMODB_CONFIG.tableName}expiring` }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({
+			id: "1",
+			value1: "aaa",
+			entityExpiry: Math.floor(Date.now() / 1000) - 10
+		});
+		await entityStorage.set({ id: "2", value1: "bbb" }, undefined, undefined, 60);
+
+		expect(await entityStorage.get("1")).toBeUndefined();
+		const item = await entityStorage.get("2");
+		expect(item?.entityExpiry).toBeGreaterThan(Date.now() / 1000);
+		const result = await entityStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await entityStorage.count()).toEqual(1);
+		await entityStorage.tableDelete();
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: 1 }, undefined, undefined, 60)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
+	test("can count items with empty store", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "bbb",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("patched");
+		expect(result?.value2).toEqual(11);
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_DYNAMODB_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
 	test("can find items with empty store", async () => {
 		const entityStorage = new DynamoDbEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
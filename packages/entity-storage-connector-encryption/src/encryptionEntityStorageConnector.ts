@@ -0,0 +1,646 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import {
+	BaseError,
+	ConflictError,
+	Converter,
+	GeneralError,
+	Guards,
+	Is,
+	RandomHelper
+} from "@twin.org/core";
+import { ChaCha20Poly1305 } from "@twin.org/crypto";
+import {
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	type EntityCondition,
+	type IEntitySchema,
+	type IEntitySchemaProperty,
+	type SortDirection
+} from "@twin.org/entity";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageExpiryHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { nameof } from "@twin.org/nameof";
+import type { IEncryptionEntitySchemaProperty } from "./models/IEncryptionEntitySchemaProperty";
+import type { IEncryptionEntityStorageConnectorConstructorOptions } from "./models/IEncryptionEntityStorageConnectorConstructorOptions";
+
+/**
+ * Class for performing entity storage operations which encrypts the sensitive properties
+ * of the entities before they are stored by another entity storage connector.
+ * Each value is encrypted using ChaCha20-Poly1305 with a random nonce, and is stored as the
+ * id of the key followed by the encrypted value, so the keys can be rotated without
+ * re-encrypting the existing entities at the same time.
+ */
+export class EncryptionEntityStorageConnector<T = unknown> implements IEntityStorageConnector<T> {
+	/**
+	 * The length of the encryption keys in bytes.
+	 * @internal
+	 */
+	private static readonly _KEY_LENGTH: number = 32;
+
+	/**
+	 * The length of the nonce in bytes.
+	 * @internal
+	 */
+	private static readonly _NONCE_LENGTH: number = 12;
+
+	/**
+	 * Runtime name for the class.
+	 */
+	public readonly CLASS_NAME: string = nameof<EncryptionEntityStorageConnector>();
+
+	/**
+	 * The schema for the entity.
+	 * @internal
+	 */
+	private readonly _entitySchema: IEntitySchema<T>;
+
+	/**
+	 * The primary key.
+	 * @internal
+	 */
+	private readonly _primaryKey: IEntitySchemaProperty<T>;
+
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The properties which are encrypted.
+	 * @internal
+	 */
+	private readonly _sensitiveProperties: (keyof T)[];
+
+	/**
+	 * The encryption keys by key id.
+	 * @internal
+	 */
+	private readonly _keys: { [keyId: string]: Uint8Array };
+
+	/**
+	 * The id of the key used to encrypt the entities.
+	 * @internal
+	 */
+	private readonly _currentKeyId: string;
+
+	/**
+	 * The entity storage connector which stores the encrypted entities.
+	 * @internal
+	 */
+	private readonly _entityStorage: IEntityStorageConnector<T>;
+
+	/**
+	 * Create a new instance of EncryptionEntityStorageConnector.
+	 * @param options The options for the connector.
+	 */
+	constructor(options: IEncryptionEntityStorageConnectorConstructorOptions) {
+		Guards.object(this.CLASS_NAME, nameof(options), options);
+		Guards.stringValue(this.CLASS_NAME, nameof(options.entitySchema), options.entitySchema);
+		Guards.object(this.CLASS_NAME, nameof(options.config), options.config);
+		Guards.stringValue(
+			this.CLASS_NAME,
+			nameof(options.config.entityStorageConnectorType),
+			options.config.entityStorageConnectorType
+		);
+		Guards.object(this.CLASS_NAME, nameof(options.config.keys), options.config.keys);
+		Guards.stringValue(
+			this.CLASS_NAME,
+			nameof(options.config.currentKeyId),
+			options.config.currentKeyId
+		);
+
+		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		const expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
+
+		this._sensitiveProperties = [];
+		for (const schemaProperty of (this._entitySchema.properties ??
+			[]) as IEncryptionEntitySchemaProperty<T>[]) {
+			if (schemaProperty.isSensitive ?? false) {
+				if (
+					schemaProperty.type !== "string" ||
+					(schemaProperty.isPrimary ?? false) ||
+					(schemaProperty.isSecondary ?? false) ||
+					!Is.undefined(schemaProperty.sortDirection) ||
+					schemaProperty.property === this._versionProperty ||
+					schemaProperty.property === expiryProperty
+				) {
+					throw new GeneralError(this.CLASS_NAME, "sensitivePropertyInvalid", {
+						property: schemaProperty.property
+					});
+				}
+				this._sensitiveProperties.push(schemaProperty.property);
+			}
+		}
+
+		this._keys = {};
+		for (const [keyId, key] of Object.entries(options.config.keys)) {
+			const keyBytes = Is.stringBase64(key) ? Converter.base64ToBytes(key) : undefined;
+			if (keyBytes?.length !== EncryptionEntityStorageConnector._KEY_LENGTH) {
+				throw new GeneralError(this.CLASS_NAME, "keyInvalid", { keyId });
+			}
+			this._keys[keyId] = keyBytes;
+		}
+		this._currentKeyId = options.config.currentKeyId;
+		this.getKey(this._currentKeyId);
+
+		this._entityStorage = EntityStorageConnectorFactory.get<IEntityStorageConnector<T>>(
+			options.config.entityStorageConnectorType
+		);
+	}
+
+	/**
+	 * Get the schema for the entities.
+	 * @returns The schema for the entities.
+	 */
+	public getSchema(): IEntitySchema {
+		return this._entitySchema as IEntitySchema;
+	}
+
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return this._entityStorage.getCapabilities();
+	}
+
+	/**
+	 * Get an entity.
+	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
+	 * @param secondaryIndex Get the item using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The object if it can be found or undefined.
+	 * @throws GeneralError if the secondary index or conditions use an encrypted property.
+	 */
+	public async get(
+		id: string,
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<T | undefined> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		this.guardQueryable(secondaryIndex);
+		this.guardConditions(conditions);
+
+		const entity = await this._entityStorage.get(id, secondaryIndex, conditions);
+		return Is.undefined(entity) ? undefined : this.decryptEntity(entity);
+	}
+
+	/**
+	 * Set an entity, the sensitive properties are encrypted with the current key.
+	 * @param entity The entity to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
+	 * @returns The id of the entity.
+	 * @throws GeneralError if the conditions use an encrypted property.
+	 */
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
+		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
+		this.guardConditions(conditions);
+
+		EntitySchemaHelper.validateEntity(entity, this.getSchema());
+
+		return this._entityStorage.set(
+			this.encryptEntity(entity),
+			conditions,
+			expectedVersion,
+			timeToLive
+		);
+	}
+
+	/**
+	 * Remove the entity.
+	 * @param id The id of the entity to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns Nothing.
+	 * @throws GeneralError if the conditions use an encrypted property.
+	 */
+	public async remove(
+		id: string,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		this.guardConditions(conditions);
+
+		return this._entityStorage.remove(id, conditions, expectedVersion);
+	}
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, the values
+	 * of the sensitive properties in the patch are encrypted with the current key.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 * @throws GeneralError if the conditions use an encrypted property.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.object<Partial<T>>(this.CLASS_NAME, nameof(patch), patch);
+		this.guardConditions(conditions);
+
+		return this._entityStorage.patch(id, this.encryptEntity(patch, id), conditions);
+	}
+
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 * @throws GeneralError if the conditions use an encrypted property.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+		this.guardConditions(conditions);
+
+		return this._entityStorage.setBatch(
+			entities.map(entity => this.encryptEntity(entity)),
+			conditions
+		);
+	}
+
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 * @throws GeneralError if the secondary index or conditions use an encrypted property.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		this.guardQueryable(secondaryIndex);
+		this.guardConditions(conditions);
+
+		const results = await this._entityStorage.getBatch(ids, secondaryIndex, conditions);
+		return results.map(result => {
+			if (Is.undefined(result.entity)) {
+				return result;
+			}
+			try {
+				return { ...result, entity: this.decryptEntity(result.entity) };
+			} catch (err) {
+				return { id: result.id, success: false, error: BaseError.fromError(err).toJsonObject() };
+			}
+		});
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 * @throws GeneralError if the conditions use an encrypted property.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		this.guardConditions(conditions);
+
+		return this._entityStorage.removeBatch(ids, conditions);
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		Guards.array<IEntityStorageTransactionOperation<T>>(
+			this.CLASS_NAME,
+			nameof(operations),
+			operations
+		);
+
+		return this._entityStorage.transaction(
+			operations.map(operation => {
+				if (
+					operation.type === EntityStorageTransactionOperationType.Set &&
+					Is.object<T>(operation.entity)
+				) {
+					return { ...operation, entity: this.encryptEntity(operation.entity) };
+				}
+				return operation;
+			})
+		);
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, the entities in the changes are decrypted.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 * @throws GeneralError if the conditions use an encrypted property.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		this.guardEntityCondition(conditions);
+
+		return this._entityStorage.subscribe(conditions, async change =>
+			callback(
+				Is.undefined(change.entity)
+					? change
+					: { ...change, entity: this.decryptEntity(change.entity) }
+			)
+		);
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		return this._entityStorage.unsubscribe(subscriptionId);
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 * @throws GeneralError if the conditions use an encrypted property.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		this.guardEntityCondition(conditions);
+
+		return this._entityStorage.count(conditions);
+	}
+
+	/**
+	 * Find all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @param sortProperties The optional sort order.
+	 * @param properties The optional properties to return, defaults to all.
+	 * @param cursor The cursor to request the next page of entities.
+	 * @param pageSize The suggested number of entities to return in each chunk, in some scenarios can return a different amount.
+	 * @returns All the entities for the storage matching the conditions,
+	 * and a cursor which can be used to request more entities.
+	 * @throws GeneralError if the conditions or sort properties use an encrypted property.
+	 */
+	public async query(
+		conditions?: EntityCondition<T>,
+		sortProperties?: {
+			property: keyof T;
+			sortDirection: SortDirection;
+		}[],
+		properties?: (keyof T)[],
+		cursor?: string,
+		pageSize?: number
+	): Promise<{
+		/**
+		 * The entities, which can be partial if a limited keys list was provided.
+		 */
+		entities: Partial<T>[];
+		/**
+		 * An optional cursor, when defined can be used to call find to get more entities.
+		 */
+		cursor?: string;
+	}> {
+		this.guardEntityCondition(conditions);
+		for (const sortProperty of sortProperties ?? []) {
+			this.guardQueryable(sortProperty.property);
+		}
+
+		// The primary key is needed to decrypt the entities, so it is always requested
+		const primaryKey = this._primaryKey.property;
+		const includePrimaryKey = Is.array(properties) && !properties.includes(primaryKey);
+		const result = await this._entityStorage.query(
+			conditions,
+			sortProperties,
+			includePrimaryKey ? [...properties, primaryKey] : properties,
+			cursor,
+			pageSize
+		);
+
+		return {
+			entities: result.entities.map(entity => {
+				const decrypted = this.decryptEntity(entity);
+				if (includePrimaryKey) {
+					delete decrypted[primaryKey];
+				}
+				return decrypted;
+			}),
+			cursor: result.cursor
+		};
+	}
+
+	/**
+	 * Re-encrypt the entities which have sensitive properties encrypted with a key other than
+	 * the current key, so that the old keys can be removed once it has completed. Entities which
+	 * are changed while they are being re-encrypted are skipped as they use the current key.
+	 * @returns The number of entities which were re-encrypted.
+	 */
+	public async rotateKeys(): Promise<number> {
+		let rotated = 0;
+		let cursor: string | undefined;
+		do {
+			const result = await this._entityStorage.query(undefined, undefined, undefined, cursor);
+			for (const entity of result.entities as T[]) {
+				if (this.requiresRotation(entity)) {
+					try {
+						await this._entityStorage.set(
+							this.encryptEntity(this.decryptEntity(entity)),
+							undefined,
+							Is.undefined(this._versionProperty)
+								? undefined
+								: (entity[this._versionProperty] as string)
+						);
+						rotated++;
+					} catch (err) {
+						if (!BaseError.someErrorName(err, ConflictError.CLASS_NAME)) {
+							throw err;
+						}
+					}
+				}
+			}
+			cursor = result.cursor;
+		} while (Is.stringValue(cursor));
+
+		return rotated;
+	}
+
+	/**
+	 * Encrypt the sensitive properties of the entity with the current key.
+	 * @param entity The entity to encrypt.
+	 * @param id The id of the entity, defaults to the primary key of the entity.
+	 * @returns A copy of the entity with the sensitive properties encrypted.
+	 * @internal
+	 */
+	private encryptEntity<U extends Partial<T>>(entity: U, id?: string): U {
+		const entityId = id ?? (entity[this._primaryKey.property] as string);
+		const encrypted = { ...entity };
+		for (const property of this._sensitiveProperties) {
+			const value = entity[property];
+			if (Is.string(value)) {
+				const nonce = RandomHelper.generate(EncryptionEntityStorageConnector._NONCE_LENGTH);
+				const cipher = new ChaCha20Poly1305(
+					this.getKey(this._currentKeyId),
+					nonce,
+					this.getAdditionalData(entityId, property)
+				);
+				const payload = new Uint8Array([...nonce, ...cipher.encrypt(Converter.utf8ToBytes(value))]);
+				encrypted[property] =
+					`${this._currentKeyId}:${Converter.bytesToBase64(payload)}` as U[keyof T];
+			}
+		}
+		return encrypted;
+	}
+
+	/**
+	 * Decrypt the sensitive properties of the entity.
+	 * @param entity The entity to decrypt.
+	 * @returns A copy of the entity with the sensitive properties decrypted.
+	 * @throws GeneralError if a value could not be decrypted.
+	 * @internal
+	 */
+	private decryptEntity<U extends Partial<T>>(entity: U): U {
+		const entityId = entity[this._primaryKey.property] as string;
+		const decrypted = { ...entity };
+		for (const property of this._sensitiveProperties) {
+			const value = entity[property];
+			if (Is.string(value)) {
+				const separatorIndex = value.lastIndexOf(":");
+				const keyId = value.slice(0, Math.max(separatorIndex, 0));
+				const key = this.getKey(keyId);
+				try {
+					const payload = Converter.base64ToBytes(value.slice(separatorIndex + 1));
+					const cipher = new ChaCha20Poly1305(
+						key,
+						payload.slice(0, EncryptionEntityStorageConnector._NONCE_LENGTH),
+						this.getAdditionalData(entityId, property)
+					);
+					decrypted[property] = Converter.bytesToUtf8(
+						cipher.decrypt(payload.slice(EncryptionEntityStorageConnector._NONCE_LENGTH))
+					) as U[keyof T];
+				} catch (err) {
+					throw new GeneralError(
+						this.CLASS_NAME,
+						"decryptionFailed",
+						{ id: entityId, property },
+						err
+					);
+				}
+			}
+		}
+		return decrypted;
+	}
+
+	/**
+	 * Does the entity have sensitive properties encrypted with a key other than the current key.
+	 * @param entity The entity to check.
+	 * @returns True if the entity needs to be re-encrypted.
+	 * @internal
+	 */
+	private requiresRotation(entity: T): boolean {
+		return this._sensitiveProperties.some(property => {
+			const value = entity[property];
+			return Is.string(value) && !value.startsWith(`${this._currentKeyId}:`);
+		});
+	}
+
+	/**
+	 * Get the encryption key.
+	 * @param keyId The id of the key.
+	 * @returns The key.
+	 * @throws GeneralError if the key does not exist.
+	 * @internal
+	 */
+	private getKey(keyId: string): Uint8Array {
+		const key = Object.hasOwn(this._keys, keyId) ? this._keys[keyId] : undefined;
+		if (Is.undefined(key)) {
+			throw new GeneralError(this.CLASS_NAME, "keyNotFound", { keyId });
+		}
+		return key;
+	}
+
+	/**
+	 * Get the additional data which is authenticated with the encrypted value, so that the
+	 * value can not be moved to a different entity or property without being detected.
+	 * @param id The id of the entity.
+	 * @param property The property being encrypted.
+	 * @returns The additional data.
+	 * @internal
+	 */
+	private getAdditionalData(id: string, property: keyof T): Uint8Array {
+		return Converter.utf8ToBytes(JSON.stringify([id, property]));
+	}
+
+	/**
+	 * Guard that the property is not encrypted so it can be used in a query.
+	 * @param property The property to check.
+	 * @throws GeneralError if the property is encrypted.
+	 * @internal
+	 */
+	private guardQueryable(property: keyof T | undefined): void {
+		if (!Is.undefined(property) && this._sensitiveProperties.includes(property)) {
+			throw new GeneralError(this.CLASS_NAME, "encryptedPropertyNotQueryable", { property });
+		}
+	}
+
+	/**
+	 * Guard that the conditions do not use encrypted properties.
+	 * @param conditions The conditions to check.
+	 * @throws GeneralError if a condition uses an encrypted property.
+	 * @internal
+	 */
+	private guardConditions(conditions: { property: keyof T; value: unknown }[] | undefined): void {
+		for (const condition of conditions ?? []) {
+			this.guardQueryable(condition.property);
+		}
+	}
+
+	/**
+	 * Guard that the entity condition does not use encrypted properties.
+	 * @param condition The condition to check.
+	 * @throws GeneralError if a condition uses an encrypted property.
+	 * @internal
+	 */
+	private guardEntityCondition(condition: EntityCondition<T> | undefined): void {
+		if (Is.undefined(condition)) {
+			return;
+		}
+		if ("conditions" in condition) {
+			for (const childCondition of condition.conditions) {
+				this.guardEntityCondition(childCondition);
+			}
+		} else {
+			// Nested property paths are checked using the top level property
+			this.guardQueryable(condition.property.split(".")[0] as keyof T);
+		}
+	}
+}
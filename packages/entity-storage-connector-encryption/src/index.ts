@@ -0,0 +1,6 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+export * from "./encryptionEntityStorageConnector";
+export * from "./models/IEncryptionEntitySchemaProperty";
+export * from "./models/IEncryptionEntityStorageConnectorConfig";
+export * from "./models/IEncryptionEntityStorageConnectorConstructorOptions";
@@ -0,0 +1,15 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IEntitySchemaProperty } from "@twin.org/entity";
+
+/**
+ * An entity schema property which can be marked as sensitive, the values of sensitive
+ * properties are encrypted before they are stored.
+ */
+export interface IEncryptionEntitySchemaProperty<T = unknown> extends IEntitySchemaProperty<T> {
+	/**
+	 * The property contains sensitive data, it must be a string which is not the primary key,
+	 * a secondary index or sorted by default, as it can not be used in queries.
+	 */
+	isSensitive?: boolean;
+}
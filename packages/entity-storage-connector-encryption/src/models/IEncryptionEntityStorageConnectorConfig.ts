@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Configuration for the Encryption Entity Storage Connector.
+ */
+export interface IEncryptionEntityStorageConnectorConfig {
+	/**
+	 * The type of the entity storage connector registered in the factory which stores the encrypted entities.
+	 */
+	entityStorageConnectorType: string;
+
+	/**
+	 * The base64 encoded 32 byte encryption keys by key id, the keys which were used to
+	 * encrypt existing entities must remain until they have been rotated.
+	 */
+	keys: { [keyId: string]: string };
+
+	/**
+	 * The id of the key used to encrypt the entities when they are written.
+	 */
+	currentKeyId: string;
+}
@@ -0,0 +1,18 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IEncryptionEntityStorageConnectorConfig } from "./IEncryptionEntityStorageConnectorConfig";
+
+/**
+ * Options for the Encryption Entity Storage Connector constructor.
+ */
+export interface IEncryptionEntityStorageConnectorConstructorOptions {
+	/**
+	 * The name of the entity schema.
+	 */
+	entitySchema: string;
+
+	/**
+	 * The configuration for the connector.
+	 */
+	config: IEncryptionEntityStorageConnectorConfig;
+}
@@ -0,0 +1,419 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+/* eslint-disable max-classes-per-file */
+import { Converter, I18n, RandomHelper } from "@twin.org/core";
+import {
+	ComparisonOperator,
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	SortDirection,
+	entity,
+	property
+} from "@twin.org/entity";
+import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType,
+	type IEntityStorageChange
+} from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorTestSuite,
+	type TestSuiteEntity
+} from "@twin.org/entity-storage-test-suite";
+import { nameof } from "@twin.org/nameof";
+import { EncryptionEntityStorageConnector } from "../src/encryptionEntityStorageConnector";
+import type { IEncryptionEntitySchemaProperty } from "../src/models/IEncryptionEntitySchemaProperty";
+
+/**
+ * Test Type Definition.
+ */
+@entity()
+class TestType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Category.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public category!: string;
+
+	/**
+	 * Email.
+	 */
+	@property({ type: "string", isSensitive: true } as Omit<
+		IEncryptionEntitySchemaProperty,
+		"property"
+	>)
+	public email!: string;
+
+	/**
+	 * Phone.
+	 */
+	@property({ type: "string", isSensitive: true, optional: true } as Omit<
+		IEncryptionEntitySchemaProperty,
+		"property"
+	>)
+	public phone?: string;
+}
+
+/**
+ * Test Invalid Type Definition.
+ */
+@entity()
+class TestInvalidType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Age.
+	 */
+	@property({ type: "number", isSensitive: true } as Omit<
+		IEncryptionEntitySchemaProperty,
+		"property"
+	>)
+	public age!: number;
+}
+
+const KEY_1 = Converter.bytesToBase64(RandomHelper.generate(32));
+const KEY_2 = Converter.bytesToBase64(RandomHelper.generate(32));
+
+let innerEntityStorage: MemoryEntityStorageConnector<TestType>;
+
+/**
+ * Create a connector which encrypts the entities in the inner memory connector.
+ * @param keys The keys to use.
+ * @param currentKeyId The id of the key used to encrypt.
+ * @returns The connector.
+ */
+function createConnector(
+	keys?: { [keyId: string]: string },
+	currentKeyId?: string
+): EncryptionEntityStorageConnector<TestType> {
+	return new EncryptionEntityStorageConnector<TestType>({
+		entitySchema: nameof<TestType>(),
+		config: {
+			entityStorageConnectorType: "inner",
+			keys: keys ?? { key1: KEY_1 },
+			currentKeyId: currentKeyId ?? "key1"
+		}
+	});
+}
+
+describe("EncryptionEntityStorageConnector", () => {
+	beforeAll(async () => {
+		I18n.addDictionary("en", await import("../locales/en.json"));
+
+		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
+		EntitySchemaFactory.register(nameof<TestInvalidType>(), () =>
+			EntitySchemaHelper.getSchema(TestInvalidType)
+		);
+	});
+
+	beforeEach(() => {
+		innerEntityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		EntityStorageConnectorFactory.register("inner", () => innerEntityStorage);
+	});
+
+	afterEach(() => {
+		EntityStorageConnectorFactory.unregister("inner");
+	});
+
+	test("can fail to construct when there is no options", async () => {
+		expect(
+			() =>
+				new EncryptionEntityStorageConnector(
+					undefined as unknown as {
+						entitySchema: string;
+						config: {
+							entityStorageConnectorType: string;
+							keys: { [keyId: string]: string };
+							currentKeyId: string;
+						};
+					}
+				)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.objectUndefined",
+				properties: {
+					property: "options",
+					value: "undefined"
+				}
+			})
+		);
+	});
+
+	test("can fail to construct with a key which is not valid", async () => {
+		expect(() => createConnector({ key1: Converter.bytesToBase64(new Uint8Array(16)) })).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "encryptionEntityStorageConnector.keyInvalid",
+				properties: { keyId: "key1" }
+			})
+		);
+	});
+
+	test("can fail to construct when the current key does not exist", async () => {
+		expect(() => createConnector({ key1: KEY_1 }, "key2")).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "encryptionEntityStorageConnector.keyNotFound",
+				properties: { keyId: "key2" }
+			})
+		);
+	});
+
+	test("can fail to construct when a sensitive property is not a string", async () => {
+		expect(
+			() =>
+				new EncryptionEntityStorageConnector<TestInvalidType>({
+					entitySchema: nameof<TestInvalidType>(),
+					config: {
+						entityStorageConnectorType: "inner",
+						keys: { key1: KEY_1 },
+						currentKeyId: "key1"
+					}
+				})
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "encryptionEntityStorageConnector.sensitivePropertyInvalid",
+				properties: { property: "age" }
+			})
+		);
+	});
+
+	test("can set an entity with the sensitive properties encrypted", async () => {
+		const entityStorage = createConnector();
+		await entityStorage.set({ id: "1", category: "aaa", email: "a@example.com" });
+
+		const stored = innerEntityStorage.getStore();
+		expect(stored.length).toEqual(1);
+		expect(stored[0].id).toEqual("1");
+		expect(stored[0].category).toEqual("aaa");
+		expect(stored[0].email.startsWith("key1:")).toEqual(true);
+		expect(stored[0].email).not.toContain("a@example.com");
+		expect(stored[0].phone).toBeUndefined();
+
+		expect(await entityStorage.get("1")).toEqual({
+			id: "1",
+			category: "aaa",
+			email: "a@example.com"
+		});
+		expect(await entityStorage.get("aaa", "category")).toEqual({
+			id: "1",
+			category: "aaa",
+			email: "a@example.com"
+		});
+	});
+
+	test("can encrypt the same value differently each time", async () => {
+		const entityStorage = createConnector();
+		await entityStorage.set({ id: "1", category: "aaa", email: "a@example.com" });
+		await entityStorage.set({ id: "2", category: "aaa", email: "a@example.com" });
+
+		const stored = innerEntityStorage.getStore();
+		expect(stored[0].email).not.toEqual(stored[1].email);
+	});
+
+	test("can patch an entity with the sensitive properties encrypted", async () => {
+		const entityStorage = createConnector();
+		await entityStorage.set({ id: "1", category: "aaa", email: "a@example.com" });
+		await entityStorage.patch("1", { phone: "12345" });
+
+		expect(innerEntityStorage.getStore()[0].phone?.startsWith("key1:")).toEqual(true);
+		expect(await entityStorage.get("1")).toEqual({
+			id: "1",
+			category: "aaa",
+			email: "a@example.com",
+			phone: "12345"
+		});
+	});
+
+	test("can query entities and decrypt the sensitive properties", async () => {
+		const entityStorage = createConnector();
+		await entityStorage.set({ id: "1", category: "aaa", email: "a@example.com" });
+		await entityStorage.set({ id: "2", category: "bbb", email: "b@example.com" });
+
+		const result = await entityStorage.query(
+			{ property: "category", comparison: ComparisonOperator.Equals, value: "bbb" },
+			[{ property: "id", sortDirection: SortDirection.Ascending }]
+		);
+		expect(result.entities).toEqual([{ id: "2", category: "bbb", email: "b@example.com" }]);
+
+		const partialResult = await entityStorage.query(undefined, undefined, ["email"]);
+		expect(partialResult.entities).toEqual([
+			{ email: "a@example.com" },
+			{ email: "b@example.com" }
+		]);
+
+		expect(await entityStorage.count()).toEqual(2);
+	});
+
+	test("can fail to use an encrypted property in conditions, indexes or sorting", async () => {
+		const entityStorage = createConnector();
+		const error = {
+			name: "GeneralError",
+			message: "encryptionEntityStorageConnector.encryptedPropertyNotQueryable",
+			properties: { property: "email" }
+		};
+
+		await expect(entityStorage.get("a@example.com", "email")).rejects.toMatchObject(error);
+		await expect(
+			entityStorage.set({ id: "1", category: "aaa", email: "a@example.com" }, [
+				{ property: "email", value: "a@example.com" }
+			])
+		).rejects.toMatchObject(error);
+		await expect(
+			entityStorage.count({
+				conditions: [
+					{ property: "category", comparison: ComparisonOperator.Equals, value: "aaa" },
+					{ property: "email", comparison: ComparisonOperator.Equals, value: "a@example.com" }
+				]
+			})
+		).rejects.toMatchObject(error);
+		await expect(
+			entityStorage.query(undefined, [
+				{ property: "email", sortDirection: SortDirection.Ascending }
+			])
+		).rejects.toMatchObject(error);
+	});
+
+	test("can set, get and remove batches of entities", async () => {
+		const entityStorage = createConnector();
+		const setResults = await entityStorage.setBatch([
+			{ id: "1", category: "aaa", email: "a@example.com" },
+			{ id: "2", category: "bbb", email: "b@example.com" }
+		]);
+		expect(setResults.every(r => r.success)).toEqual(true);
+		expect(innerEntityStorage.getStore().every(e => e.email.startsWith("key1:"))).toEqual(true);
+
+		const getResults = await entityStorage.getBatch(["1", "2", "3"]);
+		expect(getResults.map(r => r.entity?.email)).toEqual([
+			"a@example.com",
+			"b@example.com",
+			undefined
+		]);
+
+		await entityStorage.removeBatch(["1", "2"]);
+		expect(innerEntityStorage.getStore()).toEqual([]);
+	});
+
+	test("can encrypt the entities in a transaction", async () => {
+		const entityStorage = createConnector();
+		await entityStorage.set({ id: "1", category: "aaa", email: "a@example.com" });
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "2", category: "bbb", email: "b@example.com" }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "1" }
+		]);
+
+		const stored = innerEntityStorage.getStore();
+		expect(stored.length).toEqual(1);
+		expect(stored[0].email.startsWith("key1:")).toEqual(true);
+		const item = await entityStorage.get("2");
+		expect(item?.email).toEqual("b@example.com");
+	});
+
+	test("can subscribe to the changes with the entities decrypted", async () => {
+		const entityStorage = createConnector();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+		await entityStorage.set({ id: "1", category: "aaa", email: "a@example.com" });
+
+		expect(changes).toEqual([
+			{
+				type: "created",
+				id: "1",
+				entity: { id: "1", category: "aaa", email: "a@example.com" }
+			}
+		]);
+	});
+
+	test("can decrypt with an old key and rotate the entities to the current key", async () => {
+		const entityStorage1 = createConnector({ key1: KEY_1 }, "key1");
+		await entityStorage1.set({ id: "1", category: "aaa", email: "a@example.com" });
+		await entityStorage1.set({ id: "2", category: "bbb", email: "b@example.com" });
+
+		const entityStorage2 = createConnector({ key1: KEY_1, key2: KEY_2 }, "key2");
+		await entityStorage2.set({ id: "3", category: "ccc", email: "c@example.com" });
+		const item1 = await entityStorage2.get("1");
+		expect(item1?.email).toEqual("a@example.com");
+
+		expect(await entityStorage2.rotateKeys()).toEqual(2);
+		expect(innerEntityStorage.getStore().every(e => e.email.startsWith("key2:"))).toEqual(true);
+		expect(await entityStorage2.rotateKeys()).toEqual(0);
+
+		const entityStorage3 = createConnector({ key2: KEY_2 }, "key2");
+		const items = await entityStorage3.query();
+		expect(items.entities.map(e => e.email)).toEqual([
+			"a@example.com",
+			"b@example.com",
+			"c@example.com"
+		]);
+	});
+
+	test("can fail to decrypt when the key no longer exists", async () => {
+		const entityStorage1 = createConnector({ key1: KEY_1 }, "key1");
+		await entityStorage1.set({ id: "1", category: "aaa", email: "a@example.com" });
+
+		const entityStorage2 = createConnector({ key2: KEY_2 }, "key2");
+		await expect(entityStorage2.get("1")).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "encryptionEntityStorageConnector.keyNotFound",
+			properties: { keyId: "key1" }
+		});
+	});
+
+	test("can fail to decrypt a value which has been moved to a different entity", async () => {
+		const entityStorage = createConnector();
+		await entityStorage.set({ id: "1", category: "aaa", email: "a@example.com" });
+		await entityStorage.set({ id: "2", category: "bbb", email: "b@example.com" });
+
+		const stored = innerEntityStorage.getStore();
+		await innerEntityStorage.set({ ...stored[1], email: stored[0].email });
+
+		await expect(entityStorage.get("2")).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "encryptionEntityStorageConnector.decryptionFailed",
+			properties: { id: "2", property: "email" }
+		});
+		const results = await entityStorage.getBatch(["1", "2"]);
+		expect(results.map(r => r.success)).toEqual([true, false]);
+	});
+});
+
+describe("EncryptionEntityStorageConnector conformance", () => {
+	EntityStorageConnectorTestSuite.run({
+		createConnector: async entitySchema => {
+			EntityStorageConnectorFactory.register(
+				"inner-test-suite",
+				() => new MemoryEntityStorageConnector<TestSuiteEntity>({ entitySchema })
+			);
+			return new EncryptionEntityStorageConnector<TestSuiteEntity>({
+				entitySchema,
+				config: {
+					entityStorageConnectorType: "inner-test-suite",
+					keys: { key1: KEY_1 },
+					currentKeyId: "key1"
+				}
+			});
+		},
+		removeConnector: async () => {
+			EntityStorageConnectorFactory.unregister("inner-test-suite");
+		}
+	});
+});
@@ -1,23 +1,64 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import { access, mkdir, readFile, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import {
+	access,
+	appendFile,
+	type FileHandle,
+	mkdir,
+	open,
+	readFile,
+	readdir,
+	rename,
+	rm,
+	stat,
+	truncate,
+	utimes,
+	writeFile
+} from "node:fs/promises";
+import { hostname } from "node:os";
 import path from "node:path";
-import { BaseError, Coerce, Guards, Is, ObjectHelper } from "@twin.org/core";
+import {
+	BaseError,
+	Converter,
+	GeneralError,
+	Guards,
+	Is,
+	ObjectHelper,
+	RandomHelper
+} from "@twin.org/core";
 import {
 	ComparisonOperator,
 	EntityConditions,
 	EntitySchemaFactory,
 	EntitySchemaHelper,
-	EntitySorter,
 	type EntityCondition,
 	type IEntitySchema,
 	type IEntitySchemaProperty,
 	type SortDirection
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageBatchHelper,
+	EntityStorageChangeEmitter,
+	EntityStorageChangeType,
+	EntityStorageCursorHelper,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
 import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
+import { FileEntityStorageJournalOperation } from "./models/fileEntityStorageJournalOperation";
+import { FileEntityStorageLayout } from "./models/fileEntityStorageLayout";
 import type { IFileEntityStorageConnectorConstructorOptions } from "./models/IFileEntityStorageConnectorConstructorOptions";
+import type { IFileEntityStorageJournalRecord } from "./models/IFileEntityStorageJournalRecord";
 
 /**
  * Class for performing entity storage operations in file.
@@ -29,6 +70,49 @@ export class FileEntityStorageConnector<T = unknown> implements IEntityStorageCo
 	 */
 	private static readonly _DEFAULT_PAGE_SIZE: number = 20;
 
+	/**
+	 * The maximum length of an encoded id in a filename, longer ids are hashed instead.
+	 * @internal
+	 */
+	private static readonly _MAX_ENCODED_ID_LENGTH: number = 200;
+
+	/**
+	 * Default time in milliseconds to wait for the lock on the directory.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_LOCK_TIMEOUT: number = 10000;
+
+	/**
+	 * Default age in milliseconds after which a lock on the directory is stale.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_LOCK_STALE_TIMEOUT: number = 30000;
+
+	/**
+	 * The time in milliseconds between attempts to acquire the lock on the directory.
+	 * @internal
+	 */
+	private static readonly _LOCK_RETRY_INTERVAL: number = 20;
+
+	/**
+	 * The number of times the lock is refreshed within the stale timeout while it is held.
+	 * @internal
+	 */
+	private static readonly _LOCK_REFRESH_COUNT: number = 3;
+
+	/**
+	 * Default interval in milliseconds for compacting the journal.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_JOURNAL_COMPACTION_INTERVAL: number = 60000;
+
+	/**
+	 * The pending writes for each directory, shared by all the instances in the process
+	 * so that their writes to the same directory are serialized.
+	 * @internal
+	 */
+	private static readonly _PENDING_WRITES = new Map<string, Promise<void>>();
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -46,12 +130,91 @@ export class FileEntityStorageConnector<T = unknown> implements IEntityStorageCo
 	 */
 	private readonly _primaryKey: IEntitySchemaProperty<T>;
 
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
+	/**
+	 * The interval in milliseconds for sweeping the expired entities.
+	 * @internal
+	 */
+	private readonly _expirySweepInterval: number;
+
+	/**
+	 * The timer for sweeping the expired entities, only active while the connector is started.
+	 * @internal
+	 */
+	private _expirySweepTimer?: ReturnType<typeof setInterval>;
+
 	/**
 	 * The directory to use for storage.
 	 * @internal
 	 */
 	private readonly _directory: string;
 
+	/**
+	 * The layout for storing the entities in the directory.
+	 * @internal
+	 */
+	private readonly _layout: FileEntityStorageLayout;
+
+	/**
+	 * The secondary properties which are included in the index for the file per entity layout.
+	 * @internal
+	 */
+	private readonly _secondaryProperties: (keyof T)[];
+
+	/**
+	 * The time in milliseconds to wait for the lock on the directory.
+	 * @internal
+	 */
+	private readonly _lockTimeout: number;
+
+	/**
+	 * The age in milliseconds after which a lock on the directory is stale.
+	 * @internal
+	 */
+	private readonly _lockStaleTimeout: number;
+
+	/**
+	 * The interval in milliseconds for compacting the journal.
+	 * @internal
+	 */
+	private readonly _journalCompactionInterval: number;
+
+	/**
+	 * The timer for compacting the journal, only active while the connector is started.
+	 * @internal
+	 */
+	private _journalCompactionTimer?: ReturnType<typeof setInterval>;
+
+	/**
+	 * The entities replayed from the journal, and the inode and offset of the journal
+	 * they were replayed to, so that only the records appended since need to be read.
+	 * @internal
+	 */
+	private _journalState?: { entities: Map<string, T>; inode: number; offset: number };
+
+	/**
+	 * The node logging connector type to log the journal compaction failures to.
+	 * @internal
+	 */
+	private _nodeLoggingConnectorType?: string;
+
+	/**
+	 * The subscriptions to changes made by this instance of the connector.
+	 * @internal
+	 */
+	private readonly _changeEmitter: EntityStorageChangeEmitter<T>;
+
 	/**
 	 * Create a new instance of FileEntityStorageConnector.
 	 * @param options The options for the connector.
@@ -63,7 +226,29 @@ export class FileEntityStorageConnector<T = unknown> implements IEntityStorageCo
 		Guards.stringValue(this.CLASS_NAME, nameof(options.config.directory), options.config.directory);
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
 		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
+		this._expirySweepInterval =
+			options.config.expirySweepInterval ?? EntityStorageExpiryHelper.DEFAULT_SWEEP_INTERVAL;
 		this._directory = path.resolve(options.config.directory);
+		this._layout = options.config.layout ?? FileEntityStorageLayout.SingleFile;
+		Guards.arrayOneOf<FileEntityStorageLayout>(
+			this.CLASS_NAME,
+			nameof(options.config.layout),
+			this._layout,
+			Object.values(FileEntityStorageLayout)
+		);
+		this._journalCompactionInterval =
+			options.config.journalCompactionInterval ??
+			FileEntityStorageConnector._DEFAULT_JOURNAL_COMPACTION_INTERVAL;
+		this._lockTimeout =
+			options.config.lockTimeout ?? FileEntityStorageConnector._DEFAULT_LOCK_TIMEOUT;
+		this._lockStaleTimeout =
+			options.config.lockStaleTimeout ?? FileEntityStorageConnector._DEFAULT_LOCK_STALE_TIMEOUT;
+		this._secondaryProperties = (this._entitySchema.properties ?? [])
+			.filter(p => p.isSecondary ?? false)
+			.map(p => p.property);
+		this._changeEmitter = new EntityStorageChangeEmitter<T>();
 	}
 
 	/**
@@ -119,9 +304,104 @@ export class FileEntityStorageConnector<T = unknown> implements IEntityStorageCo
 				}
 			});
 		}
+
+		if (this._layout === FileEntityStorageLayout.FilePerEntity) {
+			// Rebuild the index in case a previous write was interrupted before the index was updated
+			try {
+				await this.withWriteLock(async () =>
+					this.writeIndex(this.buildIndex(await this.readEntities(true)))
+				);
+			} catch (err) {
+				await nodeLogging?.log({
+					level: "error",
+					source: this.CLASS_NAME,
+					message: "indexRebuildFailed",
+					data: {
+						directory: this._directory
+					},
+					error: BaseError.fromError(err)
+				});
+				return false;
+			}
+		} else if (this._layout === FileEntityStorageLayout.Journal) {
+			// Remove the last record if it was only partially written when a previous write was interrupted
+			try {
+				const truncatedBytes = await this.withWriteLock(async () => this.repairJournal());
+				if (truncatedBytes > 0) {
+					await nodeLogging?.log({
+						level: "warn",
+						source: this.CLASS_NAME,
+						message: "journalTruncated",
+						data: {
+							directory: this._directory,
+							truncatedBytes
+						}
+					});
+				}
+			} catch (err) {
+				await nodeLogging?.log({
+					level: "error",
+					source: this.CLASS_NAME,
+					message: "journalRepairFailed",
+					data: {
+						directory: this._directory
+					},
+					error: BaseError.fromError(err)
+				});
+				return false;
+			}
+		}
 		return true;
 	}
 
+	/**
+	 * The component needs to be started when the node is initialized.
+	 * @param nodeIdentity The identity of the node starting the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async start(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		this._nodeLoggingConnectorType = nodeLoggingConnectorType;
+		if (
+			this._layout === FileEntityStorageLayout.Journal &&
+			Is.undefined(this._journalCompactionTimer)
+		) {
+			this._journalCompactionTimer = setInterval(
+				async () => this.compactJournal(),
+				this._journalCompactionInterval
+			);
+		}
+		if (!Is.undefined(this._expiryProperty) && Is.undefined(this._expirySweepTimer)) {
+			this._expirySweepTimer = setInterval(
+				async () => this.removeExpired(),
+				this._expirySweepInterval
+			);
+		}
+	}
+
+	/**
+	 * The component needs to be stopped when the node is closed.
+	 * @param nodeIdentity The identity of the node stopping the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async stop(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._expirySweepTimer)) {
+			clearInterval(this._expirySweepTimer);
+			this._expirySweepTimer = undefined;
+		}
+		if (!Is.undefined(this._journalCompactionTimer)) {
+			clearInterval(this._journalCompactionTimer);
+			this._journalCompactionTimer = undefined;
+		}
+	}
+
 	/**
 	 * Get the schema for the entities.
 	 * @returns The schema for the entities.
@@ -130,6 +410,18 @@ export class FileEntityStorageConnector<T = unknown> implements IEntityStorageCo
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector, the file per entity layout does not
+	 * support transactions as the files for the entities can not be written atomically.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: this._layout !== FileEntityStorageLayout.FilePerEntity,
+			subscriptions: true
+		};
+	}
+
 	/**
 	 * Get an entity.
 	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
@@ -144,63 +436,296 @@ export class FileEntityStorageConnector<T = unknown> implements IEntityStorageCo
 	): Promise<T | undefined> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
-		const store = await this.readStore();
-
-		const foundIndex = this.findItem(store, id, secondaryIndex, conditions);
-
-		return foundIndex === -1 ? undefined : store[foundIndex];
+		return this.findEntity(id, secondaryIndex, conditions);
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
 
-		const store = await this.readStore();
-
-		const existingIndex = this.findItem(
-			store,
-			entity[this._primaryKey.property] as string,
-			undefined,
-			conditions
+		const expiringEntity = EntityStorageExpiryHelper.applyTimeToLive(
+			entity,
+			this._expiryProperty,
+			timeToLive
 		);
-		if (existingIndex >= 0) {
-			store[existingIndex] = entity;
-		} else {
-			store.push(entity);
-		}
 
-		await this.writeStore(store);
+		const id = entity[this._primaryKey.property] as string;
+		const change = await this.withWriteLock(async () => {
+			const existing = await this.findEntity(id, undefined, conditions);
+			if (
+				Is.undefined(existing) &&
+				Is.arrayValue(conditions) &&
+				!Is.undefined(await this.findEntity(id))
+			) {
+				// The entity exists but does not match the conditions so it is not updated
+				return;
+			}
+
+			EntityStorageVersionHelper.verifyVersion(
+				id,
+				this._versionProperty,
+				expectedVersion,
+				existing
+			);
+
+			const setChange: IEntityStorageChange<T> = {
+				type: Is.undefined(existing)
+					? EntityStorageChangeType.Created
+					: EntityStorageChangeType.Updated,
+				id,
+				entity: EntityStorageVersionHelper.nextVersion(expiringEntity, this._versionProperty)
+			};
+			await this.writeChanges([setChange]);
+			return setChange;
+		});
+
+		if (!Is.undefined(change)) {
+			await this._changeEmitter.notify(change);
+		}
 	}
 
 	/**
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
-		const store = await this.readStore();
+		const change = await this.withWriteLock(async () => {
+			const existing = await this.findEntity(id, undefined, conditions);
 
-		const index = this.findItem(store, id, undefined, conditions);
+			EntityStorageVersionHelper.verifyVersion(
+				id,
+				this._versionProperty,
+				expectedVersion,
+				existing
+			);
 
-		if (index >= 0) {
-			store.splice(index, 1);
-			await this.writeStore(store);
+			if (!Is.undefined(existing)) {
+				const removeChange: IEntityStorageChange<T> = {
+					type: EntityStorageChangeType.Removed,
+					id,
+					entity: existing
+				};
+				await this.writeChanges([removeChange]);
+				return removeChange;
+			}
+		});
+
+		if (!Is.undefined(change)) {
+			await this._changeEmitter.notify(change);
+		}
+	}
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		const change = await this.withWriteLock(async () => {
+			const existing = await this.findEntity(id, undefined, conditions);
+
+			if (!Is.undefined(existing)) {
+				const patchChange: IEntityStorageChange<T> = {
+					type: EntityStorageChangeType.Updated,
+					id,
+					entity: EntityStorageVersionHelper.nextVersion(
+						EntityStoragePatchHelper.applyPatch(existing, patch),
+						this._versionProperty
+					)
+				};
+				await this.writeChanges([patchChange]);
+				return patchChange;
+			}
+		});
+
+		if (!Is.undefined(change)) {
+			await this._changeEmitter.notify(change);
 		}
 	}
 
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		return EntityStorageBatchHelper.setBatch(this, entities, conditions);
+	}
+
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		return EntityStorageBatchHelper.getBatch(this, ids, secondaryIndex, conditions);
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		return EntityStorageBatchHelper.removeBatch(this, ids, conditions);
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 * @throws NotSupportedError if the layout is file per entity.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		if (this._layout === FileEntityStorageLayout.FilePerEntity) {
+			throw EntityStorageTransactionHelper.notSupportedError();
+		}
+
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		const changes = await this.withWriteLock(async () => {
+			// All the operations are verified against the pending changes before any are written
+			const pending = new Map<string, T | undefined>();
+			const pendingChanges: IEntityStorageChange<T>[] = [];
+
+			for (const operation of operations) {
+				const id = EntityStorageTransactionHelper.getOperationId(
+					operation,
+					this._primaryKey.property
+				);
+				const existing = pending.has(id) ? pending.get(id) : await this.findEntity(id);
+
+				EntityStorageVersionHelper.verifyVersion(
+					id,
+					this._versionProperty,
+					operation.expectedVersion,
+					existing
+				);
+
+				if (operation.type === EntityStorageTransactionOperationType.Set) {
+					const versionedEntity = EntityStorageVersionHelper.nextVersion(
+						operation.entity as T,
+						this._versionProperty
+					);
+					pending.set(id, versionedEntity);
+					pendingChanges.push({
+						type: Is.undefined(existing)
+							? EntityStorageChangeType.Created
+							: EntityStorageChangeType.Updated,
+						id,
+						entity: versionedEntity
+					});
+				} else if (!Is.undefined(existing)) {
+					pending.set(id, undefined);
+					pendingChanges.push({ type: EntityStorageChangeType.Removed, id, entity: existing });
+				}
+			}
+
+			await this.writeChanges(pendingChanges);
+			return pendingChanges;
+		});
+
+		for (const change of changes) {
+			await this._changeEmitter.notify(change);
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, only the changes made by this instance
+	 * of the connector are notified as other processes can also modify the file.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		return this._changeEmitter.subscribe(conditions, callback);
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		this._changeEmitter.unsubscribe(subscriptionId);
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		const store = await this.readEntities();
+
+		let total = 0;
+		for (const entity of store) {
+			if (EntityConditions.check(entity, conditions)) {
+				total++;
+			}
+		}
+		return total;
+	}
+
 	/**
 	 * Find all the entities which match the conditions.
 	 * @param conditions The conditions to match for the entities.
@@ -230,55 +755,774 @@ export class FileEntityStorageConnector<T = unknown> implements IEntityStorageCo
 		 */
 		cursor?: string;
 	}> {
-		let allEntities = await this.readStore();
-
-		const entities = [];
 		const finalPageSize = pageSize ?? FileEntityStorageConnector._DEFAULT_PAGE_SIZE;
-		let nextCursor: string | undefined;
-
-		if (allEntities.length > 0) {
-			const finalSortKeys = EntitySchemaHelper.buildSortProperties<T>(
+		const sortKeys =
+			EntitySchemaHelper.buildSortProperties<T>(
 				this._entitySchema,
-				sortProperties
+				EntityStorageCursorHelper.getSortKeys(
+					EntitySchemaHelper.buildSortProperties<T>(this._entitySchema, sortProperties),
+					this._primaryKey.property
+				)
+			) ?? [];
+		const cursorValues = Is.stringValue(cursor)
+			? EntityStorageCursorHelper.parseCursor(cursor, sortKeys)
+			: undefined;
+
+		// The page starts after the entity the cursor was created from, so entities which
+		// are added or removed between the pages do not cause any to be repeated or skipped
+		const store = await this.readEntities();
+		const allEntities = store
+			.filter(
+				entity =>
+					(Is.undefined(cursorValues) ||
+						EntityStorageCursorHelper.compareToCursor(entity, sortKeys, cursorValues) > 0) &&
+					EntityConditions.check(entity, conditions)
+			)
+			.sort((a, b) => EntityStorageCursorHelper.compare(a, b, sortKeys));
+		const entities = allEntities.slice(0, finalPageSize);
+
+		return {
+			entities: entities.map(entity => ObjectHelper.pick(entity, properties)),
+			cursor:
+				allEntities.length > finalPageSize
+					? EntityStorageCursorHelper.createCursor(entities[entities.length - 1], sortKeys)
+					: undefined
+		};
+	}
+
+	/**
+	 * Compact the journal by writing the entities to the snapshot and starting a new journal,
+	 * only used with the journal layout. The journal is also compacted periodically while the
+	 * connector is started.
+	 * @returns Nothing.
+	 */
+	public async compact(): Promise<void> {
+		if (this._layout !== FileEntityStorageLayout.Journal) {
+			return;
+		}
+
+		await this.withWriteLock(async () => {
+			await this.repairJournal();
+			if (!Is.undefined(this._journalState) && this._journalState.offset > 0) {
+				// A reader which replays the old journal on top of the new snapshot gets the
+				// same entities, as each record contains the complete entity or a removal
+				await this.writeStore(this.filterExpired(Array.from(this._journalState.entities.values())));
+				await this.writeFileAtomic(this.getJournalFilename(), "");
+				this._journalState = undefined;
+			}
+		});
+	}
+
+	/**
+	 * Find an entity using the primary key or a secondary index.
+	 * @param id The id to search for, or the index value if secondaryIndex is set.
+	 * @param secondaryIndex The secondary index to search for.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The entity if found.
+	 * @internal
+	 */
+	private async findEntity(
+		id: string,
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<T | undefined> {
+		if (this._layout === FileEntityStorageLayout.Journal && Is.empty(secondaryIndex)) {
+			const journalEntities = await this.readJournal();
+			const entity = journalEntities.get(id);
+			if (Is.undefined(entity) || this.filterExpired([entity]).length === 0) {
+				return;
+			}
+			return this.findItem([entity], id, undefined, conditions) === -1
+				? undefined
+				: ObjectHelper.clone(entity);
+		} else if (this._layout !== FileEntityStorageLayout.FilePerEntity) {
+			const store = await this.readEntities();
+			const index = this.findItem(store, id, secondaryIndex, conditions);
+			return index === -1 ? undefined : store[index];
+		}
+
+		const property = Is.empty(secondaryIndex) ? this._primaryKey.property : secondaryIndex;
+		let candidates: T[];
+		if (property === this._primaryKey.property) {
+			const entity = await this.readEntityFile(id);
+			candidates = Is.undefined(entity) ? [] : [entity];
+		} else {
+			const index = this._secondaryProperties.includes(property)
+				? await this.readIndex()
+				: undefined;
+			if (Is.undefined(index)) {
+				candidates = await this.readEntities();
+			} else {
+				candidates = [];
+				for (const candidateId of index.get(property as string)?.get(id) ?? []) {
+					const entity = await this.readEntityFile(candidateId);
+					if (!Is.undefined(entity)) {
+						candidates.push(entity);
+					}
+				}
+			}
+		}
+
+		const finalConditions: EntityCondition<T>[] = [
+			{ property: property as string, comparison: ComparisonOperator.Equals, value: id },
+			...(conditions ?? []).map(c => ({
+				property: c.property as string,
+				comparison: ComparisonOperator.Equals,
+				value: c.value
+			}))
+		];
+		return candidates.find(entity =>
+			EntityConditions.check(entity, { conditions: finalConditions })
+		);
+	}
+
+	/**
+	 * Read all of the entities, the expired entities are excluded so they are never returned.
+	 * @param includeExpired Include the expired entities.
+	 * @returns The entities.
+	 * @internal
+	 */
+	private async readEntities(includeExpired: boolean = false): Promise<T[]> {
+		if (this._layout === FileEntityStorageLayout.SingleFile) {
+			return this.readStore(includeExpired);
+		} else if (this._layout === FileEntityStorageLayout.Journal) {
+			// The entities are cloned as the replayed entities are kept for the next read
+			const journalEntities = await this.readJournal();
+			const entities = Array.from(journalEntities.values(), entity => ObjectHelper.clone(entity));
+			return includeExpired ? entities : this.filterExpired(entities);
+		}
+
+		const entities: T[] = [];
+		const entitiesDirectory = path.join(this._directory, "entities");
+		const shards = (await this.dirExists(entitiesDirectory))
+			? await readdir(entitiesDirectory)
+			: [];
+		for (const shard of shards.sort()) {
+			const filenames = await readdir(path.join(entitiesDirectory, shard));
+			for (const filename of filenames.filter(f => f.endsWith(".json")).sort()) {
+				try {
+					const content = await readFile(path.join(entitiesDirectory, shard, filename), "utf8");
+					entities.push(JSON.parse(content) as T);
+				} catch {}
+			}
+		}
+		return includeExpired ? entities : this.filterExpired(entities);
+	}
+
+	/**
+	 * Write the changes to the entities.
+	 * @param changes The changes to write, in the order they were made.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async writeChanges(changes: IEntityStorageChange<T>[]): Promise<void> {
+		if (this._layout === FileEntityStorageLayout.SingleFile) {
+			const store = await this.readStore();
+			for (const change of changes) {
+				const index = store.findIndex(e => e[this._primaryKey.property] === change.id);
+				if (change.type === EntityStorageChangeType.Removed) {
+					if (index !== -1) {
+						store.splice(index, 1);
+					}
+				} else if (index !== -1) {
+					store[index] = change.entity as T;
+				} else {
+					store.push(change.entity as T);
+				}
+			}
+			await this.writeStore(store);
+			return;
+		} else if (this._layout === FileEntityStorageLayout.Journal) {
+			await this.appendJournal(changes);
+			return;
+		}
+
+		const index = (await this.readIndex()) ?? this.buildIndex(await this.readEntities(true));
+		for (const change of changes) {
+			const filename = this.getEntityFilename(change.id);
+			for (const values of index.values()) {
+				for (const [value, ids] of values) {
+					const remainingIds = ids.filter(id => id !== change.id);
+					if (remainingIds.length === 0) {
+						values.delete(value);
+					} else {
+						values.set(value, remainingIds);
+					}
+				}
+			}
+
+			if (change.type === EntityStorageChangeType.Removed) {
+				await rm(filename, { force: true });
+			} else {
+				await mkdir(path.dirname(filename), { recursive: true });
+				await this.writeFileAtomic(filename, JSON.stringify(change.entity, undefined, "\t"));
+				this.addToIndex(index, change.entity as T);
+			}
+		}
+		await this.writeIndex(index);
+	}
+
+	/**
+	 * Read the entity file for the file per entity layout, expired entities are excluded.
+	 * @param id The id of the entity to read.
+	 * @returns The entity if the file exists.
+	 * @internal
+	 */
+	private async readEntityFile(id: string): Promise<T | undefined> {
+		try {
+			const entity = JSON.parse(await readFile(this.getEntityFilename(id), "utf8")) as T;
+			return this.filterExpired([entity])[0];
+		} catch {}
+	}
+
+	/**
+	 * Get the filename for an entity in the file per entity layout, the id is hex encoded
+	 * so that it is safe on all file systems, and the files are sharded into subdirectories
+	 * using the hash of the id so that no single directory becomes too large.
+	 * @param id The id of the entity.
+	 * @returns The filename for the entity.
+	 * @internal
+	 */
+	private getEntityFilename(id: string): string {
+		const hash = createHash("sha256").update(id).digest("hex");
+		let name = Converter.bytesToHex(Converter.utf8ToBytes(id));
+		if (name.length > FileEntityStorageConnector._MAX_ENCODED_ID_LENGTH) {
+			// The hashed name can not clash with an encoded id as it is not valid hex
+			name = `h${hash}`;
+		}
+		return path.join(this._directory, "entities", hash.slice(0, 2), `${name}.json`);
+	}
+
+	/**
+	 * Read the index of the secondary properties for the file per entity layout.
+	 * @returns The ids of the entities for each property value, or undefined if the index does not exist.
+	 * @internal
+	 */
+	private async readIndex(): Promise<Map<string, Map<string, string[]>> | undefined> {
+		try {
+			const index = JSON.parse(
+				await readFile(path.join(this._directory, "index.json"), "utf8")
+			) as { [property: string]: { [value: string]: string[] } };
+			return new Map(
+				Object.entries(index).map(([property, values]) => [
+					property,
+					new Map(Object.entries(values))
+				])
+			);
+		} catch {}
+	}
+
+	/**
+	 * Write the index of the secondary properties for the file per entity layout.
+	 * @param index The ids of the entities for each property value.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async writeIndex(index: Map<string, Map<string, string[]>>): Promise<void> {
+		const content = Object.fromEntries(
+			Array.from(index.entries()).map(([property, values]) => [
+				property,
+				Object.fromEntries(values)
+			])
+		);
+		await this.writeFileAtomic(
+			path.join(this._directory, "index.json"),
+			JSON.stringify(content, undefined, "\t")
+		);
+	}
+
+	/**
+	 * Build the index of the secondary properties for the file per entity layout.
+	 * @param entities The entities to index.
+	 * @returns The ids of the entities for each property value.
+	 * @internal
+	 */
+	private buildIndex(entities: T[]): Map<string, Map<string, string[]>> {
+		const index = new Map<string, Map<string, string[]>>();
+		for (const entity of entities) {
+			this.addToIndex(index, entity);
+		}
+		return index;
+	}
+
+	/**
+	 * Add an entity to the index of the secondary properties, only string values are indexed
+	 * as the lookups are performed using the string index value.
+	 * @param index The ids of the entities for each property value.
+	 * @param entity The entity to add.
+	 * @internal
+	 */
+	private addToIndex(index: Map<string, Map<string, string[]>>, entity: T): void {
+		for (const property of this._secondaryProperties) {
+			const value = entity[property];
+			if (Is.string(value)) {
+				let values = index.get(property as string);
+				if (Is.undefined(values)) {
+					values = new Map();
+					index.set(property as string, values);
+				}
+				values.set(value, [
+					...(values.get(value) ?? []),
+					entity[this._primaryKey.property] as string
+				]);
+			}
+		}
+	}
+
+	/**
+	 * Get the filename of the journal for the journal layout.
+	 * @returns The filename of the journal.
+	 * @internal
+	 */
+	private getJournalFilename(): string {
+		return path.join(this._directory, "journal.ndjson");
+	}
+
+	/**
+	 * Read the entities for the journal layout by replaying the journal on top of the snapshot,
+	 * the replayed entities are kept so the next read only replays the records appended since,
+	 * unless the journal has been compacted. A last line without a newline is a record which is
+	 * still being written, or was interrupted, so it is not replayed.
+	 * @returns The entities by id, including the expired entities.
+	 * @throws GeneralError if a record in the journal is not valid.
+	 * @internal
+	 */
+	private async readJournal(): Promise<Map<string, T>> {
+		let handle: FileHandle | undefined;
+		try {
+			handle = await open(this.getJournalFilename(), "r");
+		} catch (err) {
+			if (!BaseError.isErrorCode(err, "ENOENT")) {
+				throw err;
+			}
+		}
+
+		if (Is.undefined(handle)) {
+			// Nothing has been written since the snapshot, which can be replaced at any time
+			// so the entities are not kept
+			this._journalState = undefined;
+			return this.toEntityMap(await this.readStore(true));
+		}
+
+		try {
+			// The journal is opened before the snapshot is read, so if it is compacted in between
+			// the records from the old journal are replayed on top of the new snapshot
+			const journalStat = await handle.stat();
+			let journalState = this._journalState;
+			if (
+				Is.undefined(journalState) ||
+				journalState.inode !== journalStat.ino ||
+				journalState.offset > journalStat.size
+			) {
+				journalState = {
+					entities: this.toEntityMap(await this.readStore(true)),
+					inode: journalStat.ino,
+					offset: 0
+				};
+			}
+
+			if (journalStat.size > journalState.offset) {
+				const buffer = Buffer.alloc(journalStat.size - journalState.offset);
+				await handle.read(buffer, 0, buffer.length, journalState.offset);
+				journalState.offset += this.replayJournal(
+					journalState.entities,
+					buffer,
+					journalState.offset
+				);
+			}
+
+			this._journalState = journalState;
+			return journalState.entities;
+		} finally {
+			await handle.close();
+		}
+	}
+
+	/**
+	 * Replay the complete lines of the journal.
+	 * @param entities The entities by id to apply the records to.
+	 * @param buffer The content of the journal to replay.
+	 * @param offset The offset of the content in the journal.
+	 * @returns The number of bytes which were replayed.
+	 * @throws GeneralError if a record in the journal is not valid.
+	 * @internal
+	 */
+	private replayJournal(entities: Map<string, T>, buffer: Buffer, offset: number): number {
+		const length = buffer.lastIndexOf("\n") + 1;
+		let lineOffset = offset;
+		for (const line of buffer.subarray(0, length).toString("utf8").split("\n")) {
+			if (line.length > 0) {
+				let records: IFileEntityStorageJournalRecord<T>[];
+				try {
+					const parsed = JSON.parse(line);
+					records = Is.array(parsed) ? parsed : [parsed];
+				} catch (err) {
+					throw new GeneralError(
+						this.CLASS_NAME,
+						"journalRecordInvalid",
+						{ directory: this._directory, offset: lineOffset },
+						err
+					);
+				}
+
+				for (const record of records) {
+					if (record.operation === FileEntityStorageJournalOperation.Set) {
+						entities.set(record.id, record.entity as T);
+					} else {
+						entities.delete(record.id);
+					}
+				}
+			}
+			lineOffset += Buffer.byteLength(line) + 1;
+		}
+		return length;
+	}
+
+	/**
+	 * Append the changes to the journal, the records for multiple changes are written as a
+	 * single line so that they are all replayed, or none of them are if the write is interrupted.
+	 * @param changes The changes to append, in the order they were made.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async appendJournal(changes: IEntityStorageChange<T>[]): Promise<void> {
+		await this.repairJournal();
+
+		const timestamp = Date.now();
+		const records = changes.map(change => {
+			const record: IFileEntityStorageJournalRecord<T> = {
+				timestamp,
+				operation:
+					change.type === EntityStorageChangeType.Removed
+						? FileEntityStorageJournalOperation.Remove
+						: FileEntityStorageJournalOperation.Set,
+				id: change.id
+			};
+			if (change.type !== EntityStorageChangeType.Removed) {
+				record.entity = change.entity;
+			}
+			return record;
+		});
+		const line = `${JSON.stringify(records.length === 1 ? records[0] : records)}\n`;
+		await appendFile(this.getJournalFilename(), line, "utf8");
+
+		// Replaying the line we have written avoids reading it back from the journal, and the
+		// entities are parsed so they can not be changed by the caller
+		const journalState = this._journalState;
+		if (!Is.undefined(journalState)) {
+			const buffer = Buffer.from(line, "utf8");
+			journalState.offset += this.replayJournal(journalState.entities, buffer, journalState.offset);
+		}
+	}
+
+	/**
+	 * Truncate the journal to remove the last line if it is not complete, as the write which
+	 * was appending it must have been interrupted, this must be called while holding the lock.
+	 * @returns The number of bytes which were removed.
+	 * @internal
+	 */
+	private async repairJournal(): Promise<number> {
+		await this.readJournal();
+		if (Is.undefined(this._journalState)) {
+			return 0;
+		}
+
+		const journalStat = await stat(this.getJournalFilename());
+		const truncatedBytes = journalStat.size - this._journalState.offset;
+		if (truncatedBytes > 0) {
+			await truncate(this.getJournalFilename(), this._journalState.offset);
+		}
+		return truncatedBytes;
+	}
+
+	/**
+	 * Compact the journal, logging any failure as it is performed by the timer.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async compactJournal(): Promise<void> {
+		try {
+			await this.compact();
+		} catch (err) {
+			const nodeLogging = LoggingConnectorFactory.getIfExists(
+				this._nodeLoggingConnectorType ?? "node-logging"
 			);
-			allEntities = EntitySorter.sort(allEntities, finalSortKeys);
+			await nodeLogging?.log({
+				level: "error",
+				source: this.CLASS_NAME,
+				message: "journalCompactionFailed",
+				data: {
+					directory: this._directory
+				},
+				error: BaseError.fromError(err)
+			});
+		}
+	}
 
-			const startIndex = Coerce.number(cursor) ?? 0;
+	/**
+	 * Create a map of the entities by id.
+	 * @param entities The entities to map.
+	 * @returns The entities by id.
+	 * @internal
+	 */
+	private toEntityMap(entities: T[]): Map<string, T> {
+		return new Map(entities.map(entity => [entity[this._primaryKey.property] as string, entity]));
+	}
+
+	/**
+	 * Perform a write while holding the lock on the directory, the writes from all the instances
+	 * in this process are serialized and an advisory lock file serializes the writes from other
+	 * processes, so that the entities read before a write can not be changed before it completes.
+	 * @param action The action to perform while holding the lock.
+	 * @returns The result of the action.
+	 * @throws GeneralError if the lock could not be acquired before the lock timeout.
+	 * @internal
+	 */
+	private async withWriteLock<U>(action: () => Promise<U>): Promise<U> {
+		const previousWrite =
+			FileEntityStorageConnector._PENDING_WRITES.get(this._directory) ?? Promise.resolve();
+		// The write for this instance only completes after the previous write, so it is
+		// the only pending write which the next write needs to wait for
+		let writeComplete: (() => void) | undefined;
+		const pendingWrite = new Promise<void>(resolve => {
+			writeComplete = resolve;
+		});
+		FileEntityStorageConnector._PENDING_WRITES.set(this._directory, pendingWrite);
+
+		await previousWrite;
+		try {
+			const lockToken = await this.acquireLock();
+			// Refresh the lock while the action is performed so that a long write, such as
+			// compacting the journal, is not seen as stale by other processes
+			const refreshTimer = setInterval(
+				async () => this.refreshLock(),
+				this._lockStaleTimeout / FileEntityStorageConnector._LOCK_REFRESH_COUNT
+			);
+			try {
+				return await action();
+			} finally {
+				clearInterval(refreshTimer);
+				await this.releaseLock(lockToken);
+			}
+		} finally {
+			writeComplete?.();
+			if (FileEntityStorageConnector._PENDING_WRITES.get(this._directory) === pendingWrite) {
+				FileEntityStorageConnector._PENDING_WRITES.delete(this._directory);
+			}
+		}
+	}
 
-			for (let i = startIndex; i < allEntities.length; i++) {
-				if (EntityConditions.check(allEntities[i], conditions) && entities.length < finalPageSize) {
-					entities.push(ObjectHelper.pick(allEntities[i], properties));
-					if (entities.length >= finalPageSize) {
-						if (i < allEntities.length - 1) {
-							nextCursor = (i + 1).toString();
+	/**
+	 * Acquire the lock file for the directory, retrying until the lock timeout and
+	 * removing the lock file if it is stale.
+	 * @returns The token which identifies the lock file created by this process.
+	 * @throws GeneralError if the lock could not be acquired before the lock timeout.
+	 * @internal
+	 */
+	private async acquireLock(): Promise<string> {
+		const lockFilename = path.join(this._directory, ".lock");
+		const lockToken = Converter.bytesToHex(RandomHelper.generate(16));
+		const startTime = Date.now();
+
+		await mkdir(this._directory, { recursive: true });
+
+		for (;;) {
+			try {
+				const handle = await open(lockFilename, "wx");
+				try {
+					await handle.writeFile(
+						JSON.stringify({
+							token: lockToken,
+							pid: process.pid,
+							hostname: hostname(),
+							created: Date.now()
+						}),
+						"utf8"
+					);
+				} finally {
+					await handle.close();
+				}
+				return lockToken;
+			} catch (err) {
+				if (!BaseError.isErrorCode(err, "EEXIST")) {
+					throw err;
+				}
+			}
+
+			const staleLock = await this.getStaleLock(lockFilename);
+			if (!Is.undefined(staleLock)) {
+				// Rename before removing so that only one process removes the stale lock
+				const staleFilename = `${lockFilename}.${lockToken}.stale`;
+				try {
+					await rename(lockFilename, staleFilename);
+					try {
+						// Another process may have removed the stale lock and created its own lock
+						// after it was checked, in which case that lock is given back
+						const renamedLock = await readFile(staleFilename, "utf8");
+						if (renamedLock !== staleLock) {
+							await writeFile(lockFilename, renamedLock, { encoding: "utf8", flag: "wx" });
 						}
-						break;
+					} finally {
+						await rm(staleFilename, { force: true });
 					}
+				} catch {
+					// The lock was removed by another process, or replaced before it could be given back
 				}
+			} else if (Date.now() - startTime > this._lockTimeout) {
+				throw new GeneralError(this.CLASS_NAME, "lockTimeout", {
+					directory: this._directory
+				});
+			} else {
+				await new Promise(resolve =>
+					setTimeout(resolve, FileEntityStorageConnector._LOCK_RETRY_INTERVAL)
+				);
 			}
 		}
+	}
 
-		return {
-			entities,
-			cursor: nextCursor
-		};
+	/**
+	 * Release the lock file for the directory if it is still the one created by this process.
+	 * @param lockToken The token which identifies the lock file created by this process.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async releaseLock(lockToken: string): Promise<void> {
+		const lockFilename = path.join(this._directory, ".lock");
+		try {
+			const lock = JSON.parse(await readFile(lockFilename, "utf8"));
+			if (lock.token === lockToken) {
+				await rm(lockFilename, { force: true });
+			}
+		} catch {
+			// The lock file was already removed
+		}
+	}
+
+	/**
+	 * Refresh the modified time of the lock file for the directory so it does not become stale.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async refreshLock(): Promise<void> {
+		const now = new Date();
+		try {
+			await utimes(path.join(this._directory, ".lock"), now, now);
+		} catch {
+			// The lock file was already removed
+		}
+	}
+
+	/**
+	 * Get the content of the lock file if it is stale, either because it is older than the stale
+	 * timeout or because the process on this host which created it is no longer running.
+	 * @param lockFilename The lock file to check.
+	 * @returns The content of the lock file if it is stale, otherwise undefined.
+	 * @internal
+	 */
+	private async getStaleLock(lockFilename: string): Promise<string | undefined> {
+		try {
+			// Read the content before the modified time, so a lock which replaces the stale lock
+			// in between is not seen as stale
+			const content = await readFile(lockFilename, "utf8");
+			const lockStat = await stat(lockFilename);
+			if (Date.now() - lockStat.mtimeMs > this._lockStaleTimeout) {
+				return content;
+			}
+
+			const lock = JSON.parse(content);
+			if (lock.hostname === hostname() && Is.integer(lock.pid) && lock.pid !== process.pid) {
+				try {
+					process.kill(lock.pid, 0);
+				} catch (err) {
+					if (BaseError.isErrorCode(err, "ESRCH")) {
+						return content;
+					}
+				}
+			}
+		} catch {
+			// The lock file was removed or is still being written
+		}
+	}
+
+	/**
+	 * Write a file atomically by writing to a temporary file and renaming it,
+	 * so the file is never left partially written.
+	 * @param filename The file to write.
+	 * @param content The content to write.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async writeFileAtomic(filename: string, content: string): Promise<void> {
+		const tempFilename = `${filename}.${process.pid}.tmp`;
+		await writeFile(tempFilename, content, "utf8");
+		await rename(tempFilename, filename);
 	}
 
 	/**
-	 * Read the store from file.
+	 * Read the store from file, the expired entities are excluded so they are never returned,
+	 * and are removed from the file the next time the store is written.
+	 * @param includeExpired Include the expired entities in the store.
 	 * @returns The store.
 	 * @internal
 	 */
-	private async readStore(): Promise<T[]> {
+	private async readStore(includeExpired: boolean = false): Promise<T[]> {
 		try {
 			const filename = path.join(this._directory, "store.json");
-			const store = await readFile(filename, "utf8");
-			return JSON.parse(store) as T[];
+			const store = JSON.parse(await readFile(filename, "utf8")) as T[];
+			return includeExpired ? store : this.filterExpired(store);
 		} catch {
 			return [];
 		}
 	}
 
+	/**
+	 * Remove the expired entities from the file.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async removeExpired(): Promise<void> {
+		try {
+			await this.withWriteLock(async () => {
+				if (this._layout !== FileEntityStorageLayout.SingleFile) {
+					const entities = await this.readEntities(true);
+					const unexpired = new Set(this.filterExpired(entities));
+					const changes: IEntityStorageChange<T>[] = entities
+						.filter(entity => !unexpired.has(entity))
+						.map(entity => ({
+							type: EntityStorageChangeType.Removed,
+							id: entity[this._primaryKey.property] as string,
+							entity
+						}));
+					if (changes.length > 0) {
+						await this.writeChanges(changes);
+					}
+				} else {
+					const store = await this.readStore(true);
+					const unexpired = this.filterExpired(store);
+					if (unexpired.length < store.length) {
+						await this.writeStore(unexpired);
+					}
+				}
+			});
+		} catch {
+			// The expired entities are removed by the next sweep if the lock could not be acquired
+		}
+	}
+
+	/**
+	 * Filter the expired entities from the store.
+	 * @param store The store to filter.
+	 * @returns The entities which have not expired.
+	 * @internal
+	 */
+	private filterExpired(store: T[]): T[] {
+		if (Is.undefined(this._expiryProperty)) {
+			return store;
+		}
+		const now = EntityStorageExpiryHelper.now();
+		return store.filter(e => !EntityStorageExpiryHelper.isExpired(e, this._expiryProperty, now));
+	}
+
 	/**
 	 * Write the store to the file.
 	 * @param store The store to write.
@@ -286,10 +1530,10 @@ export class FileEntityStorageConnector<T = unknown> implements IEntityStorageCo
 	 * @internal
 	 */
 	private async writeStore(store: T[]): Promise<void> {
-		try {
-			const filename = path.join(this._directory, "store.json");
-			await writeFile(filename, JSON.stringify(store, undefined, "\t"), "utf8");
-		} catch {}
+		await this.writeFileAtomic(
+			path.join(this._directory, "store.json"),
+			JSON.stringify(store, undefined, "\t")
+		);
 	}
 
 	/**
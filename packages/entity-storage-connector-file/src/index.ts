@@ -3,3 +3,6 @@
 export * from "./fileEntityStorageConnector";
 export * from "./models/IFileEntityStorageConnectorConfig";
 export * from "./models/IFileEntityStorageConnectorConstructorOptions";
+export * from "./models/IFileEntityStorageJournalRecord";
+export * from "./models/fileEntityStorageJournalOperation";
+export * from "./models/fileEntityStorageLayout";
@@ -1,5 +1,6 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
+import type { FileEntityStorageLayout } from "./fileEntityStorageLayout";
 
 /**
  * Configuration for the File Entity Storage Connector.
@@ -9,4 +10,35 @@ export interface IFileEntityStorageConnectorConfig {
 	 * The directory to use for storage.
 	 */
 	directory: string;
+
+	/**
+	 * The interval in milliseconds for sweeping the expired entities while the connector is started,
+	 * only used if the schema supports expiry, defaults to 60000.
+	 */
+	expirySweepInterval?: number;
+
+	/**
+	 * The layout for storing the entities in the directory, defaults to single-file.
+	 */
+	layout?: FileEntityStorageLayout;
+
+	/**
+	 * The interval in milliseconds for compacting the journal into the snapshot while the connector
+	 * is started, only used with the journal layout, defaults to 60000.
+	 */
+	journalCompactionInterval?: number;
+
+	/**
+	 * The time in milliseconds to wait for the lock on the directory before a write fails,
+	 * defaults to 10000.
+	 */
+	lockTimeout?: number;
+
+	/**
+	 * The age in milliseconds after which a lock on the directory is considered stale and
+	 * is removed, the lock is refreshed while it is held so long writes do not become stale,
+	 * a lock is also stale if the process which created it is no longer running on this host,
+	 * defaults to 30000.
+	 */
+	lockStaleTimeout?: number;
 }
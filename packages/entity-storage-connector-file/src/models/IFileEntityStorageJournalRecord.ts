@@ -0,0 +1,29 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { FileEntityStorageJournalOperation } from "./fileEntityStorageJournalOperation";
+
+/**
+ * A record in the journal, each line of the journal contains a record, or an array of
+ * records for the changes which must be applied together such as a transaction.
+ */
+export interface IFileEntityStorageJournalRecord<T = unknown> {
+	/**
+	 * The time the change was made in milliseconds since the epoch.
+	 */
+	timestamp: number;
+
+	/**
+	 * The operation which was performed.
+	 */
+	operation: FileEntityStorageJournalOperation;
+
+	/**
+	 * The id of the entity.
+	 */
+	id: string;
+
+	/**
+	 * The entity after the change, only set for the set operation.
+	 */
+	entity?: T;
+}
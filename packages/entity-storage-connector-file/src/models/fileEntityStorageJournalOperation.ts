@@ -0,0 +1,24 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The operations which can be recorded in the journal.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const FileEntityStorageJournalOperation = {
+	/**
+	 * The entity was created or updated.
+	 */
+	Set: "set",
+
+	/**
+	 * The entity was removed.
+	 */
+	Remove: "remove"
+} as const;
+
+/**
+ * The operations which can be recorded in the journal.
+ */
+export type FileEntityStorageJournalOperation =
+	(typeof FileEntityStorageJournalOperation)[keyof typeof FileEntityStorageJournalOperation];
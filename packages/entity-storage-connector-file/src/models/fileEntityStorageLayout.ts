@@ -0,0 +1,31 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The layouts for storing the entities in the directory.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const FileEntityStorageLayout = {
+	/**
+	 * All of the entities are stored in a single store.json file.
+	 */
+	SingleFile: "single-file",
+
+	/**
+	 * Each entity is stored in its own file keyed by the primary key, with an
+	 * index.json file for the secondary index lookups, transactions are not supported.
+	 */
+	FilePerEntity: "file-per-entity",
+
+	/**
+	 * The changes to the entities are appended to a journal.ndjson file, which is replayed
+	 * on top of the store.json snapshot and periodically compacted into it.
+	 */
+	Journal: "journal"
+} as const;
+
+/**
+ * The layouts for storing the entities in the directory.
+ */
+export type FileEntityStorageLayout =
+	(typeof FileEntityStorageLayout)[keyof typeof FileEntityStorageLayout];
@@ -1,6 +1,10 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import { readFile, rm } from "node:fs/promises";
+/* eslint-disable max-classes-per-file */
+import { createHash } from "node:crypto";
+import { appendFile, readFile, readdir, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+import path from "node:path";
 import { Converter, I18n, RandomHelper } from "@twin.org/core";
 import {
 	ComparisonOperator,
@@ -11,7 +15,17 @@ import {
 	property
 } from "@twin.org/entity";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
-import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageChangeType,
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType,
+	type IEntityStorageChange,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorTestSuite,
+	type TestSuiteEntity
+} from "@twin.org/entity-storage-test-suite";
 import {
 	EntityStorageLoggingConnector,
 	type LogEntry,
@@ -20,6 +34,7 @@ import {
 import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
 import { FileEntityStorageConnector } from "../src/fileEntityStorageConnector";
+import { FileEntityStorageLayout } from "../src/models/fileEntityStorageLayout";
 import type { IFileEntityStorageConnectorConfig } from "../src/models/IFileEntityStorageConnectorConfig";
 
 /**
@@ -36,7 +51,7 @@ class TestType {
 	/**
 	 * Value1.
 	 */
-	@property({ type: "string" })
+	@property({ type: "string", isSecondary: true })
 	public value1!: string;
 
 	/**
@@ -46,17 +61,72 @@ class TestType {
 	public value2!: string;
 }
 
+/**
+ * Test Versioned Type Definition.
+ */
+@entity()
+class TestVersionedType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Version.
+	 */
+	@property({ type: "string", optional: true })
+	public entityVersion?: string;
+}
+
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
 let memoryEntityStorage: MemoryEntityStorageConnector<LogEntry>;
 
 const TEST_DIRECTORY_ROOT = "./.tmp/";
 const TEST_DIRECTORY = `${TEST_DIRECTORY_ROOT}test-data-${Converter.bytesToHex(RandomHelper.generate(8))}`;
 const TEST_STORE_NAME = `${TEST_DIRECTORY}/store.json`;
+const TEST_JOURNAL_NAME = `${TEST_DIRECTORY}/journal.ndjson`;
 
 describe("FileEntityStorageConnector", () => {
 	beforeAll(async () => {
 		I18n.addDictionary("en", await import("../locales/en.json"));
 
 		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
+		EntitySchemaFactory.register(nameof<TestVersionedType>(), () =>
+			EntitySchemaHelper.getSchema(TestVersionedType)
+		);
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
 		initSchema();
 	});
 
@@ -71,6 +141,7 @@ describe("FileEntityStorageConnector", () => {
 	});
 
 	afterEach(async () => {
+		vi.useRealTimers();
 		try {
 			await rm(TEST_DIRECTORY_ROOT, { recursive: true });
 		} catch {}
@@ -429,133 +500,1190 @@ describe("FileEntityStorageConnector", () => {
 		expect(store.length).toEqual(0);
 	});
 
-	test("can query items with empty store", async () => {
+	test("can set a batch of items", async () => {
 		const entityStorage = new FileEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
 			config: { directory: TEST_DIRECTORY }
 		});
 		await entityStorage.bootstrap();
-		const result = await entityStorage.query();
-		expect(result).toBeDefined();
-		expect(result.entities.length).toEqual(0);
-		expect(result.cursor).toBeUndefined();
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: "bbb" },
+			{ id: "2", value1: "ccc", value2: "ddd" }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const file = await readFile(TEST_STORE_NAME, "utf8");
+		const store = JSON.parse(file);
+		expect(store.length).toEqual(2);
+		expect(store[1].id).toEqual("2");
+		expect(store[1].value2).toEqual("ddd");
 	});
 
-	test("can query items with single entry", async () => {
+	test("can set a batch of items with individual failures", async () => {
 		const entityStorage = new FileEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
 			config: { directory: TEST_DIRECTORY }
 		});
 		await entityStorage.bootstrap();
-		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
-		const result = await entityStorage.query();
-		expect(result).toBeDefined();
-		expect(result.entities.length).toEqual(1);
-		expect(result.cursor).toBeUndefined();
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: "bbb" },
+			{ id: "2", value1: "ccc", value2: 123 as unknown as string }
+		]);
+
+		expect(results[0]).toEqual({ id: "1", success: true });
+		expect(results[1].id).toEqual("2");
+		expect(results[1].success).toEqual(false);
+		expect(results[1].error).toBeDefined();
+		const file = await readFile(TEST_STORE_NAME, "utf8");
+		const store = JSON.parse(file);
+		expect(store.length).toEqual(1);
 	});
 
-	test("can find items with single entry and single page with no resulting cursor", async () => {
+	test("can get a batch of items", async () => {
 		const entityStorage = new FileEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
 			config: { directory: TEST_DIRECTORY }
 		});
 		await entityStorage.bootstrap();
 		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
-		const result = await entityStorage.query(undefined, undefined, undefined, undefined, 1);
-		expect(result).toBeDefined();
-		expect(result.entities.length).toEqual(1);
-		expect(result.cursor).toBeUndefined();
+		await entityStorage.set({ id: "2", value1: "ccc", value2: "ddd" });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results).toEqual([
+			{ id: "2", success: true, entity: { id: "2", value1: "ccc", value2: "ddd" } },
+			{ id: "3", success: true, entity: undefined },
+			{ id: "1", success: true, entity: { id: "1", value1: "aaa", value2: "bbb" } }
+		]);
 	});
 
-	test("can query items with multiple entries", async () => {
+	test("can remove a batch of items", async () => {
 		const entityStorage = new FileEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
 			config: { directory: TEST_DIRECTORY }
 		});
 		await entityStorage.bootstrap();
-		for (let i = 0; i < 30; i++) {
-			await entityStorage.set({ id: (i + 1).toString(), value1: "aaa", value2: "bbb" });
-		}
-		const result = await entityStorage.query();
-		expect(result).toBeDefined();
-		expect(result.entities.length).toEqual(20);
-		expect(result.cursor).toEqual("20");
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		await entityStorage.set({ id: "2", value1: "ccc", value2: "ddd" });
+		await entityStorage.set({ id: "3", value1: "eee", value2: "fff" });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		const file = await readFile(TEST_STORE_NAME, "utf8");
+		const store = JSON.parse(file);
+		expect(store.length).toEqual(1);
+		expect(store[0].id).toEqual("2");
 	});
 
-	test("can query items with multiple entries and cursor", async () => {
+	test("can check the transaction capability", async () => {
 		const entityStorage = new FileEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
 			config: { directory: TEST_DIRECTORY }
 		});
 		await entityStorage.bootstrap();
-		for (let i = 0; i < 30; i++) {
-			await entityStorage.set({ id: (i + 1).toString(), value1: "aaa", value2: "bbb" });
-		}
-		const result = await entityStorage.query();
-		const result2 = await entityStorage.query(undefined, undefined, undefined, result.cursor);
-		expect(result2).toBeDefined();
-		expect(result2.entities.length).toEqual(10);
-		expect(result2.cursor).toBeUndefined();
+		expect(entityStorage.getCapabilities().transactions).toEqual(true);
 	});
 
-	test("can query items with multiple entries and apply conditions", async () => {
+	test("can fail to perform a transaction with the file per entity layout", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.FilePerEntity }
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().transactions).toEqual(false);
+		await expect(
+			entityStorage.transaction([
+				{ type: "set", entity: { id: "1", value1: "aaa", value2: "bbb" } }
+			])
+		).rejects.toMatchObject({
+			name: "NotSupportedError",
+			message: "entityStorageTransactionHelper.transactionsNotSupported"
+		});
+		expect(await entityStorage.count()).toEqual(0);
+	});
+
+	test("can set and remove items in a transaction", async () => {
 		const entityStorage = new FileEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
 			config: { directory: TEST_DIRECTORY }
 		});
 		await entityStorage.bootstrap();
-		for (let i = 0; i < 100; i++) {
-			await entityStorage.set({
-				id: (i + 1).toString(),
-				value1: "aaa",
-				value2: i % 3 === 0 ? "ccc" : "bbb"
-			});
-		}
-		const result = await entityStorage.query({
-			property: "value2",
-			value: "ccc",
-			comparison: ComparisonOperator.Equals
+		await entityStorage.set({ id: "2", value1: "ccc", value2: "ddd" });
+		await entityStorage.set({ id: "3", value1: "eee", value2: "fff" });
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "aaa", value2: "bbb" }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+		]);
+
+		expect(await entityStorage.get("1")).toBeDefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can set items in a transaction with the expected version", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
 		});
-		expect(result).toBeDefined();
-		expect(result.entities.length).toEqual(20);
-		expect(result.cursor).toEqual("58");
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const current = await entityStorage.get("1");
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "bbb" },
+				expectedVersion: current?.entityVersion
+			},
+			{ type: EntityStorageTransactionOperationType.Set, entity: { id: "2", value1: "ccc" } }
+		]);
+
+		const result1 = await entityStorage.get("1");
+		const result2 = await entityStorage.get("2");
+		expect(result1?.value1).toEqual("bbb");
+		expect(result2?.value1).toEqual("ccc");
 	});
 
-	test("can query items with multiple entries and apply custom sort", async () => {
+	test("can roll back a transaction when an expected version does not match", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		await entityStorage.set({ id: "2", value1: "bbb" });
+
+		await expect(
+			entityStorage.transaction([
+				{ type: EntityStorageTransactionOperationType.Set, entity: { id: "1", value1: "ccc" } },
+				{ type: EntityStorageTransactionOperationType.Remove, id: "2", expectedVersion: "foo" }
+			])
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+
+		const result1 = await entityStorage.get("1");
+		const result2 = await entityStorage.get("2");
+		expect(result1?.value1).toEqual("aaa");
+		expect(result2?.value1).toEqual("bbb");
+	});
+
+	test("can fail to perform a transaction with an invalid operation", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.transaction([
+				{
+					type: EntityStorageTransactionOperationType.Remove
+				} as IEntityStorageTransactionOperation<TestVersionedType>
+			])
+		).rejects.toMatchObject({
+			name: "GuardError",
+			message: "guard.string",
+			properties: { property: "operations[0].id" }
+		});
+	});
+
+	test("can check the subscription capability", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(true);
+	});
+
+	test("can subscribe to the changes made to items", async () => {
 		const entityStorage = new FileEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
 			config: { directory: TEST_DIRECTORY }
 		});
 		await entityStorage.bootstrap();
-		for (let i = 0; i < 30; i++) {
-			await entityStorage.set({ id: (30 - i).toString(), value1: "aaa", value2: "bbb" });
-		}
-		const result = await entityStorage.query(undefined, [
+		const changes: IEntityStorageChange<TestType>[] = [];
+		await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "ccc" });
+		await entityStorage.set({ id: "1", value1: "bbb", value2: "ccc" });
+		await entityStorage.patch("1", { value2: "ddd" });
+		await entityStorage.remove("1");
+
+		expect(changes).toEqual([
 			{
-				property: "id",
-				sortDirection: SortDirection.Ascending
+				type: EntityStorageChangeType.Created,
+				id: "1",
+				entity: { id: "1", value1: "aaa", value2: "ccc" }
+			},
+			{
+				type: EntityStorageChangeType.Updated,
+				id: "1",
+				entity: { id: "1", value1: "bbb", value2: "ccc" }
+			},
+			{
+				type: EntityStorageChangeType.Updated,
+				id: "1",
+				entity: { id: "1", value1: "bbb", value2: "ddd" }
+			},
+			{
+				type: EntityStorageChangeType.Removed,
+				id: "1",
+				entity: { id: "1", value1: "bbb", value2: "ddd" }
 			}
 		]);
-		expect(result).toBeDefined();
-		expect(result.entities.length).toEqual(20);
-		expect(result.entities[0].id).toEqual("1");
-		expect(result.cursor).toEqual("20");
 	});
 
-	test("can query items and get a reduced data set", async () => {
+	test("can subscribe to the changes made to items with conditions", async () => {
 		const entityStorage = new FileEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
 			config: { directory: TEST_DIRECTORY }
 		});
 		await entityStorage.bootstrap();
-		for (let i = 0; i < 30; i++) {
-			await entityStorage.set({ id: (i + 1).toString(), value1: "aaa", value2: "bbb" });
-		}
-		const result = await entityStorage.query(undefined, undefined, ["id", "value1"]);
-		expect(result).toBeDefined();
-		expect(result.entities.length).toEqual(20);
-		expect(result.entities[0].id).toEqual("1");
-		expect(result.entities[0].value1).toEqual("aaa");
-		expect(result.entities[0].value2).toBeUndefined();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		await entityStorage.subscribe(
+			{ property: "value1", comparison: ComparisonOperator.Equals, value: "aaa" },
+			async change => {
+				changes.push(change);
+			}
+		);
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "ccc" });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: "ddd" });
+
+		expect(changes.map(c => c.id)).toEqual(["1"]);
+	});
+
+	test("can unsubscribe from the changes made to items", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "ccc" });
+		await entityStorage.unsubscribe(subscriptionId);
+		await entityStorage.set({ id: "2", value1: "bbb", value2: "ddd" });
+
+		expect(changes.map(c => c.id)).toEqual(["1"]);
+	});
+
+	test("can only notify the changes from a transaction which succeeds", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const changes: IEntityStorageChange<TestVersionedType>[] = [];
+		await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await expect(
+			entityStorage.transaction([
+				{ type: EntityStorageTransactionOperationType.Set, entity: { id: "2", value1: "bbb" } },
+				{ type: EntityStorageTransactionOperationType.Remove, id: "1", expectedVersion: "foo" }
+			])
+		).rejects.toMatchObject({
+			name: "ConflictError"
+		});
+		expect(changes).toEqual([]);
+
+		await entityStorage.transaction([
+			{ type: EntityStorageTransactionOperationType.Set, entity: { id: "2", value1: "bbb" } },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "1" }
+		]);
+		expect(changes.map(c => [c.type, c.id])).toEqual([
+			[EntityStorageChangeType.Created, "2"],
+			[EntityStorageChangeType.Removed, "1"]
+		]);
+	});
+
+	test("can count items with empty store", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		await entityStorage.set({ id: "2", value1: "ccc", value2: "ddd" });
+		await entityStorage.set({ id: "3", value1: "eee", value2: "fff" });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "ccc",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("patched");
+		expect(result?.value2).toEqual("bbb");
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
+	test("can set an item and generate a version", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.entityVersion).toMatch(/^[\da-f]{32}$/);
+	});
+
+	test("can set an item with the expected version", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const current = await entityStorage.get("1");
+
+		await entityStorage.set({ id: "1", value1: "bbb" }, undefined, current?.entityVersion);
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.entityVersion).not.toEqual(current?.entityVersion);
+	});
+
+	test("can fail to set an item with a different expected version", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+
+		await expect(
+			entityStorage.set({ id: "1", value1: "bbb" }, undefined, "foo")
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("aaa");
+	});
+
+	test("can fail to set an item which does not exist with an expected version", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa" }, undefined, "foo")
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+	});
+
+	test("can remove an item with the expected version", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const current = await entityStorage.get("1");
+
+		await entityStorage.remove("1", undefined, current?.entityVersion);
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to remove an item with a different expected version", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+
+		await expect(entityStorage.remove("1", undefined, "foo")).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("aaa");
+	});
+
+	test("can generate a new version when patching an item", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const current = await entityStorage.get("1");
+
+		await entityStorage.patch("1", { value1: "bbb" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.entityVersion).not.toEqual(current?.entityVersion);
+	});
+
+	test("can set an item with a time to live", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+		const entityStorage = new FileEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 60);
+
+		const result = await entityStorage.get("1");
+		expect(result).toEqual({ id: "1", value1: "aaa", entityExpiry: 1704067260 });
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+		const entityStorage = new FileEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 60);
+		await entityStorage.set({ id: "2", value1: "bbb" });
+
+		vi.setSystemTime(new Date("2024-01-01T00:01:00.000Z"));
+
+		expect(await entityStorage.get("1")).toBeUndefined();
+		const result = await entityStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await entityStorage.count()).toEqual(1);
+	});
+
+	test("can set an item to replace one which has expired", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+		const entityStorage = new FileEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 60);
+
+		vi.setSystemTime(new Date("2024-01-01T00:01:00.000Z"));
+		await entityStorage.set({ id: "1", value1: "bbb" });
+
+		const file = await readFile(TEST_STORE_NAME, "utf8");
+		expect(JSON.parse(file)).toEqual([{ id: "1", value1: "bbb" }]);
+	});
+
+	test("can sweep the expired items while the connector is started", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { directory: TEST_DIRECTORY, expirySweepInterval: 100 }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({
+			id: "1",
+			value1: "aaa",
+			entityExpiry: Math.floor(Date.now() / 1000) - 1
+		});
+		const file = await readFile(TEST_STORE_NAME, "utf8");
+		expect(JSON.parse(file).length).toEqual(1);
+
+		await entityStorage.start("node", undefined);
+		await vi.waitFor(async () => {
+			const sweptFile = await readFile(TEST_STORE_NAME, "utf8");
+			expect(JSON.parse(sweptFile)).toEqual([]);
+		});
+		await entityStorage.stop("node", undefined);
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" }, undefined, undefined, 60)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
+	test("can fail to remove an item with an expected version when the schema has no versions", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await expect(entityStorage.remove("1", undefined, "foo")).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageVersionHelper.versionNotSupported"
+		});
+	});
+
+	test("can query items with empty store", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		const result = await entityStorage.query();
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(0);
+		expect(result.cursor).toBeUndefined();
+	});
+
+	test("can query items with single entry", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		const result = await entityStorage.query();
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(1);
+		expect(result.cursor).toBeUndefined();
+	});
+
+	test("can find items with single entry and single page with no resulting cursor", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		const result = await entityStorage.query(undefined, undefined, undefined, undefined, 1);
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(1);
+		expect(result.cursor).toBeUndefined();
+	});
+
+	test("can query items with multiple entries", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 30; i++) {
+			await entityStorage.set({ id: (i + 1).toString(), value1: "aaa", value2: "bbb" });
+		}
+		const result = await entityStorage.query();
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(20);
+		expect(result.cursor).toBeDefined();
+	});
+
+	test("can query items with multiple entries and cursor", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 30; i++) {
+			await entityStorage.set({ id: (i + 1).toString(), value1: "aaa", value2: "bbb" });
+		}
+		const result = await entityStorage.query();
+		const result2 = await entityStorage.query(undefined, undefined, undefined, result.cursor);
+		expect(result2).toBeDefined();
+		expect(result2.entities.length).toEqual(10);
+		expect(result2.cursor).toBeUndefined();
+	});
+
+	test("can find items with a cursor when items are added and removed between pages", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		for (let i = 1; i <= 6; i++) {
+			await entityStorage.set({ id: i.toString(), value1: "aaa", value2: `v${i * 10}` });
+		}
+		const sortProperties = [
+			{ property: "value2" as const, sortDirection: SortDirection.Ascending }
+		];
+
+		const result = await entityStorage.query(undefined, sortProperties, undefined, undefined, 3);
+		expect(result.entities.map(e => e.id)).toEqual(["1", "2", "3"]);
+
+		await entityStorage.remove("2");
+		await entityStorage.set({ id: "0", value1: "aaa", value2: "v05" });
+		await entityStorage.set({ id: "9", value1: "aaa", value2: "v45" });
+
+		const result2 = await entityStorage.query(
+			undefined,
+			sortProperties,
+			undefined,
+			result.cursor,
+			3
+		);
+		expect(result2.entities.map(e => e.id)).toEqual(["4", "9", "5"]);
+		const result3 = await entityStorage.query(
+			undefined,
+			sortProperties,
+			undefined,
+			result2.cursor,
+			3
+		);
+		expect(result3.entities.map(e => e.id)).toEqual(["6"]);
+		expect(result3.cursor).toBeUndefined();
+	});
+
+	test("can fail to find items with an invalid cursor", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.query(undefined, undefined, undefined, "invalid")
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageCursorHelper.cursorInvalid"
+		});
+	});
+
+	test("can query items with multiple entries and apply conditions", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 100; i++) {
+			await entityStorage.set({
+				id: (i + 1).toString(),
+				value1: "aaa",
+				value2: i % 3 === 0 ? "ccc" : "bbb"
+			});
+		}
+		const result = await entityStorage.query({
+			property: "value2",
+			value: "ccc",
+			comparison: ComparisonOperator.Equals
+		});
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(20);
+		expect(result.cursor).toBeDefined();
+	});
+
+	test("can query items with multiple entries and apply custom sort", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 30; i++) {
+			await entityStorage.set({ id: (30 - i).toString(), value1: "aaa", value2: "bbb" });
+		}
+		const result = await entityStorage.query(undefined, [
+			{
+				property: "id",
+				sortDirection: SortDirection.Ascending
+			}
+		]);
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(20);
+		expect(result.entities[0].id).toEqual("1");
+		expect(result.cursor).toBeDefined();
+	});
+
+	test("can query items and get a reduced data set", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 30; i++) {
+			await entityStorage.set({ id: (i + 1).toString(), value1: "aaa", value2: "bbb" });
+		}
+		const result = await entityStorage.query(undefined, undefined, ["id", "value1"]);
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(20);
+		expect(result.entities[0].id).toEqual("1");
+		expect(result.entities[0].value1).toEqual("aaa");
+		expect(result.entities[0].value2).toBeUndefined();
+	});
+
+	test("can serialize the writes from multiple instances using the same directory", async () => {
+		const entityStorage1 = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		const entityStorage2 = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY }
+		});
+		await entityStorage1.bootstrap();
+
+		const writes: Promise<void>[] = [];
+		for (let i = 0; i < 20; i++) {
+			writes.push(entityStorage1.set({ id: `a${i}`, value1: "aaa", value2: "bbb" }));
+			writes.push(entityStorage2.set({ id: `b${i}`, value1: "aaa", value2: "bbb" }));
+		}
+		await Promise.all(writes);
+
+		expect(await entityStorage1.count()).toEqual(40);
+		const files = await readdir(TEST_DIRECTORY);
+		expect(files).toEqual(["store.json"]);
+	});
+
+	test("can remove a lock left by a process which is no longer running", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, lockTimeout: 100 }
+		});
+		await entityStorage.bootstrap();
+		await writeFile(
+			path.join(TEST_DIRECTORY, ".lock"),
+			JSON.stringify({ token: "foo", pid: 4194305, hostname: hostname(), created: Date.now() })
+		);
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		expect(await entityStorage.count()).toEqual(1);
+		await expect(readFile(path.join(TEST_DIRECTORY, ".lock"), "utf8")).rejects.toThrow();
+	});
+
+	test("can remove a lock which is older than the stale timeout", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, lockTimeout: 100, lockStaleTimeout: 1000 }
+		});
+		await entityStorage.bootstrap();
+		const lockFilename = path.join(TEST_DIRECTORY, ".lock");
+		await writeFile(
+			lockFilename,
+			JSON.stringify({ token: "foo", pid: process.pid, hostname: hostname(), created: 0 })
+		);
+		const lockTime = new Date(Date.now() - 5000);
+		await utimes(lockFilename, lockTime, lockTime);
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		expect(await entityStorage.count()).toEqual(1);
+	});
+
+	test("can give back a lock which replaced the stale lock after it was checked", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, lockTimeout: 100, lockStaleTimeout: 1000 }
+		});
+		await entityStorage.bootstrap();
+		const lockFilename = path.join(TEST_DIRECTORY, ".lock");
+		await writeFile(
+			lockFilename,
+			JSON.stringify({ token: "foo", pid: process.pid, hostname: hostname(), created: 0 })
+		);
+		const lockTime = new Date(Date.now() - 5000);
+		await utimes(lockFilename, lockTime, lockTime);
+
+		// Another process takes over the stale lock once it has been checked
+		const freshLock = JSON.stringify({
+			token: "bar",
+			pid: process.pid,
+			hostname: hostname(),
+			created: Date.now()
+		});
+		const connector = entityStorage as unknown as {
+			getStaleLock: (lockFilename: string) => Promise<string | undefined>;
+		};
+		const getStaleLock = connector.getStaleLock.bind(entityStorage);
+		vi.spyOn(connector, "getStaleLock").mockImplementationOnce(async filename => {
+			const staleLock = await getStaleLock(filename);
+			await rm(filename);
+			await writeFile(filename, freshLock);
+			return staleLock;
+		});
+
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" })
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "fileEntityStorageConnector.lockTimeout"
+		});
+		expect(await readFile(lockFilename, "utf8")).toEqual(freshLock);
+		expect(await readdir(TEST_DIRECTORY)).toEqual([".lock"]);
+	});
+
+	test("can refresh the lock while a long write is performed", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, lockStaleTimeout: 300 }
+		});
+		await entityStorage.bootstrap();
+		const lockFilename = path.join(TEST_DIRECTORY, ".lock");
+
+		const connector = entityStorage as unknown as {
+			writeChanges: (changes: IEntityStorageChange<TestType>[]) => Promise<void>;
+		};
+		const writeChanges = connector.writeChanges.bind(entityStorage);
+		let lockAge = 0;
+		vi.spyOn(connector, "writeChanges").mockImplementationOnce(async changes => {
+			await new Promise(resolve => setTimeout(resolve, 600));
+			const lockStat = await stat(lockFilename);
+			lockAge = Date.now() - lockStat.mtimeMs;
+			await writeChanges(changes);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		expect(lockAge).toBeLessThan(300);
+		expect(await entityStorage.count()).toEqual(1);
+	});
+
+	test("can fail to write when the lock is held by another process", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, lockTimeout: 100 }
+		});
+		await entityStorage.bootstrap();
+		await writeFile(
+			path.join(TEST_DIRECTORY, ".lock"),
+			JSON.stringify({ token: "foo", pid: process.pid, hostname: hostname(), created: Date.now() })
+		);
+
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" })
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "fileEntityStorageConnector.lockTimeout"
+		});
+		expect(await entityStorage.count()).toEqual(0);
+	});
+
+	test("can store each entity in its own file with the file per entity layout", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.FilePerEntity }
+		});
+		await entityStorage.bootstrap();
+		const longId = "a".repeat(150);
+		await entityStorage.set({ id: "1/2", value1: "aaa", value2: "bbb" });
+		await entityStorage.set({ id: longId, value1: "ccc", value2: "ddd" });
+
+		const shortIdHash = createHash("sha256").update("1/2").digest("hex");
+		const shortIdFile = await readFile(
+			path.join(TEST_DIRECTORY, "entities", shortIdHash.slice(0, 2), "312f32.json"),
+			"utf8"
+		);
+		expect(JSON.parse(shortIdFile)).toEqual({ id: "1/2", value1: "aaa", value2: "bbb" });
+
+		const longIdHash = createHash("sha256").update(longId).digest("hex");
+		const longIdFile = await readFile(
+			path.join(TEST_DIRECTORY, "entities", longIdHash.slice(0, 2), `h${longIdHash}.json`),
+			"utf8"
+		);
+		expect(JSON.parse(longIdFile)).toEqual({ id: longId, value1: "ccc", value2: "ddd" });
+
+		await expect(readFile(TEST_STORE_NAME, "utf8")).rejects.toThrow();
+
+		const item = await entityStorage.get(longId);
+		expect(item?.value1).toEqual("ccc");
+		expect(await entityStorage.count()).toEqual(2);
+
+		await entityStorage.remove("1/2");
+		expect(await entityStorage.get("1/2")).toBeUndefined();
+		await expect(
+			readFile(
+				path.join(TEST_DIRECTORY, "entities", shortIdHash.slice(0, 2), "312f32.json"),
+				"utf8"
+			)
+		).rejects.toThrow();
+	});
+
+	test("can maintain the index for secondary lookups with the file per entity layout", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.FilePerEntity }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		await entityStorage.set({ id: "2", value1: "aaa", value2: "ccc" });
+		await entityStorage.set({ id: "3", value1: "__proto__", value2: "ddd" });
+
+		const indexFilename = path.join(TEST_DIRECTORY, "index.json");
+		expect(JSON.parse(await readFile(indexFilename, "utf8"))).toEqual({
+			value1: { aaa: ["1", "2"], ["__proto__"]: ["3"] }
+		});
+
+		await entityStorage.set({ id: "1", value1: "eee", value2: "bbb" });
+		await entityStorage.remove("2");
+		expect(JSON.parse(await readFile(indexFilename, "utf8"))).toEqual({
+			value1: { eee: ["1"], ["__proto__"]: ["3"] }
+		});
+		expect(await entityStorage.get("aaa", "value1")).toBeUndefined();
+		const item1 = await entityStorage.get("eee", "value1");
+		expect(item1?.id).toEqual("1");
+		const item3 = await entityStorage.get("__proto__", "value1");
+		expect(item3?.id).toEqual("3");
+
+		await rm(indexFilename);
+		const item4 = await entityStorage.get("eee", "value1");
+		expect(item4?.id).toEqual("1");
+
+		await entityStorage.bootstrap();
+		expect(JSON.parse(await readFile(indexFilename, "utf8"))).toEqual({
+			value1: { eee: ["1"], ["__proto__"]: ["3"] }
+		});
+	});
+
+	test("can append the changes to the journal with the journal layout", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.Journal }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		await entityStorage.set({ id: "1", value1: "ccc", value2: "bbb" });
+		await entityStorage.remove("1");
+		await entityStorage.transaction([
+			{ type: "set", entity: { id: "2", value1: "ddd", value2: "eee" } },
+			{ type: "set", entity: { id: "3", value1: "fff", value2: "ggg" } }
+		]);
+
+		const journal = await readFile(TEST_JOURNAL_NAME, "utf8");
+		const lines = journal.split("\n");
+		expect(lines.length).toEqual(5);
+		expect(lines[4]).toEqual("");
+		expect(JSON.parse(lines[0])).toEqual({
+			timestamp: expect.any(Number),
+			operation: "set",
+			id: "1",
+			entity: { id: "1", value1: "aaa", value2: "bbb" }
+		});
+		expect(JSON.parse(lines[2])).toEqual({
+			timestamp: expect.any(Number),
+			operation: "remove",
+			id: "1"
+		});
+		expect(JSON.parse(lines[3])).toEqual([
+			expect.objectContaining({ operation: "set", id: "2" }),
+			expect.objectContaining({ operation: "set", id: "3" })
+		]);
+		await expect(readFile(TEST_STORE_NAME, "utf8")).rejects.toThrow();
+
+		const entityStorage2 = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.Journal }
+		});
+		await entityStorage2.bootstrap();
+		expect(await entityStorage2.get("1")).toBeUndefined();
+		expect(await entityStorage2.get("fff", "value1")).toEqual({
+			id: "3",
+			value1: "fff",
+			value2: "ggg"
+		});
+		expect(await entityStorage2.count()).toEqual(2);
+
+		await entityStorage.set({ id: "4", value1: "hhh", value2: "iii" });
+		expect(await entityStorage2.count()).toEqual(3);
+	});
+
+	test("can compact the journal into the snapshot with the journal layout", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.Journal }
+		});
+		const entityStorage2 = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.Journal }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		await entityStorage.set({ id: "2", value1: "ccc", value2: "ddd" });
+		await entityStorage.remove("1");
+		expect(await entityStorage2.count()).toEqual(1);
+
+		await entityStorage.compact();
+		expect(await readFile(TEST_JOURNAL_NAME, "utf8")).toEqual("");
+		expect(JSON.parse(await readFile(TEST_STORE_NAME, "utf8"))).toEqual([
+			{ id: "2", value1: "ccc", value2: "ddd" }
+		]);
+
+		await entityStorage.set({ id: "3", value1: "eee", value2: "fff" });
+		expect(await entityStorage2.count()).toEqual(2);
+		const item = await entityStorage2.get("3");
+		expect(item?.value1).toEqual("eee");
+	});
+
+	test("can compact the journal while the connector is started with the journal layout", async () => {
+		vi.useFakeTimers();
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: {
+				directory: TEST_DIRECTORY,
+				layout: FileEntityStorageLayout.Journal,
+				journalCompactionInterval: 1000
+			}
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		await entityStorage.start("node", undefined);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		await vi.waitFor(async () => expect(await readFile(TEST_JOURNAL_NAME, "utf8")).toEqual(""));
+		await entityStorage.stop("node", undefined);
+		expect(JSON.parse(await readFile(TEST_STORE_NAME, "utf8"))).toEqual([
+			{ id: "1", value1: "aaa", value2: "bbb" }
+		]);
+	});
+
+	test("can recover from a partially written record with the journal layout", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.Journal }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		const journal = await readFile(TEST_JOURNAL_NAME, "utf8");
+		await appendFile(TEST_JOURNAL_NAME, '{"timestamp":1,"operation":"set","id":"2","en');
+
+		expect(await entityStorage.count()).toEqual(1);
+
+		const entityStorage2 = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.Journal }
+		});
+		expect(await entityStorage2.bootstrap()).toEqual(true);
+		expect(await readFile(TEST_JOURNAL_NAME, "utf8")).toEqual(journal);
+		expect(memoryEntityStorage.getStore()).toContainEqual(
+			expect.objectContaining({ level: "warn", message: "journalTruncated" })
+		);
+
+		await entityStorage2.set({ id: "2", value1: "ccc", value2: "ddd" });
+		expect(await entityStorage.count()).toEqual(2);
+	});
+
+	test("can fail to read a journal with an invalid record with the journal layout", async () => {
+		const entityStorage = new FileEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.Journal }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: "bbb" });
+		await appendFile(TEST_JOURNAL_NAME, "foo\n");
+
+		await expect(entityStorage.get("1")).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "fileEntityStorageConnector.journalRecordInvalid"
+		});
+	});
+});
+
+EntityStorageConnectorTestSuite.run({
+	createConnector: async entitySchema => {
+		const connector = new FileEntityStorageConnector<TestSuiteEntity>({
+			entitySchema,
+			config: { directory: TEST_DIRECTORY }
+		});
+		await connector.bootstrap();
+		return connector;
+	},
+	removeConnector: async () => {
+		await rm(TEST_DIRECTORY_ROOT, { recursive: true, force: true });
+	}
+});
+
+describe("FileEntityStorageConnector file per entity layout", () => {
+	EntityStorageConnectorTestSuite.run({
+		createConnector: async entitySchema => {
+			const connector = new FileEntityStorageConnector<TestSuiteEntity>({
+				entitySchema,
+				config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.FilePerEntity }
+			});
+			await connector.bootstrap();
+			return connector;
+		},
+		removeConnector: async () => {
+			await rm(TEST_DIRECTORY_ROOT, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("FileEntityStorageConnector journal layout", () => {
+	EntityStorageConnectorTestSuite.run({
+		createConnector: async entitySchema => {
+			const connector = new FileEntityStorageConnector<TestSuiteEntity>({
+				entitySchema,
+				config: { directory: TEST_DIRECTORY, layout: FileEntityStorageLayout.Journal }
+			});
+			await connector.bootstrap();
+			return connector;
+		},
+		removeConnector: async () => {
+			await rm(TEST_DIRECTORY_ROOT, { recursive: true, force: true });
+		}
 	});
 });
@@ -1,12 +1,15 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
 import {
+	FieldValue,
 	Firestore,
 	type Settings,
 	type CollectionReference,
 	type Query,
 	type DocumentSnapshot,
-	type DocumentData
+	type DocumentData,
+	type DocumentChangeType,
+	type UpdateData
 } from "@google-cloud/firestore";
 import { BaseError, Converter, GeneralError, Guards, Is, ObjectHelper } from "@twin.org/core";
 import {
@@ -18,7 +21,21 @@ import {
 	type IEntitySchemaProperty,
 	SortDirection
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageBatchHelper,
+	EntityStorageChangeEmitter,
+	EntityStorageChangeType,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
 import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
 import type { JWTInput } from "google-auth-library";
@@ -37,6 +54,12 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 	 */
 	private static readonly _PAGE_SIZE: number = 40;
 
+	/**
+	 * The maximum number of writes in a batch.
+	 * @internal
+	 */
+	private static readonly _BATCH_WRITE_SIZE: number = 500;
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -48,6 +71,18 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 	 */
 	private readonly _entitySchema: IEntitySchema<T>;
 
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
 	/**
 	 * The primary key.
 	 * @internal
@@ -72,6 +107,18 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 	 */
 	private readonly _collection: CollectionReference;
 
+	/**
+	 * The subscriptions to changes in the collection.
+	 * @internal
+	 */
+	private readonly _changeEmitter: EntityStorageChangeEmitter<T>;
+
+	/**
+	 * Stop the snapshot listener for the collection, only set while there are subscriptions.
+	 * @internal
+	 */
+	private _changeListenerStop?: () => void;
+
 	/**
 	 * Create a new instance of FirestoreEntityStorageConnector.
 	 * @param options The options for the connector.
@@ -105,6 +152,8 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 
 		this._config = options.config;
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
 		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
 
 		const firestoreOptions: Settings = {
@@ -123,6 +172,7 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 
 		this._firestoreClient = new Firestore(firestoreOptions);
 		this._collection = this._firestoreClient.collection(this._config.collectionName);
+		this._changeEmitter = new EntityStorageChangeEmitter<T>();
 	}
 
 	/**
@@ -189,6 +239,17 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: true,
+			subscriptions: true
+		};
+	}
+
 	/**
 	 * Get an entity.
 	 * @param id The id of the entity to get.
@@ -209,7 +270,7 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 				const doc = await docRef.get();
 
 				if (doc.exists) {
-					return doc.data() as T;
+					return this.excludeExpired(doc.data() as T);
 				}
 			}
 
@@ -231,7 +292,7 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 
 			const querySnapshot = await query.limit(1).get();
 			if (!querySnapshot.empty) {
-				return querySnapshot.docs[0].data() as T;
+				return this.excludeExpired(querySnapshot.docs[0].data() as T);
 			}
 		} catch (err) {
 			throw new GeneralError(this.CLASS_NAME, "getEntityFailed", { id }, err);
@@ -239,50 +300,67 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to apply to the update.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+		const expiringEntity = EntityStorageExpiryHelper.applyTimeToLive(
+			entity,
+			this._expiryProperty,
+			timeToLive
+		);
+
 		try {
 			const id = entity[this._primaryKey.property as keyof T] as string;
 
-			const entityCopy = { ...entity } as T & Partial<IEntityWithIndexing>;
-
-			// Handle indexing field
-			if (entityCopy.valueArray && Is.array(entityCopy.valueArray)) {
-				const valueArrayFields = entityCopy.valueArray
-					.filter((item): item is IValueType => Is.notEmpty(item))
-					.map(item => `${item.field}:${item.value}`);
-				entityCopy.valueArrayFields = valueArrayFields;
-			}
+			const entityCopy = this.entityToDocument(
+				EntityStorageVersionHelper.nextVersion(expiringEntity, this._versionProperty)
+			);
 
 			const docRef = this._collection.doc(id);
 
-			if (!Is.arrayValue(conditions)) {
+			if (!Is.arrayValue(conditions) && Is.undefined(expectedVersion)) {
 				await docRef.set(entityCopy as DocumentData);
 			} else {
 				await this._firestoreClient.runTransaction(async transaction => {
 					const docSnapshot = await transaction.get(docRef);
 
 					if (!docSnapshot.exists) {
+						EntityStorageVersionHelper.verifyVersion(id, this._versionProperty, expectedVersion);
 						transaction.set(docRef, entityCopy as DocumentData);
 					} else {
 						const data = docSnapshot.data() as T;
 
 						let conditionsMet = true;
-						for (const condition of conditions) {
+						for (const condition of conditions ?? []) {
 							if (data[condition.property] !== condition.value) {
 								conditionsMet = false;
 								break;
 							}
 						}
 
+						EntityStorageVersionHelper.verifyVersion(
+							id,
+							this._versionProperty,
+							expectedVersion,
+							conditionsMet ? data : undefined
+						);
+
 						if (conditionsMet) {
 							transaction.set(docRef, entityCopy as DocumentData);
 						}
@@ -298,33 +376,47 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to apply to the delete.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+
 		try {
 			const docRef = this._collection.doc(id);
 
-			if (!Is.arrayValue(conditions)) {
+			if (!Is.arrayValue(conditions) && Is.undefined(expectedVersion)) {
 				await docRef.delete();
 			} else {
 				await this._firestoreClient.runTransaction(async transaction => {
 					const docSnapshot = await transaction.get(docRef);
 
-					if (docSnapshot.exists) {
+					if (!docSnapshot.exists) {
+						EntityStorageVersionHelper.verifyVersion(id, this._versionProperty, expectedVersion);
+					} else {
 						const data = docSnapshot.data() as T;
 						let conditionsMet = true;
-						for (const condition of conditions) {
+						for (const condition of conditions ?? []) {
 							if (data[condition.property] !== condition.value) {
 								conditionsMet = false;
 								break;
 							}
 						}
 
+						EntityStorageVersionHelper.verifyVersion(
+							id,
+							this._versionProperty,
+							expectedVersion,
+							conditionsMet ? data : undefined
+						);
+
 						if (conditionsMet) {
 							transaction.delete(docRef);
 						}
@@ -336,6 +428,341 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 		}
 	}
 
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		try {
+			const docRef = this._collection.doc(id);
+
+			// Nested objects are flattened to field paths so they are merged
+			// with the stored document instead of replacing it
+			const flattened = EntityStoragePatchHelper.flattenPatch(patch);
+			const updateData: UpdateData<DocumentData> = {};
+			for (const field of flattened.set) {
+				if (
+					field.path[0] !== this._primaryKey.property &&
+					field.path[0] !== this._versionProperty
+				) {
+					updateData[field.path.join(".")] = field.value;
+				}
+			}
+			for (const path of flattened.remove) {
+				updateData[path.join(".")] = FieldValue.delete();
+			}
+
+			if (Object.keys(updateData).length === 0) {
+				return;
+			}
+
+			if (!Is.undefined(this._versionProperty)) {
+				updateData[this._versionProperty as string] = EntityStorageVersionHelper.generateVersion();
+			}
+
+			await this._firestoreClient.runTransaction(async transaction => {
+				const docSnapshot = await transaction.get(docRef);
+
+				if (docSnapshot.exists) {
+					const data = docSnapshot.data() as T;
+					let conditionsMet = true;
+					if (Is.arrayValue(conditions)) {
+						for (const condition of conditions) {
+							if (data[condition.property] !== condition.value) {
+								conditionsMet = false;
+								break;
+							}
+						}
+					}
+
+					if (conditionsMet) {
+						transaction.update(docRef, updateData);
+					}
+				}
+			});
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "patchEntityFailed", { id }, err);
+		}
+	}
+
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to apply to the update.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		const results: IEntityStorageBatchResult<T>[] = [];
+		const validIndexes: number[] = [];
+
+		for (let i = 0; i < entities.length; i++) {
+			const id = entities[i]?.[this._primaryKey.property as keyof T] as string;
+			try {
+				Guards.object(this.CLASS_NAME, nameof(entities[i]), entities[i]);
+				EntitySchemaHelper.validateEntity(entities[i], this.getSchema());
+				validIndexes.push(i);
+				results.push({ id, success: true });
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		await this.writeBatch(
+			"setEntityFailed",
+			results,
+			validIndexes,
+			conditions,
+			index =>
+				this.entityToDocument(
+					EntityStorageVersionHelper.nextVersion(entities[index], this._versionProperty)
+				) as DocumentData
+		);
+
+		return results;
+	}
+
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get.
+	 * @param secondaryIndex The optional secondary index to use.
+	 * @param conditions The optional conditions to apply to the query.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (Is.stringValue(secondaryIndex) || Is.arrayValue(conditions)) {
+			return EntityStorageBatchHelper.getBatch(this, ids, secondaryIndex, conditions);
+		}
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		try {
+			const docSnapshots = await this._firestoreClient.getAll(
+				...ids.map(id => this._collection.doc(id))
+			);
+
+			return ids.map((id, index) => ({
+				id,
+				success: true,
+				entity: docSnapshots[index].exists
+					? this.excludeExpired(docSnapshots[index].data() as T)
+					: undefined
+			}));
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "getEntityFailed", { id }, err).toJsonObject()
+			}));
+		}
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to apply to the delete.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		const results: IEntityStorageBatchResult<T>[] = ids.map(id => ({ id, success: true }));
+
+		await this.writeBatch(
+			"removeEntityFailed",
+			results,
+			ids.map((_, index) => index),
+			conditions
+		);
+
+		return results;
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		try {
+			await this._firestoreClient.runTransaction(async transaction => {
+				// Firestore requires all the reads in a transaction to happen before the writes
+				const docRefs = operations.map(operation =>
+					this._collection.doc(
+						EntityStorageTransactionHelper.getOperationId(operation, this._primaryKey.property)
+					)
+				);
+
+				for (let i = 0; i < operations.length; i++) {
+					if (!Is.undefined(operations[i].expectedVersion)) {
+						const docSnapshot = await transaction.get(docRefs[i]);
+						EntityStorageVersionHelper.verifyVersion(
+							docRefs[i].id,
+							this._versionProperty,
+							operations[i].expectedVersion,
+							docSnapshot.exists ? (docSnapshot.data() as T) : undefined
+						);
+					}
+				}
+
+				for (let i = 0; i < operations.length; i++) {
+					const operation = operations[i];
+					if (operation.type === EntityStorageTransactionOperationType.Set) {
+						transaction.set(
+							docRefs[i],
+							this.entityToDocument(
+								EntityStorageVersionHelper.nextVersion(operation.entity as T, this._versionProperty)
+							) as DocumentData
+						);
+					} else {
+						transaction.delete(docRefs[i]);
+					}
+				}
+			});
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "transactionFailed", undefined, err);
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities using a snapshot listener on the collection.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		const subscriptionId = this._changeEmitter.subscribe(conditions, callback);
+
+		if (Is.undefined(this._changeListenerStop)) {
+			try {
+				const changeTypes: { [type in DocumentChangeType]: EntityStorageChangeType } = {
+					added: EntityStorageChangeType.Created,
+					modified: EntityStorageChangeType.Updated,
+					removed: EntityStorageChangeType.Removed
+				};
+				let isInitialSnapshot = true;
+
+				this._changeListenerStop = this._collection.onSnapshot(
+					async snapshot => {
+						// The initial snapshot contains all the existing documents so is not notified
+						if (isInitialSnapshot) {
+							isInitialSnapshot = false;
+							return;
+						}
+						for (const docChange of snapshot.docChanges()) {
+							await this._changeEmitter.notify({
+								type: changeTypes[docChange.type],
+								id: docChange.doc.id,
+								entity: docChange.doc.data() as T
+							});
+						}
+					},
+					() => {
+						// The listener is stopped by errors, so allow a later subscription to restart it
+						this._changeListenerStop = undefined;
+					}
+				);
+			} catch (err) {
+				this._changeEmitter.unsubscribe(subscriptionId);
+				throw new GeneralError(this.CLASS_NAME, "subscribeFailed", undefined, err);
+			}
+		}
+
+		return subscriptionId;
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		this._changeEmitter.unsubscribe(subscriptionId);
+
+		if (!this._changeEmitter.hasSubscriptions() && !Is.undefined(this._changeListenerStop)) {
+			this._changeListenerStop();
+			this._changeListenerStop = undefined;
+		}
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		const queryDescription: string[] = [];
+
+		try {
+			let query = this._collection as Query;
+
+			if (conditions) {
+				query = this.applyConditions(query, conditions);
+				queryDescription.push(`Conditions: ${JSON.stringify(conditions)}`);
+			}
+
+			const aggregateSnapshot = await query.count().get();
+			let total = aggregateSnapshot.data().count;
+
+			// The expired documents are counted separately as documents without an expiry
+			// can not be matched by a filter
+			if (!Is.undefined(this._expiryProperty)) {
+				const expiredSnapshot = await query
+					.where(this._expiryProperty as string, "<=", EntityStorageExpiryHelper.now())
+					.count()
+					.get();
+				total -= expiredSnapshot.data().count;
+			}
+
+			return total;
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"countFailed",
+				{ queryDescription: queryDescription.join("; ") },
+				err
+			);
+		}
+	}
+
 	/**
 	 * Find all the entities which match the conditions.
 	 * @param conditions The conditions to match for the entities.
@@ -393,16 +820,33 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 			query = query.limit(limit);
 			queryDescription.push(`Limit: ${limit}`);
 
+			// The expiry is always selected so that the expired entities can be excluded
+			const selectExpiry =
+				Is.arrayValue(properties) &&
+				!Is.undefined(this._expiryProperty) &&
+				!properties.includes(this._expiryProperty);
 			if (properties) {
-				query = query.select(...(properties as string[]));
+				query = query.select(
+					...((selectExpiry ? [...properties, this._expiryProperty] : properties) as string[])
+				);
 				queryDescription.push(`Properties: ${properties.join(", ")}`);
 			}
 
 			const querySnapshot = await query.get();
-			const entities = querySnapshot.docs.map((doc: DocumentSnapshot) => doc.data() as T);
+			const now = EntityStorageExpiryHelper.now();
+			const entities: Partial<T>[] = [];
+			for (const doc of querySnapshot.docs as DocumentSnapshot[]) {
+				const entity = doc.data() as T;
+				if (!EntityStorageExpiryHelper.isExpired(entity, this._expiryProperty, now)) {
+					if (selectExpiry) {
+						delete entity[this._expiryProperty as keyof T];
+					}
+					entities.push(entity);
+				}
+			}
 
 			let nextCursor: string | undefined;
-			if (entities.length === limit) {
+			if (querySnapshot.docs.length === limit) {
 				nextCursor = querySnapshot.docs[querySnapshot.docs.length - 1].ref.path;
 			}
 
@@ -442,6 +886,103 @@ export class FirestoreEntityStorageConnector<T = unknown> implements IEntityStor
 		}
 	}
 
+	/**
+	 * Create the document to store for the entity including any indexing fields.
+	 * @param entity The entity to create the document for.
+	 * @returns The document.
+	 * @internal
+	 */
+	private entityToDocument(entity: T): T & Partial<IEntityWithIndexing> {
+		const entityCopy = { ...entity } as T & Partial<IEntityWithIndexing>;
+
+		// Handle indexing field
+		if (entityCopy.valueArray && Is.array(entityCopy.valueArray)) {
+			const valueArrayFields = entityCopy.valueArray
+				.filter((item): item is IValueType => Is.notEmpty(item))
+				.map(item => `${item.field}:${item.value}`);
+			entityCopy.valueArrayFields = valueArrayFields;
+		}
+
+		return entityCopy;
+	}
+
+	/**
+	 * Exclude the entity if it has expired, the documents are not removed by Firestore.
+	 * @param entity The entity to check.
+	 * @returns The entity or undefined if it has expired.
+	 * @internal
+	 */
+	private excludeExpired(entity: T): T | undefined {
+		return EntityStorageExpiryHelper.isExpired(entity, this._expiryProperty) ? undefined : entity;
+	}
+
+	/**
+	 * Perform writes for the results in batches, if there are conditions a transaction
+	 * is used so the existing documents can be verified before writing.
+	 * @param failedMessage The message to use if the write fails.
+	 * @param results The results to update.
+	 * @param indexes The indexes of the results to write.
+	 * @param conditions The optional conditions to apply to the writes.
+	 * @param createDocument Create the document to set for the index, deletes if not provided.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async writeBatch(
+		failedMessage: string,
+		results: IEntityStorageBatchResult<T>[],
+		indexes: number[],
+		conditions: { property: keyof T; value: unknown }[] | undefined,
+		createDocument?: (index: number) => DocumentData
+	): Promise<void> {
+		for (let i = 0; i < indexes.length; i += FirestoreEntityStorageConnector._BATCH_WRITE_SIZE) {
+			const chunk = indexes.slice(i, i + FirestoreEntityStorageConnector._BATCH_WRITE_SIZE);
+			const docRefs = chunk.map(index => this._collection.doc(results[index].id));
+
+			try {
+				if (!Is.arrayValue(conditions)) {
+					const batch = this._firestoreClient.batch();
+					for (let j = 0; j < chunk.length; j++) {
+						if (Is.function(createDocument)) {
+							batch.set(docRefs[j], createDocument(chunk[j]));
+						} else {
+							batch.delete(docRefs[j]);
+						}
+					}
+					await batch.commit();
+				} else {
+					await this._firestoreClient.runTransaction(async transaction => {
+						const docSnapshots = await transaction.getAll(...docRefs);
+
+						for (let j = 0; j < chunk.length; j++) {
+							const data = docSnapshots[j].data() as T | undefined;
+							const conditionsMet =
+								Is.undefined(data) ||
+								conditions.every(condition => data[condition.property] === condition.value);
+
+							if (conditionsMet) {
+								if (Is.function(createDocument)) {
+									transaction.set(docRefs[j], createDocument(chunk[j]));
+								} else if (docSnapshots[j].exists) {
+									transaction.delete(docRefs[j]);
+								}
+							}
+						}
+					});
+				}
+			} catch (err) {
+				for (const index of chunk) {
+					results[index].success = false;
+					results[index].error = new GeneralError(
+						this.CLASS_NAME,
+						failedMessage,
+						{ id: results[index].id },
+						err
+					).toJsonObject();
+				}
+			}
+		}
+	}
+
 	/**
 	 * Apply conditions to a Firestore query.
 	 * @param query The initial query.
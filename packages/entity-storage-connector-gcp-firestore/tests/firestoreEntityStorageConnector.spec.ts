@@ -11,7 +11,11 @@ import {
 	property
 } from "@twin.org/entity";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
-import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType,
+	type IEntityStorageChange
+} from "@twin.org/entity-storage-models";
 import {
 	EntityStorageLoggingConnector,
 	type LogEntry,
@@ -47,6 +51,30 @@ class ValueType {
 	public value!: string;
 }
 
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
 /**
  * Test Type Definition.
  */
@@ -112,6 +140,9 @@ describe("FirestoreEntityStorageConnector", () => {
 		EntitySchemaFactory.register(nameof<ValueType>(), () =>
 			EntitySchemaHelper.getSchema(ValueType)
 		);
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
 
 		initSchema();
 	});
@@ -415,6 +446,169 @@ describe("FirestoreEntityStorageConnector", () => {
 		expect(result).toBeUndefined();
 	});
 
+	test("can set a batch of items", async () => {
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: 22 }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const result = await entityStorage.get("2");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can get a batch of items", async () => {
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results.map(r => r.id)).toEqual(["2", "3", "1"]);
+		expect(results.every(r => r.success)).toEqual(true);
+		expect(results[0].entity?.value1).toEqual("bbb");
+		expect(results[1].entity).toBeUndefined();
+		expect(results[2].entity?.value1).toEqual("aaa");
+	});
+
+	test("can remove a batch of items", async () => {
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		expect(await entityStorage.get("1")).toBeUndefined();
+		expect(await entityStorage.get("2")).toBeDefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the transaction capability", async () => {
+		expect(entityStorage.getCapabilities().transactions).toEqual(true);
+	});
+
+	test("can set and remove items in a transaction", async () => {
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "aaa", value2: 11 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+		]);
+
+		expect(await entityStorage.get("1")).toBeDefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the subscription capability", async () => {
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(true);
+	});
+
+	test("can subscribe to the changes made to items", async () => {
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await vi.waitFor(() => expect(changes.map(c => c.id)).toContain("1"), { timeout: 5000 });
+		await entityStorage.unsubscribe(subscriptionId);
+		expect(changes[0].entity?.value1).toEqual("aaa");
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		const expiringStorage = new FirestoreEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: {
+				...TEST_FIRESTORE_CONFIG,
+				collectionName: `${TEST_FIRESTORE_CONFIG.collectionName}expiring`
+			}
+		});
+		await expiringStorage.bootstrap();
+		await expiringStorage.set({
+			id: "1",
+			value1: "aaa",
+			entityExpiry: Math.floor(Date.now() / 1000) - 10
+		});
+		await expiringStorage.set({ id: "2", value1: "bbb" }, undefined, undefined, 60);
+
+		expect(await expiringStorage.get("1")).toBeUndefined();
+		const item = await expiringStorage.get("2");
+		expect(item?.entityExpiry).toBeGreaterThan(Date.now() / 1000);
+		const result = await expiringStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await expiringStorage.count()).toEqual(1);
+		await expiringStorage.collectionDelete();
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: 1 }, undefined, undefined, 60)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
+	test("can count items with empty store", async () => {
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "bbb",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("patched");
+		expect(result?.value2).toEqual(11);
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
 	test("can find items with empty store", async () => {
 		const result = await entityStorage.query();
 		expect(result).toBeDefined();
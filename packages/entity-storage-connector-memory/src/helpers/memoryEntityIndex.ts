@@ -0,0 +1,185 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Is } from "@twin.org/core";
+import { ComparisonOperator, type IComparator } from "@twin.org/entity";
+
+/**
+ * An index of the entities in the memory store for a single property, a hash index is used
+ * for equality lookups and an ordered index is used for range lookups.
+ * @internal
+ */
+export class MemoryEntityIndex<T> {
+	/**
+	 * The property which is indexed.
+	 * @internal
+	 */
+	private readonly _property: keyof T;
+
+	/**
+	 * The type of value in the ordered index, if the property supports range lookups.
+	 * @internal
+	 */
+	private readonly _orderedType?: "string" | "number";
+
+	/**
+	 * The entities for each of the property values.
+	 * @internal
+	 */
+	private readonly _values: Map<unknown, Set<T>>;
+
+	/**
+	 * The entities sorted by the property value.
+	 * @internal
+	 */
+	private readonly _ordered: T[];
+
+	/**
+	 * Create a new instance of MemoryEntityIndex.
+	 * @param property The property to index.
+	 * @param orderedType The type of value for the ordered index, if the property supports range lookups.
+	 */
+	constructor(property: keyof T, orderedType?: "string" | "number") {
+		this._property = property;
+		this._orderedType = orderedType;
+		this._values = new Map();
+		this._ordered = [];
+	}
+
+	/**
+	 * Add an entity to the index.
+	 * @param entity The entity to add.
+	 */
+	public add(entity: T): void {
+		const value = entity[this._property];
+		if (!this.isHashValue(value)) {
+			return;
+		}
+
+		let entities = this._values.get(value);
+		if (Is.undefined(entities)) {
+			entities = new Set();
+			this._values.set(value, entities);
+		}
+		entities.add(entity);
+
+		if (this.isOrderedValue(value)) {
+			this._ordered.splice(this.findPosition(value, true), 0, entity);
+		}
+	}
+
+	/**
+	 * Remove an entity from the index.
+	 * @param entity The entity to remove.
+	 */
+	public remove(entity: T): void {
+		const value = entity[this._property];
+		const entities = this._values.get(value);
+		if (Is.undefined(entities)) {
+			return;
+		}
+
+		entities.delete(entity);
+		if (entities.size === 0) {
+			this._values.delete(value);
+		}
+
+		if (this.isOrderedValue(value)) {
+			const end = this.findPosition(value, true);
+			for (let i = this.findPosition(value, false); i < end; i++) {
+				if (this._ordered[i] === entity) {
+					this._ordered.splice(i, 1);
+					break;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Remove all the entities from the index.
+	 */
+	public clear(): void {
+		this._values.clear();
+		this._ordered.length = 0;
+	}
+
+	/**
+	 * Find the entities which match the comparator using the index.
+	 * @param comparator The comparator to match.
+	 * @returns The matching entities, or undefined if the index can not be used for the comparator.
+	 */
+	public find(comparator: IComparator): T[] | undefined {
+		const value = comparator.value;
+
+		if (comparator.comparison === ComparisonOperator.Equals && this.isHashValue(value)) {
+			return Array.from(this._values.get(value) ?? []);
+		}
+
+		if (comparator.comparison === ComparisonOperator.In && Is.array(value)) {
+			const entities = new Set<T>();
+			for (const item of value) {
+				for (const entity of this._values.get(item) ?? []) {
+					entities.add(entity);
+				}
+			}
+			return Array.from(entities);
+		}
+
+		if (this.isOrderedValue(value)) {
+			if (comparator.comparison === ComparisonOperator.GreaterThan) {
+				return this._ordered.slice(this.findPosition(value, true));
+			} else if (comparator.comparison === ComparisonOperator.GreaterThanOrEqual) {
+				return this._ordered.slice(this.findPosition(value, false));
+			} else if (comparator.comparison === ComparisonOperator.LessThan) {
+				return this._ordered.slice(0, this.findPosition(value, false));
+			} else if (comparator.comparison === ComparisonOperator.LessThanOrEqual) {
+				return this._ordered.slice(0, this.findPosition(value, true));
+			}
+		}
+	}
+
+	/**
+	 * Is the value one which can be stored in the hash index.
+	 * @param value The value to check.
+	 * @returns True if the value can be stored in the hash index.
+	 * @internal
+	 */
+	private isHashValue(value: unknown): boolean {
+		return Is.string(value) || Is.number(value) || Is.boolean(value);
+	}
+
+	/**
+	 * Is the value one which can be stored in the ordered index.
+	 * @param value The value to check.
+	 * @returns True if the value can be stored in the ordered index.
+	 * @internal
+	 */
+	private isOrderedValue(value: unknown): value is string | number {
+		return (
+			(this._orderedType === "string" && Is.string(value)) ||
+			(this._orderedType === "number" && Is.number(value))
+		);
+	}
+
+	/**
+	 * Find the position in the ordered index of the first entity with a value greater
+	 * than the value, or greater than or equal to the value if not exclusive.
+	 * @param value The value to find the position for.
+	 * @param exclusive Skip the entities which are equal to the value.
+	 * @returns The position in the ordered index.
+	 * @internal
+	 */
+	private findPosition(value: string | number, exclusive: boolean): number {
+		let low = 0;
+		let high = this._ordered.length;
+		while (low < high) {
+			const mid = Math.floor((low + high) / 2);
+			const midValue = this._ordered[mid][this._property] as string | number;
+			if (midValue < value || (exclusive && midValue === value)) {
+				low = mid + 1;
+			} else {
+				high = mid;
+			}
+		}
+		return low;
+	}
+}
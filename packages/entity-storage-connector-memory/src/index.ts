@@ -2,3 +2,5 @@
 // SPDX-License-Identifier: Apache-2.0.
 export * from "./memoryEntityStorageConnector";
 export * from "./models/IMemoryEntityStorageConnectorConstructorOptions";
+export * from "./models/IMemoryEntityStorageSnapshot";
+export * from "./models/memoryEntityStorageSnapshotFormat";
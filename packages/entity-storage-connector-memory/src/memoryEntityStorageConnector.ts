@@ -1,23 +1,45 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import { Coerce, Guards, Is, ObjectHelper } from "@twin.org/core";
+import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { BaseError, GeneralError, Guards, Is, ObjectHelper } from "@twin.org/core";
 import {
 	ComparisonOperator,
 	EntityConditions,
 	EntitySchemaFactory,
 	EntitySchemaHelper,
-	EntitySorter,
+	LogicalOperator,
 	type EntityCondition,
 	type IEntitySchema,
 	type IEntitySchemaProperty,
 	type SortDirection
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageBatchHelper,
+	EntityStorageChangeEmitter,
+	EntityStorageChangeType,
+	EntityStorageCursorHelper,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
+import { MemoryEntityIndex } from "./helpers/memoryEntityIndex";
 import type { IMemoryEntityStorageConnectorConstructorOptions } from "./models/IMemoryEntityStorageConnectorConstructorOptions";
+import type { IMemoryEntityStorageSnapshot } from "./models/IMemoryEntityStorageSnapshot";
+import { MemoryEntityStorageSnapshotFormat } from "./models/memoryEntityStorageSnapshotFormat";
 
 /**
- * Class for performing entity storage operations in-memory.
+ * Class for performing entity storage operations in-memory, the primary and secondary
+ * properties in the schema are indexed for lookups and equality or range conditions.
  */
 export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorageConnector<T> {
 	/**
@@ -26,6 +48,18 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 	 */
 	private static readonly _DEFAULT_PAGE_SIZE: number = 40;
 
+	/**
+	 * The version of the snapshot format.
+	 * @internal
+	 */
+	private static readonly _SNAPSHOT_VERSION: number = 1;
+
+	/**
+	 * Default interval in milliseconds for writing the automatic snapshots.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_SNAPSHOT_INTERVAL: number = 60000;
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -37,6 +71,12 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 	 */
 	private readonly _entitySchema: IEntitySchema<T>;
 
+	/**
+	 * The type of the schema for the entity.
+	 * @internal
+	 */
+	private readonly _entitySchemaType: string;
+
 	/**
 	 * The primary key.
 	 * @internal
@@ -44,10 +84,76 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 	private readonly _primaryKey: IEntitySchemaProperty<T>;
 
 	/**
-	 * The storage for the in-memory items.
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
+	/**
+	 * The interval in milliseconds for sweeping the expired entities.
+	 * @internal
+	 */
+	private readonly _expirySweepInterval: number;
+
+	/**
+	 * The timer for sweeping the expired entities, only active while the connector is started.
+	 * @internal
+	 */
+	private _expirySweepTimer?: ReturnType<typeof setInterval>;
+
+	/**
+	 * The filename for the automatic snapshots, if enabled.
 	 * @internal
 	 */
-	private readonly _store: T[];
+	private readonly _snapshotFilename?: string;
+
+	/**
+	 * The interval in milliseconds for writing the automatic snapshots.
+	 * @internal
+	 */
+	private readonly _snapshotInterval: number;
+
+	/**
+	 * The format for the automatic snapshots.
+	 * @internal
+	 */
+	private readonly _snapshotFormat: MemoryEntityStorageSnapshotFormat;
+
+	/**
+	 * The timer for writing the automatic snapshots, only active while the connector is started.
+	 * @internal
+	 */
+	private _snapshotTimer?: ReturnType<typeof setInterval>;
+
+	/**
+	 * The node logging connector type to log the automatic snapshot failures to.
+	 * @internal
+	 */
+	private _nodeLoggingConnectorType?: string;
+
+	/**
+	 * The storage for the in-memory items keyed by their primary key, in the order they were added.
+	 * @internal
+	 */
+	private readonly _store: Map<unknown, T>;
+
+	/**
+	 * The indexes for the primary and secondary properties in the schema.
+	 * @internal
+	 */
+	private readonly _indexes: Map<keyof T, MemoryEntityIndex<T>>;
+
+	/**
+	 * The subscriptions to changes in the store.
+	 * @internal
+	 */
+	private readonly _changeEmitter: EntityStorageChangeEmitter<T>;
 
 	/**
 	 * Create a new instance of MemoryEntityStorageConnector.
@@ -56,9 +162,101 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 	constructor(options: IMemoryEntityStorageConnectorConstructorOptions) {
 		Guards.object(this.CLASS_NAME, nameof(options), options);
 		Guards.stringValue(this.CLASS_NAME, nameof(options.entitySchema), options.entitySchema);
+		this._entitySchemaType = options.entitySchema;
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
 		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
-		this._store = [];
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
+		this._expirySweepInterval =
+			options.expirySweepInterval ?? EntityStorageExpiryHelper.DEFAULT_SWEEP_INTERVAL;
+		this._snapshotFormat = options.snapshotFormat ?? MemoryEntityStorageSnapshotFormat.Json;
+		Guards.arrayOneOf<MemoryEntityStorageSnapshotFormat>(
+			this.CLASS_NAME,
+			nameof(options.snapshotFormat),
+			this._snapshotFormat,
+			Object.values(MemoryEntityStorageSnapshotFormat)
+		);
+		if (Is.stringValue(options.snapshotDirectory)) {
+			this._snapshotFilename = path.resolve(
+				options.snapshotDirectory,
+				`${this._entitySchemaType}.${this._snapshotFormat}`
+			);
+		}
+		this._snapshotInterval =
+			options.snapshotInterval ?? MemoryEntityStorageConnector._DEFAULT_SNAPSHOT_INTERVAL;
+		this._store = new Map();
+		this._indexes = new Map();
+		for (const schemaProperty of this._entitySchema.properties ?? []) {
+			const isString = schemaProperty.type === "string";
+			const isNumber = schemaProperty.type === "number" || schemaProperty.type === "integer";
+			if (
+				(schemaProperty.isPrimary ?? false) ||
+				((schemaProperty.isSecondary ?? false) &&
+					(isString || isNumber || schemaProperty.type === "boolean"))
+			) {
+				let orderedType: "string" | "number" | undefined;
+				if (isString) {
+					orderedType = "string";
+				} else if (isNumber) {
+					orderedType = "number";
+				}
+				this._indexes.set(
+					schemaProperty.property,
+					new MemoryEntityIndex<T>(schemaProperty.property, orderedType)
+				);
+			}
+		}
+		// The expired entities are found using the ordered index for the expiry
+		if (!Is.undefined(this._expiryProperty) && !this._indexes.has(this._expiryProperty)) {
+			this._indexes.set(
+				this._expiryProperty,
+				new MemoryEntityIndex<T>(this._expiryProperty, "number")
+			);
+		}
+		this._changeEmitter = new EntityStorageChangeEmitter<T>();
+	}
+
+	/**
+	 * The component needs to be started when the node is initialized.
+	 * @param nodeIdentity The identity of the node starting the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async start(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		this._nodeLoggingConnectorType = nodeLoggingConnectorType;
+		if (!Is.undefined(this._snapshotFilename) && Is.undefined(this._snapshotTimer)) {
+			if (await this.fileExists(this._snapshotFilename)) {
+				await this.restore(await readFile(this._snapshotFilename, "utf8"), this._snapshotFormat);
+			}
+			this._snapshotTimer = setInterval(async () => this.writeSnapshot(), this._snapshotInterval);
+		}
+		if (!Is.undefined(this._expiryProperty) && Is.undefined(this._expirySweepTimer)) {
+			this._expirySweepTimer = setInterval(() => this.removeExpired(), this._expirySweepInterval);
+		}
+	}
+
+	/**
+	 * The component needs to be stopped when the node is closed.
+	 * @param nodeIdentity The identity of the node stopping the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async stop(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._expirySweepTimer)) {
+			clearInterval(this._expirySweepTimer);
+			this._expirySweepTimer = undefined;
+		}
+		if (!Is.undefined(this._snapshotTimer)) {
+			clearInterval(this._snapshotTimer);
+			this._snapshotTimer = undefined;
+			await this.writeSnapshot();
+		}
 	}
 
 	/**
@@ -69,6 +267,17 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: true,
+			subscriptions: true
+		};
+	}
+
 	/**
 	 * Get an entity.
 	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
@@ -83,30 +292,39 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 	): Promise<T | undefined> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
-		const index = this.findItem(id, secondaryIndex, conditions);
-		return index >= 0 ? this._store[index] : undefined;
+		this.removeExpired();
+		return this.findItem(id, secondaryIndex, conditions);
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
 
-		const existingIndex = this.findItem(
-			entity[this._primaryKey.property] as string,
-			undefined,
-			conditions
+		const expiringEntity = EntityStorageExpiryHelper.applyTimeToLive(
+			entity,
+			this._expiryProperty,
+			timeToLive
 		);
-		if (existingIndex >= 0) {
-			this._store[existingIndex] = entity;
-		} else {
-			this._store.push(entity);
+
+		this.removeExpired();
+		const change = this.setEntity(expiringEntity, conditions, expectedVersion);
+		if (!Is.undefined(change)) {
+			await this._changeEmitter.notify(change);
 		}
 	}
 
@@ -114,21 +332,178 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
-		const index = this.findItem(id, undefined, conditions);
+		this.removeExpired();
+		const change = this.removeEntity(id, conditions, expectedVersion);
+		if (!Is.undefined(change)) {
+			await this._changeEmitter.notify(change);
+		}
+	}
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		this.removeExpired();
+		const existing = this.findItem(id, undefined, conditions);
 
-		if (index >= 0) {
-			this._store.splice(index, 1);
+		if (!Is.undefined(existing)) {
+			const patchedEntity = EntityStorageVersionHelper.nextVersion(
+				EntityStoragePatchHelper.applyPatch(existing, patch),
+				this._versionProperty
+			);
+			this.replaceEntity(existing, patchedEntity);
+			await this._changeEmitter.notify({
+				type: EntityStorageChangeType.Updated,
+				id,
+				entity: patchedEntity
+			});
 		}
 	}
 
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		return EntityStorageBatchHelper.setBatch(this, entities, conditions);
+	}
+
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		return EntityStorageBatchHelper.getBatch(this, ids, secondaryIndex, conditions);
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		return EntityStorageBatchHelper.removeBatch(this, ids, conditions);
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		this.removeExpired();
+
+		// Keep a copy of the store so that it can be restored if any of the operations fail
+		const snapshot = Array.from(this._store.values());
+		const changes: IEntityStorageChange<T>[] = [];
+		try {
+			for (const operation of operations) {
+				const change =
+					operation.type === EntityStorageTransactionOperationType.Set
+						? this.setEntity(operation.entity as T, undefined, operation.expectedVersion)
+						: this.removeEntity(operation.id as string, undefined, operation.expectedVersion);
+				if (!Is.undefined(change)) {
+					changes.push(change);
+				}
+			}
+		} catch (err) {
+			this.replaceStore(snapshot);
+			throw err;
+		}
+
+		// Only notify the changes once all of the operations have been applied
+		for (const change of changes) {
+			await this._changeEmitter.notify(change);
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, check the subscriptions capability before calling.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		return this._changeEmitter.subscribe(conditions, callback);
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		this._changeEmitter.unsubscribe(subscriptionId);
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		this.removeExpired();
+
+		let total = 0;
+		for (const entity of this.findCandidates(conditions) ?? this._store.values()) {
+			if (EntityConditions.check(entity, conditions)) {
+				total++;
+			}
+		}
+		return total;
+	}
+
 	/**
 	 * Find all the entities which match the conditions.
 	 * @param conditions The conditions to match for the entities.
@@ -158,46 +533,236 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 		 */
 		cursor?: string;
 	}> {
-		let allEntities = this._store.slice();
+		this.removeExpired();
 
-		const entities = [];
 		const finalPageSize = pageSize ?? MemoryEntityStorageConnector._DEFAULT_PAGE_SIZE;
-		let nextCursor: string | undefined;
-
-		if (allEntities.length > 0) {
-			const finalSortKeys = EntitySchemaHelper.buildSortProperties<T>(
+		const sortKeys =
+			EntitySchemaHelper.buildSortProperties<T>(
 				this._entitySchema,
-				sortProperties
-			);
-			allEntities = EntitySorter.sort(allEntities, finalSortKeys);
-
-			const startIndex = Coerce.number(cursor) ?? 0;
-
-			for (let i = startIndex; i < allEntities.length; i++) {
-				if (EntityConditions.check(allEntities[i], conditions) && entities.length < finalPageSize) {
-					entities.push(ObjectHelper.pick(allEntities[i], properties));
-					if (entities.length >= finalPageSize) {
-						if (i < allEntities.length - 1) {
-							nextCursor = (i + 1).toString();
-						}
-						break;
-					}
-				}
-			}
-		}
+				EntityStorageCursorHelper.getSortKeys(
+					EntitySchemaHelper.buildSortProperties<T>(this._entitySchema, sortProperties),
+					this._primaryKey.property
+				)
+			) ?? [];
+		const cursorValues = Is.stringValue(cursor)
+			? EntityStorageCursorHelper.parseCursor(cursor, sortKeys)
+			: undefined;
+
+		// The page starts after the entity the cursor was created from, so entities which
+		// are added or removed between the pages do not cause any to be repeated or skipped
+		const allEntities = (this.findCandidates(conditions) ?? Array.from(this._store.values()))
+			.filter(
+				entity =>
+					(Is.undefined(cursorValues) ||
+						EntityStorageCursorHelper.compareToCursor(entity, sortKeys, cursorValues) > 0) &&
+					EntityConditions.check(entity, conditions)
+			)
+			.sort((a, b) => EntityStorageCursorHelper.compare(a, b, sortKeys));
+		const entities = allEntities.slice(0, finalPageSize);
 
 		return {
-			entities,
-			cursor: nextCursor
+			entities: entities.map(entity => ObjectHelper.pick(entity, properties)),
+			cursor:
+				allEntities.length > finalPageSize
+					? EntityStorageCursorHelper.createCursor(entities[entities.length - 1], sortKeys)
+					: undefined
 		};
 	}
 
 	/**
 	 * Get the memory store.
-	 * @returns The store.
+	 * @returns The entities in the store, in the order they were added.
 	 */
 	public getStore(): T[] {
-		return this._store;
+		return Array.from(this._store.values());
+	}
+
+	/**
+	 * Create a snapshot of the store, which can be used to restore it later.
+	 * @param format The format to serialize the snapshot to, defaults to json.
+	 * @returns The serialized snapshot.
+	 */
+	public async snapshot(format?: MemoryEntityStorageSnapshotFormat): Promise<string> {
+		const finalFormat = format ?? MemoryEntityStorageSnapshotFormat.Json;
+		Guards.arrayOneOf<MemoryEntityStorageSnapshotFormat>(
+			this.CLASS_NAME,
+			nameof(format),
+			finalFormat,
+			Object.values(MemoryEntityStorageSnapshotFormat)
+		);
+
+		this.removeExpired();
+
+		const snapshot: IMemoryEntityStorageSnapshot<T> = {
+			version: MemoryEntityStorageConnector._SNAPSHOT_VERSION,
+			entitySchema: this._entitySchemaType,
+			entities: Array.from(this._store.values())
+		};
+
+		if (finalFormat === MemoryEntityStorageSnapshotFormat.Ndjson) {
+			const lines = [
+				JSON.stringify({ version: snapshot.version, entitySchema: snapshot.entitySchema }),
+				...snapshot.entities.map(entity => JSON.stringify(entity))
+			];
+			return `${lines.join("\n")}\n`;
+		}
+
+		return JSON.stringify(snapshot, undefined, "\t");
+	}
+
+	/**
+	 * Restore the store from a snapshot, replacing all of the existing entities.
+	 * @param snapshot The serialized snapshot.
+	 * @param format The format the snapshot was serialized to, defaults to json.
+	 * @returns Nothing.
+	 * @throws GeneralError if the snapshot is not valid for the schema.
+	 */
+	public async restore(
+		snapshot: string,
+		format?: MemoryEntityStorageSnapshotFormat
+	): Promise<void> {
+		Guards.string(this.CLASS_NAME, nameof(snapshot), snapshot);
+		const finalFormat = format ?? MemoryEntityStorageSnapshotFormat.Json;
+		Guards.arrayOneOf<MemoryEntityStorageSnapshotFormat>(
+			this.CLASS_NAME,
+			nameof(format),
+			finalFormat,
+			Object.values(MemoryEntityStorageSnapshotFormat)
+		);
+
+		let parsed: Partial<IMemoryEntityStorageSnapshot<T>>;
+		try {
+			if (finalFormat === MemoryEntityStorageSnapshotFormat.Ndjson) {
+				const lines = snapshot.split("\n").filter(line => line.trim().length > 0);
+				parsed = {
+					...JSON.parse(lines[0]),
+					entities: lines.slice(1).map(line => JSON.parse(line))
+				};
+			} else {
+				parsed = JSON.parse(snapshot);
+			}
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "snapshotInvalid", undefined, err);
+		}
+
+		if (!Is.object(parsed) || !Is.array<T>(parsed.entities)) {
+			throw new GeneralError(this.CLASS_NAME, "snapshotInvalid");
+		}
+		if (parsed.version !== MemoryEntityStorageConnector._SNAPSHOT_VERSION) {
+			throw new GeneralError(this.CLASS_NAME, "snapshotVersionUnsupported", {
+				version: parsed.version
+			});
+		}
+		if (parsed.entitySchema !== this._entitySchemaType) {
+			throw new GeneralError(this.CLASS_NAME, "snapshotSchemaMismatch", {
+				entitySchema: parsed.entitySchema,
+				expectedEntitySchema: this._entitySchemaType
+			});
+		}
+
+		const ids = new Set<unknown>();
+		for (const entity of parsed.entities) {
+			EntitySchemaHelper.validateEntity(entity, this.getSchema());
+			const id = entity[this._primaryKey.property];
+			if (ids.has(id)) {
+				throw new GeneralError(this.CLASS_NAME, "snapshotDuplicateId", { id });
+			}
+			ids.add(id);
+		}
+
+		this.replaceStore(parsed.entities);
+		this.removeExpired();
+	}
+
+	/**
+	 * Set the entity in the store.
+	 * @param entity The entity to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns The change made to the store, or undefined if the entity exists but does not match
+	 * the conditions.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 * @internal
+	 */
+	private setEntity(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): IEntityStorageChange<T> | undefined {
+		const id = entity[this._primaryKey.property] as string;
+		const existing = this.findItem(id, undefined, conditions);
+		if (Is.undefined(existing) && Is.arrayValue(conditions) && this._store.has(id)) {
+			// The entity exists but does not match the conditions so it is not updated
+			return;
+		}
+
+		EntityStorageVersionHelper.verifyVersion(id, this._versionProperty, expectedVersion, existing);
+
+		const versionedEntity = EntityStorageVersionHelper.nextVersion(entity, this._versionProperty);
+		if (Is.undefined(existing)) {
+			this._store.set(id, versionedEntity);
+			this.addToIndexes(versionedEntity);
+		} else {
+			this.replaceEntity(existing, versionedEntity);
+		}
+
+		return {
+			type: Is.undefined(existing)
+				? EntityStorageChangeType.Created
+				: EntityStorageChangeType.Updated,
+			id,
+			entity: versionedEntity
+		};
+	}
+
+	/**
+	 * Remove the entity from the store.
+	 * @param id The id of the entity to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns The change made to the store, or undefined if the entity did not exist.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 * @internal
+	 */
+	private removeEntity(
+		id: string,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): IEntityStorageChange<T> | undefined {
+		const existing = this.findItem(id, undefined, conditions);
+
+		EntityStorageVersionHelper.verifyVersion(id, this._versionProperty, expectedVersion, existing);
+
+		if (!Is.undefined(existing)) {
+			this._store.delete(existing[this._primaryKey.property]);
+			this.removeFromIndexes(existing);
+			return {
+				type: EntityStorageChangeType.Removed,
+				id,
+				entity: existing
+			};
+		}
+	}
+
+	/**
+	 * Remove the expired entities from the store, this is performed before each operation
+	 * so that expired entities are never returned even if they have not been swept yet.
+	 * @internal
+	 */
+	private removeExpired(): void {
+		if (Is.undefined(this._expiryProperty)) {
+			return;
+		}
+		const expired =
+			this._indexes.get(this._expiryProperty)?.find({
+				property: this._expiryProperty as string,
+				comparison: ComparisonOperator.LessThanOrEqual,
+				value: EntityStorageExpiryHelper.now()
+			}) ?? [];
+		for (const entity of expired) {
+			this._store.delete(entity[this._primaryKey.property]);
+			this.removeFromIndexes(entity);
+		}
 	}
 
 	/**
@@ -205,52 +770,168 @@ export class MemoryEntityStorageConnector<T = unknown> implements IEntityStorage
 	 * @param id The id to search for.
 	 * @param secondaryIndex The secondary index to search for.
 	 * @param conditions The optional conditions to match for the entities.
-	 * @returns The index of the item if found or -1.
+	 * @returns The item if found.
 	 * @internal
 	 */
 	private findItem(
 		id: string,
 		secondaryIndex?: keyof T,
 		conditions?: { property: keyof T; value: unknown }[]
-	): number {
-		const finalConditions: EntityCondition<T>[] = [];
-
-		if (!Is.empty(secondaryIndex)) {
-			finalConditions.push({
-				property: secondaryIndex as string,
-				comparison: ComparisonOperator.Equals,
-				value: id
-			});
-		}
-
-		if (Is.arrayValue(conditions)) {
-			// If we haven't added a secondary index condition we need to add the primary key condition.
-			if (finalConditions.length === 0) {
-				finalConditions.push({
-					property: this._primaryKey.property as string,
+	): T | undefined {
+		const finalConditions: EntityCondition<T> = {
+			conditions: [
+				{
+					property: (Is.empty(secondaryIndex)
+						? this._primaryKey.property
+						: secondaryIndex) as string,
 					comparison: ComparisonOperator.Equals,
 					value: id
-				});
-			}
-			finalConditions.push(
-				...conditions.map(c => ({
+				},
+				...(conditions ?? []).map(c => ({
 					property: c.property as string,
 					comparison: ComparisonOperator.Equals,
 					value: c.value
 				}))
-			);
+			]
+		};
+
+		return (this.findCandidates(finalConditions) ?? Array.from(this._store.values())).find(entity =>
+			EntityConditions.check(entity, finalConditions)
+		);
+	}
+
+	/**
+	 * Find the entities which could match the conditions using the indexes, the entities
+	 * must still be checked against the conditions as only the indexed properties are used.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The entities which could match, or undefined if the indexes can not be used.
+	 * @internal
+	 */
+	private findCandidates(conditions: EntityCondition<T> | undefined): T[] | undefined {
+		if (Is.undefined(conditions)) {
+			return;
+		}
+
+		if (!("conditions" in conditions)) {
+			return this._indexes.get(conditions.property as keyof T)?.find(conditions);
 		}
 
-		if (finalConditions.length > 0) {
-			for (let i = 0; i < this._store.length; i++) {
-				if (EntityConditions.check(this._store[i], { conditions: finalConditions })) {
-					return i;
+		const childCandidates = conditions.conditions.map(c => this.findCandidates(c));
+
+		if ((conditions.logicalOperator ?? LogicalOperator.And) === LogicalOperator.And) {
+			// Any of the conditions can be used, so use the one which matches the fewest entities
+			let candidates: T[] | undefined;
+			for (const childCandidate of childCandidates) {
+				if (
+					!Is.undefined(childCandidate) &&
+					(Is.undefined(candidates) || childCandidate.length < candidates.length)
+				) {
+					candidates = childCandidate;
 				}
 			}
-		} else {
-			return this._store.findIndex(e => e[this._primaryKey.property] === id);
+			return candidates;
+		}
+
+		// All of the conditions must be able to use the indexes to combine them
+		if (childCandidates.length > 0 && childCandidates.every(c => !Is.undefined(c))) {
+			return Array.from(new Set(childCandidates.flat() as T[]));
+		}
+	}
+
+	/**
+	 * Replace an entity in the store.
+	 * @param existing The existing entity.
+	 * @param entity The entity to replace it with.
+	 * @internal
+	 */
+	private replaceEntity(existing: T, entity: T): void {
+		// Setting an existing key keeps the position of the entity in the store
+		this._store.set(entity[this._primaryKey.property], entity);
+		this.removeFromIndexes(existing);
+		this.addToIndexes(entity);
+	}
+
+	/**
+	 * Add an entity to the indexes.
+	 * @param entity The entity to add.
+	 * @internal
+	 */
+	private addToIndexes(entity: T): void {
+		for (const index of this._indexes.values()) {
+			index.add(entity);
+		}
+	}
+
+	/**
+	 * Remove an entity from the indexes.
+	 * @param entity The entity to remove.
+	 * @internal
+	 */
+	private removeFromIndexes(entity: T): void {
+		for (const index of this._indexes.values()) {
+			index.remove(entity);
 		}
+	}
 
-		return -1;
+	/**
+	 * Replace all of the entities in the store and rebuild the indexes.
+	 * @param entities The entities to replace the store with.
+	 * @internal
+	 */
+	private replaceStore(entities: T[]): void {
+		this._store.clear();
+		for (const index of this._indexes.values()) {
+			index.clear();
+		}
+		for (const entity of entities) {
+			this._store.set(entity[this._primaryKey.property], entity);
+			this.addToIndexes(entity);
+		}
+	}
+
+	/**
+	 * Write the automatic snapshot to the snapshot directory, the snapshot is written
+	 * to a temporary file first so an existing snapshot is never partially overwritten.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async writeSnapshot(): Promise<void> {
+		if (Is.undefined(this._snapshotFilename)) {
+			return;
+		}
+		try {
+			const tempFilename = `${this._snapshotFilename}.tmp`;
+			await mkdir(path.dirname(this._snapshotFilename), { recursive: true });
+			await writeFile(tempFilename, await this.snapshot(this._snapshotFormat), "utf8");
+			await rename(tempFilename, this._snapshotFilename);
+		} catch (err) {
+			const nodeLogging = LoggingConnectorFactory.getIfExists(
+				this._nodeLoggingConnectorType ?? "node-logging"
+			);
+			await nodeLogging?.log({
+				level: "error",
+				source: this.CLASS_NAME,
+				message: "snapshotWriteFailed",
+				data: {
+					filename: this._snapshotFilename
+				},
+				error: BaseError.fromError(err)
+			});
+		}
+	}
+
+	/**
+	 * Check if the file exists.
+	 * @param filename The file to check.
+	 * @returns True if the file exists.
+	 * @internal
+	 */
+	private async fileExists(filename: string): Promise<boolean> {
+		try {
+			await access(filename);
+			return true;
+		} catch {
+			return false;
+		}
 	}
 }
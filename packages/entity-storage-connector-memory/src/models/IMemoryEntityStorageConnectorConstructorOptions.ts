@@ -1,5 +1,6 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
+import type { MemoryEntityStorageSnapshotFormat } from "./memoryEntityStorageSnapshotFormat";
 
 /**
  * Options for the Memory Entity Storage Connector constructor.
@@ -9,4 +10,27 @@ export interface IMemoryEntityStorageConnectorConstructorOptions {
 	 * The schema for the entity.
 	 */
 	entitySchema: string;
+
+	/**
+	 * The interval in milliseconds for sweeping the expired entities while the connector is started,
+	 * only used if the schema supports expiry, defaults to 60000.
+	 */
+	expirySweepInterval?: number;
+
+	/**
+	 * The directory for automatic snapshots, if set the store is restored from the snapshot
+	 * in the directory when the connector is started, a snapshot is written periodically
+	 * while it is started and again when it is stopped.
+	 */
+	snapshotDirectory?: string;
+
+	/**
+	 * The interval in milliseconds for writing the automatic snapshots, defaults to 60000.
+	 */
+	snapshotInterval?: number;
+
+	/**
+	 * The format for the automatic snapshots, defaults to json.
+	 */
+	snapshotFormat?: MemoryEntityStorageSnapshotFormat;
 }
@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * A snapshot of the memory store, in the NDJSON format the header line contains
+ * the version and entity schema and each of the following lines contains an entity.
+ */
+export interface IMemoryEntityStorageSnapshot<T = unknown> {
+	/**
+	 * The version of the snapshot format.
+	 */
+	version: number;
+
+	/**
+	 * The schema for the entities.
+	 */
+	entitySchema: string;
+
+	/**
+	 * The entities in the store.
+	 */
+	entities: T[];
+}
@@ -0,0 +1,24 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The formats a snapshot of the memory store can be serialized to.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const MemoryEntityStorageSnapshotFormat = {
+	/**
+	 * A single JSON document containing all of the entities.
+	 */
+	Json: "json",
+
+	/**
+	 * Newline delimited JSON, a header line followed by one line for each entity.
+	 */
+	Ndjson: "ndjson"
+} as const;
+
+/**
+ * The formats a snapshot of the memory store can be serialized to.
+ */
+export type MemoryEntityStorageSnapshotFormat =
+	(typeof MemoryEntityStorageSnapshotFormat)[keyof typeof MemoryEntityStorageSnapshotFormat];
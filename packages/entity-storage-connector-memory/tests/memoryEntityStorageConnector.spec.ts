@@ -1,16 +1,27 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
 /* eslint-disable max-classes-per-file */
+import { readFile, rm } from "node:fs/promises";
+import path from "node:path";
 import {
 	ComparisonOperator,
 	EntitySchemaFactory,
 	EntitySchemaHelper,
+	LogicalOperator,
 	SortDirection,
+	type EntityCondition,
 	entity,
 	property
 } from "@twin.org/entity";
+import {
+	EntityStorageChangeType,
+	EntityStorageTransactionOperationType,
+	type IEntityStorageChange,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
 import { nameof } from "@twin.org/nameof";
 import { MemoryEntityStorageConnector } from "../src/memoryEntityStorageConnector";
+import { MemoryEntityStorageSnapshotFormat } from "../src/models/memoryEntityStorageSnapshotFormat";
 
 /**
  * Test SubType Definition.
@@ -73,9 +84,103 @@ class TestType {
 	}[];
 }
 
+/**
+ * Test Versioned Type Definition.
+ */
+@entity()
+class TestVersionedType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Version.
+	 */
+	@property({ type: "string", optional: true })
+	public entityVersion?: string;
+}
+
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
+/**
+ * Test Indexed Type Definition.
+ */
+@entity()
+class TestIndexedType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Category.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public category!: string;
+
+	/**
+	 * Score.
+	 */
+	@property({ type: "integer", isSecondary: true, optional: true })
+	public score?: number;
+
+	/**
+	 * Active.
+	 */
+	@property({ type: "boolean", isSecondary: true })
+	public active!: boolean;
+}
+
+const TEST_SNAPSHOT_DIRECTORY = "./.tmp/snapshots";
+
 describe("MemoryEntityStorageConnector", () => {
 	beforeAll(async () => {
 		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
+		EntitySchemaFactory.register(nameof<TestVersionedType>(), () =>
+			EntitySchemaHelper.getSchema(TestVersionedType)
+		);
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
+		EntitySchemaFactory.register(nameof<TestIndexedType>(), () =>
+			EntitySchemaHelper.getSchema(TestIndexedType)
+		);
+	});
+
+	afterEach(async () => {
+		vi.useRealTimers();
+		await rm(TEST_SNAPSHOT_DIRECTORY, { recursive: true, force: true });
 	});
 
 	test("can fail to construct when there are no options", async () => {
@@ -178,6 +283,37 @@ describe("MemoryEntityStorageConnector", () => {
 		expect(result?.value3).toEqual(objectSet.value3);
 	});
 
+	test("can not overwrite an item which does not match the conditions", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestIndexedType>({
+			entitySchema: nameof<TestIndexedType>()
+		});
+		const changes: IEntityStorageChange<TestIndexedType>[] = [];
+		await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", category: "aaa", score: 10, active: true }, [
+			{ property: "category", value: "aaa" }
+		]);
+		await entityStorage.set({ id: "1", category: "bbb", score: 20, active: false }, [
+			{ property: "category", value: "bbb" }
+		]);
+
+		const resultFirst = await entityStorage.query({
+			property: "category",
+			comparison: ComparisonOperator.Equals,
+			value: "aaa"
+		});
+		expect(resultFirst.entities).toEqual([{ id: "1", category: "aaa", score: 10, active: true }]);
+		const resultSecond = await entityStorage.query({
+			property: "category",
+			comparison: ComparisonOperator.Equals,
+			value: "bbb"
+		});
+		expect(resultSecond.entities).toEqual([]);
+		expect(changes.map(c => c.type)).toEqual([EntityStorageChangeType.Created]);
+	});
+
 	test("can set an item to update it", async () => {
 		const entityStorage = new MemoryEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>()
@@ -202,6 +338,23 @@ describe("MemoryEntityStorageConnector", () => {
 		expect(result?.value3).toEqual(objectSet.value3);
 	});
 
+	test("can keep the order of the store when items are updated and removed", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 1 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 2 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 3 });
+
+		await entityStorage.set({ id: "1", value1: "ddd", value2: 4 });
+		await entityStorage.remove("2");
+
+		expect(entityStorage.getStore()).toEqual([
+			{ id: "1", value1: "ddd", value2: 4 },
+			{ id: "3", value1: "ccc", value2: 3 }
+		]);
+	});
+
 	test("can fail to get an item with no id", async () => {
 		const entityStorage = new MemoryEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>()
@@ -254,6 +407,29 @@ describe("MemoryEntityStorageConnector", () => {
 		expect(item?.value2).toEqual(55);
 	});
 
+	test("can get an item by secondary index after items are updated and removed", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 1 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 2 });
+		await entityStorage.set({ id: "1", value1: "ccc", value2: 3 });
+		await entityStorage.patch("2", { value1: "ddd" });
+
+		expect(await entityStorage.get("aaa", "value1")).toBeUndefined();
+		expect(await entityStorage.get("bbb", "value1")).toBeUndefined();
+		const item1 = await entityStorage.get("ccc", "value1");
+		expect(item1?.id).toEqual("1");
+		const item2 = await entityStorage.get("ddd", "value1");
+		expect(item2?.id).toEqual("2");
+
+		await entityStorage.remove("1");
+		expect(await entityStorage.get("ccc", "value1")).toBeUndefined();
+		expect(await entityStorage.get("1")).toBeUndefined();
+		const item3 = await entityStorage.get("2");
+		expect(item3?.value1).toEqual("ddd");
+	});
+
 	test("can fail to remove an item with no id", async () => {
 		const entityStorage = new MemoryEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>()
@@ -314,6 +490,606 @@ describe("MemoryEntityStorageConnector", () => {
 		expect(result).toBeUndefined();
 	});
 
+	test("can set a batch of items", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: 22 }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const result = await entityStorage.get("2");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can set a batch of items with individual failures", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: "22" as unknown as number }
+		]);
+
+		expect(results[0]).toEqual({ id: "1", success: true });
+		expect(results[1].id).toEqual("2");
+		expect(results[1].success).toEqual(false);
+		expect(results[1].error).toBeDefined();
+		const result = await entityStorage.get("2");
+		expect(result).toBeUndefined();
+	});
+
+	test("can get a batch of items", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results).toEqual([
+			{ id: "2", success: true, entity: { id: "2", value1: "bbb", value2: 22 } },
+			{ id: "3", success: true, entity: undefined },
+			{ id: "1", success: true, entity: { id: "1", value1: "aaa", value2: 11 } }
+		]);
+	});
+
+	test("can get a batch of items by secondary index", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.getBatch(["bbb", "aaa"], "value1");
+
+		expect(results[0].entity?.id).toEqual("2");
+		expect(results[1].entity?.id).toEqual("1");
+	});
+
+	test("can remove a batch of items", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		const queryResult = await entityStorage.query();
+		expect(queryResult.entities.map(e => e.id)).toEqual(["2"]);
+	});
+
+	test("can check the transaction capability", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		expect(entityStorage.getCapabilities().transactions).toEqual(true);
+	});
+
+	test("can set and remove items in a transaction", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "aaa", value2: 11 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+		]);
+
+		expect(await entityStorage.get("1")).toBeDefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can set items in a transaction with the expected version", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const current = await entityStorage.get("1");
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "bbb" },
+				expectedVersion: current?.entityVersion
+			},
+			{ type: EntityStorageTransactionOperationType.Set, entity: { id: "2", value1: "ccc" } }
+		]);
+
+		const result1 = await entityStorage.get("1");
+		const result2 = await entityStorage.get("2");
+		expect(result1?.value1).toEqual("bbb");
+		expect(result2?.value1).toEqual("ccc");
+	});
+
+	test("can roll back a transaction when an expected version does not match", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		await entityStorage.set({ id: "2", value1: "bbb" });
+
+		await expect(
+			entityStorage.transaction([
+				{ type: EntityStorageTransactionOperationType.Set, entity: { id: "1", value1: "ccc" } },
+				{ type: EntityStorageTransactionOperationType.Remove, id: "2", expectedVersion: "foo" }
+			])
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+
+		const result1 = await entityStorage.get("1");
+		const result2 = await entityStorage.get("2");
+		expect(result1?.value1).toEqual("aaa");
+		expect(result2?.value1).toEqual("bbb");
+	});
+
+	test("can find items using the indexes after a transaction is rolled back", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+
+		await expect(
+			entityStorage.transaction([
+				{ type: EntityStorageTransactionOperationType.Set, entity: { id: "1", value1: "bbb" } },
+				{ type: EntityStorageTransactionOperationType.Set, entity: { id: "2", value1: "ccc" } },
+				{ type: EntityStorageTransactionOperationType.Remove, id: "1", expectedVersion: "foo" }
+			])
+		).rejects.toMatchObject({
+			name: "ConflictError"
+		});
+
+		const result1 = await entityStorage.get("1");
+		expect(result1?.value1).toEqual("aaa");
+		expect(await entityStorage.get("2")).toBeUndefined();
+		const result = await entityStorage.query({
+			property: "id",
+			comparison: ComparisonOperator.In,
+			value: ["1", "2"]
+		});
+		expect(result.entities.map(e => e.value1)).toEqual(["aaa"]);
+	});
+
+	test("can fail to perform a transaction with an invalid operation", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await expect(
+			entityStorage.transaction([
+				{
+					type: EntityStorageTransactionOperationType.Remove
+				} as IEntityStorageTransactionOperation<TestVersionedType>
+			])
+		).rejects.toMatchObject({
+			name: "GuardError",
+			message: "guard.string",
+			properties: { property: "operations[0].id" }
+		});
+	});
+
+	test("can check the subscription capability", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(true);
+	});
+
+	test("can subscribe to the changes made to items", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		const changes: IEntityStorageChange<TestType>[] = [];
+		await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "1", value1: "bbb", value2: 11 });
+		await entityStorage.patch("1", { value2: 22 });
+		await entityStorage.remove("1");
+
+		expect(changes).toEqual([
+			{
+				type: EntityStorageChangeType.Created,
+				id: "1",
+				entity: { id: "1", value1: "aaa", value2: 11 }
+			},
+			{
+				type: EntityStorageChangeType.Updated,
+				id: "1",
+				entity: { id: "1", value1: "bbb", value2: 11 }
+			},
+			{
+				type: EntityStorageChangeType.Updated,
+				id: "1",
+				entity: { id: "1", value1: "bbb", value2: 22 }
+			},
+			{
+				type: EntityStorageChangeType.Removed,
+				id: "1",
+				entity: { id: "1", value1: "bbb", value2: 22 }
+			}
+		]);
+	});
+
+	test("can subscribe to the changes made to items with conditions", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		const changes: IEntityStorageChange<TestType>[] = [];
+		await entityStorage.subscribe(
+			{ property: "value1", comparison: ComparisonOperator.Equals, value: "aaa" },
+			async change => {
+				changes.push(change);
+			}
+		);
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		expect(changes.map(c => c.id)).toEqual(["1"]);
+	});
+
+	test("can unsubscribe from the changes made to items", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.unsubscribe(subscriptionId);
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		expect(changes.map(c => c.id)).toEqual(["1"]);
+	});
+
+	test("can only notify the changes from a transaction which succeeds", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const changes: IEntityStorageChange<TestVersionedType>[] = [];
+		await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await expect(
+			entityStorage.transaction([
+				{ type: EntityStorageTransactionOperationType.Set, entity: { id: "2", value1: "bbb" } },
+				{ type: EntityStorageTransactionOperationType.Remove, id: "1", expectedVersion: "foo" }
+			])
+		).rejects.toMatchObject({
+			name: "ConflictError"
+		});
+		expect(changes).toEqual([]);
+
+		await entityStorage.transaction([
+			{ type: EntityStorageTransactionOperationType.Set, entity: { id: "2", value1: "bbb" } },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "1" }
+		]);
+		expect(changes.map(c => [c.type, c.id])).toEqual([
+			[EntityStorageChangeType.Created, "2"],
+			[EntityStorageChangeType.Removed, "1"]
+		]);
+	});
+
+	test("can count items with empty store", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "bbb",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("patched");
+		expect(result?.value2).toEqual(11);
+	});
+
+	test("can patch an item with nested objects and removals", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({
+			id: "1",
+			value1: "aaa",
+			value2: 11,
+			value3: { field1: "2024-01-01T00:00:00.000Z" },
+			valueObject: { a: { value: "a" }, b: { value: "b" } }
+		});
+
+		await entityStorage.patch("1", {
+			value3: null as unknown as SubType,
+			valueObject: { b: null, c: { value: "c" } } as unknown as TestType["valueObject"]
+		});
+
+		const result = await entityStorage.get("1");
+		expect(result).toEqual({
+			id: "1",
+			value1: "aaa",
+			value2: 11,
+			valueObject: { a: { value: "a" }, c: { value: "c" } }
+		});
+	});
+
+	test("can not patch an item when the conditions do not match", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await entityStorage.patch("1", { value2: 22 }, [{ property: "value1", value: "bbb" }]);
+
+		const result = await entityStorage.get("1");
+		expect(result?.value2).toEqual(11);
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
+	test("can set an item and generate a version", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.entityVersion).toMatch(/^[\da-f]{32}$/);
+	});
+
+	test("can set an item with the expected version", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const current = await entityStorage.get("1");
+
+		await entityStorage.set({ id: "1", value1: "bbb" }, undefined, current?.entityVersion);
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.entityVersion).not.toEqual(current?.entityVersion);
+	});
+
+	test("can fail to set an item with a different expected version", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+
+		await expect(
+			entityStorage.set({ id: "1", value1: "bbb" }, undefined, "foo")
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("aaa");
+	});
+
+	test("can fail to set an item which does not exist with an expected version", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa" }, undefined, "foo")
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+	});
+
+	test("can remove an item with the expected version", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const current = await entityStorage.get("1");
+
+		await entityStorage.remove("1", undefined, current?.entityVersion);
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to remove an item with a different expected version", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+
+		await expect(entityStorage.remove("1", undefined, "foo")).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("aaa");
+	});
+
+	test("can generate a new version when patching an item", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" });
+		const current = await entityStorage.get("1");
+
+		await entityStorage.patch("1", { value1: "bbb" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.entityVersion).not.toEqual(current?.entityVersion);
+	});
+
+	test("can fail to remove an item with an expected version when the schema has no versions", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await expect(entityStorage.remove("1", undefined, "foo")).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageVersionHelper.versionNotSupported"
+		});
+	});
+
+	test("can set an item with a time to live", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+		const entityStorage = new MemoryEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 60);
+
+		const result = await entityStorage.get("1");
+		expect(result).toEqual({ id: "1", value1: "aaa", entityExpiry: 1704067260 });
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+		const entityStorage = new MemoryEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 60);
+		await entityStorage.set({ id: "2", value1: "bbb" });
+
+		vi.setSystemTime(new Date("2024-01-01T00:01:00.000Z"));
+
+		expect(await entityStorage.get("1")).toBeUndefined();
+		const result = await entityStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await entityStorage.count()).toEqual(1);
+	});
+
+	test("can set an item to replace one which has expired", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+		const entityStorage = new MemoryEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 60);
+
+		vi.setSystemTime(new Date("2024-01-01T00:01:00.000Z"));
+		await entityStorage.set({ id: "1", value1: "bbb" });
+
+		expect(entityStorage.getStore()).toEqual([{ id: "1", value1: "bbb" }]);
+	});
+
+	test("can remove only the items which have expired", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+		const entityStorage = new MemoryEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>()
+		});
+		for (let i = 1; i <= 10; i++) {
+			await entityStorage.set({ id: `${i}`, value1: "aaa" }, undefined, undefined, i * 10);
+		}
+		await entityStorage.set({ id: "11", value1: "bbb" });
+
+		vi.setSystemTime(new Date("2024-01-01T00:00:50.000Z"));
+
+		expect(await entityStorage.count()).toEqual(6);
+		expect(entityStorage.getStore().map(e => e.id)).toEqual(["6", "7", "8", "9", "10", "11"]);
+	});
+
+	test("can sweep the expired items while the connector is started", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+		const entityStorage = new MemoryEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			expirySweepInterval: 1000
+		});
+		await entityStorage.start("node", undefined);
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 1);
+		expect(entityStorage.getStore().length).toEqual(1);
+
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(entityStorage.getStore().length).toEqual(0);
+
+		await entityStorage.stop("node", undefined);
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: 1 }, undefined, undefined, 60)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
 	test("can find items with empty store", async () => {
 		const entityStorage = new MemoryEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>()
@@ -382,6 +1158,55 @@ describe("MemoryEntityStorageConnector", () => {
 		expect(result2.cursor).toBeUndefined();
 	});
 
+	test("can find items with a cursor when items are added and removed between pages", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		for (let i = 1; i <= 6; i++) {
+			await entityStorage.set({ id: i.toString(), value1: "aaa", value2: i * 10 });
+		}
+		const sortProperties = [
+			{ property: "value2" as const, sortDirection: SortDirection.Ascending }
+		];
+
+		const result = await entityStorage.query(undefined, sortProperties, undefined, undefined, 3);
+		expect(result.entities.map(e => e.id)).toEqual(["1", "2", "3"]);
+
+		await entityStorage.remove("2");
+		await entityStorage.set({ id: "0", value1: "aaa", value2: 5 });
+		await entityStorage.set({ id: "9", value1: "aaa", value2: 45 });
+
+		const result2 = await entityStorage.query(
+			undefined,
+			sortProperties,
+			undefined,
+			result.cursor,
+			3
+		);
+		expect(result2.entities.map(e => e.id)).toEqual(["4", "9", "5"]);
+		const result3 = await entityStorage.query(
+			undefined,
+			sortProperties,
+			undefined,
+			result2.cursor,
+			3
+		);
+		expect(result3.entities.map(e => e.id)).toEqual(["6"]);
+		expect(result3.cursor).toBeUndefined();
+	});
+
+	test("can fail to find items with an invalid cursor", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await expect(
+			entityStorage.query(undefined, undefined, undefined, "invalid")
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageCursorHelper.cursorInvalid"
+		});
+	});
+
 	test("can find items with multiple entries and apply conditions", async () => {
 		const entityStorage = new MemoryEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>()
@@ -406,6 +1231,72 @@ describe("MemoryEntityStorageConnector", () => {
 		expect(result.cursor).toBeUndefined();
 	});
 
+	test("can find items using equality and range conditions on indexed properties", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestIndexedType>({
+			entitySchema: nameof<TestIndexedType>()
+		});
+		for (let i = 1; i <= 20; i++) {
+			await entityStorage.set({
+				id: i.toString().padStart(2, "0"),
+				category: i % 2 === 0 ? "even" : "odd",
+				score: i === 20 ? undefined : i * 10,
+				active: i <= 5
+			});
+		}
+		await entityStorage.set({ id: "03", category: "even", score: 300, active: false });
+		await entityStorage.remove("04");
+
+		const queryIds = async (conditions: EntityCondition<TestIndexedType>): Promise<string[]> => {
+			const result = await entityStorage.query(conditions, undefined, undefined, undefined, 100);
+			return result.entities.map(e => e.id as string);
+		};
+
+		expect(
+			await queryIds({ property: "category", comparison: ComparisonOperator.Equals, value: "odd" })
+		).toEqual(["01", "05", "07", "09", "11", "13", "15", "17", "19"]);
+		expect(
+			await queryIds({ property: "active", comparison: ComparisonOperator.Equals, value: true })
+		).toEqual(["01", "02", "05"]);
+		expect(
+			await queryIds({ property: "score", comparison: ComparisonOperator.GreaterThan, value: 170 })
+		).toEqual(["03", "18", "19"]);
+		expect(
+			await queryIds({
+				property: "score",
+				comparison: ComparisonOperator.LessThanOrEqual,
+				value: 50
+			})
+		).toEqual(["01", "02", "05"]);
+		expect(
+			await queryIds({ property: "score", comparison: ComparisonOperator.In, value: [60, 300] })
+		).toEqual(["03", "06"]);
+		expect(
+			await queryIds({
+				conditions: [
+					{ property: "score", comparison: ComparisonOperator.GreaterThanOrEqual, value: 100 },
+					{ property: "score", comparison: ComparisonOperator.LessThan, value: 150 },
+					{ property: "category", comparison: ComparisonOperator.Equals, value: "even" }
+				]
+			})
+		).toEqual(["10", "12", "14"]);
+		expect(
+			await queryIds({
+				conditions: [
+					{ property: "category", comparison: ComparisonOperator.Equals, value: "even" },
+					{ property: "score", comparison: ComparisonOperator.LessThan, value: 20 }
+				],
+				logicalOperator: LogicalOperator.Or
+			})
+		).toEqual(["01", "02", "03", "06", "08", "10", "12", "14", "16", "18", "20"]);
+		expect(
+			await entityStorage.count({
+				property: "score",
+				comparison: ComparisonOperator.GreaterThan,
+				value: 100
+			})
+		).toEqual(10);
+	});
+
 	test("can find items with multiple entries and apply custom sort", async () => {
 		const entityStorage = new MemoryEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>()
@@ -505,4 +1396,151 @@ describe("MemoryEntityStorageConnector", () => {
 		expect(result).toBeDefined();
 		expect(result.entities.length).toEqual(5);
 	});
+
+	test("can snapshot and restore the store", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 2 });
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 1, valueArray: [] });
+		const snapshot = await entityStorage.snapshot();
+		expect(JSON.parse(snapshot)).toEqual({
+			version: 1,
+			entitySchema: "TestType",
+			entities: [
+				{ id: "2", value1: "bbb", value2: 2 },
+				{ id: "1", value1: "aaa", value2: 1, valueArray: [] }
+			]
+		});
+
+		const restored = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await restored.set({ id: "3", value1: "ccc", value2: 3 });
+		await restored.restore(snapshot);
+		expect(restored.getStore()).toEqual(entityStorage.getStore());
+		expect(await restored.get("3")).toBeUndefined();
+		const item = await restored.get("aaa", "value1");
+		expect(item?.id).toEqual("1");
+	});
+
+	test("can snapshot and restore the store using ndjson", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 1 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 2 });
+		const snapshot = await entityStorage.snapshot(MemoryEntityStorageSnapshotFormat.Ndjson);
+		expect(snapshot).toEqual(
+			[
+				'{"version":1,"entitySchema":"TestType"}',
+				'{"id":"1","value1":"aaa","value2":1}',
+				'{"id":"2","value1":"bbb","value2":2}',
+				""
+			].join("\n")
+		);
+
+		const restored = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await restored.restore(snapshot, MemoryEntityStorageSnapshotFormat.Ndjson);
+		expect(restored.getStore()).toEqual(entityStorage.getStore());
+	});
+
+	test("can fail to restore a snapshot which is not valid", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 1 });
+
+		await expect(entityStorage.restore("{")).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "memoryEntityStorageConnector.snapshotInvalid"
+		});
+		await expect(
+			entityStorage.restore('{"version":1}', MemoryEntityStorageSnapshotFormat.Ndjson)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "memoryEntityStorageConnector.snapshotSchemaMismatch"
+		});
+		await expect(
+			entityStorage.restore(JSON.stringify({ version: 2, entitySchema: "TestType", entities: [] }))
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "memoryEntityStorageConnector.snapshotVersionUnsupported",
+			properties: { version: 2 }
+		});
+		await expect(
+			entityStorage.restore(
+				JSON.stringify({ version: 1, entitySchema: "TestVersionedType", entities: [] })
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "memoryEntityStorageConnector.snapshotSchemaMismatch",
+			properties: { entitySchema: "TestVersionedType", expectedEntitySchema: "TestType" }
+		});
+		await expect(
+			entityStorage.restore(
+				JSON.stringify({
+					version: 1,
+					entitySchema: "TestType",
+					entities: [
+						{ id: "2", value1: "bbb", value2: 2 },
+						{ id: "2", value1: "ccc", value2: 3 }
+					]
+				})
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "memoryEntityStorageConnector.snapshotDuplicateId",
+			properties: { id: "2" }
+		});
+
+		expect(entityStorage.getStore()).toEqual([{ id: "1", value1: "aaa", value2: 1 }]);
+	});
+
+	test("can restore the store from the snapshot directory when started", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			snapshotDirectory: TEST_SNAPSHOT_DIRECTORY
+		});
+		await entityStorage.start("node", undefined);
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 1 });
+		await entityStorage.stop("node", undefined);
+
+		const snapshot = await readFile(path.join(TEST_SNAPSHOT_DIRECTORY, "TestType.json"), "utf8");
+		expect(JSON.parse(snapshot).entities).toEqual([{ id: "1", value1: "aaa", value2: 1 }]);
+
+		const restarted = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			snapshotDirectory: TEST_SNAPSHOT_DIRECTORY
+		});
+		await restarted.start("node", undefined);
+		const item = await restarted.get("1");
+		expect(item?.value1).toEqual("aaa");
+		await restarted.stop("node", undefined);
+	});
+
+	test("can write the snapshot periodically while the connector is started", async () => {
+		const entityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			snapshotDirectory: TEST_SNAPSHOT_DIRECTORY,
+			snapshotInterval: 10,
+			snapshotFormat: MemoryEntityStorageSnapshotFormat.Ndjson
+		});
+		await entityStorage.start("node", undefined);
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 1 });
+
+		const filename = path.join(TEST_SNAPSHOT_DIRECTORY, "TestType.ndjson");
+		let snapshot = "";
+		for (let i = 0; i < 100 && !snapshot.includes('"id":"1"'); i++) {
+			await new Promise(resolve => setTimeout(resolve, 20));
+			snapshot = await readFile(filename, "utf8").catch(() => "");
+		}
+		await entityStorage.stop("node", undefined);
+
+		expect(snapshot).toEqual(
+			'{"version":1,"entitySchema":"TestType"}\n{"id":"1","value1":"aaa","value2":1}\n'
+		);
+	});
 });
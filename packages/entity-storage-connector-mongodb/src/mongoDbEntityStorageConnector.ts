@@ -1,6 +1,6 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import { BaseError, GeneralError, Guards, Is } from "@twin.org/core";
+import { BaseError, GeneralError, Guards, Is, ObjectHelper } from "@twin.org/core";
 import {
 	ComparisonOperator,
 	type EntityCondition,
@@ -8,12 +8,36 @@ import {
 	EntitySchemaHelper,
 	type IEntitySchema,
 	LogicalOperator,
-	type SortDirection
+	SortDirection
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
-import { LoggingConnectorFactory } from "@twin.org/logging-models";
+import {
+	EntityStorageChangeEmitter,
+	EntityStorageChangeType,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { type ILoggingConnector, LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
-import { type Collection, type Document, type Filter, MongoClient, type WithId } from "mongodb";
+import {
+	type AnyBulkWriteOperation,
+	type ChangeStream,
+	type ChangeStreamDocument,
+	type Collection,
+	type Document,
+	type Filter,
+	type IndexDirection,
+	MongoBulkWriteError,
+	MongoClient,
+	type WithId
+} from "mongodb";
 import type { IMongoDbEntityStorageConnectorConfig } from "./models/IMongoDbEntityStorageConnectorConfig";
 import type { IMongoDbEntityStorageConnectorConstructorOptions } from "./models/IMongoDbEntityStorageConnectorConstructorOptions";
 
@@ -27,6 +51,19 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 	 */
 	private static readonly _PAGE_SIZE: number = 40;
 
+	/**
+	 * The field which contains the expiry as a date, TTL indexes can only be created on dates.
+	 * @internal
+	 */
+	private static readonly _EXPIRY_DATE_FIELD: string = "_entityExpiryDate";
+
+	/**
+	 * The prefix for the names of the indexes created from the schema, indexes with the prefix
+	 * which are no longer in the schema are removed during bootstrap.
+	 * @internal
+	 */
+	private static readonly _INDEX_PREFIX: string = "entity_";
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -38,6 +75,18 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 	 */
 	private readonly _entitySchema: IEntitySchema<T>;
 
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
 	/**
 	 * The configuration for the connector.
 	 * @internal
@@ -50,6 +99,18 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 	 */
 	private readonly _client: MongoClient;
 
+	/**
+	 * The subscriptions to changes in the collection.
+	 * @internal
+	 */
+	private readonly _changeEmitter: EntityStorageChangeEmitter<T>;
+
+	/**
+	 * The change stream for the collection, only open while there are subscriptions.
+	 * @internal
+	 */
+	private _changeStream?: ChangeStream<Document>;
+
 	/**
 	 * Create a new instance of MongoDbEntityStorageConnector.
 	 * @param options The options for the connector.
@@ -71,10 +132,13 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 		);
 
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
 
 		this._config = options.config;
 
 		this._client = new MongoClient(this.createConnectionConfig());
+		this._changeEmitter = new EntityStorageChangeEmitter<T>();
 	}
 
 	/**
@@ -113,7 +177,37 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 				}
 			});
 
-			await this.getCollection();
+			// Pre-images are enabled so that the change stream can provide the entities which are removed
+			const db = this._client.db(this._config.database);
+			const collections = await db.listCollections({ name: this._config.collection }).toArray();
+			if (collections.length === 0) {
+				await db.createCollection(this._config.collection, {
+					changeStreamPreAndPostImages: { enabled: true }
+				});
+			} else if (
+				!("options" in collections[0]) ||
+				collections[0].options?.changeStreamPreAndPostImages?.enabled !== true
+			) {
+				// A collection created before pre-images were enabled would not provide the removed
+				// entities, so the subscriptions scoped to identities could not match the removals
+				await db.command({
+					collMod: this._config.collection,
+					changeStreamPreAndPostImages: { enabled: true }
+				});
+			}
+
+			if (!Is.undefined(this._expiryProperty)) {
+				// The TTL monitor removes the documents once the date has passed, it only runs
+				// periodically so the expired documents are also excluded when reading
+				await db
+					.collection(this._config.collection)
+					.createIndex(
+						{ [MongoDbEntityStorageConnector._EXPIRY_DATE_FIELD]: 1 },
+						{ expireAfterSeconds: 0 }
+					);
+			}
+
+			await this.reconcileIndexes(nodeLogging);
 
 			await nodeLogging?.log({
 				level: "info",
@@ -152,6 +246,17 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: true,
+			subscriptions: true
+		};
+	}
+
 	/**
 	 * Get an entity from MongoDb.
 	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
@@ -176,9 +281,12 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 					query[condition.property] = condition.value;
 				}
 			}
+			this.addExpiryFilter(query);
 
 			const collection = await this.getCollection();
-			const result = await collection.findOne(query);
+			const result = await collection.findOne(query, {
+				projection: { [MongoDbEntityStorageConnector._EXPIRY_DATE_FIELD]: 0 }
+			});
 			return result as T | undefined;
 		} catch (err) {
 			throw new GeneralError(
@@ -193,12 +301,20 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
@@ -206,6 +322,13 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
 		const id = entity[primaryKey.property];
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+		const expiringEntity = EntityStorageExpiryHelper.applyTimeToLive(
+			entity,
+			this._expiryProperty,
+			timeToLive
+		);
+
 		try {
 			const filter: { [key in keyof T]?: unknown } = { [primaryKey.property]: id };
 
@@ -215,12 +338,20 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 				}
 			}
 
+			if (!Is.undefined(expectedVersion) && !Is.undefined(this._versionProperty)) {
+				filter[this._versionProperty] = expectedVersion;
+			}
+
 			const collection = await this.getCollection();
-			await collection.findOneAndUpdate(
+			const existing = await collection.findOneAndUpdate(
 				filter,
-				{ $set: entity as Partial<Document> },
-				{ upsert: true }
+				{ $set: this.toDocument(expiringEntity) },
+				{ upsert: Is.undefined(expectedVersion) }
 			);
+
+			if (Is.null(existing) && !Is.undefined(expectedVersion)) {
+				throw EntityStorageVersionHelper.conflictError(id as string, expectedVersion);
+			}
 		} catch (err) {
 			throw new GeneralError(
 				this.CLASS_NAME,
@@ -237,14 +368,19 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+
 		try {
 			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
 			const query: { [key in keyof T]?: unknown } = { [primaryKey.property]: id };
@@ -255,13 +391,379 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 				}
 			}
 
+			if (!Is.undefined(expectedVersion) && !Is.undefined(this._versionProperty)) {
+				query[this._versionProperty] = expectedVersion;
+			}
+
 			const collection = await this.getCollection();
-			await collection.deleteOne(query);
+			const result = await collection.deleteOne(query);
+
+			if (result.deletedCount === 0 && !Is.undefined(expectedVersion)) {
+				throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+			}
 		} catch (err) {
 			throw new GeneralError(this.CLASS_NAME, "removeFailed", { id }, err);
 		}
 	}
 
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		try {
+			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+			const filter: { [key in keyof T]?: unknown } = { [primaryKey.property]: id };
+
+			if (Is.arrayValue(conditions)) {
+				for (const condition of conditions) {
+					filter[condition.property] = condition.value;
+				}
+			}
+
+			// Nested objects are flattened to dotted paths so they are merged
+			// with the stored document instead of replacing it
+			const flattened = EntityStoragePatchHelper.flattenPatch(patch);
+			const setFields: { [key: string]: unknown } = {};
+			const unsetFields: { [key: string]: "" } = {};
+			for (const field of flattened.set) {
+				if (field.path[0] !== primaryKey.property && field.path[0] !== this._versionProperty) {
+					setFields[field.path.join(".")] = field.value;
+				}
+			}
+			for (const path of flattened.remove) {
+				unsetFields[path.join(".")] = "";
+			}
+
+			if (
+				!Is.undefined(this._versionProperty) &&
+				(Is.objectValue(setFields) || Is.objectValue(unsetFields))
+			) {
+				setFields[this._versionProperty as string] = EntityStorageVersionHelper.generateVersion();
+			}
+
+			const update: { $set?: typeof setFields; $unset?: typeof unsetFields } = {};
+			if (Is.objectValue(setFields)) {
+				update.$set = setFields;
+			}
+			if (Is.objectValue(unsetFields)) {
+				update.$unset = unsetFields;
+			}
+
+			if (Is.objectValue(update)) {
+				const collection = await this.getCollection();
+				await collection.updateOne(filter, update);
+			}
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "patchFailed", { id }, err);
+		}
+	}
+
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const results: IEntityStorageBatchResult<T>[] = [];
+		const operationIndexes: number[] = [];
+		const operations: AnyBulkWriteOperation<Document>[] = [];
+
+		for (let i = 0; i < entities.length; i++) {
+			const id = entities[i]?.[primaryKey.property] as unknown as string;
+			try {
+				Guards.object<T>(this.CLASS_NAME, nameof(entities[i]), entities[i]);
+				EntitySchemaHelper.validateEntity(entities[i], this.getSchema());
+
+				const filter: { [key in keyof T]?: unknown } = { [primaryKey.property]: id };
+				if (Is.arrayValue(conditions)) {
+					for (const condition of conditions) {
+						filter[condition.property] = condition.value;
+					}
+				}
+
+				operations.push({
+					updateOne: {
+						filter: filter as Filter<Document>,
+						update: { $set: this.toDocument(entities[i]) },
+						upsert: true
+					}
+				});
+				operationIndexes.push(i);
+				results.push({ id, success: true });
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		if (operations.length > 0) {
+			try {
+				const collection = await this.getCollection();
+				await collection.bulkWrite(operations, { ordered: false });
+			} catch (err) {
+				if (err instanceof MongoBulkWriteError) {
+					const writeErrors = Array.isArray(err.writeErrors) ? err.writeErrors : [err.writeErrors];
+					for (const writeError of writeErrors) {
+						const result = results[operationIndexes[writeError.index]];
+						result.success = false;
+						result.error = new GeneralError(this.CLASS_NAME, "setFailed", {
+							id: result.id,
+							code: writeError.code,
+							reason: writeError.errmsg
+						}).toJsonObject();
+					}
+				} else {
+					for (const index of operationIndexes) {
+						const result = results[index];
+						result.success = false;
+						result.error = new GeneralError(
+							this.CLASS_NAME,
+							"setFailed",
+							{ id: result.id },
+							err
+						).toJsonObject();
+					}
+				}
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		try {
+			const lookupProperty: keyof T = Is.empty(secondaryIndex)
+				? EntitySchemaHelper.getPrimaryKey(this.getSchema()).property
+				: secondaryIndex;
+			const filter: { [key in keyof T]?: unknown } = {};
+			filter[lookupProperty] = { $in: ids };
+
+			if (conditions) {
+				for (const condition of conditions) {
+					filter[condition.property] = condition.value;
+				}
+			}
+			this.addExpiryFilter(filter);
+
+			const collection = await this.getCollection();
+			const entities = (await collection
+				// eslint-disable-next-line unicorn/no-array-callback-reference, unicorn/no-array-method-this-argument
+				.find(filter, {
+					projection: { [MongoDbEntityStorageConnector._EXPIRY_DATE_FIELD]: 0 }
+				})
+				.toArray()) as unknown as T[];
+
+			return ids.map(id => ({
+				id,
+				success: true,
+				entity: entities.find(e => e[lookupProperty] === id)
+			}));
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "getFailed", { id }, err).toJsonObject()
+			}));
+		}
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		try {
+			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+			const filter: { [key in keyof T]?: unknown } = { [primaryKey.property]: { $in: ids } };
+
+			if (conditions) {
+				for (const condition of conditions) {
+					filter[condition.property] = condition.value;
+				}
+			}
+
+			const collection = await this.getCollection();
+			await collection.deleteMany(filter);
+
+			return ids.map(id => ({ id, success: true }));
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "removeFailed", { id }, err).toJsonObject()
+			}));
+		}
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+
+		try {
+			const collection = await this.getCollection();
+			const session = this._client.startSession();
+
+			try {
+				// The transaction is aborted if any of the operations throw
+				await session.withTransaction(async () => {
+					for (const operation of operations) {
+						const id = EntityStorageTransactionHelper.getOperationId(
+							operation,
+							primaryKey.property
+						);
+						const filter: { [key in keyof T]?: unknown } = { [primaryKey.property]: id };
+						if (!Is.undefined(operation.expectedVersion) && !Is.undefined(this._versionProperty)) {
+							filter[this._versionProperty] = operation.expectedVersion;
+						}
+
+						if (operation.type === EntityStorageTransactionOperationType.Set) {
+							const existing = await collection.findOneAndUpdate(
+								filter,
+								{ $set: this.toDocument(operation.entity as T) },
+								{ upsert: Is.undefined(operation.expectedVersion), session }
+							);
+							if (Is.null(existing) && !Is.undefined(operation.expectedVersion)) {
+								throw EntityStorageVersionHelper.conflictError(id, operation.expectedVersion);
+							}
+						} else {
+							const result = await collection.deleteOne(filter, { session });
+							if (result.deletedCount === 0 && !Is.undefined(operation.expectedVersion)) {
+								throw EntityStorageVersionHelper.conflictError(id, operation.expectedVersion);
+							}
+						}
+					}
+				});
+			} finally {
+				await session.endSession();
+			}
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "transactionFailed", undefined, err);
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities using a change stream, which requires MongoDb
+	 * to be running as a replica set. Removals are only notified for collections which have
+	 * pre-images enabled, which is the case for collections created during bootstrap.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		const subscriptionId = this._changeEmitter.subscribe(conditions, callback);
+
+		if (Is.undefined(this._changeStream)) {
+			try {
+				const collection = await this.getCollection();
+				const changeStream = collection.watch([], {
+					fullDocument: "updateLookup",
+					fullDocumentBeforeChange: "whenAvailable"
+				});
+				changeStream.on("change", async change => this.notifyChange(change));
+				changeStream.on("error", async () => this.closeChangeStream());
+				this._changeStream = changeStream;
+			} catch (err) {
+				this._changeEmitter.unsubscribe(subscriptionId);
+				throw new GeneralError(this.CLASS_NAME, "subscribeFailed", undefined, err);
+			}
+		}
+
+		return subscriptionId;
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		this._changeEmitter.unsubscribe(subscriptionId);
+
+		if (!this._changeEmitter.hasSubscriptions()) {
+			await this.closeChangeStream();
+		}
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		const filter: Filter<T> = {};
+		if (conditions) {
+			this.buildQueryParameters("", conditions, filter);
+		}
+		this.addExpiryFilter(filter);
+
+		const collection = await this.getCollection();
+		const total = await collection?.countDocuments(filter as Filter<Document>);
+
+		return total ?? 0;
+	}
+
 	/**
 	 * Find all the entities which match the conditions.
 	 * @param conditions The conditions to match for the entities.
@@ -285,6 +787,7 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 		if (conditions) {
 			this.buildQueryParameters("", conditions, filter);
 		}
+		this.addExpiryFilter(filter);
 
 		const sort = new Map<string, SortDirection>();
 		if (Array.isArray(sortProperties)) {
@@ -298,6 +801,8 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 			for (const property of properties) {
 				projection[property as string] = 1;
 			}
+		} else {
+			projection[MongoDbEntityStorageConnector._EXPIRY_DATE_FIELD] = 0;
 		}
 
 		const cursorValue = cursor ? Number(cursor) : 0;
@@ -353,6 +858,250 @@ export class MongoDbEntityStorageConnector<T = unknown> implements IEntityStorag
 		return this._client.db(database).collection(collection);
 	}
 
+	/**
+	 * Convert the entity to the document to store, with a new version and the expiry date.
+	 * @param entity The entity to convert.
+	 * @returns The document to store.
+	 * @internal
+	 */
+	private toDocument(entity: T): Partial<Document> {
+		const document = EntityStorageVersionHelper.nextVersion(
+			entity,
+			this._versionProperty
+		) as Partial<Document>;
+
+		if (!Is.undefined(this._expiryProperty)) {
+			const expiry = entity[this._expiryProperty];
+			// Null is stored when there is no expiry so that a previous expiry date is replaced
+			document[MongoDbEntityStorageConnector._EXPIRY_DATE_FIELD] = Is.number(expiry)
+				? new Date(expiry * 1000)
+				: null;
+		}
+
+		return document;
+	}
+
+	/**
+	 * Add a filter which excludes the expired entities, if the schema supports expiry.
+	 * @param filter The filter to add to.
+	 * @internal
+	 */
+	private addExpiryFilter(filter: { [key: string]: unknown }): void {
+		if (!Is.undefined(this._expiryProperty)) {
+			const property = this._expiryProperty as string;
+			const expiryFilter = [
+				{ [property]: { $exists: false } },
+				{ [property]: null },
+				{ [property]: { $gt: EntityStorageExpiryHelper.now() } }
+			];
+			if (Is.arrayValue(filter.$and)) {
+				filter.$and.push({ $or: expiryFilter });
+			} else if (Is.arrayValue(filter.$or)) {
+				filter.$and = [{ $or: filter.$or }, { $or: expiryFilter }];
+				delete filter.$or;
+			} else {
+				filter.$or = expiryFilter;
+			}
+		}
+	}
+
+	/**
+	 * Get the indexes for the schema, a unique index for the primary key, an index for each
+	 * secondary index and sort property, and a compound index for the default sort order.
+	 * @returns The indexes.
+	 * @internal
+	 */
+	private getSchemaIndexes(): {
+		name: string;
+		key: { [field: string]: IndexDirection };
+		unique: boolean;
+	}[] {
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const properties = this._entitySchema.properties ?? [];
+		const prefix = MongoDbEntityStorageConnector._INDEX_PREFIX;
+
+		const indexes: {
+			name: string;
+			key: { [field: string]: IndexDirection };
+			unique: boolean;
+		}[] = [{ name: `${prefix}primary`, key: { [primaryKey.property]: 1 }, unique: true }];
+
+		for (const property of properties) {
+			if (property.isSecondary && property.property !== primaryKey.property) {
+				indexes.push({
+					name: `${prefix}secondary_${property.property as string}`,
+					key: { [property.property]: 1 },
+					unique: false
+				});
+			}
+		}
+
+		const sortProperties = properties.filter(property => !Is.undefined(property.sortDirection));
+		if (sortProperties.length > 1) {
+			const key: { [field: string]: IndexDirection } = {};
+			for (const property of sortProperties) {
+				key[property.property as string] =
+					property.sortDirection === SortDirection.Descending ? -1 : 1;
+			}
+			indexes.push({ name: `${prefix}sort`, key, unique: false });
+		}
+
+		// A property which is the first field of another index does not need its own index for
+		// sorting, as an index can be used in either direction for a single field
+		for (const property of sortProperties) {
+			if (!indexes.some(index => Object.keys(index.key)[0] === property.property)) {
+				indexes.push({
+					name: `${prefix}sort_${property.property as string}`,
+					key: {
+						[property.property]: property.sortDirection === SortDirection.Descending ? -1 : 1
+					},
+					unique: false
+				});
+			}
+		}
+
+		return indexes;
+	}
+
+	/**
+	 * Create the indexes for the schema which do not exist, replace those which have drifted from
+	 * the schema and remove those which are no longer in the schema.
+	 * @param nodeLogging The logging connector to log the changes to.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async reconcileIndexes(nodeLogging: ILoggingConnector | undefined): Promise<void> {
+		const collection = await this.getCollection();
+		const existingIndexes = await collection.indexes();
+		const schemaIndexes = this.getSchemaIndexes();
+
+		for (const schemaIndex of schemaIndexes) {
+			const existingIndex = existingIndexes.find(index => index.name === schemaIndex.name);
+			const matches =
+				!Is.undefined(existingIndex) &&
+				ObjectHelper.equal(existingIndex.key, schemaIndex.key, true) &&
+				(existingIndex.unique ?? false) === schemaIndex.unique;
+
+			if (!matches && !Is.undefined(existingIndex)) {
+				await nodeLogging?.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexDrift",
+					data: {
+						collection: this._config.collection,
+						index: schemaIndex.name,
+						existingKey: existingIndex.key,
+						existingUnique: existingIndex.unique ?? false,
+						key: schemaIndex.key,
+						unique: schemaIndex.unique
+					}
+				});
+				await collection.dropIndex(schemaIndex.name);
+			}
+
+			if (!matches) {
+				await collection.createIndex(schemaIndex.key, {
+					name: schemaIndex.name,
+					unique: schemaIndex.unique
+				});
+				await nodeLogging?.log({
+					level: "info",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexCreated",
+					data: {
+						collection: this._config.collection,
+						index: schemaIndex.name
+					}
+				});
+			}
+		}
+
+		for (const existingIndex of existingIndexes) {
+			const name = existingIndex.name ?? "";
+			if (name.startsWith(MongoDbEntityStorageConnector._INDEX_PREFIX)) {
+				if (!schemaIndexes.some(index => index.name === name)) {
+					await collection.dropIndex(name);
+					await nodeLogging?.log({
+						level: "warn",
+						source: this.CLASS_NAME,
+						ts: Date.now(),
+						message: "indexRemoved",
+						data: {
+							collection: this._config.collection,
+							index: name
+						}
+					});
+				}
+			} else if (
+				name !== "_id_" &&
+				Is.undefined(existingIndex.key[MongoDbEntityStorageConnector._EXPIRY_DATE_FIELD])
+			) {
+				// Indexes created outside of the connector are left in place, but may be a sign
+				// of the schema and the collection drifting apart
+				await nodeLogging?.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexUnmanaged",
+					data: {
+						collection: this._config.collection,
+						index: name
+					}
+				});
+			}
+		}
+	}
+
+	/**
+	 * Notify the subscriptions of a change from the change stream.
+	 * @param change The change from the change stream.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async notifyChange(change: ChangeStreamDocument<Document>): Promise<void> {
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+
+		if (change.operationType === "insert") {
+			await this._changeEmitter.notify({
+				type: EntityStorageChangeType.Created,
+				id: change.fullDocument[primaryKey.property] as string,
+				entity: change.fullDocument as T
+			});
+		} else if (change.operationType === "update" || change.operationType === "replace") {
+			// The document is not available if it was removed before the update could be looked up
+			if (Is.object(change.fullDocument)) {
+				await this._changeEmitter.notify({
+					type: EntityStorageChangeType.Updated,
+					id: change.fullDocument[primaryKey.property] as string,
+					entity: change.fullDocument as T
+				});
+			}
+		} else if (change.operationType === "delete" && Is.object(change.fullDocumentBeforeChange)) {
+			await this._changeEmitter.notify({
+				type: EntityStorageChangeType.Removed,
+				id: change.fullDocumentBeforeChange[primaryKey.property] as string,
+				entity: change.fullDocumentBeforeChange as T
+			});
+		}
+	}
+
+	/**
+	 * Close the change stream if it is open.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async closeChangeStream(): Promise<void> {
+		const changeStream = this._changeStream;
+		this._changeStream = undefined;
+		try {
+			await changeStream?.close();
+		} catch {
+			// The change stream has already failed so there is nothing to close
+		}
+	}
+
 	/**
 	 * Create an MongoDB filter query.
 	 * @param objectPath The path for the nested object.
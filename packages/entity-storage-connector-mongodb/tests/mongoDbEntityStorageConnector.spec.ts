@@ -11,7 +11,12 @@ import {
 	property
 } from "@twin.org/entity";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
-import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageChangeType,
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType,
+	type IEntityStorageChange
+} from "@twin.org/entity-storage-models";
 import {
 	EntityStorageLoggingConnector,
 	type LogEntry,
@@ -19,6 +24,7 @@ import {
 } from "@twin.org/logging-connector-entity-storage";
 import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
+import { MongoClient } from "mongodb";
 import { TEST_MONGODB_CONFIG } from "./setupTestEnv";
 import type { IMongoDbEntityStorageConnectorConfig } from "../src/models/IMongoDbEntityStorageConnectorConfig";
 import { MongoDbEntityStorageConnector } from "../src/mongoDbEntityStorageConnector";
@@ -35,6 +41,30 @@ class SubType {
 	public field1!: string;
 }
 
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
 /**
  * Test Type Definition.
  */
@@ -90,6 +120,48 @@ class TestType {
 	}[];
 }
 
+/**
+ * Test Sorted Type Definition.
+ */
+@entity()
+class TestSortedType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string", isSecondary: true, sortDirection: SortDirection.Ascending })
+	public value1!: string;
+
+	/**
+	 * Value2.
+	 */
+	@property({ type: "number", sortDirection: SortDirection.Descending })
+	public value2!: number;
+}
+
+/**
+ * Test Type Definition with a different primary key.
+ */
+@entity()
+class TestOtherPrimaryType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string" })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public value1!: string;
+}
+
 let memoryEntityStorage: MemoryEntityStorageConnector<LogEntry>;
 const config: IMongoDbEntityStorageConnectorConfig = TEST_MONGODB_CONFIG;
 
@@ -99,6 +171,15 @@ describe("MongoDbEntityStorageConnector", () => {
 
 		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
 		EntitySchemaFactory.register(nameof<SubType>(), () => EntitySchemaHelper.getSchema(SubType));
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
+		EntitySchemaFactory.register(nameof<TestSortedType>(), () =>
+			EntitySchemaHelper.getSchema(TestSortedType)
+		);
+		EntitySchemaFactory.register(nameof<TestOtherPrimaryType>(), () =>
+			EntitySchemaHelper.getSchema(TestOtherPrimaryType)
+		);
 
 		initSchema();
 	});
@@ -172,16 +253,119 @@ describe("MongoDbEntityStorageConnector", () => {
 		const logs = memoryEntityStorage.getStore();
 		expect(logs).toBeDefined();
 
-		expect(logs?.length).toEqual(3);
+		expect(logs?.length).toEqual(5);
 		expect(logs?.[0].message).toEqual("databaseCreating");
 		expect(logs?.[1].message).toEqual("databaseExists");
-		expect(logs?.[2].message).toEqual("collectionExists");
+		expect(logs?.[2].message).toEqual("indexCreated");
+		expect(logs?.[2].data).toEqual({ collection: config.collection, index: "entity_primary" });
+		expect(logs?.[3].message).toEqual("indexCreated");
+		expect(logs?.[3].data).toEqual({
+			collection: config.collection,
+			index: "entity_secondary_value1"
+		});
+		expect(logs?.[4].message).toEqual("collectionExists");
 
 		expect(I18n.hasMessage("info.mongoDbEntityStorageConnector.databaseCreating")).toEqual(true);
 		expect(I18n.hasMessage("info.mongoDbEntityStorageConnector.databaseExists")).toEqual(true);
+		expect(I18n.hasMessage("info.mongoDbEntityStorageConnector.indexCreated")).toEqual(true);
 		expect(I18n.hasMessage("info.mongoDbEntityStorageConnector.collectionExists")).toEqual(true);
 	});
 
+	test("can bootstrap again without recreating the indexes", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await memoryEntityStorage.removeBatch(memoryEntityStorage.getStore().map(log => log.id));
+
+		await entityStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		expect(logs.map(log => log.message)).toEqual([
+			"databaseCreating",
+			"databaseExists",
+			"collectionExists"
+		]);
+	});
+
+	test("can bootstrap the indexes for the sort properties", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector({
+			entitySchema: nameof<TestSortedType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		expect(logs.filter(log => log.message === "indexCreated").map(log => log.data?.index)).toEqual([
+			"entity_primary",
+			"entity_secondary_value1",
+			"entity_sort",
+			"entity_sort_value2"
+		]);
+	});
+
+	test("can bootstrap and remove the indexes which are no longer in the schema", async () => {
+		const sortedStorage = new MongoDbEntityStorageConnector({
+			entitySchema: nameof<TestSortedType>(),
+			config
+		});
+		await sortedStorage.bootstrap();
+		await memoryEntityStorage.removeBatch(memoryEntityStorage.getStore().map(log => log.id));
+
+		const entityStorage = new MongoDbEntityStorageConnector({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		expect(logs.filter(log => log.level === "warn").map(log => log.data?.index)).toEqual([
+			"entity_sort",
+			"entity_sort_value2"
+		]);
+		expect(logs.filter(log => log.level === "warn").map(log => log.message)).toEqual([
+			"indexRemoved",
+			"indexRemoved"
+		]);
+		expect(logs.some(log => log.message === "indexCreated")).toEqual(false);
+		expect(I18n.hasMessage("warn.mongoDbEntityStorageConnector.indexRemoved")).toEqual(true);
+	});
+
+	test("can bootstrap and recreate the indexes which have drifted from the schema", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await memoryEntityStorage.removeBatch(memoryEntityStorage.getStore().map(log => log.id));
+
+		const otherStorage = new MongoDbEntityStorageConnector({
+			entitySchema: nameof<TestOtherPrimaryType>(),
+			config
+		});
+		await otherStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		const driftLog = logs.find(log => log.message === "indexDrift");
+		expect(driftLog?.level).toEqual("warn");
+		expect(driftLog?.data).toEqual({
+			collection: config.collection,
+			index: "entity_primary",
+			existingKey: { id: 1 },
+			existingUnique: true,
+			key: { value1: 1 },
+			unique: true
+		});
+		expect(logs.filter(log => log.message === "indexCreated").map(log => log.data?.index)).toEqual([
+			"entity_primary"
+		]);
+		expect(logs.find(log => log.message === "indexRemoved")?.data?.index).toEqual(
+			"entity_secondary_value1"
+		);
+		expect(I18n.hasMessage("warn.mongoDbEntityStorageConnector.indexDrift")).toEqual(true);
+	});
+
 	test("can fail to set an item with no entity", async () => {
 		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
@@ -613,6 +797,265 @@ describe("MongoDbEntityStorageConnector", () => {
 		expect(result).toBeNull();
 	});
 
+	test("can set a batch of items", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: 22 }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const result = await entityStorage.get("2");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can get a batch of items", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results.map(r => r.id)).toEqual(["2", "3", "1"]);
+		expect(results.every(r => r.success)).toEqual(true);
+		expect(results[0].entity?.value1).toEqual("bbb");
+		expect(results[1].entity).toBeUndefined();
+		expect(results[2].entity?.value1).toEqual("aaa");
+	});
+
+	test("can remove a batch of items", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		expect(await entityStorage.get("1")).toBeUndefined();
+		expect(await entityStorage.get("2")).toBeDefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the transaction capability", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().transactions).toEqual(true);
+	});
+
+	test("can set and remove items in a transaction", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "aaa", value2: 11 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+		]);
+
+		expect(await entityStorage.get("1")).toBeDefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the subscription capability", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(true);
+	});
+
+	test("can subscribe to the changes made to items", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await vi.waitFor(() => expect(changes.map(c => c.id)).toContain("1"), { timeout: 5000 });
+		await entityStorage.unsubscribe(subscriptionId);
+		expect(changes[0].entity?.value1).toEqual("aaa");
+	});
+
+	test("can subscribe to the removals from a collection created without pre-images", async () => {
+		const client = new MongoClient(`mongodb://${config.host}:${config.port}/${config.database}`);
+		try {
+			await client.db(config.database).createCollection(config.collection);
+		} finally {
+			await client.close();
+		}
+
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.remove("1");
+
+		await vi.waitFor(
+			() => expect(changes.map(c => c.type)).toContain(EntityStorageChangeType.Removed),
+			{ timeout: 5000 }
+		);
+		await entityStorage.unsubscribe(subscriptionId);
+		expect(changes.find(c => c.type === EntityStorageChangeType.Removed)?.entity?.value1).toEqual(
+			"aaa"
+		);
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { ...config, collection: `${config.collection}expiring` }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({
+			id: "1",
+			value1: "aaa",
+			entityExpiry: Math.floor(Date.now() / 1000) - 10
+		});
+		await entityStorage.set({ id: "2", value1: "bbb" }, undefined, undefined, 60);
+
+		expect(await entityStorage.get("1")).toBeUndefined();
+		const item = await entityStorage.get("2");
+		expect(item?.entityExpiry).toBeGreaterThan(Date.now() / 1000);
+		const result = await entityStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await entityStorage.count()).toEqual(1);
+		await entityStorage.collectionDrop();
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: 1 }, undefined, undefined, 60)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
+	test("can count items with empty store", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "bbb",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("patched");
+		expect(result?.value2).toEqual(11);
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
 	test("can find items with empty store", async () => {
 		const entityStorage = new MongoDbEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
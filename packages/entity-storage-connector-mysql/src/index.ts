@@ -3,3 +3,9 @@
 export * from "./mysqlEntityStorageConnector";
 export * from "./models/IMySqlEntityStorageConnectorConfig";
 export * from "./models/IMySqlEntityStorageConnectorConstructorOptions";
+export * from "./models/IMySqlEntityStorageConnectorPoolConfig";
+export * from "./models/IMySqlEntityStorageConnectorTlsConfig";
+export * from "./models/IMySqlEntityStorageMigration";
+export * from "./models/IMySqlEntityStorageMigrationChange";
+export * from "./models/IMySqlEntityStorageMigrationOptions";
+export * from "./models/mysqlEntityStorageMigrationChangeType";
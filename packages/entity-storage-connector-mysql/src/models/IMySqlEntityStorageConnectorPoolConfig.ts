@@ -0,0 +1,24 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Configuration for the pool of connections to the MySql instance.
+ */
+export interface IMySqlEntityStorageConnectorPoolConfig {
+	/**
+	 * The minimum number of connections, which are opened when the connector is started, if
+	 * provided the idle connections above the minimum are closed straight away.
+	 */
+	min?: number;
+
+	/**
+	 * The maximum number of connections, defaults to 10.
+	 */
+	max?: number;
+
+	/**
+	 * The time in milliseconds before an idle connection is closed, defaults to 60000, the idle
+	 * connections are only closed if the minimum is provided and is less than the maximum.
+	 */
+	idleTimeout?: number;
+}
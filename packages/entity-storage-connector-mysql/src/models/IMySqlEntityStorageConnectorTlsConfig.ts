@@ -0,0 +1,27 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Configuration for connecting to the MySql instance using TLS.
+ */
+export interface IMySqlEntityStorageConnectorTlsConfig {
+	/**
+	 * Reject the connection if the certificate of the server can not be verified, defaults to true.
+	 */
+	rejectUnauthorized?: boolean;
+
+	/**
+	 * The PEM encoded certificate authorities to trust in addition to the system ones.
+	 */
+	ca?: string;
+
+	/**
+	 * The PEM encoded certificate for the client.
+	 */
+	cert?: string;
+
+	/**
+	 * The PEM encoded private key for the client.
+	 */
+	key?: string;
+}
@@ -0,0 +1,28 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IMySqlEntityStorageMigrationChange } from "./IMySqlEntityStorageMigrationChange";
+
+/**
+ * A migration of the table to match the schema.
+ */
+export interface IMySqlEntityStorageMigration {
+	/**
+	 * The id of the migration, only set once it has been applied.
+	 */
+	id?: string;
+
+	/**
+	 * The date the migration was applied.
+	 */
+	dateApplied?: string;
+
+	/**
+	 * The changes to the columns.
+	 */
+	changes: IMySqlEntityStorageMigrationChange[];
+
+	/**
+	 * The SQL statements for the changes.
+	 */
+	statements: string[];
+}
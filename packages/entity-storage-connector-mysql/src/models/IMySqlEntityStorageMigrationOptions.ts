@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Options for migrating the table to match the schema.
+ */
+export interface IMySqlEntityStorageMigrationOptions {
+	/**
+	 * Return the migration without applying it, defaults to false.
+	 */
+	dryRun?: boolean;
+
+	/**
+	 * Apply the migration even if it contains destructive changes, defaults to false.
+	 */
+	allowDestructive?: boolean;
+
+	/**
+	 * The values for the existing rows when a required column is added to a table which contains
+	 * rows, or the rows with null values when an optional column is made required, keyed by column.
+	 */
+	defaultValues?: { [column: string]: unknown };
+}
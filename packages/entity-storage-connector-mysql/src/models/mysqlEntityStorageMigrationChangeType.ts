@@ -0,0 +1,29 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The types of change to a column made by a migration.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const MySqlEntityStorageMigrationChangeType = {
+	/**
+	 * The column is in the schema but not the table.
+	 */
+	Added: "added",
+
+	/**
+	 * The column is in the table but not the schema.
+	 */
+	Removed: "removed",
+
+	/**
+	 * The type of the column in the table, or whether it is optional, is different to the schema.
+	 */
+	Altered: "altered"
+} as const;
+
+/**
+ * The types of change to a column made by a migration.
+ */
+export type MySqlEntityStorageMigrationChangeType =
+	(typeof MySqlEntityStorageMigrationChangeType)[keyof typeof MySqlEntityStorageMigrationChangeType];
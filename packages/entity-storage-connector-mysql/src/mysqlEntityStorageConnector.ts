@@ -1,6 +1,15 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import { BaseError, GeneralError, Guards, Is, ObjectHelper } from "@twin.org/core";
+import {
+	BaseError,
+	Coerce,
+	Converter,
+	GeneralError,
+	Guards,
+	Is,
+	ObjectHelper,
+	RandomHelper
+} from "@twin.org/core";
 import {
 	ComparisonOperator,
 	type EntityCondition,
@@ -9,15 +18,40 @@ import {
 	EntitySchemaPropertyType,
 	type IComparator,
 	type IEntitySchema,
+	type IEntitySchemaProperty,
 	LogicalOperator,
 	SortDirection
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
-import { LoggingConnectorFactory } from "@twin.org/logging-models";
+import {
+	EntityStorageChangeEmitter,
+	EntityStorageCursorHelper,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { type ILoggingConnector, LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
-import { createConnection, type Connection, type ConnectionOptions } from "mysql2/promise";
+import {
+	createPool,
+	type Connection,
+	type Pool,
+	type PoolConnection,
+	type PoolOptions,
+	type ResultSetHeader
+} from "mysql2/promise";
 import type { IMySqlEntityStorageConnectorConfig } from "./models/IMySqlEntityStorageConnectorConfig";
 import type { IMySqlEntityStorageConnectorConstructorOptions } from "./models/IMySqlEntityStorageConnectorConstructorOptions";
+import type { IMySqlEntityStorageMigration } from "./models/IMySqlEntityStorageMigration";
+import type { IMySqlEntityStorageMigrationChange } from "./models/IMySqlEntityStorageMigrationChange";
+import type { IMySqlEntityStorageMigrationOptions } from "./models/IMySqlEntityStorageMigrationOptions";
+import { MySqlEntityStorageMigrationChangeType } from "./models/mysqlEntityStorageMigrationChangeType";
 
 /**
  * Class for performing entity storage operations using MySql.
@@ -29,6 +63,18 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 	 */
 	private static readonly _PAGE_SIZE: number = 40;
 
+	/**
+	 * The default maximum number of connections in the pool.
+	 * @internal
+	 */
+	private static readonly _POOL_MAX: number = 10;
+
+	/**
+	 * The default time in milliseconds before an idle connection is closed.
+	 * @internal
+	 */
+	private static readonly _POOL_IDLE_TIMEOUT: number = 60000;
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -40,6 +86,18 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 	 */
 	private readonly _entitySchema: IEntitySchema<T>;
 
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
 	/**
 	 * The configuration for the connector.
 	 * @internal
@@ -50,7 +108,13 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 	 * The configuration for the connector.
 	 * @internal
 	 */
-	private _connection?: Connection;
+	private _connection?: Pool;
+
+	/**
+	 * The timer for sweeping the expired entities, only active while the connector is started.
+	 * @internal
+	 */
+	private _expirySweepTimer?: ReturnType<typeof setInterval>;
 
 	/**
 	 * Create a new instance of MySqlEntityStorageConnector.
@@ -71,6 +135,8 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 		Guards.stringValue(this.CLASS_NAME, nameof(options.config.tableName), options.config.tableName);
 
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
 
 		this._config = options.config;
 	}
@@ -115,6 +181,27 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 				`CREATE TABLE IF NOT EXISTS \`${this._config.database}\`.\`${this._config.tableName}\` (${this.mapMySqlProperties(this._entitySchema)})`
 			);
 
+			// A table which already existed is migrated to match the schema, a new table has no changes
+			const migration = await this.migrate({
+				allowDestructive: this._config.allowDestructiveMigrations,
+				defaultValues: this._config.migrationDefaultValues
+			});
+			if (!Is.undefined(migration.id)) {
+				await nodeLogging?.log({
+					level: "info",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "migrationApplied",
+					data: {
+						table: this._config.tableName,
+						id: migration.id,
+						changes: migration.changes.length
+					}
+				});
+			}
+
+			await this.reconcileIndexes(dbConnection, nodeLogging);
+
 			await nodeLogging?.log({
 				level: "info",
 				source: this.CLASS_NAME,
@@ -144,6 +231,79 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 		return true;
 	}
 
+	/**
+	 * The component needs to be started when the node is initialized.
+	 * @param nodeIdentity The identity of the node starting the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async start(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._expiryProperty) && Is.undefined(this._expirySweepTimer)) {
+			this._expirySweepTimer = setInterval(
+				async () => this.removeExpired(),
+				this._config.expirySweepInterval ?? EntityStorageExpiryHelper.DEFAULT_SWEEP_INTERVAL
+			);
+		}
+
+		const poolMin = Math.min(
+			this._config.pool?.min ?? 0,
+			this._config.pool?.max ?? MySqlEntityStorageConnector._POOL_MAX
+		);
+		if (poolMin > 0) {
+			try {
+				// Getting the connections together opens them, so they are ready for the first requests
+				const dbConnection = await this.createConnection();
+				const poolConnections = await Promise.all(
+					Array.from({ length: poolMin }, async () => dbConnection.getConnection())
+				);
+				for (const poolConnection of poolConnections) {
+					poolConnection.release();
+				}
+			} catch (error) {
+				// The connections are opened when they are needed if the instance is not available yet
+				const nodeLogging = LoggingConnectorFactory.getIfExists(
+					nodeLoggingConnectorType ?? "node-logging"
+				);
+				await nodeLogging?.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "poolOpenFailed",
+					error: BaseError.fromError(error),
+					data: {
+						host: this._config.host
+					}
+				});
+			}
+		}
+	}
+
+	/**
+	 * The component needs to be stopped when the node is closed.
+	 * @param nodeIdentity The identity of the node stopping the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async stop(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._expirySweepTimer)) {
+			clearInterval(this._expirySweepTimer);
+			this._expirySweepTimer = undefined;
+		}
+
+		if (!Is.undefined(this._connection)) {
+			// The pool is opened again if the connector is used after it has been stopped
+			const connection = this._connection;
+			this._connection = undefined;
+			await connection.end();
+		}
+	}
+
 	/**
 	 * Get the schema for the entities.
 	 * @returns The schema for the entities.
@@ -152,6 +312,17 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: true,
+			subscriptions: false
+		};
+	}
+
 	/**
 	 * Get an entity from MySql.
 	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
@@ -191,6 +362,7 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 					values.push(condition.value);
 				}
 			}
+			this.addExpiryClause(whereClauses);
 
 			const query = `SELECT * FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE ${whereClauses.join(" AND ")} LIMIT 1`;
 			const [rows] = await dbConnection.query(query, values);
@@ -212,49 +384,41 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
 
 		const id = entity["id" as keyof T] as unknown as string;
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+		const versionedEntity = EntityStorageVersionHelper.nextVersion(
+			EntityStorageExpiryHelper.applyTimeToLive(entity, this._expiryProperty, timeToLive),
+			this._versionProperty
+		);
+
 		try {
-			if (Is.arrayValue(conditions)) {
+			if (Is.arrayValue(conditions) && Is.undefined(expectedVersion)) {
 				const itemData = await this.get(id);
 				if (Is.notEmpty(itemData) && !this.verifyConditions(conditions, itemData as T)) {
 					return;
 				}
 			}
-			const columns = Object.keys(entity as object)
-				.map(key => `\`${key}\``)
-				.join(", ");
-			const values = Object.values(entity as object);
-			for (const [index, value] of values.entries()) {
-				const property = Object.keys(entity as object)[index];
-				const schemaProp = this._entitySchema.properties?.find(p => p.property === property);
-				if (
-					schemaProp?.type === EntitySchemaPropertyType.Object ||
-					schemaProp?.type === EntitySchemaPropertyType.Array
-				) {
-					values[index] = JSON.stringify(value);
-				}
-			}
-			const placeholders = values.map(() => "?").join(", ");
-
 			const dbConnection = await this.createConnection();
-			await dbConnection.query(
-				`INSERT INTO \`${this._config.database}\`.\`${this._config.tableName}\` (${columns}) VALUES (${placeholders}) ON DUPLICATE KEY UPDATE ${columns
-					.split(", ")
-					.map(col => `${col} = VALUES(${col})`)
-					.join(", ")};`,
-				values
-			);
+			await this.writeEntity(dbConnection, id, versionedEntity, conditions, expectedVersion);
 		} catch (err) {
 			throw new GeneralError(
 				this.CLASS_NAME,
@@ -271,11 +435,14 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
@@ -283,6 +450,13 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 			const dbConnection = await this.createConnection();
 
 			const itemData = await this.get(id);
+			EntityStorageVersionHelper.verifyVersion(
+				id,
+				this._versionProperty,
+				expectedVersion,
+				itemData
+			);
+
 			if (Is.notEmpty(itemData)) {
 				const values: unknown[] = [id];
 				let whereClauses: string[] = [];
@@ -294,8 +468,17 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 					});
 				}
 
+				if (!Is.undefined(expectedVersion)) {
+					// Make sure the version has not changed since it was verified
+					whereClauses.push(`\`${String(this._versionProperty)}\` = ?`);
+					values.push(expectedVersion);
+				}
+
 				const query = `DELETE FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE \`id\` = ?${whereClauses.length > 0 ? ` AND ${whereClauses.join(" AND ")}` : ""}`;
-				await dbConnection.query(query, values);
+				const [result] = await dbConnection.query<ResultSetHeader>(query, values);
+				if (result.affectedRows === 0 && !Is.undefined(expectedVersion)) {
+					throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+				}
 			}
 		} catch (err) {
 			throw new GeneralError(
@@ -309,6 +492,397 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 		}
 	}
 
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		try {
+			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+			const values: unknown[] = [];
+			const setClauses: string[] = [];
+
+			const patchEntries = Object.entries(patch as object).filter(
+				([key, value]) =>
+					key !== primaryKey.property && key !== this._versionProperty && !Is.undefined(value)
+			);
+
+			for (const [key, value] of patchEntries) {
+				if (Is.null(value)) {
+					setClauses.push(`\`${key}\` = NULL`);
+				} else {
+					const schemaProp = this._entitySchema.properties?.find(p => p.property === key);
+					if (Is.object(value)) {
+						// Nested objects are merged natively with the stored JSON
+						setClauses.push(
+							`\`${key}\` = JSON_MERGE_PATCH(COALESCE(\`${key}\`, JSON_OBJECT()), ?)`
+						);
+						values.push(JSON.stringify(value));
+					} else {
+						setClauses.push(`\`${key}\` = ?`);
+						values.push(
+							schemaProp?.type === EntitySchemaPropertyType.Object ||
+								schemaProp?.type === EntitySchemaPropertyType.Array
+								? JSON.stringify(value)
+								: value
+						);
+					}
+				}
+			}
+
+			if (setClauses.length === 0) {
+				return;
+			}
+
+			if (!Is.undefined(this._versionProperty)) {
+				setClauses.push(`\`${String(this._versionProperty)}\` = ?`);
+				values.push(EntityStorageVersionHelper.generateVersion());
+			}
+
+			const whereClauses: string[] = [`\`${primaryKey.property}\` = ?`];
+			values.push(id);
+			if (Is.arrayValue(conditions)) {
+				for (const condition of conditions) {
+					whereClauses.push(`\`${String(condition.property)}\` = ?`);
+					values.push(condition.value);
+				}
+			}
+
+			const query = `UPDATE \`${this._config.database}\`.\`${this._config.tableName}\` SET ${setClauses.join(", ")} WHERE ${whereClauses.join(" AND ")}`;
+			const dbConnection = await this.createConnection();
+			await dbConnection.query(query, values);
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"patchFailed",
+				{
+					id
+				},
+				err
+			);
+		}
+	}
+
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const results: IEntityStorageBatchResult<T>[] = [];
+		const validEntities: { index: number; entity: T }[] = [];
+
+		for (let i = 0; i < entities.length; i++) {
+			const id = entities[i]?.[primaryKey.property as keyof T] as unknown as string;
+			try {
+				Guards.object<T>(this.CLASS_NAME, nameof(entities[i]), entities[i]);
+				EntitySchemaHelper.validateEntity(entities[i], this.getSchema());
+				results.push({ id, success: true });
+				validEntities.push({
+					index: i,
+					entity: EntityStorageVersionHelper.nextVersion(entities[i], this._versionProperty)
+				});
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		let entitiesToStore = validEntities;
+		try {
+			if (Is.arrayValue(conditions) && entitiesToStore.length > 0) {
+				const existing = await this.getBatch(entitiesToStore.map(e => results[e.index].id));
+				entitiesToStore = entitiesToStore.filter((e, i) => {
+					if (!existing[i].success) {
+						results[e.index].success = false;
+						results[e.index].error = existing[i].error;
+						return false;
+					}
+					const itemData = existing[i].entity;
+					return Is.empty(itemData) || this.verifyConditions(conditions, itemData as T);
+				});
+			}
+
+			if (entitiesToStore.length > 0) {
+				const columnNames: string[] = [];
+				for (const e of entitiesToStore) {
+					for (const key of Object.keys(e.entity as object)) {
+						if (!columnNames.includes(key)) {
+							columnNames.push(key);
+						}
+					}
+				}
+				const columns = columnNames.map(key => `\`${key}\``);
+
+				const values: unknown[] = [];
+				const rowPlaceholders = entitiesToStore.map(e => {
+					for (const key of columnNames) {
+						const value = (e.entity as { [key: string]: unknown })[key];
+						const schemaProp = this._entitySchema.properties?.find(p => p.property === key);
+						if (
+							value !== undefined &&
+							(schemaProp?.type === EntitySchemaPropertyType.Object ||
+								schemaProp?.type === EntitySchemaPropertyType.Array)
+						) {
+							values.push(JSON.stringify(value));
+						} else {
+							values.push(value ?? null);
+						}
+					}
+					return `(${columnNames.map(() => "?").join(", ")})`;
+				});
+
+				const dbConnection = await this.createConnection();
+				await dbConnection.query(
+					`INSERT INTO \`${this._config.database}\`.\`${this._config.tableName}\` (${columns.join(", ")}) VALUES ${rowPlaceholders.join(", ")} ON DUPLICATE KEY UPDATE ${columns
+						.map(col => `${col} = VALUES(${col})`)
+						.join(", ")};`,
+					values
+				);
+			}
+		} catch (err) {
+			for (const e of entitiesToStore) {
+				const result = results[e.index];
+				result.success = false;
+				result.error = new GeneralError(
+					this.CLASS_NAME,
+					"setFailed",
+					{ id: result.id },
+					err
+				).toJsonObject();
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		const lookupProperty = Is.empty(secondaryIndex)
+			? EntitySchemaHelper.getPrimaryKey(this.getSchema()).property
+			: secondaryIndex;
+
+		try {
+			const dbConnection = await this.createConnection();
+
+			const values: unknown[] = [...ids];
+			const whereClauses: string[] = [
+				`\`${String(lookupProperty)}\` IN (${ids.map(() => "?").join(", ")})`
+			];
+
+			if (conditions) {
+				for (const condition of conditions) {
+					whereClauses.push(`\`${String(condition.property)}\` = ?`);
+					values.push(condition.value);
+				}
+			}
+			this.addExpiryClause(whereClauses);
+
+			const query = `SELECT * FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE ${whereClauses.join(" AND ")}`;
+			const [rows] = await dbConnection.query(query, values);
+			const entities = Array.isArray(rows) ? (rows as T[]) : [];
+
+			return ids.map(id => ({
+				id,
+				success: true,
+				entity: entities.find(e => e[lookupProperty as keyof T] === id)
+			}));
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "getFailed", { id }, err).toJsonObject()
+			}));
+		}
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		try {
+			const dbConnection = await this.createConnection();
+
+			const values: unknown[] = [...ids];
+			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+			const whereClauses: string[] = [
+				`\`${primaryKey.property}\` IN (${ids.map(() => "?").join(", ")})`
+			];
+
+			if (Is.arrayValue(conditions)) {
+				for (const condition of conditions) {
+					values.push(condition.value);
+					whereClauses.push(`\`${String(condition.property)}\` = ?`);
+				}
+			}
+
+			const query = `DELETE FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE ${whereClauses.join(" AND ")}`;
+			await dbConnection.query(query, values);
+
+			return ids.map(id => ({ id, success: true }));
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "removeFailed", { id }, err).toJsonObject()
+			}));
+		}
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		let dbConnection: PoolConnection | undefined;
+		try {
+			// Use a dedicated connection so that no other queries are included in the transaction
+			const pool = await this.createConnection();
+			dbConnection = await pool.getConnection();
+			await dbConnection.beginTransaction();
+
+			try {
+				for (const operation of operations) {
+					const id = EntityStorageTransactionHelper.getOperationId(operation, "id" as keyof T);
+					if (operation.type === EntityStorageTransactionOperationType.Set) {
+						await this.writeEntity(
+							dbConnection,
+							id,
+							EntityStorageVersionHelper.nextVersion(operation.entity as T, this._versionProperty),
+							undefined,
+							operation.expectedVersion
+						);
+					} else {
+						const values: unknown[] = [id];
+						let query = `DELETE FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE \`id\` = ?`;
+						if (!Is.undefined(operation.expectedVersion)) {
+							values.push(operation.expectedVersion);
+							query += ` AND \`${String(this._versionProperty)}\` = ?`;
+						}
+						const [result] = await dbConnection.query<ResultSetHeader>(`${query};`, values);
+						if (result.affectedRows === 0 && !Is.undefined(operation.expectedVersion)) {
+							throw EntityStorageVersionHelper.conflictError(id, operation.expectedVersion);
+						}
+					}
+				}
+				await dbConnection.commit();
+			} catch (err) {
+				await dbConnection.rollback();
+				throw err;
+			}
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "transactionFailed", undefined, err);
+		} finally {
+			dbConnection?.release();
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, this connector does not support subscriptions.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 * @throws NotSupportedError as the connector does not support subscriptions.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		throw EntityStorageChangeEmitter.notSupportedError();
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities, this connector does not support subscriptions.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 * @throws NotSupportedError as the connector does not support subscriptions.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		throw EntityStorageChangeEmitter.notSupportedError();
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		try {
+			const whereClauses: string[] = [];
+			const values: unknown[] = [];
+
+			if (conditions) {
+				this.buildQueryParameters("", conditions, whereClauses, values);
+			}
+			this.addExpiryClause(whereClauses);
+
+			const query = `SELECT COUNT(*) AS \`count\` FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE ${whereClauses.length > 0 ? whereClauses.join(" AND ") : "1"}`;
+			const dbConnection = await this.createConnection();
+			const [rows] = (await dbConnection?.query(query, values)) ?? [];
+
+			return Array.isArray(rows) && rows.length === 1
+				? (Coerce.number((rows[0] as { count: unknown }).count) ?? 0)
+				: 0;
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "countFailed", undefined, err);
+		}
+	}
+
 	/**
 	 * Find all the entities which match the conditions.
 	 * @param conditions The conditions to match for the entities.
@@ -329,16 +903,17 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 		const sql = "";
 		try {
 			const returnSize = pageSize ?? MySqlEntityStorageConnector._PAGE_SIZE;
+			const sortKeys = EntityStorageCursorHelper.getSortKeys(
+				sortProperties,
+				EntitySchemaHelper.getPrimaryKey(this._entitySchema).property
+			);
 
-			let orderByClause: string = "";
-			if (Array.isArray(sortProperties)) {
-				const orderClauses: string[] = [];
-				for (const sortProperty of sortProperties) {
-					const direction = sortProperty.sortDirection === SortDirection.Ascending ? "ASC" : "DESC";
-					orderClauses.push(`\`${String(sortProperty.property)}\` ${direction}`);
-				}
-				orderByClause = `ORDER BY ${orderClauses.join(", ")}`;
-			}
+			const orderByClause = `ORDER BY ${sortKeys
+				.map(
+					sortKey =>
+						`\`${String(sortKey.property)}\` ${sortKey.sortDirection === SortDirection.Ascending ? "ASC" : "DESC"}`
+				)
+				.join(", ")}`;
 
 			const whereClauses: string[] = [];
 			const values: unknown[] = [];
@@ -346,16 +921,33 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 			if (conditions) {
 				this.buildQueryParameters("", conditions, whereClauses, values);
 			}
+			this.addExpiryClause(whereClauses);
+			if (Is.stringValue(cursor)) {
+				this.addCursorClause(
+					sortKeys,
+					EntityStorageCursorHelper.parseCursor(cursor, sortKeys),
+					whereClauses,
+					values
+				);
+			}
 
-			const query = `SELECT ${properties ? properties.map(p => `\`${String(p)}\``).join(", ") : "*"} FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE ${whereClauses.length > 0 ? whereClauses.join(" AND ") : "1"} ${orderByClause} LIMIT ${returnSize} OFFSET ${cursor ? Number(cursor) : 0}`;
+			// The sort keys are always selected so that the cursor can be created from the last entity
+			const columns = Is.arrayValue(properties)
+				? [...new Set([...properties, ...sortKeys.map(sortKey => sortKey.property)])]
+				: undefined;
+
+			const query = `SELECT ${columns ? columns.map(p => `\`${String(p)}\``).join(", ") : "*"} FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE ${whereClauses.length > 0 ? whereClauses.join(" AND ") : "1"} ${orderByClause} LIMIT ${returnSize}`;
 			const dbConnection = await this.createConnection();
 			const [rows] = (await dbConnection?.query(query, values)) ?? [];
 
+			const entities = Array.isArray(rows) ? (rows as Partial<T>[]) : [];
 			return {
-				entities: rows as Partial<T>[],
+				entities: Is.arrayValue(properties)
+					? entities.map(entity => ObjectHelper.pick(entity as T, properties))
+					: entities,
 				cursor:
-					Array.isArray(rows) && rows.length === returnSize
-						? String((cursor ? Number(cursor) : 0) + returnSize)
+					entities.length === returnSize
+						? EntityStorageCursorHelper.createCursor(entities[entities.length - 1], sortKeys)
 						: undefined
 			};
 		} catch (err) {
@@ -364,30 +956,315 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 	}
 
 	/**
-	 * Drop the table.
-	 * @returns Nothing.
+	 * Migrate the table to match the schema, the columns in the table are compared with the
+	 * properties in the schema and the applied migrations are recorded in a migrations table.
+	 * A required column added to a table which contains rows is added as optional, set to the
+	 * default value in the existing rows and then made required.
+	 * MySql does not support transactions for changes to tables, so if a statement fails the
+	 * statements before it remain applied and the migration is not recorded. The migration is
+	 * created by comparing the table with the schema, so migrating the table again applies only
+	 * the remaining changes.
+	 * @param options The options for the migration.
+	 * @returns The migration, which has no changes if the table already matches the schema.
+	 * @throws GeneralError if the migration contains destructive changes which are not allowed,
+	 * a required column is added to existing rows without a default value, or the migration
+	 * failed after some of its statements were applied.
 	 */
-	public async tableDrop(): Promise<void> {
+	public async migrate(
+		options?: IMySqlEntityStorageMigrationOptions
+	): Promise<IMySqlEntityStorageMigration> {
+		let migration: IMySqlEntityStorageMigration;
 		try {
-			const dbConnection = await this.createConnection();
-			await dbConnection?.query(
-				`DROP TABLE \`${this._config.database}\`.\`${this._config.tableName}\`;`
-			);
-		} catch {
-			// Ignore errors
+			migration = await this.createMigration(options?.defaultValues);
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"migrationFailed",
+				{ table: this._config.tableName },
+				err
+			);
 		}
+
+		if ((options?.dryRun ?? false) || migration.statements.length === 0) {
+			return migration;
+		}
+
+		const destructiveColumns = migration.changes
+			.filter(change => change.destructive)
+			.map(change => change.column);
+		if (destructiveColumns.length > 0 && !(options?.allowDestructive ?? false)) {
+			throw new GeneralError(this.CLASS_NAME, "migrationDestructive", {
+				table: this._config.tableName,
+				columns: destructiveColumns.join(", ")
+			});
+		}
+
+		const missingDefaultColumns = migration.changes
+			.filter(
+				change =>
+					change.type === MySqlEntityStorageMigrationChangeType.Added &&
+					change.destructive &&
+					Is.undefined(options?.defaultValues?.[change.column])
+			)
+			.map(change => change.column);
+		if (missingDefaultColumns.length > 0) {
+			throw new GeneralError(this.CLASS_NAME, "migrationDefaultRequired", {
+				table: this._config.tableName,
+				columns: missingDefaultColumns.join(", ")
+			});
+		}
+
+		const migrationsTable = `\`${this._config.database}\`.\`${this.getMigrationsTableName()}\``;
+		const id = Converter.bytesToHex(RandomHelper.generate(16));
+		const dateApplied = new Date().toISOString();
+		let applied = 0;
+
+		try {
+			const dbConnection = await this.createConnection();
+			await dbConnection.query(
+				`CREATE TABLE IF NOT EXISTS ${migrationsTable} (\`id\` CHAR(32) NOT NULL, \`dateApplied\` CHAR(24) NOT NULL, \`changes\` JSON NOT NULL, \`statements\` JSON NOT NULL, PRIMARY KEY (\`id\`))`
+			);
+			for (const statement of migration.statements) {
+				await dbConnection.query(statement);
+				applied++;
+			}
+			await dbConnection.query(
+				`INSERT INTO ${migrationsTable} (\`id\`, \`dateApplied\`, \`changes\`, \`statements\`) VALUES (?, ?, ?, ?)`,
+				[id, dateApplied, JSON.stringify(migration.changes), JSON.stringify(migration.statements)]
+			);
+		} catch (err) {
+			if (applied > 0 && applied < migration.statements.length) {
+				throw new GeneralError(
+					this.CLASS_NAME,
+					"migrationPartiallyApplied",
+					{ table: this._config.tableName, applied, total: migration.statements.length },
+					err
+				);
+			}
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"migrationFailed",
+				{ table: this._config.tableName },
+				err
+			);
+		}
+
+		return {
+			id,
+			dateApplied,
+			...migration
+		};
 	}
 
 	/**
-	 * Create a new DB connection.
-	 * @returns The MySql connection.
+	 * Get the migrations which have been applied to the table.
+	 * @returns The migrations in the order they were applied.
+	 */
+	public async getMigrations(): Promise<IMySqlEntityStorageMigration[]> {
+		try {
+			const dbConnection = await this.createConnection();
+			const [tables] = await dbConnection.query(
+				"SELECT TABLE_NAME FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?",
+				[this._config.database, this.getMigrationsTableName()]
+			);
+			if (!Is.arrayValue(tables)) {
+				return [];
+			}
+
+			const [rows] = await dbConnection.query(
+				`SELECT * FROM \`${this._config.database}\`.\`${this.getMigrationsTableName()}\` ORDER BY \`dateApplied\` ASC`
+			);
+			return ((Array.isArray(rows) ? rows : []) as IMySqlEntityStorageMigration[]).map(row => ({
+				id: row.id,
+				dateApplied: row.dateApplied,
+				changes: Is.string(row.changes) ? JSON.parse(row.changes) : row.changes,
+				statements: Is.string(row.statements) ? JSON.parse(row.statements) : row.statements
+			}));
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"migrationFailed",
+				{ table: this._config.tableName },
+				err
+			);
+		}
+	}
+
+	/**
+	 * Drop the table.
+	 * @returns Nothing.
+	 */
+	public async tableDrop(): Promise<void> {
+		try {
+			const dbConnection = await this.createConnection();
+			await dbConnection?.query(
+				`DROP TABLE IF EXISTS \`${this._config.database}\`.\`${this.getMigrationsTableName()}\`;`
+			);
+			await dbConnection?.query(
+				`DROP TABLE \`${this._config.database}\`.\`${this._config.tableName}\`;`
+			);
+		} catch {
+			// Ignore errors
+		}
+	}
+
+	/**
+	 * Write the entity to the table, if an expected version is provided the existing entity
+	 * is only updated if it still has that version.
+	 * @param connection The connection to write the entity with.
+	 * @param id The id of the entity.
+	 * @param entity The entity to write.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 * @internal
 	 */
-	private async createConnection(): Promise<Connection> {
+	private async writeEntity(
+		connection: Connection,
+		id: string,
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): Promise<void> {
+		const columns = Object.keys(entity as object)
+			.map(key => `\`${key}\``)
+			.join(", ");
+		const values = Object.values(entity as object);
+		for (const [index, value] of values.entries()) {
+			const property = Object.keys(entity as object)[index];
+			const schemaProp = this._entitySchema.properties?.find(p => p.property === property);
+			if (
+				schemaProp?.type === EntitySchemaPropertyType.Object ||
+				schemaProp?.type === EntitySchemaPropertyType.Array
+			) {
+				values[index] = JSON.stringify(value);
+			}
+		}
+		const placeholders = values.map(() => "?").join(", ");
+
+		if (!Is.undefined(expectedVersion)) {
+			// The update only succeeds if the stored entity still has the expected version
+			const whereClauses: string[] = ["`id` = ?", `\`${String(this._versionProperty)}\` = ?`];
+			values.push(id, expectedVersion);
+			if (Is.arrayValue(conditions)) {
+				for (const condition of conditions) {
+					whereClauses.push(`\`${String(condition.property)}\` = ?`);
+					values.push(condition.value);
+				}
+			}
+			const [result] = await connection.query<ResultSetHeader>(
+				`UPDATE \`${this._config.database}\`.\`${this._config.tableName}\` SET ${columns
+					.split(", ")
+					.map(col => `${col} = ?`)
+					.join(", ")} WHERE ${whereClauses.join(" AND ")};`,
+				values
+			);
+			if (result.affectedRows === 0) {
+				throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+			}
+			return;
+		}
+
+		await connection.query(
+			`INSERT INTO \`${this._config.database}\`.\`${this._config.tableName}\` (${columns}) VALUES (${placeholders}) ON DUPLICATE KEY UPDATE ${columns
+				.split(", ")
+				.map(col => `${col} = VALUES(${col})`)
+				.join(", ")};`,
+			values
+		);
+	}
+
+	/**
+	 * Add the clause to start after the entity the cursor was created from, an entity is after
+	 * the cursor if it has the same values for the leading sort keys and is after it for the next one.
+	 * MySql sorts null values before all other values.
+	 * @param sortKeys The sort keys for the query.
+	 * @param cursorValues The values of the sort keys from the cursor.
+	 * @param whereClauses The where clauses to add the cursor clause to.
+	 * @param values The values to use in the query.
+	 * @internal
+	 */
+	private addCursorClause(
+		sortKeys: { property: keyof T; sortDirection: SortDirection }[],
+		cursorValues: unknown[],
+		whereClauses: string[],
+		values: unknown[]
+	): void {
+		const keyClauses: string[] = [];
+		for (let i = 0; i < sortKeys.length; i++) {
+			const clauses: string[] = [];
+			for (let j = 0; j < i; j++) {
+				const column = `\`${String(sortKeys[j].property)}\``;
+				if (Is.null(cursorValues[j])) {
+					clauses.push(`${column} IS NULL`);
+				} else {
+					clauses.push(`${column} = ?`);
+					values.push(this.propertyToDbValue(cursorValues[j]));
+				}
+			}
+
+			const column = `\`${String(sortKeys[i].property)}\``;
+			const ascending = sortKeys[i].sortDirection === SortDirection.Ascending;
+			if (Is.null(cursorValues[i])) {
+				clauses.push(ascending ? `${column} IS NOT NULL` : "FALSE");
+			} else {
+				clauses.push(ascending ? `${column} > ?` : `(${column} < ? OR ${column} IS NULL)`);
+				values.push(this.propertyToDbValue(cursorValues[i]));
+			}
+			keyClauses.push(`(${clauses.join(" AND ")})`);
+		}
+		whereClauses.push(`(${keyClauses.join(" OR ")})`);
+	}
+
+	/**
+	 * Add the clause to exclude the expired entities, if the schema supports expiry.
+	 * @param whereClauses The where clauses to add the expiry clause to.
+	 * @internal
+	 */
+	private addExpiryClause(whereClauses: string[]): void {
+		if (!Is.undefined(this._expiryProperty)) {
+			const expiryColumn = `\`${String(this._expiryProperty)}\``;
+			whereClauses.push(
+				`(${expiryColumn} IS NULL OR ${expiryColumn} > ${EntityStorageExpiryHelper.now()})`
+			);
+		}
+	}
+
+	/**
+	 * Delete the expired entities from the table.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async removeExpired(): Promise<void> {
+		try {
+			const dbConnection = await this.createConnection();
+			await dbConnection.query(
+				`DELETE FROM \`${this._config.database}\`.\`${this._config.tableName}\` WHERE \`${String(this._expiryProperty)}\` <= ${EntityStorageExpiryHelper.now()}`
+			);
+		} catch {
+			// The expired entities are removed the next time the sweep runs
+		}
+	}
+
+	/**
+	 * Get the pool of connections, the pool opens the connections when they are needed and replaces
+	 * connections which have been dropped.
+	 * @returns The MySql pool of connections.
+	 * @internal
+	 */
+	private async createConnection(): Promise<Pool> {
 		if (this._connection) {
 			return this._connection;
 		}
-		const newConnection = await createConnection(this.createConnectionConfig());
+		const newConnection = createPool(this.createConnectionConfig());
+		const statementTimeout = this._config.statementTimeout;
+		if (!Is.undefined(statementTimeout)) {
+			// The timeout is a session variable, so it is set on each connection when it is opened
+			newConnection.pool.on("connection", connection => {
+				connection.query("SET SESSION max_execution_time = ?", [statementTimeout]);
+			});
+		}
 		this._connection = newConnection;
 		return newConnection;
 	}
@@ -397,12 +1274,27 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 	 * @returns The MySql connection configuration.
 	 * @internal
 	 */
-	private createConnectionConfig(): ConnectionOptions {
+	private createConnectionConfig(): PoolOptions {
+		const tls = this._config.tls;
+		const poolMax = this._config.pool?.max ?? MySqlEntityStorageConnector._POOL_MAX;
 		return {
 			host: this._config.host,
 			port: this._config.port ?? 3306,
 			user: this._config.user,
-			password: this._config.password
+			password: this._config.password,
+			connectionLimit: poolMax,
+			maxIdle: Math.min(this._config.pool?.min ?? poolMax, poolMax),
+			idleTimeout: this._config.pool?.idleTimeout ?? MySqlEntityStorageConnector._POOL_IDLE_TIMEOUT,
+			// Keep alive detects connections which have been dropped, so they are removed from the pool
+			enableKeepAlive: true,
+			ssl: Is.undefined(tls)
+				? undefined
+				: {
+						rejectUnauthorized: tls.rejectUnauthorized ?? true,
+						ca: tls.ca,
+						cert: tls.cert,
+						key: tls.key
+					}
 		};
 	}
 
@@ -479,11 +1371,23 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 			const placeholders = inValues.map(() => "?").join(", ");
 			return `\`${prop}\` IN (${placeholders})`;
 		}
+		if (
+			comparator.comparison === ComparisonOperator.Includes &&
+			comparator.property.split(".").length === 1
+		) {
+			// The candidate must be JSON, so values which are not objects are also serialized
+			values.push(JSON.stringify(comparator.value));
+			return `JSON_CONTAINS(${this.mapJsonContainsTarget(prop)}, ?)`;
+		}
 		const dbValue = this.propertyToDbValue(comparator.value, type);
 		values.push(dbValue);
 
 		if (comparator.property.split(".").length > 1) {
-			return `JSON_UNQUOTE(JSON_EXTRACT(\`${comparator.property.split(".")[0]}\`, '$.${comparator.property.split(".").slice(1).join(".")}')) = ?`;
+			const column = comparator.property.split(".")[0];
+			const path = comparator.property.split(".").slice(1).join(".");
+			// The indexed value is truncated so the full value is also compared
+			values.push(dbValue);
+			return `(${this.mapJsonIndexedValue(column, path)} = ? AND ${this.mapJsonValue(column, path)} = ?)`;
 		} else if (comparator.comparison === ComparisonOperator.Equals) {
 			return `\`${prop}\` = ?`;
 		} else if (comparator.comparison === ComparisonOperator.NotEquals) {
@@ -496,8 +1400,6 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 			return `\`${prop}\` >= ?`;
 		} else if (comparator.comparison === ComparisonOperator.LessThanOrEqual) {
 			return `\`${prop}\` <= ?`;
-		} else if (comparator.comparison === ComparisonOperator.Includes) {
-			return `JSON_CONTAINS(\`${prop}\`, ?)`;
 		}
 
 		throw new GeneralError(this.CLASS_NAME, "comparisonNotSupported", {
@@ -560,12 +1462,472 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 	}
 
 	/**
-	 * Map entity schema properties to SQL properties.
-	 * @param entitySchema The schema of the entity.
-	 * @returns The SQL properties as a string.
-	 * @throws GeneralError if the entity properties do not exist.
+	 * Get the indexes for the schema, an index for each secondary index and sort property and a
+	 * compound index for the default sort order. The primary key is already indexed by its constraint.
+	 * Text columns are indexed on a prefix. JSON columns can not be indexed directly so they use
+	 * functional key parts, which MySql stores as hidden generated columns, matching the expressions
+	 * used by the query conditions, a multi-valued index for the items of an array and an index for
+	 * each value property of an object.
+	 * @returns The indexes, the definition is in the same form as read from the statistics.
+	 * @internal
 	 */
-	private mapMySqlProperties(entitySchema: IEntitySchema<T>): string {
+	private getSchemaIndexes(): { name: string; definition: string }[] {
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const properties = this._entitySchema.properties ?? [];
+
+		const indexes: { name: string; column: string; definition: string }[] = [];
+
+		for (const property of properties) {
+			if (property.isSecondary && property.property !== primaryKey.property) {
+				const column = String(property.property);
+				if (this.isJsonProperty(property)) {
+					indexes.push(...this.getJsonIndexes(property));
+				} else {
+					indexes.push({
+						name: `entity_secondary_${column}`,
+						column,
+						definition: this.mapIndexKeyPart(property)
+					});
+				}
+			}
+		}
+
+		// A JSON column can not be sorted using an index so is not included in the sort indexes
+		const sortProperties = properties.filter(
+			property => !Is.undefined(property.sortDirection) && !this.isJsonProperty(property)
+		);
+		if (sortProperties.length > 1) {
+			indexes.push({
+				name: "entity_sort",
+				column: String(sortProperties[0].property),
+				definition: sortProperties
+					.map(property => this.mapIndexKeyPart(property, property.sortDirection))
+					.join(", ")
+			});
+		}
+
+		// An index on a single column can be used for sorting in either direction,
+		// so a property which leads another index does not need its own index
+		for (const property of sortProperties) {
+			const column = String(property.property);
+			if (column !== primaryKey.property && !indexes.some(index => index.column === column)) {
+				indexes.push({
+					name: `entity_sort_${column}`,
+					column,
+					definition: this.mapIndexKeyPart(property, property.sortDirection)
+				});
+			}
+		}
+
+		return indexes.map(index => ({ name: index.name, definition: index.definition }));
+	}
+
+	/**
+	 * Get the indexes for a JSON property. An array of values has a multi-valued index which is used
+	 * by the includes condition, an object with a schema has an index for each of its value
+	 * properties which is used by the equals condition on the nested property. Other JSON
+	 * properties can not be indexed in a form the conditions can use so have no index.
+	 * @param property The property to get the indexes for.
+	 * @returns The indexes.
+	 * @internal
+	 */
+	private getJsonIndexes(
+		property: IEntitySchemaProperty<T>
+	): { name: string; column: string; definition: string }[] {
+		const column = String(property.property);
+
+		if (property.type === EntitySchemaPropertyType.Array) {
+			const arrayType = this.mapIndexArrayType(property.itemType);
+			return Is.stringValue(arrayType)
+				? [
+						{
+							name: `entity_secondary_${column}`,
+							column,
+							definition: `(CAST(${this.mapJsonContainsTarget(column)} AS ${arrayType} ARRAY))`
+						}
+					]
+				: [];
+		}
+
+		if (
+			!Is.stringValue(property.itemTypeRef) ||
+			!EntitySchemaFactory.hasName(property.itemTypeRef)
+		) {
+			return [];
+		}
+
+		const itemSchema = EntitySchemaFactory.get<IEntitySchema>(property.itemTypeRef);
+		const valueTypes: EntitySchemaPropertyType[] = [
+			EntitySchemaPropertyType.String,
+			EntitySchemaPropertyType.Number,
+			EntitySchemaPropertyType.Integer,
+			EntitySchemaPropertyType.Boolean
+		];
+
+		return (itemSchema.properties ?? [])
+			.filter(itemProperty => valueTypes.includes(itemProperty.type))
+			.map(itemProperty => ({
+				name: `entity_secondary_${column}_${String(itemProperty.property)}`,
+				column,
+				definition: `(${this.mapJsonIndexedValue(column, String(itemProperty.property))})`
+			}));
+	}
+
+	/**
+	 * Is the property stored in a JSON column.
+	 * @param property The property to check.
+	 * @returns True if the property is stored in a JSON column.
+	 * @internal
+	 */
+	private isJsonProperty(property: IEntitySchemaProperty<T>): boolean {
+		return (
+			property.type === EntitySchemaPropertyType.Object ||
+			property.type === EntitySchemaPropertyType.Array
+		);
+	}
+
+	/**
+	 * Map the type of the array items to the type for a multi-valued index.
+	 * @param itemType The type of the array items.
+	 * @returns The SQL type, or undefined if the items can not be indexed.
+	 * @internal
+	 */
+	private mapIndexArrayType(itemType?: EntitySchemaPropertyType): string | undefined {
+		if (itemType === EntitySchemaPropertyType.String) {
+			return "CHAR(255)";
+		} else if (itemType === EntitySchemaPropertyType.Integer) {
+			return "SIGNED";
+		} else if (itemType === EntitySchemaPropertyType.Number) {
+			return "DECIMAL(65, 30)";
+		}
+	}
+
+	/**
+	 * Map the column to the target of the includes condition, which must match the expression
+	 * of the multi-valued index for the index to be used.
+	 * @param column The column to map.
+	 * @returns The SQL expression.
+	 * @internal
+	 */
+	private mapJsonContainsTarget(column: string): string {
+		return `JSON_EXTRACT(\`${column}\`, '$')`;
+	}
+
+	/**
+	 * Map the nested property to the indexable value of the equals condition, which must match the
+	 * expression of the functional index for the index to be used.
+	 * @param column The column containing the JSON.
+	 * @param path The path of the nested property.
+	 * @returns The SQL expression.
+	 * @internal
+	 */
+	private mapJsonIndexedValue(column: string, path: string): string {
+		return `CAST(${this.mapJsonValue(column, path)} AS CHAR(255)) COLLATE utf8mb4_bin`;
+	}
+
+	/**
+	 * Map the nested property to its value.
+	 * @param column The column containing the JSON.
+	 * @param path The path of the nested property.
+	 * @returns The SQL expression.
+	 * @internal
+	 */
+	private mapJsonValue(column: string, path: string): string {
+		return `JSON_UNQUOTE(JSON_EXTRACT(\`${column}\`, '$.${path}'))`;
+	}
+
+	/**
+	 * Map the property to the key part for an index, ascending is the default so is omitted.
+	 * @param property The property to map.
+	 * @param sortDirection The sort direction for the key part.
+	 * @returns The SQL key part.
+	 * @internal
+	 */
+	private mapIndexKeyPart(
+		property: IEntitySchemaProperty<T>,
+		sortDirection?: SortDirection
+	): string {
+		const column = `\`${String(property.property)}\``;
+		const direction = sortDirection === SortDirection.Descending ? " DESC" : "";
+		if (property.type === EntitySchemaPropertyType.String && property.format !== "uuid") {
+			return `${column}(255)${direction}`;
+		}
+		return `${column}${direction}`;
+	}
+
+	/**
+	 * Normalize an index definition for comparison, MySql stores the expressions of functional key
+	 * parts in its own form with different case, spacing and character set introducers.
+	 * @param definition The definition to normalize.
+	 * @returns The normalized definition.
+	 * @internal
+	 */
+	private normalizeIndexDefinition(definition: string): string {
+		return definition
+			.toLowerCase()
+			.replace(/_utf8mb4(?=')/g, "")
+			.replace(/ charset utf8mb4/g, "")
+			.replace(/[\s`]/g, "");
+	}
+
+	/**
+	 * Create the indexes for the schema which do not exist, replace those which have drifted from
+	 * the schema and remove those which are no longer in the schema.
+	 * @param dbConnection The connection to the database.
+	 * @param nodeLogging The logging connector to log the changes to.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async reconcileIndexes(
+		dbConnection: Connection,
+		nodeLogging: ILoggingConnector | undefined
+	): Promise<void> {
+		const table = `\`${this._config.database}\`.\`${this._config.tableName}\``;
+		const [rows] = await dbConnection.query(
+			"SELECT INDEX_NAME AS `name`, COLUMN_NAME AS `column`, SUB_PART AS `subPart`, COLLATION AS `collation`, EXPRESSION AS `expression` FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? ORDER BY INDEX_NAME, SEQ_IN_INDEX",
+			[this._config.database, this._config.tableName]
+		);
+		const keyParts = (Array.isArray(rows) ? rows : []) as {
+			name: string;
+			column: string | null;
+			subPart: number | null;
+			collation: string | null;
+			expression: string | null;
+		}[];
+
+		// Build the definition of each index from its key parts in the same form as the schema indexes
+		const existingIndexes: { name: string; definition: string }[] = [];
+		for (const keyPart of keyParts) {
+			const part = `${
+				Is.stringValue(keyPart.expression)
+					? `(${keyPart.expression})`
+					: `\`${keyPart.column}\`${Is.number(keyPart.subPart) ? `(${keyPart.subPart})` : ""}`
+			}${keyPart.collation === "D" ? " DESC" : ""}`;
+			const existingIndex = existingIndexes.find(index => index.name === keyPart.name);
+			if (Is.undefined(existingIndex)) {
+				existingIndexes.push({ name: keyPart.name, definition: part });
+			} else {
+				existingIndex.definition += `, ${part}`;
+			}
+		}
+		const schemaIndexes = this.getSchemaIndexes();
+
+		for (const schemaIndex of schemaIndexes) {
+			const existingIndex = existingIndexes.find(index => index.name === schemaIndex.name);
+			const matches =
+				!Is.undefined(existingIndex) &&
+				this.normalizeIndexDefinition(existingIndex.definition) ===
+					this.normalizeIndexDefinition(schemaIndex.definition);
+
+			if (!matches && !Is.undefined(existingIndex)) {
+				await nodeLogging?.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexDrift",
+					data: {
+						table: this._config.tableName,
+						index: schemaIndex.name,
+						existingDefinition: existingIndex.definition,
+						definition: schemaIndex.definition
+					}
+				});
+				await dbConnection.query(`DROP INDEX \`${schemaIndex.name}\` ON ${table}`);
+			}
+
+			if (!matches) {
+				await dbConnection.query(
+					`CREATE INDEX \`${schemaIndex.name}\` ON ${table} (${schemaIndex.definition})`
+				);
+				await nodeLogging?.log({
+					level: "info",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexCreated",
+					data: {
+						table: this._config.tableName,
+						index: schemaIndex.name
+					}
+				});
+			}
+		}
+
+		for (const existingIndex of existingIndexes) {
+			if (existingIndex.name.startsWith("entity_")) {
+				if (!schemaIndexes.some(index => index.name === existingIndex.name)) {
+					await dbConnection.query(`DROP INDEX \`${existingIndex.name}\` ON ${table}`);
+					await nodeLogging?.log({
+						level: "warn",
+						source: this.CLASS_NAME,
+						ts: Date.now(),
+						message: "indexRemoved",
+						data: {
+							table: this._config.tableName,
+							index: existingIndex.name
+						}
+					});
+				}
+			} else if (existingIndex.name !== "PRIMARY") {
+				// Indexes created outside of the connector are left in place, but may be a sign
+				// of the schema and the table drifting apart
+				await nodeLogging?.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexUnmanaged",
+					data: {
+						table: this._config.tableName,
+						index: existingIndex.name
+					}
+				});
+			}
+		}
+	}
+
+	/**
+	 * Get the name of the table which records the migrations.
+	 * @returns The name of the migrations table.
+	 * @internal
+	 */
+	private getMigrationsTableName(): string {
+		return `${this._config.tableName}_migrations`;
+	}
+
+	/**
+	 * Create the migration by comparing the columns in the table with the properties in the schema.
+	 * @param defaultValues The values for the existing rows of required columns, keyed by column.
+	 * @returns The migration.
+	 * @internal
+	 */
+	private async createMigration(defaultValues?: {
+		[column: string]: unknown;
+	}): Promise<IMySqlEntityStorageMigration> {
+		const dbConnection = await this.createConnection();
+		const [rows] = await dbConnection.query(
+			"SELECT COLUMN_NAME AS `name`, COLUMN_TYPE AS `type`, IS_NULLABLE AS `nullable` FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?",
+			[this._config.database, this._config.tableName]
+		);
+		const columns = (Array.isArray(rows) ? rows : []) as {
+			name: string;
+			type: string;
+			nullable: string;
+		}[];
+
+		const table = `\`${this._config.database}\`.\`${this._config.tableName}\``;
+		const [hasRowsResult] = await dbConnection.query(
+			`SELECT EXISTS (SELECT 1 FROM ${table}) AS \`hasRows\``
+		);
+		const hasRows =
+			Array.isArray(hasRowsResult) &&
+			Number((hasRowsResult[0] as { hasRows?: number } | undefined)?.hasRows) === 1;
+		const changes: IMySqlEntityStorageMigrationChange[] = [];
+		const statements: string[] = [];
+
+		for (const property of this._entitySchema.properties ?? []) {
+			const column = String(property.property);
+			const sqlType = this.mapMySqlType(property);
+			const definition = `${sqlType}${property.optional ? " NULL" : " NOT NULL"}`;
+			const existingColumn = columns.find(c => c.name === column);
+
+			if (Is.undefined(existingColumn)) {
+				const setExistingRows = !property.optional && hasRows;
+				changes.push({
+					column,
+					type: MySqlEntityStorageMigrationChangeType.Added,
+					definition,
+					destructive: setExistingRows
+				});
+				if (setExistingRows) {
+					// The existing rows need a value before the column can be made required
+					statements.push(`ALTER TABLE ${table} ADD COLUMN \`${column}\` ${sqlType} NULL`);
+					if (!Is.undefined(defaultValues?.[column])) {
+						statements.push(
+							`UPDATE ${table} SET \`${column}\` = ${this.formatSqlLiteral(dbConnection, defaultValues[column], sqlType)}`
+						);
+					}
+					statements.push(`ALTER TABLE ${table} MODIFY COLUMN \`${column}\` ${definition}`);
+				} else {
+					statements.push(`ALTER TABLE ${table} ADD COLUMN \`${column}\` ${definition}`);
+				}
+			} else {
+				const existingType = this.normaliseColumnType(existingColumn.type);
+				const existingOptional = existingColumn.nullable === "YES";
+				const existingDefinition = `${existingType}${existingOptional ? " NULL" : " NOT NULL"}`;
+
+				if (existingDefinition !== definition) {
+					changes.push({
+						column,
+						type: MySqlEntityStorageMigrationChangeType.Altered,
+						existingDefinition,
+						definition,
+						destructive: existingType !== sqlType || (existingOptional && !property.optional)
+					});
+					if (existingOptional && !property.optional && !Is.undefined(defaultValues?.[column])) {
+						statements.push(
+							`UPDATE ${table} SET \`${column}\` = ${this.formatSqlLiteral(dbConnection, defaultValues[column], sqlType)} WHERE \`${column}\` IS NULL`
+						);
+					}
+					statements.push(`ALTER TABLE ${table} MODIFY COLUMN \`${column}\` ${definition}`);
+				}
+			}
+		}
+
+		for (const existingColumn of columns) {
+			if (!this._entitySchema.properties?.some(p => p.property === existingColumn.name)) {
+				changes.push({
+					column: existingColumn.name,
+					type: MySqlEntityStorageMigrationChangeType.Removed,
+					existingDefinition: `${this.normaliseColumnType(existingColumn.type)}${existingColumn.nullable === "YES" ? " NULL" : " NOT NULL"}`,
+					destructive: true
+				});
+				statements.push(`ALTER TABLE ${table} DROP COLUMN \`${existingColumn.name}\``);
+			}
+		}
+
+		return {
+			changes,
+			statements
+		};
+	}
+
+	/**
+	 * Normalise the column type from the information schema so it can be compared with the type
+	 * for the property, older versions of MySql include a display width for integer types.
+	 * @param columnType The column type from the information schema.
+	 * @returns The normalised column type.
+	 * @internal
+	 */
+	private normaliseColumnType(columnType: string): string {
+		const type = columnType.toUpperCase();
+		if (type === "TINYINT(1)") {
+			return type;
+		}
+		return type.replace(/^(TINYINT|SMALLINT|INT|BIGINT)\(\d+\)$/, "$1");
+	}
+
+	/**
+	 * Format a value as a literal for a statement, the statements are recorded with the migration
+	 * so the value can not be a parameter.
+	 * @param dbConnection The connection used to escape the value.
+	 * @param value The value to format.
+	 * @param sqlType The SQL type of the column.
+	 * @returns The literal.
+	 * @internal
+	 */
+	private formatSqlLiteral(dbConnection: Pool, value: unknown, sqlType: string): string {
+		if (sqlType === "JSON") {
+			return `CAST(${dbConnection.escape(JSON.stringify(value))} AS JSON)`;
+		}
+		return dbConnection.escape(value);
+	}
+
+	/**
+	 * Map the property to its SQL type.
+	 * @param property The property to map.
+	 * @returns The SQL type.
+	 * @internal
+	 */
+	private mapMySqlType(property: IEntitySchemaProperty<T>): string {
 		const sqlTypeMap: { [key in EntitySchemaPropertyType]: string } = {
 			[EntitySchemaPropertyType.String]: "LONGTEXT",
 			[EntitySchemaPropertyType.Number]: "FLOAT",
@@ -575,6 +1937,65 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 			[EntitySchemaPropertyType.Boolean]: "TINYINT(1)"
 		};
 
+		let sqlType = sqlTypeMap[property.type] || "TEXT";
+		if (property.format) {
+			switch (property.type) {
+				case "string":
+					sqlType = "LONGTEXT";
+					switch (property.format) {
+						case "uuid":
+							sqlType = "CHAR(36)";
+							break;
+						case "date":
+						case "date-time":
+							sqlType = "LONGTEXT";
+							break;
+					}
+					break;
+				case "number":
+					sqlType = "FLOAT";
+					switch (property.format) {
+						case "float":
+							sqlType = "FLOAT";
+							break;
+						case "double":
+							sqlType = "DOUBLE";
+							break;
+					}
+					break;
+				case "integer":
+					sqlType = "INT";
+					switch (property.format) {
+						case "int8":
+						case "uint8":
+							sqlType = "TINYINT";
+							break;
+						case "int16":
+						case "uint16":
+							sqlType = "SMALLINT";
+							break;
+						case "int32":
+						case "uint32":
+							sqlType = "INT";
+							break;
+						case "int64":
+						case "uint64":
+							sqlType = "BIGINT";
+							break;
+					}
+					break;
+			}
+		}
+		return sqlType;
+	}
+
+	/**
+	 * Map entity schema properties to SQL properties.
+	 * @param entitySchema The schema of the entity.
+	 * @returns The SQL properties as a string.
+	 * @throws GeneralError if the entity properties do not exist.
+	 */
+	private mapMySqlProperties(entitySchema: IEntitySchema<T>): string {
 		if (!entitySchema.properties) {
 			throw new GeneralError(this.CLASS_NAME, "entitySchemaPropertiesUndefined");
 		}
@@ -583,55 +2004,7 @@ export class MySqlEntityStorageConnector<T = unknown> implements IEntityStorageC
 
 		const columnDefinitions = entitySchema.properties
 			.map(prop => {
-				let sqlType = sqlTypeMap[prop.type] || "TEXT";
-				if (prop.format) {
-					switch (prop.type) {
-						case "string":
-							sqlType = "LONGTEXT";
-							switch (prop.format) {
-								case "uuid":
-									sqlType = "CHAR(36)";
-									break;
-								case "date":
-								case "date-time":
-									sqlType = "LONGTEXT";
-									break;
-							}
-							break;
-						case "number":
-							sqlType = "FLOAT";
-							switch (prop.format) {
-								case "float":
-									sqlType = "FLOAT";
-									break;
-								case "double":
-									sqlType = "DOUBLE";
-									break;
-							}
-							break;
-						case "integer":
-							sqlType = "INT";
-							switch (prop.format) {
-								case "int8":
-								case "uint8":
-									sqlType = "TINYINT";
-									break;
-								case "int16":
-								case "uint16":
-									sqlType = "SMALLINT";
-									break;
-								case "int32":
-								case "uint32":
-									sqlType = "INT";
-									break;
-								case "int64":
-								case "uint64":
-									sqlType = "BIGINT";
-									break;
-							}
-							break;
-					}
-				}
+				const sqlType = this.mapMySqlType(prop);
 				const columnName = String(prop.property);
 				const nullable = prop.optional ? " NULL" : " NOT NULL";
 
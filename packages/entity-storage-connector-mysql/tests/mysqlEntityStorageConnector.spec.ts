@@ -1,7 +1,7 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
 /* eslint-disable max-classes-per-file */
-import { GeneralError, I18n, ObjectHelper } from "@twin.org/core";
+import { BaseError, GeneralError, I18n, ObjectHelper } from "@twin.org/core";
 import type { IJsonLdNodeObject } from "@twin.org/data-json-ld";
 import {
 	ComparisonOperator,
@@ -12,7 +12,10 @@ import {
 	property
 } from "@twin.org/entity";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
-import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType
+} from "@twin.org/entity-storage-models";
 import {
 	EntityStorageLoggingConnector,
 	type LogEntry,
@@ -126,6 +129,174 @@ class BlobStorageEntry {
 	public nodeIdentity?: string;
 }
 
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
+/**
+ * Test Sorted Type Definition.
+ */
+@entity()
+class TestSortedType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string", isSecondary: true, sortDirection: SortDirection.Ascending })
+	public value1!: string;
+
+	/**
+	 * Value2.
+	 */
+	@property({ type: "number", sortDirection: SortDirection.Descending })
+	public value2!: number;
+}
+
+/**
+ * Test Sorted Type Definition with a different sort direction.
+ */
+@entity()
+class TestResortedType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string", isSecondary: true, sortDirection: SortDirection.Ascending })
+	public value1!: string;
+
+	/**
+	 * Value2.
+	 */
+	@property({ type: "number", sortDirection: SortDirection.Ascending })
+	public value2!: number;
+}
+
+/**
+ * Test Json Type Definition.
+ */
+@entity()
+class TestJsonType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value Object.
+	 */
+	@property({ type: "object", itemTypeRef: "SubType", isSecondary: true })
+	public valueObject!: SubType;
+
+	/**
+	 * Value Array.
+	 */
+	@property({ type: "array", itemType: "string", isSecondary: true })
+	public valueArray!: string[];
+
+	/**
+	 * Value Unstructured.
+	 */
+	@property({ type: "object", isSecondary: true, optional: true })
+	public valueUnstructured?: { [id: string]: string };
+}
+
+/**
+ * Test Migration Type Definition.
+ */
+@entity()
+class TestMigrationType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+}
+
+/**
+ * Test Migration Type Definition with an added column.
+ */
+@entity()
+class TestMigrationAddedType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Value2.
+	 */
+	@property({ type: "number", optional: true })
+	public value2?: number;
+}
+
+/**
+ * Test Migration Type Definition with an added required column.
+ */
+@entity()
+class TestMigrationRequiredType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Value3.
+	 */
+	@property({ type: "integer" })
+	public value3!: number;
+}
+
 let memoryEntityStorage: MemoryEntityStorageConnector<LogEntry>;
 const config: IMySqlEntityStorageConnectorConfig = TEST_MYSQL_CONFIG;
 
@@ -135,6 +306,27 @@ describe("MySqlEntityStorageConnector", () => {
 
 		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
 		EntitySchemaFactory.register(nameof<SubType>(), () => EntitySchemaHelper.getSchema(SubType));
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
+		EntitySchemaFactory.register(nameof<TestSortedType>(), () =>
+			EntitySchemaHelper.getSchema(TestSortedType)
+		);
+		EntitySchemaFactory.register(nameof<TestResortedType>(), () =>
+			EntitySchemaHelper.getSchema(TestResortedType)
+		);
+		EntitySchemaFactory.register(nameof<TestJsonType>(), () =>
+			EntitySchemaHelper.getSchema(TestJsonType)
+		);
+		EntitySchemaFactory.register(nameof<TestMigrationType>(), () =>
+			EntitySchemaHelper.getSchema(TestMigrationType)
+		);
+		EntitySchemaFactory.register(nameof<TestMigrationAddedType>(), () =>
+			EntitySchemaHelper.getSchema(TestMigrationAddedType)
+		);
+		EntitySchemaFactory.register(nameof<TestMigrationRequiredType>(), () =>
+			EntitySchemaHelper.getSchema(TestMigrationRequiredType)
+		);
 		EntitySchemaFactory.register(nameof<BlobStorageEntry>(), () =>
 			EntitySchemaHelper.getSchema(BlobStorageEntry)
 		);
@@ -210,16 +402,326 @@ describe("MySqlEntityStorageConnector", () => {
 		const logs = memoryEntityStorage.getStore();
 		expect(logs).toBeDefined();
 
-		expect(logs?.length).toEqual(3);
+		expect(logs?.length).toEqual(4);
 		expect(logs?.[0].message).toEqual("databaseCreating");
 		expect(logs?.[1].message).toEqual("databaseExists");
-		expect(logs?.[2].message).toEqual("tableExists");
+		expect(logs?.[2].message).toEqual("indexCreated");
+		expect(logs?.[2].data).toEqual({
+			table: config.tableName,
+			index: "entity_secondary_value1"
+		});
+		expect(logs?.[3].message).toEqual("tableExists");
 
 		expect(I18n.hasMessage("info.mysqlEntityStorageConnector.databaseCreating")).toEqual(true);
 		expect(I18n.hasMessage("info.mysqlEntityStorageConnector.databaseExists")).toEqual(true);
+		expect(I18n.hasMessage("info.mysqlEntityStorageConnector.indexCreated")).toEqual(true);
 		expect(I18n.hasMessage("info.mysqlEntityStorageConnector.tableExists")).toEqual(true);
 	});
 
+	test("can bootstrap again without recreating the indexes", async () => {
+		const entityStorage = new MySqlEntityStorageConnector({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await memoryEntityStorage.removeBatch(memoryEntityStorage.getStore().map(log => log.id));
+
+		await entityStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		expect(logs.map(log => log.message)).toEqual([
+			"databaseCreating",
+			"databaseExists",
+			"tableExists"
+		]);
+	});
+
+	test("can bootstrap the indexes for the sort properties", async () => {
+		const entityStorage = new MySqlEntityStorageConnector({
+			entitySchema: nameof<TestSortedType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		expect(logs.filter(log => log.message === "indexCreated").map(log => log.data?.index)).toEqual([
+			"entity_secondary_value1",
+			"entity_sort",
+			"entity_sort_value2"
+		]);
+	});
+
+	test("can bootstrap generated column indexes for JSON secondary properties", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestJsonType>({
+			entitySchema: nameof<TestJsonType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		expect(logs.filter(log => log.message === "indexCreated").map(log => log.data?.index)).toEqual([
+			"entity_secondary_valueObject_field1",
+			"entity_secondary_valueArray"
+		]);
+
+		await entityStorage.set({ id: "1", valueObject: { field1: "foo" }, valueArray: ["a", "b"] });
+		await entityStorage.set({ id: "2", valueObject: { field1: "bar" }, valueArray: ["c"] });
+
+		const resultObject = await entityStorage.query({
+			property: "valueObject.field1",
+			value: "foo",
+			comparison: ComparisonOperator.Equals
+		});
+		expect(resultObject.entities.map(e => e.id)).toEqual(["1"]);
+
+		const resultArray = await entityStorage.query({
+			property: "valueArray",
+			value: "c",
+			comparison: ComparisonOperator.Includes
+		});
+		expect(resultArray.entities.map(e => e.id)).toEqual(["2"]);
+
+		await memoryEntityStorage.removeBatch(memoryEntityStorage.getStore().map(log => log.id));
+		await entityStorage.bootstrap();
+		expect(memoryEntityStorage.getStore().some(log => log.level === "warn")).toEqual(false);
+		expect(memoryEntityStorage.getStore().some(log => log.message === "indexCreated")).toEqual(
+			false
+		);
+	});
+
+	test("can bootstrap and recreate the indexes which have drifted from the schema", async () => {
+		const sortedStorage = new MySqlEntityStorageConnector({
+			entitySchema: nameof<TestSortedType>(),
+			config
+		});
+		await sortedStorage.bootstrap();
+		await memoryEntityStorage.removeBatch(memoryEntityStorage.getStore().map(log => log.id));
+
+		const resortedStorage = new MySqlEntityStorageConnector({
+			entitySchema: nameof<TestResortedType>(),
+			config
+		});
+		await resortedStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		expect(logs.filter(log => log.message === "indexDrift").map(log => log.data)).toEqual([
+			{
+				table: config.tableName,
+				index: "entity_sort",
+				existingDefinition: "`value1`(255), `value2` DESC",
+				definition: "`value1`(255), `value2`"
+			},
+			{
+				table: config.tableName,
+				index: "entity_sort_value2",
+				existingDefinition: "`value2` DESC",
+				definition: "`value2`"
+			}
+		]);
+		expect(logs.filter(log => log.message === "indexCreated").map(log => log.data?.index)).toEqual([
+			"entity_sort",
+			"entity_sort_value2"
+		]);
+		expect(I18n.hasMessage("warn.mysqlEntityStorageConnector.indexDrift")).toEqual(true);
+	});
+
+	test("can bootstrap and remove the indexes which are no longer in the schema", async () => {
+		const sortedStorage = new MySqlEntityStorageConnector({
+			entitySchema: nameof<TestSortedType>(),
+			config
+		});
+		await sortedStorage.bootstrap();
+		await memoryEntityStorage.removeBatch(memoryEntityStorage.getStore().map(log => log.id));
+
+		const entityStorage = new MySqlEntityStorageConnector({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+
+		expect(logs.filter(log => log.level === "warn").map(log => log.data?.index)).toEqual([
+			"entity_sort",
+			"entity_sort_value2"
+		]);
+		expect(logs.some(log => log.message === "indexCreated")).toEqual(false);
+		expect(I18n.hasMessage("warn.mysqlEntityStorageConnector.indexRemoved")).toEqual(true);
+	});
+
+	test("can bootstrap and migrate a table with an added column", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestMigrationType>({
+			entitySchema: nameof<TestMigrationType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "foo" });
+
+		const addedStorage = new MySqlEntityStorageConnector<TestMigrationAddedType>({
+			entitySchema: nameof<TestMigrationAddedType>(),
+			config
+		});
+		const result = await addedStorage.bootstrap();
+		expect(result).toEqual(true);
+
+		const logs = memoryEntityStorage.getStore();
+		const migrationLog = logs.find(log => log.message === "migrationApplied");
+		expect(migrationLog?.data?.changes).toEqual(1);
+		expect(I18n.hasMessage("info.mysqlEntityStorageConnector.migrationApplied")).toEqual(true);
+
+		await addedStorage.set({ id: "2", value1: "bar", value2: 5 });
+		expect(await addedStorage.get("1")).toEqual({ id: "1", value1: "foo" });
+		expect(await addedStorage.get("2")).toEqual({ id: "2", value1: "bar", value2: 5 });
+
+		const migrations = await addedStorage.getMigrations();
+		expect(migrations.length).toEqual(1);
+		expect(migrations[0].id).toEqual(migrationLog?.data?.id);
+		expect(migrations[0].changes).toEqual([
+			{ column: "value2", type: "added", definition: "FLOAT NULL", destructive: false }
+		]);
+		expect(migrations[0].statements).toEqual([
+			`ALTER TABLE \`${config.database}\`.\`${config.tableName}\` ADD COLUMN \`value2\` FLOAT NULL`
+		]);
+
+		const migration = await addedStorage.migrate();
+		expect(migration.changes).toEqual([]);
+		expect(migration.id).toBeUndefined();
+	});
+
+	test("can perform a dry run of a migration", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestMigrationType>({
+			entitySchema: nameof<TestMigrationType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		const addedStorage = new MySqlEntityStorageConnector<TestMigrationAddedType>({
+			entitySchema: nameof<TestMigrationAddedType>(),
+			config
+		});
+		const migration = await addedStorage.migrate({ dryRun: true });
+		expect(migration.id).toBeUndefined();
+		expect(migration.statements).toEqual([
+			`ALTER TABLE \`${config.database}\`.\`${config.tableName}\` ADD COLUMN \`value2\` FLOAT NULL`
+		]);
+
+		const migrations = await addedStorage.getMigrations();
+		expect(migrations).toEqual([]);
+	});
+
+	test("can fail to migrate a table with destructive changes unless they are allowed", async () => {
+		const addedStorage = new MySqlEntityStorageConnector<TestMigrationAddedType>({
+			entitySchema: nameof<TestMigrationAddedType>(),
+			config
+		});
+		await addedStorage.bootstrap();
+
+		const entityStorage = new MySqlEntityStorageConnector<TestMigrationType>({
+			entitySchema: nameof<TestMigrationType>(),
+			config
+		});
+		await expect(entityStorage.migrate()).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "mysqlEntityStorageConnector.migrationDestructive",
+			properties: {
+				table: config.tableName,
+				columns: "value2"
+			}
+		});
+		expect(I18n.hasMessage("error.mysqlEntityStorageConnector.migrationDestructive")).toEqual(true);
+
+		const result = await entityStorage.bootstrap();
+		expect(result).toEqual(false);
+
+		const migration = await entityStorage.migrate({ allowDestructive: true });
+		expect(migration.id).toBeDefined();
+		expect(migration.changes).toEqual([
+			{ column: "value2", type: "removed", existingDefinition: "FLOAT NULL", destructive: true }
+		]);
+		expect(migration.statements).toEqual([
+			`ALTER TABLE \`${config.database}\`.\`${config.tableName}\` DROP COLUMN \`value2\``
+		]);
+	});
+
+	test("can migrate a table containing rows with an added required column", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestMigrationType>({
+			entitySchema: nameof<TestMigrationType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "foo" });
+
+		const requiredStorage = new MySqlEntityStorageConnector<TestMigrationRequiredType>({
+			entitySchema: nameof<TestMigrationRequiredType>(),
+			config
+		});
+		await expect(requiredStorage.migrate()).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "mysqlEntityStorageConnector.migrationDestructive",
+			properties: {
+				table: config.tableName,
+				columns: "value3"
+			}
+		});
+		await expect(requiredStorage.migrate({ allowDestructive: true })).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "mysqlEntityStorageConnector.migrationDefaultRequired",
+			properties: {
+				table: config.tableName,
+				columns: "value3"
+			}
+		});
+		expect(I18n.hasMessage("error.mysqlEntityStorageConnector.migrationDefaultRequired")).toEqual(
+			true
+		);
+
+		const migration = await requiredStorage.migrate({
+			allowDestructive: true,
+			defaultValues: { value3: 7 }
+		});
+		expect(migration.id).toBeDefined();
+		expect(migration.changes).toEqual([
+			{ column: "value3", type: "added", definition: "INT NOT NULL", destructive: true }
+		]);
+		expect(migration.statements).toEqual([
+			`ALTER TABLE \`${config.database}\`.\`${config.tableName}\` ADD COLUMN \`value3\` INT NULL`,
+			`UPDATE \`${config.database}\`.\`${config.tableName}\` SET \`value3\` = 7`,
+			`ALTER TABLE \`${config.database}\`.\`${config.tableName}\` MODIFY COLUMN \`value3\` INT NOT NULL`
+		]);
+
+		expect(await requiredStorage.get("1")).toEqual({ id: "1", value1: "foo", value3: 7 });
+	});
+
+	test("can start with a pool of connections and stop", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { ...config, pool: { min: 2, max: 5, idleTimeout: 10000 }, statementTimeout: 30000 }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.start("node", undefined);
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 1 });
+		expect(await entityStorage.get("1")).toEqual({ id: "1", value1: "aaa", value2: 1 });
+		await entityStorage.stop("node", undefined);
+
+		// The pool is opened again if the connector is used after it has been stopped
+		expect(await entityStorage.get("1")).toEqual({ id: "1", value1: "aaa", value2: 1 });
+		await entityStorage.stop("node", undefined);
+	});
+
+	test("can start and log when the pool of connections can not be opened", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: { ...config, host: "localhost", port: 1, pool: { min: 1 } }
+		});
+		await entityStorage.start("node", undefined);
+		await entityStorage.stop("node", undefined);
+
+		const logs = memoryEntityStorage.getStore();
+		expect(logs.length).toEqual(1);
+		expect(logs[0].level).toEqual("warn");
+		expect(logs[0].message).toEqual("poolOpenFailed");
+		expect(I18n.hasMessage("warn.mysqlEntityStorageConnector.poolOpenFailed")).toEqual(true);
+	});
+
 	test("can fail to set an item with no entity", async () => {
 		const entityStorage = new MySqlEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
@@ -647,6 +1149,228 @@ describe("MySqlEntityStorageConnector", () => {
 		expect(result).toBeUndefined();
 	});
 
+	test("can set a batch of items", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: 22 }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const result = await entityStorage.get("2");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can get a batch of items", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results.map(r => r.id)).toEqual(["2", "3", "1"]);
+		expect(results.every(r => r.success)).toEqual(true);
+		expect(results[0].entity?.value1).toEqual("bbb");
+		expect(results[1].entity).toBeUndefined();
+		expect(results[2].entity?.value1).toEqual("aaa");
+	});
+
+	test("can remove a batch of items", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		expect(await entityStorage.get("1")).toBeUndefined();
+		expect(await entityStorage.get("2")).toBeDefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the transaction capability", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().transactions).toEqual(true);
+	});
+
+	test("can set and remove items in a transaction", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "aaa", value2: 11 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+		]);
+
+		expect(await entityStorage.get("1")).toBeDefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the subscription capability", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(false);
+	});
+
+	test("can fail to subscribe as it is not supported", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(entityStorage.subscribe(undefined, async () => {})).rejects.toMatchObject({
+			name: "NotSupportedError",
+			message: "entityStorageChangeEmitter.subscriptionsNotSupported"
+		});
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { ...config, tableName: `${config.tableName}expiring` }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({
+			id: "1",
+			value1: "aaa",
+			entityExpiry: Math.floor(Date.now() / 1000) - 10
+		});
+		await entityStorage.set({ id: "2", value1: "bbb" }, undefined, undefined, 60);
+
+		expect(await entityStorage.get("1")).toBeUndefined();
+		const item = await entityStorage.get("2");
+		expect(item?.entityExpiry).toBeGreaterThan(Date.now() / 1000);
+		const result = await entityStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await entityStorage.count()).toEqual(1);
+		await entityStorage.tableDrop();
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: 1 }, undefined, undefined, 60)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
+	test("can count items with empty store", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "bbb",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("patched");
+		expect(result?.value2).toEqual(11);
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
 	test("can find items with empty store", async () => {
 		const entityStorage = new MySqlEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
@@ -752,6 +1476,99 @@ describe("MySqlEntityStorageConnector", () => {
 		expect(result2.cursor).toBeUndefined();
 	});
 
+	test("can find items with a cursor when items are added and removed between pages", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 1; i <= 6; i++) {
+			await entityStorage.set({ id: i.toString(), value1: "aaa", value2: i * 10 });
+		}
+		const sortProperties = [
+			{ property: "value2" as const, sortDirection: SortDirection.Ascending }
+		];
+
+		const result = await entityStorage.query(undefined, sortProperties, undefined, undefined, 3);
+		expect(result.entities.map(e => e.id)).toEqual(["1", "2", "3"]);
+
+		await entityStorage.remove("2");
+		await entityStorage.set({ id: "0", value1: "aaa", value2: 5 });
+		await entityStorage.set({ id: "9", value1: "aaa", value2: 45 });
+
+		const result2 = await entityStorage.query(
+			undefined,
+			sortProperties,
+			undefined,
+			result.cursor,
+			3
+		);
+		expect(result2.entities.map(e => e.id)).toEqual(["4", "9", "5"]);
+		const result3 = await entityStorage.query(
+			undefined,
+			sortProperties,
+			undefined,
+			result2.cursor,
+			3
+		);
+		expect(result3.entities.map(e => e.id)).toEqual(["6"]);
+		expect(result3.cursor).toBeUndefined();
+	});
+
+	test("can find items with a cursor when sorting by a property with missing values", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { ...config, tableName: `${config.tableName}expiring` }
+		});
+		await entityStorage.bootstrap();
+		const now = Math.floor(Date.now() / 1000);
+		await entityStorage.set({ id: "1", value1: "aaa", entityExpiry: now + 200 });
+		await entityStorage.set({ id: "2", value1: "bbb" });
+		await entityStorage.set({ id: "3", value1: "ccc", entityExpiry: now + 100 });
+		await entityStorage.set({ id: "4", value1: "ddd" });
+
+		for (const [sortDirection, expectedIds] of [
+			[SortDirection.Ascending, ["2", "4", "3", "1"]],
+			[SortDirection.Descending, ["1", "3", "2", "4"]]
+		] as const) {
+			const ids: string[] = [];
+			let cursor: string | undefined;
+			do {
+				const result = await entityStorage.query(
+					undefined,
+					[{ property: "entityExpiry", sortDirection }],
+					["id"],
+					cursor,
+					1
+				);
+				for (const e of result.entities) {
+					expect(Object.keys(e)).toEqual(["id"]);
+					ids.push(e.id as string);
+				}
+				cursor = result.cursor;
+			} while (cursor);
+			expect(ids).toEqual(expectedIds);
+		}
+		await entityStorage.tableDrop();
+	});
+
+	test("can fail to find items with an invalid cursor", async () => {
+		const entityStorage = new MySqlEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const error = await entityStorage
+			.query(undefined, undefined, undefined, "invalid")
+			.catch(err => err);
+		expect(BaseError.isErrorMessage(error, "mysqlEntityStorageConnector.queryFailed")).toEqual(
+			true
+		);
+		expect(BaseError.someErrorMessage(error, "entityStorageCursorHelper.cursorInvalid")).toEqual(
+			true
+		);
+	});
+
 	test("can find items with multiple entries and apply conditions", async () => {
 		const entityStorage = new MySqlEntityStorageConnector<TestType>({
 			entitySchema: nameof<TestType>(),
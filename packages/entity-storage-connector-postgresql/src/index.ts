@@ -2,4 +2,10 @@
 // SPDX-License-Identifier: Apache-2.0.
 export * from "./models/IPostgreSqlEntityStorageConnectorConfig";
 export * from "./models/IPostgreSqlEntityStorageConnectorConstructorOptions";
+export * from "./models/IPostgreSqlEntityStorageConnectorPoolConfig";
+export * from "./models/IPostgreSqlEntityStorageConnectorTlsConfig";
+export * from "./models/IPostgreSqlEntityStorageMigration";
+export * from "./models/IPostgreSqlEntityStorageMigrationChange";
+export * from "./models/IPostgreSqlEntityStorageMigrationOptions";
+export * from "./models/postgreSqlEntityStorageMigrationChangeType";
 export * from "./postgreSqlEntityStorageConnector";
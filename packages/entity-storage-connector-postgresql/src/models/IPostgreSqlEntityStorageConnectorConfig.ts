@@ -1,5 +1,7 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
+import type { IPostgreSqlEntityStorageConnectorPoolConfig } from "./IPostgreSqlEntityStorageConnectorPoolConfig";
+import type { IPostgreSqlEntityStorageConnectorTlsConfig } from "./IPostgreSqlEntityStorageConnectorTlsConfig";
 
 /**
  * Configuration for the PostgreSql Entity Storage Connector.
@@ -34,4 +36,36 @@ export interface IPostgreSqlEntityStorageConnectorConfig {
 	 * The name of the table to be used.
 	 */
 	tableName: string;
+
+	/**
+	 * The interval in milliseconds for sweeping the expired entities while the connector is started,
+	 * only used if the schema supports expiry, defaults to 60000.
+	 */
+	expirySweepInterval?: number;
+
+	/**
+	 * Apply migrations containing destructive changes during bootstrap, defaults to false.
+	 */
+	allowDestructiveMigrations?: boolean;
+
+	/**
+	 * The values for the existing rows used by the migrations during bootstrap, keyed by column,
+	 * a value is needed for each required column added to a table which contains rows.
+	 */
+	migrationDefaultValues?: { [column: string]: unknown };
+
+	/**
+	 * The configuration for the pool of connections.
+	 */
+	pool?: IPostgreSqlEntityStorageConnectorPoolConfig;
+
+	/**
+	 * The maximum time in milliseconds for a statement to run, statements which take longer are cancelled.
+	 */
+	statementTimeout?: number;
+
+	/**
+	 * The configuration for connecting using TLS, the connection is not encrypted if not provided.
+	 */
+	tls?: IPostgreSqlEntityStorageConnectorTlsConfig;
 }
@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Configuration for the pool of connections to the PostgreSql instance.
+ */
+export interface IPostgreSqlEntityStorageConnectorPoolConfig {
+	/**
+	 * The minimum number of connections, which are opened when the connector is started, defaults to 0.
+	 */
+	min?: number;
+
+	/**
+	 * The maximum number of connections, defaults to 10.
+	 */
+	max?: number;
+
+	/**
+	 * The time in milliseconds before an idle connection is closed, including the minimum
+	 * connections, defaults to 60000.
+	 */
+	idleTimeout?: number;
+}
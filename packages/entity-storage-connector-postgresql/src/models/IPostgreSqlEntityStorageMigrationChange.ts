@@ -0,0 +1,35 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { PostgreSqlEntityStorageMigrationChangeType } from "./postgreSqlEntityStorageMigrationChangeType";
+
+/**
+ * A change to a column made by a migration.
+ */
+export interface IPostgreSqlEntityStorageMigrationChange {
+	/**
+	 * The name of the column.
+	 */
+	column: string;
+
+	/**
+	 * The type of change.
+	 */
+	type: PostgreSqlEntityStorageMigrationChangeType;
+
+	/**
+	 * The definition of the column in the table before the change.
+	 */
+	existingDefinition?: string;
+
+	/**
+	 * The definition of the column in the schema.
+	 */
+	definition?: string;
+
+	/**
+	 * Is the change destructive, removing a column or changing its type can lose data, making a
+	 * column required fails if it contains null values and adding a required column to a table
+	 * which contains rows sets a default value in the existing rows.
+	 */
+	destructive: boolean;
+}
@@ -1,6 +1,16 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import { BaseError, GeneralError, Guards, Is, ObjectHelper } from "@twin.org/core";
+import { createHash } from "node:crypto";
+import {
+	BaseError,
+	Coerce,
+	Converter,
+	GeneralError,
+	Guards,
+	Is,
+	ObjectHelper,
+	RandomHelper
+} from "@twin.org/core";
 import {
 	ComparisonOperator,
 	type EntityCondition,
@@ -9,15 +19,34 @@ import {
 	EntitySchemaPropertyType,
 	type IComparator,
 	type IEntitySchema,
+	type IEntitySchemaProperty,
 	LogicalOperator,
 	SortDirection
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
-import { LoggingConnectorFactory } from "@twin.org/logging-models";
+import {
+	EntityStorageChangeEmitter,
+	EntityStorageChangeType,
+	EntityStorageCursorHelper,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { type ILoggingConnector, LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
 import postgres from "postgres";
 import type { IPostgreSqlEntityStorageConnectorConfig } from "./models/IPostgreSqlEntityStorageConnectorConfig";
 import type { IPostgreSqlEntityStorageConnectorConstructorOptions } from "./models/IPostgreSqlEntityStorageConnectorConstructorOptions";
+import type { IPostgreSqlEntityStorageMigration } from "./models/IPostgreSqlEntityStorageMigration";
+import type { IPostgreSqlEntityStorageMigrationChange } from "./models/IPostgreSqlEntityStorageMigrationChange";
+import type { IPostgreSqlEntityStorageMigrationOptions } from "./models/IPostgreSqlEntityStorageMigrationOptions";
+import { PostgreSqlEntityStorageMigrationChangeType } from "./models/postgreSqlEntityStorageMigrationChangeType";
 
 /**
  * Class for performing entity storage operations using ql.
@@ -29,6 +58,52 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 	 */
 	private static readonly _PAGE_SIZE: number = 40;
 
+	/**
+	 * The maximum number of parameters in a statement.
+	 * @internal
+	 */
+	private static readonly _MAX_PARAMETERS: number = 65535;
+
+	/**
+	 * The maximum length in bytes of an identifier, longer identifiers are truncated.
+	 * @internal
+	 */
+	private static readonly _MAX_IDENTIFIER_LENGTH: number = 63;
+
+	/**
+	 * The length of the hash appended to an index name which is too long.
+	 * @internal
+	 */
+	private static readonly _INDEX_NAME_HASH_LENGTH: number = 16;
+
+	/**
+	 * The length an index name is truncated to before the hash is appended.
+	 * @internal
+	 */
+	private static readonly _INDEX_NAME_TRUNCATED_LENGTH: number =
+		PostgreSqlEntityStorageConnector._MAX_IDENTIFIER_LENGTH -
+		PostgreSqlEntityStorageConnector._INDEX_NAME_HASH_LENGTH -
+		1;
+
+	/**
+	 * The default maximum number of connections in the pool.
+	 * @internal
+	 */
+	private static readonly _POOL_MAX: number = 10;
+
+	/**
+	 * The properties which identify the owner of an entity, they are included in the notification
+	 * for a removal so that subscriptions scoped to the identities can be matched.
+	 * @internal
+	 */
+	private static readonly _IDENTITY_PROPERTIES: string[] = ["userIdentity", "nodeIdentity"];
+
+	/**
+	 * The default time in milliseconds before an idle connection is closed.
+	 * @internal
+	 */
+	private static readonly _POOL_IDLE_TIMEOUT: number = 60000;
+
 	/**
 	 * Runtime name for the class.
 	 */
@@ -40,6 +115,18 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 	 */
 	private readonly _entitySchema: IEntitySchema<T>;
 
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
 	/**
 	 * The configuration for the connector.
 	 * @internal
@@ -52,6 +139,24 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 	 */
 	private _connection?: postgres.Sql;
 
+	/**
+	 * The subscriptions to changes in the table.
+	 * @internal
+	 */
+	private readonly _changeEmitter: EntityStorageChangeEmitter<T>;
+
+	/**
+	 * The listener for the change notifications, only active while there are subscriptions.
+	 * @internal
+	 */
+	private _changeListener?: postgres.ListenRequest;
+
+	/**
+	 * The timer for sweeping the expired entities, only active while the connector is started.
+	 * @internal
+	 */
+	private _expirySweepTimer?: ReturnType<typeof setInterval>;
+
 	/**
 	 * Create a new instance of PostgreSqlEntityStorageConnector.
 	 * @param options The options for the connector.
@@ -71,8 +176,11 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 		Guards.stringValue(this.CLASS_NAME, nameof(options.config.tableName), options.config.tableName);
 
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
 
 		this._config = options.config;
+		this._changeEmitter = new EntityStorageChangeEmitter<T>();
 	}
 
 	/**
@@ -121,8 +229,63 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 			if (!tableExistsResult[0].to_regclass) {
 				const createTableQuery = `CREATE TABLE IF NOT EXISTS ${this._config.tableName} (${this.mapPostgreSqlProperties(this._entitySchema)})`;
 				await dbConnection.unsafe(createTableQuery);
+			} else {
+				const migration = await this.migrate({
+					allowDestructive: this._config.allowDestructiveMigrations,
+					defaultValues: this._config.migrationDefaultValues
+				});
+				if (!Is.undefined(migration.id)) {
+					await nodeLogging?.log({
+						level: "info",
+						source: this.CLASS_NAME,
+						ts: Date.now(),
+						message: "migrationApplied",
+						data: {
+							table: this._config.tableName,
+							id: migration.id,
+							changes: migration.changes.length
+						}
+					});
+				}
 			}
 
+			// The trigger notifies the changes to the table so they can be used by subscriptions
+			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+			const triggerName = `${this._config.tableName}_notify_change`;
+			// The removed row can not be read once it is deleted, so the notification includes its
+			// identity properties, the whole row could exceed the payload size limit
+			const identityProperties = (this._entitySchema.properties ?? [])
+				.map(property => String(property.property))
+				.filter(property =>
+					PostgreSqlEntityStorageConnector._IDENTITY_PROPERTIES.includes(property)
+				);
+			const removedEntity =
+				identityProperties.length > 0
+					? `, 'entity', json_build_object(${[String(primaryKey.property), ...identityProperties]
+							.map(property => `'${property}', OLD."${property}"`)
+							.join(", ")})`
+					: "";
+			await dbConnection.unsafe(
+				`CREATE OR REPLACE FUNCTION "${triggerName}"() RETURNS trigger AS $$
+BEGIN
+	IF (TG_OP = 'DELETE') THEN
+		PERFORM pg_notify('${this.getChangeChannel()}', json_build_object('operation', TG_OP, 'id', OLD."${primaryKey.property}"${removedEntity})::text);
+		RETURN OLD;
+	END IF;
+	PERFORM pg_notify('${this.getChangeChannel()}', json_build_object('operation', TG_OP, 'id', NEW."${primaryKey.property}")::text);
+	RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;`
+			);
+			await dbConnection.unsafe(
+				`DROP TRIGGER IF EXISTS "${triggerName}" ON "${this._config.tableName}";`
+			);
+			await dbConnection.unsafe(
+				`CREATE TRIGGER "${triggerName}" AFTER INSERT OR UPDATE OR DELETE ON "${this._config.tableName}" FOR EACH ROW EXECUTE FUNCTION "${triggerName}"();`
+			);
+
+			await this.reconcileIndexes(dbConnection, nodeLogging);
+
 			await nodeLogging?.log({
 				level: "info",
 				source: this.CLASS_NAME,
@@ -152,6 +315,81 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 		return true;
 	}
 
+	/**
+	 * The component needs to be started when the node is initialized.
+	 * @param nodeIdentity The identity of the node starting the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async start(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._expiryProperty) && Is.undefined(this._expirySweepTimer)) {
+			this._expirySweepTimer = setInterval(
+				async () => this.removeExpired(),
+				this._config.expirySweepInterval ?? EntityStorageExpiryHelper.DEFAULT_SWEEP_INTERVAL
+			);
+		}
+
+		const poolMin = Math.min(
+			this._config.pool?.min ?? 0,
+			this._config.pool?.max ?? PostgreSqlEntityStorageConnector._POOL_MAX
+		);
+		if (poolMin > 0) {
+			try {
+				// Reserving the connections together opens them, so they are ready for the first requests
+				const dbConnection = await this.createConnection();
+				const reservedConnections = await Promise.all(
+					Array.from({ length: poolMin }, async () => dbConnection.reserve())
+				);
+				for (const reservedConnection of reservedConnections) {
+					reservedConnection.release();
+				}
+			} catch (error) {
+				// The connections are opened when they are needed if the instance is not available yet
+				const nodeLogging = LoggingConnectorFactory.getIfExists(
+					nodeLoggingConnectorType ?? "node-logging"
+				);
+				await nodeLogging?.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "poolOpenFailed",
+					error: BaseError.fromError(error),
+					data: {
+						host: this._config.host
+					}
+				});
+			}
+		}
+	}
+
+	/**
+	 * The component needs to be stopped when the node is closed.
+	 * @param nodeIdentity The identity of the node stopping the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async stop(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._expirySweepTimer)) {
+			clearInterval(this._expirySweepTimer);
+			this._expirySweepTimer = undefined;
+		}
+
+		if (!Is.undefined(this._connection)) {
+			// Closing the pool also stops listening for changes, the pool is opened
+			// again if the connector is used after it has been stopped
+			const connection = this._connection;
+			this._connection = undefined;
+			this._changeListener = undefined;
+			await connection.end();
+		}
+	}
+
 	/**
 	 * Get the schema for the entities.
 	 * @returns The schema for the entities.
@@ -160,6 +398,17 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: true,
+			subscriptions: true
+		};
+	}
+
 	/**
 	 * Get an entity from PostgreSql.
 	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
@@ -195,33 +444,13 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 					values.push(condition.value);
 				}
 			}
+			this.addExpiryClause(whereClauses);
 
 			const query = `SELECT * FROM "${this._config.tableName}" WHERE ${whereClauses.join(" AND ")} LIMIT 1`;
 			const rows = await dbConnection.unsafe(query, values as postgres.ParameterOrJSON<never>[]);
 
 			if (Array.isArray(rows) && rows.length === 1) {
-				if (this._entitySchema.properties) {
-					for (const prop of this._entitySchema.properties) {
-						const row = rows[0] as unknown as { [key: string]: unknown };
-						let propColumn = prop.property as string;
-						propColumn = propColumn.toLowerCase();
-						if (
-							(prop.type === EntitySchemaPropertyType.Object ||
-								prop.type === EntitySchemaPropertyType.Array) &&
-							typeof row[propColumn] === "string"
-						) {
-							const rowValue = JSON.parse(
-								(rows[0] as { [key: string]: unknown })[propColumn] as string
-							);
-							delete (rows[0] as { [key: string]: unknown })[propColumn];
-							(rows[0] as { [key: string]: unknown })[prop.property as string] = rowValue;
-						}
-						if (row[propColumn] === null) {
-							(rows[0] as { [key: string]: unknown })[prop.property as string] = undefined;
-						}
-					}
-				}
-				return rows[0] as T;
+				return this.rowToEntity(rows[0]) as T;
 			}
 		} catch (err) {
 			throw new GeneralError(
@@ -237,12 +466,20 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
@@ -250,30 +487,21 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
 		const id = entity[primaryKey.property as keyof T] as unknown as string;
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+		const versionedEntity = EntityStorageVersionHelper.nextVersion(
+			EntityStorageExpiryHelper.applyTimeToLive(entity, this._expiryProperty, timeToLive),
+			this._versionProperty
+		);
+
 		try {
-			if (Is.arrayValue(conditions)) {
+			if (Is.arrayValue(conditions) && Is.undefined(expectedVersion)) {
 				const itemData = await this.get(id);
 				if (Is.notEmpty(itemData) && !this.verifyConditions(conditions, itemData as T)) {
 					return;
 				}
 			}
-			const columns = Object.keys(entity as object)
-				.map(key => `"${key}"`)
-				.join(", ");
-			// eslint-disable-next-line no-confusing-arrow
-			const values = Object.values(entity as object).map(value =>
-				value === undefined ? null : value
-			);
-			const placeholders = values.map((_, index) => `$${index + 1}`).join(", ");
-
 			const dbConnection = await this.createConnection();
-			await dbConnection.unsafe(
-				`INSERT INTO "${this._config.tableName}" (${columns}) VALUES (${placeholders}) ON CONFLICT ("${primaryKey.property}") DO UPDATE SET ${columns
-					.split(", ")
-					.map(col => `${col} = EXCLUDED.${col}`)
-					.join(", ")};`,
-				values
-			);
+			await this.writeEntity(dbConnection, id, versionedEntity, conditions, expectedVersion);
 		} catch (err) {
 			throw new GeneralError(
 				this.CLASS_NAME,
@@ -290,11 +518,14 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
@@ -302,6 +533,13 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 			const dbConnection = await this.createConnection();
 
 			const itemData = await this.get(id);
+			EntityStorageVersionHelper.verifyVersion(
+				id,
+				this._versionProperty,
+				expectedVersion,
+				itemData
+			);
+
 			if (Is.notEmpty(itemData)) {
 				const values: unknown[] = [id];
 				let whereClauses: string[] = [];
@@ -313,9 +551,21 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 					});
 				}
 
+				if (!Is.undefined(expectedVersion)) {
+					// Make sure the version has not changed since it was verified
+					values.push(expectedVersion);
+					whereClauses.push(`"${String(this._versionProperty)}" = $${values.length}`);
+				}
+
 				const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
 				const query = `DELETE FROM "${this._config.tableName}" WHERE "${primaryKey.property}" = $1${whereClauses.length > 0 ? ` AND ${whereClauses.join(" AND ")}` : ""}`;
-				await dbConnection.unsafe(query, values as postgres.ParameterOrJSON<never>[]);
+				const result = await dbConnection.unsafe(
+					query,
+					values as postgres.ParameterOrJSON<never>[]
+				);
+				if (result.count === 0 && !Is.undefined(expectedVersion)) {
+					throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+				}
 			}
 		} catch (err) {
 			throw new GeneralError(
@@ -330,166 +580,957 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 	}
 
 	/**
-	 * Find all the entities which match the conditions.
-	 * @param conditions The conditions to match for the entities.
-	 * @param sortProperties The optional sort order.
-	 * @param properties The optional properties to return, defaults to all.
-	 * @param cursor The cursor to request the next page of entities.
-	 * @param pageSize The suggested number of entities to return in each chunk, in some scenarios can return a different amount.
-	 * @returns All the entities for the storage matching the conditions,
-	 * and a cursor which can be used to request more entities.
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
 	 */
-	public async query(
-		conditions?: EntityCondition<T>,
-		sortProperties?: { property: keyof T; sortDirection: SortDirection }[],
-		properties?: (keyof T)[],
-		cursor?: string,
-		pageSize?: number
-	): Promise<{ entities: Partial<T>[]; cursor?: string }> {
-		const sql = "";
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
 		try {
-			const returnSize = pageSize ?? PostgreSqlEntityStorageConnector._PAGE_SIZE;
+			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+			const values: unknown[] = [id];
+			const setClauses: string[] = [];
+			let existing: T | undefined;
+
+			const patchEntries = Object.entries(patch as object).filter(
+				([key, value]) =>
+					key !== primaryKey.property && key !== this._versionProperty && !Is.undefined(value)
+			);
 
-			let orderByClause: string = "";
-			if (Array.isArray(sortProperties)) {
-				const orderClauses: string[] = [];
-				for (const sortProperty of sortProperties) {
-					const direction = sortProperty.sortDirection === SortDirection.Ascending ? "ASC" : "DESC";
-					orderClauses.push(`"${String(sortProperty.property)}" ${direction}`);
+			for (const [key, value] of patchEntries) {
+				if (Is.null(value)) {
+					setClauses.push(`"${key}" = NULL`);
+				} else {
+					let finalValue = value;
+					if (Is.object(value)) {
+						// JSONB has no native merge patch so nested objects
+						// are merged with the currently stored value
+						existing = existing ?? (await this.get(id, undefined, conditions));
+						if (Is.undefined(existing)) {
+							return;
+						}
+						finalValue = EntityStoragePatchHelper.applyPatch(
+							existing[key as keyof T] as unknown,
+							value
+						);
+					}
+					values.push(finalValue);
+					setClauses.push(`"${key}" = $${values.length}`);
 				}
-				orderByClause = `ORDER BY ${orderClauses.join(", ")}`;
 			}
 
-			const whereClauses: string[] = [];
-			const values: unknown[] = [];
-
-			if (conditions) {
-				this.buildQueryParameters("", conditions, whereClauses, values);
+			if (setClauses.length === 0) {
+				return;
 			}
 
-			const query = `SELECT ${properties ? properties.map(p => `"${String(p)}"`).join(", ") : "*"} FROM "${this._config.tableName}" ${whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : ""} ${orderByClause} LIMIT ${returnSize} OFFSET ${cursor ? Number(cursor) : 0}::integer`;
-			const dbConnection = await this.createConnection();
-			const rows = await dbConnection.unsafe(query, values as postgres.ParameterOrJSON<never>[]);
+			if (!Is.undefined(this._versionProperty)) {
+				values.push(EntityStorageVersionHelper.generateVersion());
+				setClauses.push(`"${String(this._versionProperty)}" = $${values.length}`);
+			}
 
-			if (this._entitySchema.properties) {
-				for (const row of rows) {
-					for (const prop of this._entitySchema.properties) {
-						let propColumn = prop.property as string;
-						propColumn = propColumn.toLowerCase();
-						if (
-							(prop.type === EntitySchemaPropertyType.Object ||
-								prop.type === EntitySchemaPropertyType.Array) &&
-							typeof row[propColumn] === "string"
-						) {
-							const rowValue = JSON.parse(row[propColumn] as string);
-							delete row[propColumn];
-							row[prop.property as string] = rowValue;
-						}
-						if (row[propColumn] === null) {
-							row[prop.property as string] = undefined;
-						}
-					}
+			const whereClauses: string[] = [`"${primaryKey.property}" = $1`];
+			if (Is.arrayValue(conditions)) {
+				for (const condition of conditions) {
+					values.push(condition.value);
+					whereClauses.push(`"${String(condition.property)}" = $${values.length}`);
 				}
 			}
-			return {
-				entities: rows as unknown as Partial<T>[],
-				cursor:
-					Array.isArray(rows) && rows.length === returnSize
-						? String((cursor ? Number(cursor) : 0) + returnSize)
-						: undefined
-			};
-		} catch (err) {
-			throw new GeneralError(this.CLASS_NAME, "queryFailed", { sql }, err);
-		}
-	}
 
-	/**
-	 * Drop the table.
-	 * @returns Nothing.
-	 */
-	public async tableDrop(): Promise<void> {
-		try {
+			const query = `UPDATE "${this._config.tableName}" SET ${setClauses.join(", ")} WHERE ${whereClauses.join(" AND ")}`;
 			const dbConnection = await this.createConnection();
-			await dbConnection.unsafe(`DROP TABLE ${this._config.tableName};`);
-		} catch {
-			// Ignore errors
+			await dbConnection.unsafe(query, values as postgres.ParameterOrJSON<never>[]);
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"patchFailed",
+				{
+					id
+				},
+				err
+			);
 		}
 	}
 
 	/**
-	 * Create a new DB connection.
-	 * @returns The PostgreSql connection.
-	 * @internal
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
 	 */
-	private async createConnection(): Promise<postgres.Sql> {
-		if (this._connection) {
-			return this._connection;
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const results: IEntityStorageBatchResult<T>[] = [];
+		const validEntities: { index: number; entity: T }[] = [];
+
+		for (let i = 0; i < entities.length; i++) {
+			const id = entities[i]?.[primaryKey.property as keyof T] as unknown as string;
+			try {
+				Guards.object<T>(this.CLASS_NAME, nameof(entities[i]), entities[i]);
+				EntitySchemaHelper.validateEntity(entities[i], this.getSchema());
+				results.push({ id, success: true });
+				validEntities.push({
+					index: i,
+					entity: EntityStorageVersionHelper.nextVersion(entities[i], this._versionProperty)
+				});
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
 		}
-		const newConnection = await postgres(this.createConnectionConfig());
-		this._connection = newConnection;
-		return newConnection;
-	}
 
-	/**
-	 * Create a new DB connection configuration.
-	 * @returns The PostgreSql connection configuration.
-	 * @internal
-	 */
-	private createConnectionConfig(): postgres.Options<{ [key: string]: postgres.PostgresType }> {
-		return {
-			host: this._config.host,
-			port: this._config.port ?? 5432,
-			user: this._config.user,
-			password: this._config.password
-		};
-	}
+		let entitiesToStore = validEntities;
+		try {
+			if (Is.arrayValue(conditions) && entitiesToStore.length > 0) {
+				const existing = await this.getBatch(entitiesToStore.map(e => results[e.index].id));
+				entitiesToStore = entitiesToStore.filter((e, i) => {
+					if (!existing[i].success) {
+						results[e.index].success = false;
+						results[e.index].error = existing[i].error;
+						return false;
+					}
+					const itemData = existing[i].entity;
+					return Is.empty(itemData) || this.verifyConditions(conditions, itemData as T);
+				});
+			}
+		} catch (err) {
+			this.setBatchFailed(results, entitiesToStore, err);
+			return results;
+		}
 
-	/**
-	 * Create an SQL condition clause.
-	 * @param objectPath The path for the nested object.
-	 * @param condition The conditions to create the query from.
-	 * @param whereClauses The where clauses to use in the query.
-	 * @param values The values to use in the query.
-	 * @internal
-	 */
-	private buildQueryParameters(
-		objectPath: string,
-		condition: EntityCondition<T> | undefined,
-		whereClauses: string[],
-		values: unknown[]
-	): void {
-		if (Is.undefined(condition)) {
-			return;
+		// A row can only be updated once by an insert, so only the last entity for each id is stored
+		const lastIndexes = new Map<string, number>();
+		for (const e of entitiesToStore) {
+			lastIndexes.set(results[e.index].id, e.index);
 		}
+		const uniqueEntities = entitiesToStore.filter(
+			e => lastIndexes.get(results[e.index].id) === e.index
+		);
 
-		if ("conditions" in condition) {
-			if (condition.conditions.length === 0) {
-				return;
+		if (uniqueEntities.length > 0) {
+			const columnNames: string[] = [];
+			for (const e of uniqueEntities) {
+				for (const key of Object.keys(e.entity as object)) {
+					if (!columnNames.includes(key)) {
+						columnNames.push(key);
+					}
+				}
 			}
-			const joinConditions: string[] = condition.conditions.map(c => {
-				const subWhereClauses: string[] = [];
-				const subValues: unknown[] = [];
-				this.buildQueryParameters(objectPath, c, subWhereClauses, subValues);
-				values.push(...subValues);
-				return subWhereClauses.join(" AND ");
-			});
+			const columns = columnNames.map(key => `"${key}"`);
 
-			const logicalOperator = this.mapConditionalOperator(condition.logicalOperator);
-			const queryClause = joinConditions.filter(j => j.length > 0).join(` ${logicalOperator} `);
+			// Each row has a parameter for every column, so the rows are split in to statements
+			// which do not exceed the maximum number of parameters
+			const chunkSize = Math.max(
+				1,
+				Math.floor(PostgreSqlEntityStorageConnector._MAX_PARAMETERS / columnNames.length)
+			);
+			for (let i = 0; i < uniqueEntities.length; i += chunkSize) {
+				const chunk = uniqueEntities.slice(i, i + chunkSize);
+				try {
+					const values: unknown[] = [];
+					const rowPlaceholders = chunk.map(e => {
+						const placeholders = columnNames.map(key => {
+							const value = (e.entity as { [key: string]: unknown })[key];
+							values.push(value === undefined ? null : value);
+							return `$${values.length}`;
+						});
+						return `(${placeholders.join(", ")})`;
+					});
 
-			if (queryClause.length > 0) {
-				whereClauses.push(`(${queryClause})`);
+					const dbConnection = await this.createConnection();
+					await dbConnection.unsafe(
+						`INSERT INTO "${this._config.tableName}" (${columns.join(", ")}) VALUES ${rowPlaceholders.join(", ")} ON CONFLICT ("${primaryKey.property}") DO UPDATE SET ${columns
+							.map(col => `${col} = EXCLUDED.${col}`)
+							.join(", ")};`,
+						values as postgres.ParameterOrJSON<never>[]
+					);
+				} catch (err) {
+					const chunkIds = new Set(chunk.map(e => results[e.index].id));
+					this.setBatchFailed(
+						results,
+						entitiesToStore.filter(e => chunkIds.has(results[e.index].id)),
+						err
+					);
+				}
 			}
-			return;
 		}
 
-		const schemaProp = this._entitySchema.properties?.find(p => p.property === condition.property);
-		const comparison = this.mapComparisonOperator(objectPath, condition, schemaProp?.type, values);
-		whereClauses.push(comparison);
+		return results;
 	}
 
 	/**
-	 * Map the framework comparison operators to those in MySQL.
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		const lookupProperty = Is.empty(secondaryIndex)
+			? EntitySchemaHelper.getPrimaryKey(this.getSchema()).property
+			: secondaryIndex;
+
+		try {
+			const dbConnection = await this.createConnection();
+
+			const values: unknown[] = [...ids];
+			const whereClauses: string[] = [
+				`"${String(lookupProperty)}" IN (${ids.map((_, index) => `$${index + 1}`).join(", ")})`
+			];
+
+			if (conditions) {
+				for (const condition of conditions) {
+					whereClauses.push(`"${String(condition.property)}" = $${values.length + 1}`);
+					values.push(condition.value);
+				}
+			}
+			this.addExpiryClause(whereClauses);
+
+			const query = `SELECT * FROM "${this._config.tableName}" WHERE ${whereClauses.join(" AND ")}`;
+			const rows = await dbConnection.unsafe(query, values as postgres.ParameterOrJSON<never>[]);
+
+			const entities = rows.map(row => this.rowToEntity(row) as T);
+
+			return ids.map(id => ({
+				id,
+				success: true,
+				entity: entities.find(e => e[lookupProperty as keyof T] === id)
+			}));
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "getFailed", { id }, err).toJsonObject()
+			}));
+		}
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		try {
+			const dbConnection = await this.createConnection();
+
+			const values: unknown[] = [...ids];
+			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+			const whereClauses: string[] = [
+				`"${primaryKey.property}" IN (${ids.map((_, index) => `$${index + 1}`).join(", ")})`
+			];
+
+			if (Is.arrayValue(conditions)) {
+				for (const condition of conditions) {
+					values.push(condition.value);
+					whereClauses.push(`"${String(condition.property)}" = $${values.length}`);
+				}
+			}
+
+			const query = `DELETE FROM "${this._config.tableName}" WHERE ${whereClauses.join(" AND ")}`;
+			await dbConnection.unsafe(query, values as postgres.ParameterOrJSON<never>[]);
+
+			return ids.map(id => ({ id, success: true }));
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "removeFailed", { id }, err).toJsonObject()
+			}));
+		}
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+
+		try {
+			const dbConnection = await this.createConnection();
+
+			// If any of the operations throw the transaction is rolled back
+			await dbConnection.begin(async sql => {
+				for (const operation of operations) {
+					const id = EntityStorageTransactionHelper.getOperationId(
+						operation,
+						primaryKey.property as keyof T
+					);
+					if (operation.type === EntityStorageTransactionOperationType.Set) {
+						await this.writeEntity(
+							sql,
+							id,
+							EntityStorageVersionHelper.nextVersion(operation.entity as T, this._versionProperty),
+							undefined,
+							operation.expectedVersion
+						);
+					} else {
+						const values: unknown[] = [id];
+						let query = `DELETE FROM "${this._config.tableName}" WHERE "${primaryKey.property}" = $1`;
+						if (!Is.undefined(operation.expectedVersion)) {
+							values.push(operation.expectedVersion);
+							query += ` AND "${String(this._versionProperty)}" = $2`;
+						}
+						const result = await sql.unsafe(
+							`${query};`,
+							values as postgres.ParameterOrJSON<never>[]
+						);
+						if (result.count === 0 && !Is.undefined(operation.expectedVersion)) {
+							throw EntityStorageVersionHelper.conflictError(id, operation.expectedVersion);
+						}
+					}
+				}
+			});
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "transactionFailed", undefined, err);
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, the changes are notified by a trigger on the
+	 * table which is created during bootstrap, removals are notified without the entity.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		const subscriptionId = this._changeEmitter.subscribe(conditions, callback);
+
+		try {
+			if (Is.undefined(this._changeListener)) {
+				const dbConnection = await this.createConnection();
+				this._changeListener = dbConnection.listen(this.getChangeChannel(), async payload =>
+					this.notifyChange(payload)
+				);
+			}
+			await this._changeListener;
+		} catch (err) {
+			this._changeListener = undefined;
+			this._changeEmitter.unsubscribe(subscriptionId);
+			throw new GeneralError(this.CLASS_NAME, "subscribeFailed", undefined, err);
+		}
+
+		return subscriptionId;
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		this._changeEmitter.unsubscribe(subscriptionId);
+
+		if (!this._changeEmitter.hasSubscriptions() && !Is.undefined(this._changeListener)) {
+			const changeListener = this._changeListener;
+			this._changeListener = undefined;
+			try {
+				const listenMeta = await changeListener;
+				await listenMeta.unlisten();
+			} catch {
+				// The listener has already failed so there is nothing to stop
+			}
+		}
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		try {
+			const whereClauses: string[] = [];
+			const values: unknown[] = [];
+
+			if (conditions) {
+				this.buildQueryParameters("", conditions, whereClauses, values);
+			}
+			this.addExpiryClause(whereClauses);
+
+			const query = `SELECT COUNT(*) AS "count" FROM "${this._config.tableName}" ${whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : ""}`;
+			const dbConnection = await this.createConnection();
+			const rows = await dbConnection.unsafe(query, values as postgres.ParameterOrJSON<never>[]);
+
+			return Coerce.number(rows[0]?.count) ?? 0;
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "countFailed", undefined, err);
+		}
+	}
+
+	/**
+	 * Find all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @param sortProperties The optional sort order.
+	 * @param properties The optional properties to return, defaults to all.
+	 * @param cursor The cursor to request the next page of entities.
+	 * @param pageSize The suggested number of entities to return in each chunk, in some scenarios can return a different amount.
+	 * @returns All the entities for the storage matching the conditions,
+	 * and a cursor which can be used to request more entities.
+	 */
+	public async query(
+		conditions?: EntityCondition<T>,
+		sortProperties?: { property: keyof T; sortDirection: SortDirection }[],
+		properties?: (keyof T)[],
+		cursor?: string,
+		pageSize?: number
+	): Promise<{ entities: Partial<T>[]; cursor?: string }> {
+		const sql = "";
+		try {
+			const returnSize = pageSize ?? PostgreSqlEntityStorageConnector._PAGE_SIZE;
+			const sortKeys = EntityStorageCursorHelper.getSortKeys(
+				sortProperties,
+				EntitySchemaHelper.getPrimaryKey(this._entitySchema).property
+			);
+
+			const orderByClause = `ORDER BY ${sortKeys
+				.map(
+					sortKey =>
+						`"${String(sortKey.property)}" ${sortKey.sortDirection === SortDirection.Ascending ? "ASC" : "DESC"}`
+				)
+				.join(", ")}`;
+
+			const whereClauses: string[] = [];
+			const values: unknown[] = [];
+
+			if (conditions) {
+				this.buildQueryParameters("", conditions, whereClauses, values);
+			}
+			this.addExpiryClause(whereClauses);
+			if (Is.stringValue(cursor)) {
+				this.addCursorClause(
+					sortKeys,
+					EntityStorageCursorHelper.parseCursor(cursor, sortKeys),
+					whereClauses,
+					values
+				);
+			}
+
+			// The sort keys are always selected so that the cursor can be created from the last entity
+			const columns = Is.arrayValue(properties)
+				? [...new Set([...properties, ...sortKeys.map(sortKey => sortKey.property)])]
+				: undefined;
+
+			const query = `SELECT ${columns ? columns.map(p => `"${String(p)}"`).join(", ") : "*"} FROM "${this._config.tableName}" ${whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : ""} ${orderByClause} LIMIT ${returnSize}`;
+			const dbConnection = await this.createConnection();
+			const rows = await dbConnection.unsafe(query, values as postgres.ParameterOrJSON<never>[]);
+
+			const entities = rows.map(row => this.rowToEntity(row)) as Partial<T>[];
+			return {
+				entities: Is.arrayValue(properties)
+					? entities.map(entity => ObjectHelper.pick(entity as T, properties))
+					: entities,
+				cursor:
+					entities.length === returnSize
+						? EntityStorageCursorHelper.createCursor(entities[entities.length - 1], sortKeys)
+						: undefined
+			};
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "queryFailed", { sql }, err);
+		}
+	}
+
+	/**
+	 * Migrate the table to match the schema, the columns in the table are compared with the
+	 * properties in the schema and the applied migrations are recorded in a migrations table.
+	 * A required column added to a table which contains rows is added as optional, set to the
+	 * default value in the existing rows and then made required.
+	 * @param options The options for the migration.
+	 * @returns The migration, which has no changes if the table already matches the schema.
+	 * @throws GeneralError if the migration contains destructive changes which are not allowed,
+	 * or a required column is added to existing rows without a default value.
+	 */
+	public async migrate(
+		options?: IPostgreSqlEntityStorageMigrationOptions
+	): Promise<IPostgreSqlEntityStorageMigration> {
+		let migration: IPostgreSqlEntityStorageMigration;
+		try {
+			migration = await this.createMigration(options?.defaultValues);
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"migrationFailed",
+				{ table: this._config.tableName },
+				err
+			);
+		}
+
+		if ((options?.dryRun ?? false) || migration.statements.length === 0) {
+			return migration;
+		}
+
+		const destructiveColumns = migration.changes
+			.filter(change => change.destructive)
+			.map(change => change.column);
+		if (destructiveColumns.length > 0 && !(options?.allowDestructive ?? false)) {
+			throw new GeneralError(this.CLASS_NAME, "migrationDestructive", {
+				table: this._config.tableName,
+				columns: destructiveColumns.join(", ")
+			});
+		}
+
+		const missingDefaultColumns = migration.changes
+			.filter(
+				change =>
+					change.type === PostgreSqlEntityStorageMigrationChangeType.Added &&
+					change.destructive &&
+					Is.undefined(options?.defaultValues?.[change.column])
+			)
+			.map(change => change.column);
+		if (missingDefaultColumns.length > 0) {
+			throw new GeneralError(this.CLASS_NAME, "migrationDefaultRequired", {
+				table: this._config.tableName,
+				columns: missingDefaultColumns.join(", ")
+			});
+		}
+
+		const migrationsTableName = this.getMigrationsTableName();
+		const id = Converter.bytesToHex(RandomHelper.generate(16));
+		const dateApplied = new Date().toISOString();
+
+		try {
+			const dbConnection = await this.createConnection();
+			await dbConnection.unsafe(
+				`CREATE TABLE IF NOT EXISTS "${migrationsTableName}" ("id" TEXT NOT NULL, "dateApplied" TEXT NOT NULL, "changes" JSONB NOT NULL, "statements" JSONB NOT NULL, PRIMARY KEY ("id"));`
+			);
+
+			// The changes and the record of the migration are applied together, so a failed
+			// statement leaves the table as it was
+			await dbConnection.begin(async sql => {
+				for (const statement of migration.statements) {
+					await sql.unsafe(statement);
+				}
+				await sql.unsafe(
+					`INSERT INTO "${migrationsTableName}" ("id", "dateApplied", "changes", "statements") VALUES ($1, $2, $3::jsonb, $4::jsonb);`,
+					[id, dateApplied, JSON.stringify(migration.changes), JSON.stringify(migration.statements)]
+				);
+			});
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"migrationFailed",
+				{ table: this._config.tableName },
+				err
+			);
+		}
+
+		return {
+			id,
+			dateApplied,
+			...migration
+		};
+	}
+
+	/**
+	 * Get the migrations which have been applied to the table.
+	 * @returns The migrations in the order they were applied.
+	 */
+	public async getMigrations(): Promise<IPostgreSqlEntityStorageMigration[]> {
+		const migrationsTableName = this.getMigrationsTableName();
+		try {
+			const dbConnection = await this.createConnection();
+			const tableExistsResult = await dbConnection.unsafe("SELECT to_regclass($1)", [
+				`"${migrationsTableName}"`
+			]);
+			if (!tableExistsResult[0].to_regclass) {
+				return [];
+			}
+
+			const rows = await dbConnection.unsafe(
+				`SELECT * FROM "${migrationsTableName}" ORDER BY "dateApplied" ASC;`
+			);
+			return rows.map(row => ({
+				id: row.id,
+				dateApplied: row.dateApplied,
+				changes: Is.string(row.changes) ? JSON.parse(row.changes) : row.changes,
+				statements: Is.string(row.statements) ? JSON.parse(row.statements) : row.statements
+			}));
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"migrationFailed",
+				{ table: this._config.tableName },
+				err
+			);
+		}
+	}
+
+	/**
+	 * Drop the table.
+	 * @returns Nothing.
+	 */
+	public async tableDrop(): Promise<void> {
+		try {
+			const dbConnection = await this.createConnection();
+			await dbConnection.unsafe(`DROP TABLE IF EXISTS "${this.getMigrationsTableName()}";`);
+			await dbConnection.unsafe(`DROP TABLE ${this._config.tableName};`);
+			await dbConnection.unsafe(
+				`DROP FUNCTION IF EXISTS "${this._config.tableName}_notify_change"();`
+			);
+		} catch {
+			// Ignore errors
+		}
+	}
+
+	/**
+	 * Add the clause to start after the entity the cursor was created from, an entity is after
+	 * the cursor if it has the same values for the leading sort keys and is after it for the next one.
+	 * PostgreSql sorts null values after all other values.
+	 * @param sortKeys The sort keys for the query.
+	 * @param cursorValues The values of the sort keys from the cursor.
+	 * @param whereClauses The where clauses to add the cursor clause to.
+	 * @param values The values to use in the query.
+	 * @internal
+	 */
+	private addCursorClause(
+		sortKeys: { property: keyof T; sortDirection: SortDirection }[],
+		cursorValues: unknown[],
+		whereClauses: string[],
+		values: unknown[]
+	): void {
+		const keyClauses: string[] = [];
+		for (let i = 0; i < sortKeys.length; i++) {
+			const clauses: string[] = [];
+			for (let j = 0; j < i; j++) {
+				const column = `"${String(sortKeys[j].property)}"`;
+				if (Is.null(cursorValues[j])) {
+					clauses.push(`${column} IS NULL`);
+				} else {
+					values.push(this.propertyToDbValue(cursorValues[j]));
+					clauses.push(`${column} = $${values.length}`);
+				}
+			}
+
+			const column = `"${String(sortKeys[i].property)}"`;
+			const ascending = sortKeys[i].sortDirection === SortDirection.Ascending;
+			if (Is.null(cursorValues[i])) {
+				clauses.push(ascending ? "FALSE" : `${column} IS NOT NULL`);
+			} else {
+				values.push(this.propertyToDbValue(cursorValues[i]));
+				clauses.push(
+					ascending
+						? `(${column} > $${values.length} OR ${column} IS NULL)`
+						: `${column} < $${values.length}`
+				);
+			}
+			keyClauses.push(`(${clauses.join(" AND ")})`);
+		}
+		whereClauses.push(`(${keyClauses.join(" OR ")})`);
+	}
+
+	/**
+	 * Add the clause to exclude the expired entities, if the schema supports expiry.
+	 * @param whereClauses The where clauses to add the expiry clause to.
+	 * @internal
+	 */
+	private addExpiryClause(whereClauses: string[]): void {
+		if (!Is.undefined(this._expiryProperty)) {
+			const expiryColumn = `"${String(this._expiryProperty)}"`;
+			whereClauses.push(
+				`(${expiryColumn} IS NULL OR ${expiryColumn} > ${EntityStorageExpiryHelper.now()})`
+			);
+		}
+	}
+
+	/**
+	 * Delete the expired entities from the table.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async removeExpired(): Promise<void> {
+		try {
+			const dbConnection = await this.createConnection();
+			await dbConnection.unsafe(
+				`DELETE FROM "${this._config.tableName}" WHERE "${String(this._expiryProperty)}" <= ${EntityStorageExpiryHelper.now()}`
+			);
+		} catch {
+			// The expired entities are removed the next time the sweep runs
+		}
+	}
+
+	/**
+	 * Get the name of the channel the changes to the table are notified on.
+	 * @returns The channel name.
+	 * @internal
+	 */
+	private getChangeChannel(): string {
+		return `${this._config.tableName}_changes`;
+	}
+
+	/**
+	 * Notify the subscriptions of a change from the table trigger.
+	 * @param payload The payload of the notification.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async notifyChange(payload: string): Promise<void> {
+		try {
+			const notification = JSON.parse(payload) as {
+				operation: string;
+				id: unknown;
+				entity?: Partial<T>;
+			};
+			const id = String(notification.id);
+			if (notification.operation === "DELETE") {
+				// The entity for a removal only contains the primary key and identity properties
+				await this._changeEmitter.notify({
+					type: EntityStorageChangeType.Removed,
+					id,
+					entity: notification.entity as T | undefined
+				});
+			} else {
+				// The notification only contains the id so that it stays within the payload size limit
+				const entity = await this.get(id);
+				if (!Is.undefined(entity)) {
+					await this._changeEmitter.notify({
+						type:
+							notification.operation === "INSERT"
+								? EntityStorageChangeType.Created
+								: EntityStorageChangeType.Updated,
+						id,
+						entity
+					});
+				}
+			}
+		} catch {
+			// A change which can not be retrieved is not notified
+		}
+	}
+
+	/**
+	 * Convert a row from the database in to an entity.
+	 * @param row The row to convert, it is updated in place.
+	 * @returns The converted row.
+	 * @internal
+	 */
+	private rowToEntity(row: { [key: string]: unknown }): { [key: string]: unknown } {
+		if (this._entitySchema.properties) {
+			for (const prop of this._entitySchema.properties) {
+				let propColumn = prop.property as string;
+				propColumn = propColumn.toLowerCase();
+				if (
+					(prop.type === EntitySchemaPropertyType.Object ||
+						prop.type === EntitySchemaPropertyType.Array) &&
+					typeof row[propColumn] === "string"
+				) {
+					const rowValue = JSON.parse(row[propColumn] as string);
+					delete row[propColumn];
+					row[prop.property as string] = rowValue;
+				}
+				if (row[propColumn] === null) {
+					row[prop.property as string] = undefined;
+				}
+			}
+		}
+		return row;
+	}
+
+	/**
+	 * Write the entity to the table, if an expected version is provided the existing entity
+	 * is only updated if it still has that version.
+	 * @param sql The connection to write the entity with.
+	 * @param id The id of the entity.
+	 * @param entity The entity to write.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 * @internal
+	 */
+	private async writeEntity(
+		sql: postgres.Sql,
+		id: string,
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): Promise<void> {
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const columns = Object.keys(entity as object)
+			.map(key => `"${key}"`)
+			.join(", ");
+		// eslint-disable-next-line no-confusing-arrow
+		const values = Object.values(entity as object).map(value =>
+			value === undefined ? null : value
+		);
+		const placeholders = values.map((_, index) => `$${index + 1}`).join(", ");
+
+		if (!Is.undefined(expectedVersion)) {
+			// The update only succeeds if the stored entity still has the expected version
+			values.push(id, expectedVersion);
+			const whereClauses: string[] = [
+				`"${primaryKey.property}" = $${values.length - 1}`,
+				`"${String(this._versionProperty)}" = $${values.length}`
+			];
+			if (Is.arrayValue(conditions)) {
+				for (const condition of conditions) {
+					values.push(condition.value);
+					whereClauses.push(`"${String(condition.property)}" = $${values.length}`);
+				}
+			}
+			const result = await sql.unsafe(
+				`UPDATE "${this._config.tableName}" SET ${columns
+					.split(", ")
+					.map((col, index) => `${col} = $${index + 1}`)
+					.join(", ")} WHERE ${whereClauses.join(" AND ")};`,
+				values
+			);
+			if (result.count === 0) {
+				throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+			}
+			return;
+		}
+
+		await sql.unsafe(
+			`INSERT INTO "${this._config.tableName}" (${columns}) VALUES (${placeholders}) ON CONFLICT ("${primaryKey.property}") DO UPDATE SET ${columns
+				.split(", ")
+				.map(col => `${col} = EXCLUDED.${col}`)
+				.join(", ")};`,
+			values
+		);
+	}
+
+	/**
+	 * Get the pool of connections, the pool opens the connections when they are needed and replaces
+	 * connections which have been dropped.
+	 * @returns The PostgreSql pool of connections.
+	 * @internal
+	 */
+	private async createConnection(): Promise<postgres.Sql> {
+		if (this._connection) {
+			return this._connection;
+		}
+		const newConnection = postgres(this.createConnectionConfig());
+		this._connection = newConnection;
+		return newConnection;
+	}
+
+	/**
+	 * Create a new DB connection configuration.
+	 * @returns The PostgreSql connection configuration.
+	 * @internal
+	 */
+	private createConnectionConfig(): postgres.Options<{ [key: string]: postgres.PostgresType }> {
+		const tls = this._config.tls;
+		return {
+			host: this._config.host,
+			port: this._config.port ?? 5432,
+			user: this._config.user,
+			password: this._config.password,
+			max: this._config.pool?.max ?? PostgreSqlEntityStorageConnector._POOL_MAX,
+			// The idle timeout for PostgreSql is in seconds
+			// eslint-disable-next-line camelcase
+			idle_timeout:
+				(this._config.pool?.idleTimeout ?? PostgreSqlEntityStorageConnector._POOL_IDLE_TIMEOUT) /
+				1000,
+			ssl: Is.undefined(tls)
+				? false
+				: {
+						rejectUnauthorized: tls.rejectUnauthorized ?? true,
+						ca: tls.ca,
+						cert: tls.cert,
+						key: tls.key
+					},
+			connection: Is.undefined(this._config.statementTimeout)
+				? undefined
+				: {
+						// eslint-disable-next-line camelcase
+						statement_timeout: this._config.statementTimeout
+					}
+		};
+	}
+
+	/**
+	 * Create an SQL condition clause.
+	 * @param objectPath The path for the nested object.
+	 * @param condition The conditions to create the query from.
+	 * @param whereClauses The where clauses to use in the query.
+	 * @param values The values to use in the query.
+	 * @internal
+	 */
+	private buildQueryParameters(
+		objectPath: string,
+		condition: EntityCondition<T> | undefined,
+		whereClauses: string[],
+		values: unknown[]
+	): void {
+		if (Is.undefined(condition)) {
+			return;
+		}
+
+		if ("conditions" in condition) {
+			if (condition.conditions.length === 0) {
+				return;
+			}
+			const joinConditions: string[] = condition.conditions.map(c => {
+				const subWhereClauses: string[] = [];
+				const subValues: unknown[] = [];
+				this.buildQueryParameters(objectPath, c, subWhereClauses, subValues);
+				values.push(...subValues);
+				return subWhereClauses.join(" AND ");
+			});
+
+			const logicalOperator = this.mapConditionalOperator(condition.logicalOperator);
+			const queryClause = joinConditions.filter(j => j.length > 0).join(` ${logicalOperator} `);
+
+			if (queryClause.length > 0) {
+				whereClauses.push(`(${queryClause})`);
+			}
+			return;
+		}
+
+		const schemaProp = this._entitySchema.properties?.find(p => p.property === condition.property);
+		const comparison = this.mapComparisonOperator(objectPath, condition, schemaProp?.type, values);
+		whereClauses.push(comparison);
+	}
+
+	/**
+	 * Map the framework comparison operators to those in MySQL.
 	 * @param objectPath The prefix to use for the condition.
 	 * @param comparator The operator to map.
 	 * @param type The type of the property.
@@ -607,12 +1648,357 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 	}
 
 	/**
-	 * Map entity schema properties to SQL properties.
-	 * @param entitySchema The schema of the entity.
-	 * @returns The SQL properties as a string.
-	 * @throws GeneralError if the entity properties do not exist.
+	 * Get the indexes for the schema, a B-tree index for each secondary index and sort property,
+	 * a GIN index for secondary index properties stored as JSONB and a compound index for the
+	 * default sort order. The primary key is already indexed by its constraint.
+	 * @returns The indexes, the definition is in the same form as read from the catalog.
+	 * @internal
 	 */
-	private mapPostgreSqlProperties(entitySchema: IEntitySchema<T>): string {
+	private getSchemaIndexes(): { name: string; definition: string }[] {
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const properties = this._entitySchema.properties ?? [];
+
+		const indexes: { name: string; column: string; definition: string }[] = [];
+
+		for (const property of properties) {
+			if (property.isSecondary && property.property !== primaryKey.property) {
+				const column = String(property.property);
+				const isJson =
+					property.type === EntitySchemaPropertyType.Object ||
+					property.type === EntitySchemaPropertyType.Array;
+				indexes.push({
+					name: this.getIndexName(`secondary_${column}`),
+					column,
+					definition: `USING ${isJson ? "GIN" : "BTREE"} ("${column}")`
+				});
+			}
+		}
+
+		const sortProperties = properties.filter(property => !Is.undefined(property.sortDirection));
+		if (sortProperties.length > 1) {
+			indexes.push({
+				name: this.getIndexName("sort"),
+				column: String(sortProperties[0].property),
+				definition: `USING BTREE (${sortProperties
+					.map(
+						property =>
+							`"${String(property.property)}"${this.mapSortDirection(property.sortDirection)}`
+					)
+					.join(", ")})`
+			});
+		}
+
+		// A B-tree index on a single column can be used for sorting in either direction,
+		// so a property which leads another B-tree index does not need its own index
+		for (const property of sortProperties) {
+			const column = String(property.property);
+			if (
+				column !== primaryKey.property &&
+				!indexes.some(
+					index => index.column === column && index.definition.startsWith("USING BTREE")
+				)
+			) {
+				indexes.push({
+					name: this.getIndexName(`sort_${column}`),
+					column,
+					definition: `USING BTREE ("${column}"${this.mapSortDirection(property.sortDirection)})`
+				});
+			}
+		}
+
+		return indexes.map(index => ({ name: index.name, definition: index.definition }));
+	}
+
+	/**
+	 * Map the sort direction to the SQL for an index, ascending is the default so is omitted.
+	 * @param sortDirection The sort direction.
+	 * @returns The SQL sort direction.
+	 * @internal
+	 */
+	private mapSortDirection(sortDirection?: SortDirection): string {
+		return sortDirection === SortDirection.Descending ? " DESC" : "";
+	}
+
+	/**
+	 * Get the prefix of the names of the indexes owned by the connector.
+	 * @returns The index name prefix.
+	 * @internal
+	 */
+	private getIndexNamePrefix(): string {
+		return `${this._config.tableName}_entity_`.slice(
+			0,
+			PostgreSqlEntityStorageConnector._INDEX_NAME_TRUNCATED_LENGTH
+		);
+	}
+
+	/**
+	 * Get the name of an index, names which are too long to be an identifier are shortened
+	 * and suffixed with a hash of the full name so they are not truncated by the database.
+	 * @param suffix The suffix of the index name.
+	 * @returns The index name.
+	 * @internal
+	 */
+	private getIndexName(suffix: string): string {
+		const name = `${this._config.tableName}_entity_${suffix}`;
+		if (Buffer.byteLength(name) <= PostgreSqlEntityStorageConnector._MAX_IDENTIFIER_LENGTH) {
+			return name;
+		}
+		const hash = createHash("sha256")
+			.update(name)
+			.digest("hex")
+			.slice(0, PostgreSqlEntityStorageConnector._INDEX_NAME_HASH_LENGTH);
+		return `${name.slice(0, PostgreSqlEntityStorageConnector._INDEX_NAME_TRUNCATED_LENGTH)}_${hash}`;
+	}
+
+	/**
+	 * Create the indexes for the schema which do not exist, replace those which have drifted from
+	 * the schema and remove those which are no longer in the schema.
+	 * @param dbConnection The connection to the database.
+	 * @param nodeLogging The logging connector to log the changes to.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async reconcileIndexes(
+		dbConnection: postgres.Sql,
+		nodeLogging: ILoggingConnector | undefined
+	): Promise<void> {
+		const prefix = this.getIndexNamePrefix();
+		// Build the definition of each index from the catalog in the same form as the schema
+		// indexes, the access method and the key columns in order with a DESC suffix for
+		// columns sorted in descending order
+		const existingIndexes = (await dbConnection.unsafe(
+			"SELECT c.relname AS \"name\", i.indisprimary AS \"isPrimary\", 'USING ' || upper(am.amname) || ' (' || (SELECT string_agg('\"' || a.attname || '\"' || CASE WHEN i.indoption[(k.n - 1)::int] & 1 = 1 THEN ' DESC' ELSE '' END, ', ' ORDER BY k.n) FROM unnest(i.indkey::int2[]) WITH ORDINALITY AS k(attnum, n) JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum) || ')' AS \"definition\" FROM pg_index i JOIN pg_class c ON c.oid = i.indexrelid JOIN pg_am am ON am.oid = c.relam WHERE i.indrelid = to_regclass($1)",
+			[`"${this._config.tableName}"`]
+		)) as unknown as { name: string; definition: string | null; isPrimary: boolean }[];
+		const schemaIndexes = this.getSchemaIndexes();
+
+		for (const schemaIndex of schemaIndexes) {
+			const existingIndex = existingIndexes.find(index => index.name === schemaIndex.name);
+			const matches =
+				!Is.undefined(existingIndex) && existingIndex.definition === schemaIndex.definition;
+
+			if (!matches && !Is.undefined(existingIndex)) {
+				await nodeLogging?.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexDrift",
+					data: {
+						table: this._config.tableName,
+						index: schemaIndex.name,
+						existingDefinition: existingIndex.definition,
+						definition: schemaIndex.definition
+					}
+				});
+				await dbConnection.unsafe(`DROP INDEX IF EXISTS "${schemaIndex.name}";`);
+			}
+
+			if (!matches) {
+				await dbConnection.unsafe(
+					`CREATE INDEX IF NOT EXISTS "${schemaIndex.name}" ON "${this._config.tableName}" ${schemaIndex.definition};`
+				);
+				await nodeLogging?.log({
+					level: "info",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexCreated",
+					data: {
+						table: this._config.tableName,
+						index: schemaIndex.name
+					}
+				});
+			}
+		}
+
+		for (const existingIndex of existingIndexes) {
+			// The primary key index can share the prefix when the table name is long
+			if (!existingIndex.isPrimary && existingIndex.name.startsWith(prefix)) {
+				if (!schemaIndexes.some(index => index.name === existingIndex.name)) {
+					await dbConnection.unsafe(`DROP INDEX IF EXISTS "${existingIndex.name}";`);
+					await nodeLogging?.log({
+						level: "warn",
+						source: this.CLASS_NAME,
+						ts: Date.now(),
+						message: "indexRemoved",
+						data: {
+							table: this._config.tableName,
+							index: existingIndex.name
+						}
+					});
+				}
+			} else if (!existingIndex.isPrimary) {
+				// Indexes created outside of the connector are left in place, but may be a sign
+				// of the schema and the table drifting apart
+				await nodeLogging?.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					ts: Date.now(),
+					message: "indexUnmanaged",
+					data: {
+						table: this._config.tableName,
+						index: existingIndex.name
+					}
+				});
+			}
+		}
+	}
+
+	/**
+	 * Get the name of the table which records the migrations.
+	 * @returns The name of the migrations table.
+	 * @internal
+	 */
+	private getMigrationsTableName(): string {
+		return `${this._config.tableName}_migrations`;
+	}
+
+	/**
+	 * Create the migration by comparing the columns in the table with the properties in the schema.
+	 * @param defaultValues The values for the existing rows of required columns, keyed by column.
+	 * @returns The migration.
+	 * @internal
+	 */
+	private async createMigration(defaultValues?: {
+		[column: string]: unknown;
+	}): Promise<IPostgreSqlEntityStorageMigration> {
+		const dbConnection = await this.createConnection();
+		const columns = (await dbConnection.unsafe(
+			'SELECT column_name AS "name", data_type AS "type", is_nullable AS "nullable" FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = $1',
+			[this._config.tableName]
+		)) as unknown as { name: string; type: string; nullable: string }[];
+
+		const table = `"${this._config.tableName}"`;
+		const hasRowsResult = await dbConnection.unsafe(
+			`SELECT EXISTS (SELECT 1 FROM ${table}) AS "hasRows"`
+		);
+		const hasRows = hasRowsResult[0]?.hasRows === true;
+		const changes: IPostgreSqlEntityStorageMigrationChange[] = [];
+		const statements: string[] = [];
+
+		for (const property of this._entitySchema.properties ?? []) {
+			const column = String(property.property);
+			const sqlType = this.mapPostgreSqlType(property);
+			const definition = `${sqlType}${property.optional ? " NULL" : " NOT NULL"}`;
+			const existingColumn = columns.find(c => c.name === column);
+
+			if (Is.undefined(existingColumn)) {
+				const setExistingRows = !property.optional && hasRows;
+				changes.push({
+					column,
+					type: PostgreSqlEntityStorageMigrationChangeType.Added,
+					definition,
+					destructive: setExistingRows
+				});
+				if (setExistingRows) {
+					// The existing rows need a value before the column can be made required
+					statements.push(`ALTER TABLE ${table} ADD COLUMN "${column}" ${sqlType} NULL;`);
+					if (!Is.undefined(defaultValues?.[column])) {
+						statements.push(
+							`UPDATE ${table} SET "${column}" = ${this.formatSqlLiteral(defaultValues[column], sqlType)};`
+						);
+					}
+					statements.push(`ALTER TABLE ${table} ALTER COLUMN "${column}" SET NOT NULL;`);
+				} else {
+					statements.push(`ALTER TABLE ${table} ADD COLUMN "${column}" ${definition};`);
+				}
+			} else {
+				const existingType = existingColumn.type.toUpperCase();
+				const existingOptional = existingColumn.nullable === "YES";
+				const existingDefinition = `${existingType}${existingOptional ? " NULL" : " NOT NULL"}`;
+
+				if (existingDefinition !== definition) {
+					changes.push({
+						column,
+						type: PostgreSqlEntityStorageMigrationChangeType.Altered,
+						existingDefinition,
+						definition,
+						destructive: existingType !== sqlType || (existingOptional && !property.optional)
+					});
+					if (existingType !== sqlType) {
+						statements.push(
+							`ALTER TABLE ${table} ALTER COLUMN "${column}" TYPE ${sqlType} USING "${column}"::${sqlType};`
+						);
+					}
+					if (existingOptional && !property.optional && !Is.undefined(defaultValues?.[column])) {
+						statements.push(
+							`UPDATE ${table} SET "${column}" = ${this.formatSqlLiteral(defaultValues[column], sqlType)} WHERE "${column}" IS NULL;`
+						);
+					}
+					if (existingOptional !== (property.optional ?? false)) {
+						statements.push(
+							`ALTER TABLE ${table} ALTER COLUMN "${column}" ${property.optional ? "DROP" : "SET"} NOT NULL;`
+						);
+					}
+				}
+			}
+		}
+
+		for (const existingColumn of columns) {
+			if (!this._entitySchema.properties?.some(p => p.property === existingColumn.name)) {
+				changes.push({
+					column: existingColumn.name,
+					type: PostgreSqlEntityStorageMigrationChangeType.Removed,
+					existingDefinition: `${existingColumn.type.toUpperCase()}${existingColumn.nullable === "YES" ? " NULL" : " NOT NULL"}`,
+					destructive: true
+				});
+				statements.push(`ALTER TABLE ${table} DROP COLUMN "${existingColumn.name}";`);
+			}
+		}
+
+		return {
+			changes,
+			statements
+		};
+	}
+
+	/**
+	 * Mark the results for the entities in a batch which could not be set as failed.
+	 * @param results The results for the batch.
+	 * @param entities The entities which could not be set.
+	 * @param err The error which caused the failure.
+	 * @internal
+	 */
+	private setBatchFailed(
+		results: IEntityStorageBatchResult<T>[],
+		entities: { index: number }[],
+		err: unknown
+	): void {
+		for (const e of entities) {
+			const result = results[e.index];
+			result.success = false;
+			result.error = new GeneralError(
+				this.CLASS_NAME,
+				"setFailed",
+				{ id: result.id },
+				err
+			).toJsonObject();
+		}
+	}
+
+	/**
+	 * Format a value as a literal for a statement, the statements are recorded with the migration
+	 * so the value can not be a parameter.
+	 * @param value The value to format.
+	 * @param sqlType The SQL type of the column.
+	 * @returns The literal.
+	 * @internal
+	 */
+	private formatSqlLiteral(value: unknown, sqlType: string): string {
+		if (sqlType === "JSONB") {
+			return `'${JSON.stringify(value).replace(/'/g, "''")}'::jsonb`;
+		} else if (Is.number(value) || Is.boolean(value)) {
+			return String(value);
+		}
+		return `'${String(value).replace(/'/g, "''")}'`;
+	}
+
+	/**
+	 * Map the property to its SQL type.
+	 * @param property The property to map.
+	 * @returns The SQL type.
+	 * @internal
+	 */
+	private mapPostgreSqlType(property: IEntitySchemaProperty<T>): string {
 		const sqlTypeMap: { [key in EntitySchemaPropertyType]: string } = {
 			[EntitySchemaPropertyType.String]: "TEXT",
 			[EntitySchemaPropertyType.Number]: "REAL",
@@ -621,7 +2007,16 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 			[EntitySchemaPropertyType.Array]: "JSONB",
 			[EntitySchemaPropertyType.Boolean]: "BOOLEAN"
 		};
+		return sqlTypeMap[property.type] || "TEXT";
+	}
 
+	/**
+	 * Map entity schema properties to SQL properties.
+	 * @param entitySchema The schema of the entity.
+	 * @returns The SQL properties as a string.
+	 * @throws GeneralError if the entity properties do not exist.
+	 */
+	private mapPostgreSqlProperties(entitySchema: IEntitySchema<T>): string {
 		if (!entitySchema.properties) {
 			throw new GeneralError(this.CLASS_NAME, "entitySchemaPropertiesUndefined");
 		}
@@ -630,7 +2025,7 @@ export class PostgreSqlEntityStorageConnector<T = unknown> implements IEntitySto
 
 		const columnDefinitions = entitySchema.properties
 			.map(prop => {
-				const sqlType = sqlTypeMap[prop.type] || "TEXT";
+				const sqlType = this.mapPostgreSqlType(prop);
 				const columnName = String(prop.property);
 				const nullable = prop.optional ? " NULL" : " NOT NULL";
 
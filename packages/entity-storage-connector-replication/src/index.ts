@@ -0,0 +1,8 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+export * from "./replicationEntityStorageConnector";
+export * from "./models/IReplicationEntityStorageConnectorConfig";
+export * from "./models/IReplicationEntityStorageConnectorConstructorOptions";
+export * from "./models/IReplicationEntityStorageDivergence";
+export * from "./models/replicationEntityStorageDivergenceType";
+export * from "./models/replicationEntityStorageMode";
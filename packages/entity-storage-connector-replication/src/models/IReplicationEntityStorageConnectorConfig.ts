@@ -0,0 +1,42 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { ReplicationEntityStorageMode } from "./replicationEntityStorageMode";
+
+/**
+ * Configuration for the Replication Entity Storage Connector.
+ */
+export interface IReplicationEntityStorageConnectorConfig {
+	/**
+	 * The type of the entity storage connector registered in the factory which is written to
+	 * first and read from.
+	 */
+	primaryEntityStorageConnectorType: string;
+
+	/**
+	 * The types of the entity storage connectors registered in the factory which the changes
+	 * are replicated to.
+	 */
+	secondaryEntityStorageConnectorTypes: string[];
+
+	/**
+	 * How the changes are replicated to the secondary connectors, defaults to sync.
+	 */
+	mode?: ReplicationEntityStorageMode;
+
+	/**
+	 * Read from the secondary connectors in order if a read from the primary connector fails,
+	 * defaults to false.
+	 */
+	readFallback?: boolean;
+
+	/**
+	 * The interval in milliseconds to retry the failed replications at once the connector
+	 * is started, defaults to 5000.
+	 */
+	retryInterval?: number;
+
+	/**
+	 * The maximum number of times to retry a failed replication before giving up, defaults to 10.
+	 */
+	maxRetries?: number;
+}
@@ -0,0 +1,18 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IReplicationEntityStorageConnectorConfig } from "./IReplicationEntityStorageConnectorConfig";
+
+/**
+ * Options for the Replication Entity Storage Connector constructor.
+ */
+export interface IReplicationEntityStorageConnectorConstructorOptions {
+	/**
+	 * The name of the entity schema.
+	 */
+	entitySchema: string;
+
+	/**
+	 * The configuration for the connector.
+	 */
+	config: IReplicationEntityStorageConnectorConfig;
+}
@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { ReplicationEntityStorageDivergenceType } from "./replicationEntityStorageDivergenceType";
+
+/**
+ * A divergence between the primary and a secondary connector.
+ */
+export interface IReplicationEntityStorageDivergence {
+	/**
+	 * The id of the entity which has diverged.
+	 */
+	id: string;
+
+	/**
+	 * The type of the secondary connector which has diverged.
+	 */
+	entityStorageConnectorType: string;
+
+	/**
+	 * The type of divergence.
+	 */
+	type: ReplicationEntityStorageDivergenceType;
+}
@@ -0,0 +1,29 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The types of divergence between the primary and a secondary connector.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const ReplicationEntityStorageDivergenceType = {
+	/**
+	 * The entity is in the primary connector but not the secondary connector.
+	 */
+	Missing: "missing",
+
+	/**
+	 * The entity in the secondary connector is different to the one in the primary connector.
+	 */
+	Different: "different",
+
+	/**
+	 * The entity is in the secondary connector but not the primary connector.
+	 */
+	Unexpected: "unexpected"
+} as const;
+
+/**
+ * The types of divergence between the primary and a secondary connector.
+ */
+export type ReplicationEntityStorageDivergenceType =
+	(typeof ReplicationEntityStorageDivergenceType)[keyof typeof ReplicationEntityStorageDivergenceType];
@@ -0,0 +1,24 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The modes for replicating the changes to the secondary connectors.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const ReplicationEntityStorageMode = {
+	/**
+	 * The changes are replicated before the write returns.
+	 */
+	Sync: "sync",
+
+	/**
+	 * The changes are queued and replicated in the background after the write returns.
+	 */
+	Async: "async"
+} as const;
+
+/**
+ * The modes for replicating the changes to the secondary connectors.
+ */
+export type ReplicationEntityStorageMode =
+	(typeof ReplicationEntityStorageMode)[keyof typeof ReplicationEntityStorageMode];
@@ -0,0 +1,786 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { BaseError, Guards, Is, ObjectHelper } from "@twin.org/core";
+import {
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	type EntityCondition,
+	type IEntitySchema,
+	type IEntitySchemaProperty,
+	type SortDirection
+} from "@twin.org/entity";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionHelper,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { LoggingConnectorFactory, type ILogEntry } from "@twin.org/logging-models";
+import { nameof } from "@twin.org/nameof";
+import type { IReplicationEntityStorageConnectorConstructorOptions } from "./models/IReplicationEntityStorageConnectorConstructorOptions";
+import type { IReplicationEntityStorageDivergence } from "./models/IReplicationEntityStorageDivergence";
+import { ReplicationEntityStorageDivergenceType } from "./models/replicationEntityStorageDivergenceType";
+import { ReplicationEntityStorageMode } from "./models/replicationEntityStorageMode";
+
+/**
+ * Class for performing entity storage operations which writes the entities to a primary
+ * entity storage connector and replicates the changes to secondary entity storage connectors.
+ * The state of each changed entity is read back from the primary connector and written to the
+ * secondary connectors, so replicating the same change more than once is safe and the
+ * secondary connectors converge on the primary even if the replications are retried.
+ */
+export class ReplicationEntityStorageConnector<T = unknown> implements IEntityStorageConnector<T> {
+	/**
+	 * Default interval in milliseconds to retry the failed replications at.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_RETRY_INTERVAL: number = 5000;
+
+	/**
+	 * Default maximum number of times to retry a failed replication.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_MAX_RETRIES: number = 10;
+
+	/**
+	 * Default page size to use when checking for divergence.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_PAGE_SIZE: number = 100;
+
+	/**
+	 * Runtime name for the class.
+	 */
+	public readonly CLASS_NAME: string = nameof<ReplicationEntityStorageConnector>();
+
+	/**
+	 * The schema for the entity.
+	 * @internal
+	 */
+	private readonly _entitySchema: IEntitySchema<T>;
+
+	/**
+	 * The primary key.
+	 * @internal
+	 */
+	private readonly _primaryKey: IEntitySchemaProperty<T>;
+
+	/**
+	 * The version property, which is ignored when checking for divergence as each connector
+	 * generates its own versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The entity storage connector which is written to first and read from.
+	 * @internal
+	 */
+	private readonly _primaryEntityStorage: IEntityStorageConnector<T>;
+
+	/**
+	 * The entity storage connectors the changes are replicated to, by type.
+	 * @internal
+	 */
+	private readonly _secondaryEntityStorages: Map<string, IEntityStorageConnector<T>>;
+
+	/**
+	 * How the changes are replicated to the secondary connectors.
+	 * @internal
+	 */
+	private readonly _mode: ReplicationEntityStorageMode;
+
+	/**
+	 * Read from the secondary connectors if a read from the primary connector fails.
+	 * @internal
+	 */
+	private readonly _readFallback: boolean;
+
+	/**
+	 * The interval in milliseconds to retry the failed replications at.
+	 * @internal
+	 */
+	private readonly _retryInterval: number;
+
+	/**
+	 * The maximum number of times to retry a failed replication.
+	 * @internal
+	 */
+	private readonly _maxRetries: number;
+
+	/**
+	 * The ids of the entities waiting to be replicated and the number of attempts made,
+	 * by secondary connector type.
+	 * @internal
+	 */
+	private readonly _pending: Map<string, Map<string, number>>;
+
+	/**
+	 * The last pass of replicating the pending entities, each pass waits for the previous one
+	 * so the pending entities are never replicated concurrently.
+	 * @internal
+	 */
+	private _pendingPass?: Promise<void>;
+
+	/**
+	 * The timer to retry the failed replications.
+	 * @internal
+	 */
+	private _retryTimer?: ReturnType<typeof setInterval>;
+
+	/**
+	 * The node logging connector type to log the replication failures to.
+	 * @internal
+	 */
+	private _nodeLoggingConnectorType?: string;
+
+	/**
+	 * Create a new instance of ReplicationEntityStorageConnector.
+	 * @param options The options for the connector.
+	 */
+	constructor(options: IReplicationEntityStorageConnectorConstructorOptions) {
+		Guards.object(this.CLASS_NAME, nameof(options), options);
+		Guards.stringValue(this.CLASS_NAME, nameof(options.entitySchema), options.entitySchema);
+		Guards.object(this.CLASS_NAME, nameof(options.config), options.config);
+		Guards.stringValue(
+			this.CLASS_NAME,
+			nameof(options.config.primaryEntityStorageConnectorType),
+			options.config.primaryEntityStorageConnectorType
+		);
+		Guards.arrayValue<string>(
+			this.CLASS_NAME,
+			nameof(options.config.secondaryEntityStorageConnectorTypes),
+			options.config.secondaryEntityStorageConnectorTypes
+		);
+		if (!Is.undefined(options.config.mode)) {
+			Guards.arrayOneOf<ReplicationEntityStorageMode>(
+				this.CLASS_NAME,
+				nameof(options.config.mode),
+				options.config.mode,
+				Object.values(ReplicationEntityStorageMode)
+			);
+		}
+		if (!Is.undefined(options.config.retryInterval)) {
+			Guards.integer(
+				this.CLASS_NAME,
+				nameof(options.config.retryInterval),
+				options.config.retryInterval
+			);
+		}
+		if (!Is.undefined(options.config.maxRetries)) {
+			Guards.integer(this.CLASS_NAME, nameof(options.config.maxRetries), options.config.maxRetries);
+		}
+
+		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._primaryEntityStorage = EntityStorageConnectorFactory.get<IEntityStorageConnector<T>>(
+			options.config.primaryEntityStorageConnectorType
+		);
+		this._secondaryEntityStorages = new Map();
+		for (const secondaryType of options.config.secondaryEntityStorageConnectorTypes) {
+			this._secondaryEntityStorages.set(
+				secondaryType,
+				EntityStorageConnectorFactory.get<IEntityStorageConnector<T>>(secondaryType)
+			);
+		}
+		this._mode = options.config.mode ?? ReplicationEntityStorageMode.Sync;
+		this._readFallback = options.config.readFallback ?? false;
+		this._retryInterval =
+			options.config.retryInterval ?? ReplicationEntityStorageConnector._DEFAULT_RETRY_INTERVAL;
+		this._maxRetries =
+			options.config.maxRetries ?? ReplicationEntityStorageConnector._DEFAULT_MAX_RETRIES;
+		this._pending = new Map();
+	}
+
+	/**
+	 * The component needs to be started when the node is initialized.
+	 * @param nodeIdentity The identity of the node starting the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async start(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		this._nodeLoggingConnectorType = nodeLoggingConnectorType;
+		if (Is.undefined(this._retryTimer)) {
+			this._retryTimer = setInterval(async () => this.processPending(), this._retryInterval);
+		}
+	}
+
+	/**
+	 * The component needs to be stopped when the node is closed, the pending replications
+	 * are attempted once more before it stops.
+	 * @param nodeIdentity The identity of the node stopping the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async stop(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._retryTimer)) {
+			clearInterval(this._retryTimer);
+			this._retryTimer = undefined;
+		}
+		await this.processPending();
+	}
+
+	/**
+	 * Get the schema for the entities.
+	 * @returns The schema for the entities.
+	 */
+	public getSchema(): IEntitySchema {
+		return this._entitySchema as IEntitySchema;
+	}
+
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return this._primaryEntityStorage.getCapabilities();
+	}
+
+	/**
+	 * Get an entity from the primary connector.
+	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
+	 * @param secondaryIndex Get the item using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The object if it can be found or undefined.
+	 */
+	public async get(
+		id: string,
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<T | undefined> {
+		return this.read(async entityStorage => entityStorage.get(id, secondaryIndex, conditions));
+	}
+
+	/**
+	 * Set an entity in the primary connector and replicate it to the secondary connectors.
+	 * @param entity The entity to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
+	 * @returns The id of the entity.
+	 */
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
+		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
+
+		await this._primaryEntityStorage.set(entity, conditions, expectedVersion, timeToLive);
+		await this.replicate([entity[this._primaryKey.property] as string]);
+	}
+
+	/**
+	 * Remove the entity from the primary connector and replicate the removal to the secondary connectors.
+	 * @param id The id of the entity to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns Nothing.
+	 */
+	public async remove(
+		id: string,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		await this._primaryEntityStorage.remove(id, conditions, expectedVersion);
+		await this.replicate([id]);
+	}
+
+	/**
+	 * Update the properties of an entity in the primary connector and replicate it to the secondary connectors.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		await this._primaryEntityStorage.patch(id, patch, conditions);
+		await this.replicate([id]);
+	}
+
+	/**
+	 * Set multiple entities in the primary connector and replicate the successful ones to the secondary connectors.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		const results = await this._primaryEntityStorage.setBatch(entities, conditions);
+		await this.replicate(results.filter(result => result.success).map(result => result.id));
+		return results;
+	}
+
+	/**
+	 * Get multiple entities from the primary connector.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		return this.read(async entityStorage =>
+			entityStorage.getBatch(ids, secondaryIndex, conditions)
+		);
+	}
+
+	/**
+	 * Remove multiple entities from the primary connector and replicate the successful removals to the secondary connectors.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		const results = await this._primaryEntityStorage.removeBatch(ids, conditions);
+		await this.replicate(results.filter(result => result.success).map(result => result.id));
+		return results;
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically in the primary connector and
+	 * replicate the changed entities to the secondary connectors, the secondary connectors
+	 * are updated using batches so are not updated atomically.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		Guards.array<IEntityStorageTransactionOperation<T>>(
+			this.CLASS_NAME,
+			nameof(operations),
+			operations
+		);
+
+		await this._primaryEntityStorage.transaction(operations);
+		await this.replicate(
+			operations.map(operation =>
+				EntityStorageTransactionHelper.getOperationId(operation, this._primaryKey.property)
+			)
+		);
+	}
+
+	/**
+	 * Subscribe to the changes made to entities in the primary connector.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		return this._primaryEntityStorage.subscribe(conditions, callback);
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities in the primary connector.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		return this._primaryEntityStorage.unsubscribe(subscriptionId);
+	}
+
+	/**
+	 * Count all the entities in the primary connector which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		return this.read(async entityStorage => entityStorage.count(conditions));
+	}
+
+	/**
+	 * Find all the entities in the primary connector which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @param sortProperties The optional sort order.
+	 * @param properties The optional properties to return, defaults to all.
+	 * @param cursor The cursor to request the next page of entities.
+	 * @param pageSize The suggested number of entities to return in each chunk, in some scenarios can return a different amount.
+	 * @returns All the entities for the storage matching the conditions,
+	 * and a cursor which can be used to request more entities.
+	 */
+	public async query(
+		conditions?: EntityCondition<T>,
+		sortProperties?: {
+			property: keyof T;
+			sortDirection: SortDirection;
+		}[],
+		properties?: (keyof T)[],
+		cursor?: string,
+		pageSize?: number
+	): Promise<{
+		/**
+		 * The entities, which can be partial if a limited keys list was provided.
+		 */
+		entities: Partial<T>[];
+		/**
+		 * An optional cursor, when defined can be used to call find to get more entities.
+		 */
+		cursor?: string;
+	}> {
+		return this.read(async entityStorage =>
+			entityStorage.query(conditions, sortProperties, properties, cursor, pageSize)
+		);
+	}
+
+	/**
+	 * Get the number of entities waiting to be replicated to the secondary connectors.
+	 * @returns The number of pending replications, an entity is counted once for each secondary connector.
+	 */
+	public getPendingCount(): number {
+		let count = 0;
+		for (const pendingIds of this._pending.values()) {
+			count += pendingIds.size;
+		}
+		return count;
+	}
+
+	/**
+	 * Replicate the pending entities to the secondary connectors now, instead of waiting
+	 * for the retry interval.
+	 * @returns The number of pending replications which still failed.
+	 */
+	public async flush(): Promise<number> {
+		await this.processPending();
+		return this.getPendingCount();
+	}
+
+	/**
+	 * Compare all the entities in the primary connector with those in the secondary connectors,
+	 * the version property is ignored as each connector generates its own versions.
+	 * @param pageSize The number of entities to compare in each page, defaults to 100.
+	 * @returns The divergences found between the primary and secondary connectors.
+	 */
+	public async checkDivergence(pageSize?: number): Promise<IReplicationEntityStorageDivergence[]> {
+		const finalPageSize = pageSize ?? ReplicationEntityStorageConnector._DEFAULT_PAGE_SIZE;
+		const divergences: IReplicationEntityStorageDivergence[] = [];
+		const primaryIds = new Set<string>();
+
+		let cursor: string | undefined;
+		do {
+			const page = await this._primaryEntityStorage.query(
+				undefined,
+				undefined,
+				undefined,
+				cursor,
+				finalPageSize
+			);
+			const entities = page.entities as T[];
+			const ids = entities.map(entity => entity[this._primaryKey.property] as string);
+			for (const id of ids) {
+				primaryIds.add(id);
+			}
+
+			for (const [secondaryType, secondaryEntityStorage] of this._secondaryEntityStorages) {
+				const secondaryResults = await secondaryEntityStorage.getBatch(ids);
+				for (let i = 0; i < entities.length; i++) {
+					const secondaryEntity = secondaryResults[i].entity;
+					if (Is.undefined(secondaryEntity)) {
+						divergences.push({
+							id: ids[i],
+							entityStorageConnectorType: secondaryType,
+							type: ReplicationEntityStorageDivergenceType.Missing
+						});
+					} else if (!this.isEqual(entities[i], secondaryEntity)) {
+						divergences.push({
+							id: ids[i],
+							entityStorageConnectorType: secondaryType,
+							type: ReplicationEntityStorageDivergenceType.Different
+						});
+					}
+				}
+			}
+			cursor = page.cursor;
+		} while (Is.stringValue(cursor));
+
+		for (const [secondaryType, secondaryEntityStorage] of this._secondaryEntityStorages) {
+			do {
+				const page = await secondaryEntityStorage.query(
+					undefined,
+					undefined,
+					[this._primaryKey.property],
+					cursor,
+					finalPageSize
+				);
+				for (const entity of page.entities) {
+					const id = entity[this._primaryKey.property] as string;
+					if (!primaryIds.has(id)) {
+						divergences.push({
+							id,
+							entityStorageConnectorType: secondaryType,
+							type: ReplicationEntityStorageDivergenceType.Unexpected
+						});
+					}
+				}
+				cursor = page.cursor;
+			} while (Is.stringValue(cursor));
+		}
+
+		if (divergences.length > 0) {
+			await this.log({
+				level: "warn",
+				source: this.CLASS_NAME,
+				message: "divergenceFound",
+				data: {
+					count: divergences.length
+				}
+			});
+		}
+
+		return divergences;
+	}
+
+	/**
+	 * Read from the primary connector, falling back to the secondary connectors if enabled.
+	 * @param action The read to perform on a connector.
+	 * @returns The result of the read.
+	 * @internal
+	 */
+	private async read<U>(
+		action: (entityStorage: IEntityStorageConnector<T>) => Promise<U>
+	): Promise<U> {
+		try {
+			return await action(this._primaryEntityStorage);
+		} catch (err) {
+			if (!this._readFallback) {
+				throw err;
+			}
+
+			for (const [secondaryType, secondaryEntityStorage] of this._secondaryEntityStorages) {
+				try {
+					const result = await action(secondaryEntityStorage);
+					await this.log({
+						level: "warn",
+						source: this.CLASS_NAME,
+						message: "primaryReadFailed",
+						data: {
+							entityStorageConnectorType: secondaryType
+						},
+						error: BaseError.fromError(err)
+					});
+					return result;
+				} catch {
+					// Try the next secondary connector.
+				}
+			}
+
+			throw err;
+		}
+	}
+
+	/**
+	 * Replicate the changed entities to the secondary connectors, in sync mode the failed
+	 * replications are queued to retry and in async mode all the replications are queued.
+	 * @param ids The ids of the changed entities.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async replicate(ids: string[]): Promise<void> {
+		if (ids.length === 0) {
+			return;
+		}
+
+		if (this._mode === ReplicationEntityStorageMode.Async) {
+			for (const secondaryType of this._secondaryEntityStorages.keys()) {
+				for (const id of ids) {
+					this.addPending(secondaryType, id, 0);
+				}
+			}
+			setTimeout(async () => this.processPending(), 0);
+			return;
+		}
+
+		for (const secondaryType of this._secondaryEntityStorages.keys()) {
+			const failedIds = await this.replicateTo(secondaryType, ids);
+			for (const id of failedIds) {
+				this.addPending(secondaryType, id, 1);
+			}
+		}
+	}
+
+	/**
+	 * Replicate the current state of the entities in the primary connector to a secondary connector.
+	 * @param secondaryType The type of the secondary connector.
+	 * @param ids The ids of the entities to replicate.
+	 * @returns The ids of the entities which failed to replicate.
+	 * @internal
+	 */
+	private async replicateTo(secondaryType: string, ids: string[]): Promise<string[]> {
+		const secondaryEntityStorage = this._secondaryEntityStorages.get(secondaryType);
+		if (Is.undefined(secondaryEntityStorage)) {
+			return [];
+		}
+
+		try {
+			const primaryResults = await this._primaryEntityStorage.getBatch(ids);
+			const failedIds = primaryResults.filter(result => !result.success).map(result => result.id);
+			const setEntities: T[] = [];
+			const removeIds: string[] = [];
+			for (const primaryResult of primaryResults) {
+				if (primaryResult.success) {
+					if (Is.undefined(primaryResult.entity)) {
+						removeIds.push(primaryResult.id);
+					} else {
+						setEntities.push(primaryResult.entity);
+					}
+				}
+			}
+
+			const secondaryResults = [
+				...(setEntities.length > 0 ? await secondaryEntityStorage.setBatch(setEntities) : []),
+				...(removeIds.length > 0 ? await secondaryEntityStorage.removeBatch(removeIds) : [])
+			];
+			for (const secondaryResult of secondaryResults) {
+				if (!secondaryResult.success) {
+					failedIds.push(secondaryResult.id);
+				}
+			}
+
+			if (failedIds.length > 0) {
+				await this.log({
+					level: "warn",
+					source: this.CLASS_NAME,
+					message: "replicationRetrying",
+					data: {
+						entityStorageConnectorType: secondaryType,
+						count: failedIds.length
+					}
+				});
+			}
+			return failedIds;
+		} catch (err) {
+			await this.log({
+				level: "warn",
+				source: this.CLASS_NAME,
+				message: "replicationRetrying",
+				data: {
+					entityStorageConnectorType: secondaryType,
+					count: ids.length
+				},
+				error: BaseError.fromError(err)
+			});
+			return ids;
+		}
+	}
+
+	/**
+	 * Add an entity to the pending replications, unless it is already pending.
+	 * @param secondaryType The type of the secondary connector.
+	 * @param id The id of the entity.
+	 * @param attempts The number of attempts made to replicate the entity.
+	 * @internal
+	 */
+	private addPending(secondaryType: string, id: string, attempts: number): void {
+		let pendingIds = this._pending.get(secondaryType);
+		if (Is.undefined(pendingIds)) {
+			pendingIds = new Map();
+			this._pending.set(secondaryType, pendingIds);
+		}
+		if (!pendingIds.has(id)) {
+			pendingIds.set(id, attempts);
+		}
+	}
+
+	/**
+	 * Replicate the pending entities once the previous pass has completed.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async processPending(): Promise<void> {
+		const pass = this.replicatePending(this._pendingPass);
+		this._pendingPass = pass;
+		await pass;
+	}
+
+	/**
+	 * Replicate the pending entities, giving up on those which have reached the maximum retries.
+	 * @param previousPass The previous pass to wait for.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async replicatePending(previousPass: Promise<void> | undefined): Promise<void> {
+		await previousPass;
+
+		for (const [secondaryType, pendingIds] of this._pending) {
+			const attempts = new Map(pendingIds);
+			pendingIds.clear();
+
+			const failedIds = await this.replicateTo(secondaryType, Array.from(attempts.keys()));
+			for (const id of failedIds) {
+				const idAttempts = (attempts.get(id) ?? 0) + 1;
+				if (idAttempts > this._maxRetries) {
+					await this.log({
+						level: "error",
+						source: this.CLASS_NAME,
+						message: "replicationFailed",
+						data: {
+							entityStorageConnectorType: secondaryType,
+							id
+						}
+					});
+				} else {
+					this.addPending(secondaryType, id, idAttempts);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Are the entities equal, ignoring the version property.
+	 * @param entity1 The first entity.
+	 * @param entity2 The second entity.
+	 * @returns True if the entities are equal.
+	 * @internal
+	 */
+	private isEqual(entity1: T, entity2: T): boolean {
+		const omitProperties = Is.undefined(this._versionProperty) ? [] : [this._versionProperty];
+		return ObjectHelper.equal(
+			ObjectHelper.omit(entity1, omitProperties),
+			ObjectHelper.omit(entity2, omitProperties),
+			false
+		);
+	}
+
+	/**
+	 * Log an entry to the node logging connector.
+	 * @param logEntry The entry to log.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async log(logEntry: ILogEntry): Promise<void> {
+		const nodeLogging = LoggingConnectorFactory.getIfExists(
+			this._nodeLoggingConnectorType ?? "node-logging"
+		);
+		await nodeLogging?.log(logEntry);
+	}
+}
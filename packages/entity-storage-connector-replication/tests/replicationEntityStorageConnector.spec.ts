@@ -0,0 +1,391 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { GeneralError, I18n } from "@twin.org/core";
+import { EntitySchemaFactory, EntitySchemaHelper, entity, property } from "@twin.org/entity";
+import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType
+} from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorTestSuite,
+	type TestSuiteEntity
+} from "@twin.org/entity-storage-test-suite";
+import { LoggingConnectorFactory, type ILoggingConnector } from "@twin.org/logging-models";
+import { nameof } from "@twin.org/nameof";
+import type { IReplicationEntityStorageConnectorConfig } from "../src/models/IReplicationEntityStorageConnectorConfig";
+import { ReplicationEntityStorageDivergenceType } from "../src/models/replicationEntityStorageDivergenceType";
+import { ReplicationEntityStorageMode } from "../src/models/replicationEntityStorageMode";
+import { ReplicationEntityStorageConnector } from "../src/replicationEntityStorageConnector";
+
+/**
+ * Test Type Definition.
+ */
+@entity()
+class TestType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value.
+	 */
+	@property({ type: "number" })
+	public value!: number;
+}
+
+let primaryEntityStorage: MemoryEntityStorageConnector<TestType>;
+let secondaryEntityStorage1: MemoryEntityStorageConnector<TestType>;
+let secondaryEntityStorage2: MemoryEntityStorageConnector<TestType>;
+let logSpy: ReturnType<typeof vi.fn>;
+
+/**
+ * Create a connector which replicates the entities from the primary memory connector
+ * to the secondary memory connectors.
+ * @param config The optional config to use in addition to the connector types.
+ * @returns The connector.
+ */
+function createConnector(
+	config?: Omit<
+		IReplicationEntityStorageConnectorConfig,
+		"primaryEntityStorageConnectorType" | "secondaryEntityStorageConnectorTypes"
+	>
+): ReplicationEntityStorageConnector<TestType> {
+	return new ReplicationEntityStorageConnector<TestType>({
+		entitySchema: nameof<TestType>(),
+		config: {
+			primaryEntityStorageConnectorType: "primary",
+			secondaryEntityStorageConnectorTypes: ["secondary1", "secondary2"],
+			...config
+		}
+	});
+}
+
+describe("ReplicationEntityStorageConnector", () => {
+	beforeAll(async () => {
+		I18n.addDictionary("en", await import("../locales/en.json"));
+
+		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
+	});
+
+	beforeEach(() => {
+		primaryEntityStorage = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		secondaryEntityStorage1 = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		secondaryEntityStorage2 = new MemoryEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>()
+		});
+		EntityStorageConnectorFactory.register("primary", () => primaryEntityStorage);
+		EntityStorageConnectorFactory.register("secondary1", () => secondaryEntityStorage1);
+		EntityStorageConnectorFactory.register("secondary2", () => secondaryEntityStorage2);
+
+		logSpy = vi.fn();
+		LoggingConnectorFactory.register(
+			"node-logging",
+			() => ({ CLASS_NAME: "TestLogging", log: logSpy }) as unknown as ILoggingConnector
+		);
+	});
+
+	afterEach(() => {
+		EntityStorageConnectorFactory.unregister("primary");
+		EntityStorageConnectorFactory.unregister("secondary1");
+		EntityStorageConnectorFactory.unregister("secondary2");
+		LoggingConnectorFactory.unregister("node-logging");
+		vi.useRealTimers();
+	});
+
+	test("can fail to construct when there is no options", async () => {
+		expect(
+			() =>
+				new ReplicationEntityStorageConnector(
+					undefined as unknown as {
+						entitySchema: string;
+						config: IReplicationEntityStorageConnectorConfig;
+					}
+				)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.objectUndefined",
+				properties: {
+					property: "options",
+					value: "undefined"
+				}
+			})
+		);
+	});
+
+	test("can fail to construct when there are no secondary connectors", async () => {
+		expect(
+			() =>
+				new ReplicationEntityStorageConnector<TestType>({
+					entitySchema: nameof<TestType>(),
+					config: {
+						primaryEntityStorageConnectorType: "primary",
+						secondaryEntityStorageConnectorTypes: []
+					}
+				})
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.arrayValue"
+			})
+		);
+	});
+
+	test("can construct", async () => {
+		const connector = createConnector();
+		expect(connector).toBeDefined();
+		expect(connector.getSchema()).toEqual(EntitySchemaHelper.getSchema(TestType));
+		expect(connector.getPendingCount()).toEqual(0);
+	});
+
+	test("can replicate changes synchronously", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", value: 1 });
+		await connector.set({ id: "2", value: 2 });
+		await connector.patch("1", { value: 3 });
+		await connector.remove("2");
+
+		const expected = [{ id: "1", value: 3 }];
+		expect(primaryEntityStorage.getStore()).toEqual(expected);
+		expect(secondaryEntityStorage1.getStore()).toEqual(expected);
+		expect(secondaryEntityStorage2.getStore()).toEqual(expected);
+	});
+
+	test("can replicate batches and transactions", async () => {
+		const connector = createConnector();
+		await connector.setBatch([
+			{ id: "1", value: 1 },
+			{ id: "2", value: 2 },
+			{ id: "3", value: 3 }
+		]);
+		await connector.removeBatch(["3"]);
+		await connector.transaction([
+			{ type: EntityStorageTransactionOperationType.Set, entity: { id: "1", value: 4 } },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" }
+		]);
+
+		const expected = [{ id: "1", value: 4 }];
+		expect(primaryEntityStorage.getStore()).toEqual(expected);
+		expect(secondaryEntityStorage1.getStore()).toEqual(expected);
+		expect(secondaryEntityStorage2.getStore()).toEqual(expected);
+	});
+
+	test("can not replicate when the primary write fails", async () => {
+		const connector = createConnector();
+		await connector.set({ id: "1", value: 1 });
+
+		vi.spyOn(primaryEntityStorage, "set").mockRejectedValueOnce(new GeneralError("Test", "failed"));
+		await expect(connector.set({ id: "1", value: 2 })).rejects.toThrow("failed");
+
+		expect(secondaryEntityStorage1.getStore()).toEqual([{ id: "1", value: 1 }]);
+	});
+
+	test("can queue a failed synchronous replication and retry it", async () => {
+		const connector = createConnector();
+		vi.spyOn(secondaryEntityStorage1, "setBatch").mockRejectedValueOnce(
+			new GeneralError("Test", "failed")
+		);
+
+		await connector.set({ id: "1", value: 1 });
+
+		expect(secondaryEntityStorage1.getStore()).toEqual([]);
+		expect(secondaryEntityStorage2.getStore()).toEqual([{ id: "1", value: 1 }]);
+		expect(connector.getPendingCount()).toEqual(1);
+		expect(logSpy).toHaveBeenCalledWith(
+			expect.objectContaining({
+				level: "warn",
+				message: "replicationRetrying",
+				data: { entityStorageConnectorType: "secondary1", count: 1 }
+			})
+		);
+
+		expect(await connector.flush()).toEqual(0);
+		expect(secondaryEntityStorage1.getStore()).toEqual([{ id: "1", value: 1 }]);
+	});
+
+	test("can replicate the latest state when a queued replication is retried", async () => {
+		const connector = createConnector();
+		vi.spyOn(secondaryEntityStorage1, "setBatch").mockRejectedValueOnce(
+			new GeneralError("Test", "failed")
+		);
+
+		await connector.set({ id: "1", value: 1 });
+		await primaryEntityStorage.remove("1");
+		await connector.flush();
+
+		expect(secondaryEntityStorage1.getStore()).toEqual([]);
+	});
+
+	test("can replicate changes asynchronously", async () => {
+		const connector = createConnector({ mode: ReplicationEntityStorageMode.Async });
+		await connector.set({ id: "1", value: 1 });
+		await connector.set({ id: "2", value: 2 });
+
+		expect(secondaryEntityStorage1.getStore()).toEqual([]);
+		expect(connector.getPendingCount()).toEqual(4);
+
+		expect(await connector.flush()).toEqual(0);
+		expect(secondaryEntityStorage1.getStore()).toEqual(primaryEntityStorage.getStore());
+		expect(secondaryEntityStorage2.getStore()).toEqual(primaryEntityStorage.getStore());
+	});
+
+	test("can replicate changes asynchronously in the background", async () => {
+		vi.useFakeTimers();
+		const connector = createConnector({ mode: ReplicationEntityStorageMode.Async });
+		await connector.set({ id: "1", value: 1 });
+
+		await vi.runAllTimersAsync();
+
+		expect(connector.getPendingCount()).toEqual(0);
+		expect(secondaryEntityStorage1.getStore()).toEqual([{ id: "1", value: 1 }]);
+	});
+
+	test("can retry failed replications on the retry interval once started", async () => {
+		vi.useFakeTimers();
+		const connector = createConnector({ retryInterval: 1000 });
+		await connector.start("node", undefined);
+
+		vi.spyOn(secondaryEntityStorage1, "setBatch").mockRejectedValueOnce(
+			new GeneralError("Test", "failed")
+		);
+		await connector.set({ id: "1", value: 1 });
+		expect(connector.getPendingCount()).toEqual(1);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(connector.getPendingCount()).toEqual(0);
+		expect(secondaryEntityStorage1.getStore()).toEqual([{ id: "1", value: 1 }]);
+
+		await connector.stop("node", undefined);
+	});
+
+	test("can give up on a replication after the maximum retries", async () => {
+		const connector = createConnector({ maxRetries: 2 });
+		vi.spyOn(secondaryEntityStorage1, "setBatch").mockRejectedValue(
+			new GeneralError("Test", "failed")
+		);
+
+		await connector.set({ id: "1", value: 1 });
+		expect(await connector.flush()).toEqual(1);
+		expect(await connector.flush()).toEqual(0);
+
+		expect(logSpy).toHaveBeenCalledWith(
+			expect.objectContaining({
+				level: "error",
+				message: "replicationFailed",
+				data: { entityStorageConnectorType: "secondary1", id: "1" }
+			})
+		);
+	});
+
+	test("can read from the primary connector", async () => {
+		const connector = createConnector();
+		await primaryEntityStorage.set({ id: "1", value: 1 });
+		await secondaryEntityStorage1.set({ id: "1", value: 2 });
+
+		expect(await connector.get("1")).toEqual({ id: "1", value: 1 });
+		expect(await connector.getBatch(["1"])).toEqual([
+			{ id: "1", success: true, entity: { id: "1", value: 1 } }
+		]);
+		const queryResult = await connector.query();
+		expect(queryResult.entities).toEqual([{ id: "1", value: 1 }]);
+		expect(await connector.count()).toEqual(1);
+	});
+
+	test("can fail to read when the primary connector fails without fallback", async () => {
+		const connector = createConnector();
+		vi.spyOn(primaryEntityStorage, "get").mockRejectedValueOnce(new GeneralError("Test", "failed"));
+
+		await expect(connector.get("1")).rejects.toThrow("failed");
+	});
+
+	test("can fall back to the secondary connectors when the primary read fails", async () => {
+		const connector = createConnector({ readFallback: true });
+		await connector.set({ id: "1", value: 1 });
+
+		vi.spyOn(primaryEntityStorage, "get").mockRejectedValueOnce(new GeneralError("Test", "failed"));
+		vi.spyOn(secondaryEntityStorage1, "get").mockRejectedValueOnce(
+			new GeneralError("Test", "failed")
+		);
+
+		expect(await connector.get("1")).toEqual({ id: "1", value: 1 });
+		expect(logSpy).toHaveBeenCalledWith(
+			expect.objectContaining({
+				level: "warn",
+				message: "primaryReadFailed",
+				data: { entityStorageConnectorType: "secondary2" }
+			})
+		);
+	});
+
+	test("can check for divergence between the connectors", async () => {
+		const connector = createConnector();
+		await connector.setBatch([
+			{ id: "1", value: 1 },
+			{ id: "2", value: 2 },
+			{ id: "3", value: 3 }
+		]);
+		expect(await connector.checkDivergence()).toEqual([]);
+
+		await secondaryEntityStorage1.remove("1");
+		await secondaryEntityStorage1.set({ id: "2", value: 4 });
+		await secondaryEntityStorage2.set({ id: "4", value: 4 });
+
+		expect(await connector.checkDivergence(2)).toEqual([
+			{
+				id: "1",
+				entityStorageConnectorType: "secondary1",
+				type: ReplicationEntityStorageDivergenceType.Missing
+			},
+			{
+				id: "2",
+				entityStorageConnectorType: "secondary1",
+				type: ReplicationEntityStorageDivergenceType.Different
+			},
+			{
+				id: "4",
+				entityStorageConnectorType: "secondary2",
+				type: ReplicationEntityStorageDivergenceType.Unexpected
+			}
+		]);
+		expect(logSpy).toHaveBeenCalledWith(
+			expect.objectContaining({
+				level: "warn",
+				message: "divergenceFound",
+				data: { count: 3 }
+			})
+		);
+	});
+});
+
+describe("ReplicationEntityStorageConnector conformance", () => {
+	EntityStorageConnectorTestSuite.run({
+		createConnector: async entitySchema => {
+			EntityStorageConnectorFactory.register(
+				"primary-test-suite",
+				() => new MemoryEntityStorageConnector<TestSuiteEntity>({ entitySchema })
+			);
+			EntityStorageConnectorFactory.register(
+				"secondary-test-suite",
+				() => new MemoryEntityStorageConnector<TestSuiteEntity>({ entitySchema })
+			);
+			return new ReplicationEntityStorageConnector<TestSuiteEntity>({
+				entitySchema,
+				config: {
+					primaryEntityStorageConnectorType: "primary-test-suite",
+					secondaryEntityStorageConnectorTypes: ["secondary-test-suite"]
+				}
+			});
+		},
+		removeConnector: async () => {
+			EntityStorageConnectorFactory.unregister("primary-test-suite");
+			EntityStorageConnectorFactory.unregister("secondary-test-suite");
+		}
+	});
+});
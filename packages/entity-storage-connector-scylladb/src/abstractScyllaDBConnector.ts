@@ -1,7 +1,7 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
 
-import { GeneralError, Guards, Is, StringHelper } from "@twin.org/core";
+import { Coerce, GeneralError, Guards, Is, StringHelper } from "@twin.org/core";
 import {
 	ComparisonOperator,
 	EntitySchemaFactory,
@@ -14,6 +14,16 @@ import {
 	type IEntitySchema,
 	type IEntitySchemaProperty
 } from "@twin.org/entity";
+import {
+	EntityStorageChangeEmitter,
+	EntityStorageExpiryHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
 import { LoggingConnectorFactory, type ILoggingConnector } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
 import { types as CassandraTypes, Client } from "cassandra-driver";
@@ -66,6 +76,18 @@ export abstract class AbstractScyllaDBConnector<T> {
 	 */
 	protected readonly _primaryKey: IEntitySchemaProperty<T>;
 
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	protected readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	protected readonly _expiryProperty?: keyof T;
+
 	/**
 	 * Create a new instance of AbstractScyllaDBConnector.
 	 * @param options The options for the connector.
@@ -101,6 +123,8 @@ export abstract class AbstractScyllaDBConnector<T> {
 
 		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
 		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
 
 		this._config = options.config;
 		this._fullTableName = StringHelper.camelCase(
@@ -116,6 +140,17 @@ export abstract class AbstractScyllaDBConnector<T> {
 		return this._entitySchema as IEntitySchema;
 	}
 
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: false,
+			subscriptions: false
+		};
+	}
+
 	/**
 	 * Get an entity.
 	 * @param id The id of the entity to get.
@@ -169,6 +204,135 @@ export abstract class AbstractScyllaDBConnector<T> {
 		}
 	}
 
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		let connection;
+		try {
+			const indexField = secondaryIndex ?? this._primaryKey?.property;
+
+			let sql = `SELECT * FROM "${this._fullTableName}" WHERE "${String(indexField)}" IN ?`;
+
+			if (secondaryIndex) {
+				sql += " ALLOW FILTERING";
+			}
+
+			await this._logging?.log({
+				level: "info",
+				source: this.CLASS_NAME,
+				ts: Date.now(),
+				message: "sql",
+				data: { sql }
+			});
+
+			connection = await this.openConnection();
+
+			const result = await this.queryDB(connection, sql, [ids], undefined, ids.length);
+			const entities = result.rows.map(row => this.convertRowToObject(row));
+
+			return ids.map(id => ({
+				id,
+				success: true,
+				entity: entities.find(e => e[indexField] === id)
+			}));
+		} catch (error) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "getFailed", { id }, error).toJsonObject()
+			}));
+		} finally {
+			await this.closeConnection(connection);
+		}
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, this connector does not support transactions.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws NotSupportedError as the connector does not support transactions.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		throw EntityStorageTransactionHelper.notSupportedError();
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, this connector does not support subscriptions.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 * @throws NotSupportedError as the connector does not support subscriptions.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		throw EntityStorageChangeEmitter.notSupportedError();
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities, this connector does not support subscriptions.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 * @throws NotSupportedError as the connector does not support subscriptions.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		throw EntityStorageChangeEmitter.notSupportedError();
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		let connection;
+		try {
+			let sql = `SELECT COUNT(*) AS "count" FROM "${this._fullTableName}"`;
+
+			const params: unknown[] = [];
+			const conditionQuery = this.buildConditionQuery(conditions, params);
+
+			if (conditionQuery.length > 0) {
+				sql += ` WHERE ${conditionQuery}`;
+			}
+
+			connection = await this.openConnection();
+
+			await this._logging?.log({
+				level: "info",
+				source: this.CLASS_NAME,
+				ts: Date.now(),
+				message: "sql",
+				data: { sql }
+			});
+
+			const result = await this.execute(connection, sql, params);
+
+			return Coerce.number(result.first()?.count?.toString()) ?? 0;
+		} catch (error) {
+			throw new GeneralError(this.CLASS_NAME, "countFailed", { table: this._fullTableName }, error);
+		} finally {
+			await this.closeConnection(connection);
+		}
+	}
+
 	/**
 	 * Find all the entities which match the conditions.
 	 * @param conditions The conditions to match for the entities.
@@ -214,67 +378,9 @@ export abstract class AbstractScyllaDBConnector<T> {
 				sql = sql.replace("*", selectFields);
 			}
 
-			const conds: string[] = [];
-			let conditionQuery = "";
 			// The params to be used to execute the query
 			const params: unknown[] = [];
-
-			let theConditions: EntityCondition<T>[] = [];
-			if (!Is.undefined(conditions)) {
-				if ("conditions" in conditions) {
-					theConditions = (conditions as IComparatorGroup).conditions;
-				} else {
-					theConditions.push(conditions as EntityCondition<T>);
-				}
-			}
-
-			// TODO: This code needs refactoring to support conditions for sub properties.
-			for (const cond of theConditions) {
-				const condition = cond as IComparator;
-
-				const descriptor = this._entitySchema.properties?.find(
-					p => p.property === condition.property
-				);
-				if (
-					condition.comparison === ComparisonOperator.Includes ||
-					condition.comparison === ComparisonOperator.NotIncludes
-				) {
-					const propValue = `'%${condition.value}%'`;
-					if (condition.comparison === ComparisonOperator.Includes) {
-						conds.push(`"${condition.property}" LIKE ${propValue}`);
-					} else if (condition.comparison === ComparisonOperator.NotIncludes) {
-						conds.push(`"${condition.property}" NOT LIKE ${propValue}`);
-					}
-				} else if (condition.comparison === ComparisonOperator.In) {
-					let value: unknown[] = [];
-					if (!Is.arrayValue(condition.value)) {
-						value.push(this.propertyToDbValue(condition.value, descriptor));
-					} else {
-						value = condition.value.map(v => this.propertyToDbValue(v, descriptor));
-					}
-					params.push(value);
-					conds.push(`"${condition.property}" IN ?`);
-				} else {
-					const propValue = condition.value;
-					params.push(propValue);
-					if (condition.comparison === ComparisonOperator.Equals) {
-						conds.push(`"${condition.property}" = ?`);
-					} else if (condition.comparison === ComparisonOperator.NotEquals) {
-						conds.push(`"${condition.property}" <> ?`);
-					} else if (condition.comparison === ComparisonOperator.GreaterThan) {
-						conds.push(`"${condition.property}" > ?`);
-					} else if (condition.comparison === ComparisonOperator.LessThan) {
-						conds.push(`"${condition.property}" < ?`);
-					} else if (condition.comparison === ComparisonOperator.GreaterThanOrEqual) {
-						conds.push(`"${condition.property}" >= ?`);
-					} else if (condition.comparison === ComparisonOperator.LessThanOrEqual) {
-						conds.push(`"${condition.property}" <= ?`);
-					}
-				}
-
-				const operator = (conditions as IComparatorGroup).logicalOperator ?? LogicalOperator.And;
-				conditionQuery = `${conds.join(` ${operator} `)}`;
-			}
+			const conditionQuery = this.buildConditionQuery(conditions, params);
 
 			if (conditionQuery.length > 0) {
 				sql += ` WHERE ${conditionQuery}`;
@@ -552,4 +658,78 @@ export abstract class AbstractScyllaDBConnector<T> {
 		});
 		return json;
 	}
+
+	/**
+	 * Build the where clause for the conditions.
+	 * @param conditions The conditions to build the where clause for.
+	 * @param params The params to add the condition values to.
+	 * @returns The where clause for the conditions, empty if there are no conditions.
+	 * @internal
+	 */
+	private buildConditionQuery(
+		conditions: EntityCondition<T> | undefined,
+		params: unknown[]
+	): string {
+		const conds: string[] = [];
+		let conditionQuery = "";
+
+		let theConditions: EntityCondition<T>[] = [];
+		if (!Is.undefined(conditions)) {
+			if ("conditions" in conditions) {
+				theConditions = (conditions as IComparatorGroup).conditions;
+			} else {
+				theConditions.push(conditions as EntityCondition<T>);
+			}
+		}
+
+		// TODO: This code needs refactoring to support conditions for sub properties.
+		for (const cond of theConditions) {
+			const condition = cond as IComparator;
+
+			const descriptor = this._entitySchema.properties?.find(
+				p => p.property === condition.property
+			);
+			if (
+				condition.comparison === ComparisonOperator.Includes ||
+				condition.comparison === ComparisonOperator.NotIncludes
+			) {
+				const propValue = `'%${condition.value}%'`;
+				if (condition.comparison === ComparisonOperator.Includes) {
+					conds.push(`"${condition.property}" LIKE ${propValue}`);
+				} else if (condition.comparison === ComparisonOperator.NotIncludes) {
+					conds.push(`"${condition.property}" NOT LIKE ${propValue}`);
+				}
+			} else if (condition.comparison === ComparisonOperator.In) {
+				let value: unknown[] = [];
+				if (!Is.arrayValue(condition.value)) {
+					value.push(this.propertyToDbValue(condition.value, descriptor));
+				} else {
+					value = condition.value.map(v => this.propertyToDbValue(v, descriptor));
+				}
+				params.push(value);
+				conds.push(`"${condition.property}" IN ?`);
+			} else {
+				const propValue = condition.value;
+				params.push(propValue);
+				if (condition.comparison === ComparisonOperator.Equals) {
+					conds.push(`"${condition.property}" = ?`);
+				} else if (condition.comparison === ComparisonOperator.NotEquals) {
+					conds.push(`"${condition.property}" <> ?`);
+				} else if (condition.comparison === ComparisonOperator.GreaterThan) {
+					conds.push(`"${condition.property}" > ?`);
+				} else if (condition.comparison === ComparisonOperator.LessThan) {
+					conds.push(`"${condition.property}" < ?`);
+				} else if (condition.comparison === ComparisonOperator.GreaterThanOrEqual) {
+					conds.push(`"${condition.property}" >= ?`);
+				} else if (condition.comparison === ComparisonOperator.LessThanOrEqual) {
+					conds.push(`"${condition.property}" <= ?`);
+				}
+			}
+
+			const operator = (conditions as IComparatorGroup).logicalOperator ?? LogicalOperator.And;
+			conditionQuery = `${conds.join(` ${operator} `)}`;
+		}
+
+		return conditionQuery;
+	}
 }
@@ -8,9 +8,16 @@ import {
 	EntitySchemaPropertyType,
 	type IEntitySchemaProperty
 } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageConnector
+} from "@twin.org/entity-storage-models";
 import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
+import type { types as CassandraTypes } from "cassandra-driver";
 import { AbstractScyllaDBConnector } from "./abstractScyllaDBConnector";
 import type { IScyllaDBTableConnectorConstructorOptions } from "./models/IScyllaDBTableConnectorConstructorOptions";
 
@@ -165,26 +172,45 @@ export class ScyllaDBTableConnector<T = unknown>
 	}
 
 	/**
-	 * Set an entity.
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void> {
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
 		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
 
 		EntitySchemaHelper.validateEntity(entity, this.getSchema());
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+		const expiringEntity = EntityStorageExpiryHelper.applyTimeToLive(
+			entity,
+			this._expiryProperty,
+			timeToLive
+		);
+
 		let connection;
 		const id = entity[this._primaryKey?.property] as string;
 		try {
 			const propValues: unknown[] = [];
 			const updateValues: string[] = [];
+			const versionedEntity = EntityStorageVersionHelper.nextVersion(
+				expiringEntity,
+				this._versionProperty
+			);
 
 			conditions ??= [];
 
 			for (const propDesc of this._entitySchema.properties ?? []) {
 				if (!propDesc.isPrimary && !propDesc.isSecondary) {
-					propValues.push(this.propertyToDbValue(entity[propDesc.property], propDesc));
+					propValues.push(this.propertyToDbValue(versionedEntity[propDesc.property], propDesc));
 					updateValues.push(`"${String(propDesc.property)}"=?`);
 				} else {
 					conditions.unshift({
@@ -202,7 +228,13 @@ export class ScyllaDBTableConnector<T = unknown>
 				propValues.push(...conditionValues);
 			}
 
-			const sql = `UPDATE "${this._fullTableName}" SET ${updateValues.join(",")}${conditionString}`;
+			// A lightweight transaction makes sure the version has not changed
+			if (!Is.undefined(expectedVersion)) {
+				conditionString += ` IF "${String(this._versionProperty)}"=?`;
+				propValues.push(expectedVersion);
+			}
+
+			const sql = `UPDATE "${this._fullTableName}"${this.usingTimeToLive(versionedEntity)} SET ${updateValues.join(",")}${conditionString}`;
 
 			await this._logging?.log({
 				level: "info",
@@ -214,7 +246,10 @@ export class ScyllaDBTableConnector<T = unknown>
 
 			connection = await this.openConnection();
 
-			await this.execute(connection, sql, propValues);
+			const result = await this.execute(connection, sql, propValues);
+			if (!Is.undefined(expectedVersion) && !this.isApplied(result)) {
+				throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+			}
 		} catch (error) {
 			throw new GeneralError(
 				this.CLASS_NAME,
@@ -233,13 +268,18 @@ export class ScyllaDBTableConnector<T = unknown>
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
 	public async remove(
 		id: string,
-		conditions?: { property: keyof T; value: unknown }[]
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
 	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+
 		let connection;
 
 		try {
@@ -248,7 +288,13 @@ export class ScyllaDBTableConnector<T = unknown>
 
 			const { sqlCondition, conditionValues } = this.buildConditions(conditions);
 
-			const sql = `DELETE FROM "${this._fullTableName}" WHERE ${sqlCondition}`;
+			let sql = `DELETE FROM "${this._fullTableName}" WHERE ${sqlCondition}`;
+
+			// A lightweight transaction makes sure the version has not changed
+			if (!Is.undefined(expectedVersion)) {
+				sql += ` IF "${String(this._versionProperty)}"=?`;
+				conditionValues.push(expectedVersion);
+			}
 
 			await this._logging?.log({
 				level: "info",
@@ -260,7 +306,10 @@ export class ScyllaDBTableConnector<T = unknown>
 
 			connection = await this.openConnection();
 
-			await this.execute(connection, sql, conditionValues);
+			const result = await this.execute(connection, sql, conditionValues);
+			if (!Is.undefined(expectedVersion) && !this.isApplied(result)) {
+				throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+			}
 		} catch (error) {
 			throw new GeneralError(
 				this.CLASS_NAME,
@@ -275,6 +324,193 @@ export class ScyllaDBTableConnector<T = unknown>
 		}
 	}
 
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		let connection;
+		try {
+			// The full key including the clustering columns is needed to update a row
+			// so we need the existing entity to complete it
+			const existing = await this.get(id, undefined, conditions);
+			if (Is.undefined(existing)) {
+				return;
+			}
+
+			const propValues: unknown[] = [];
+			const updateValues: string[] = [];
+			const keyConditions: { property: keyof T; value: unknown }[] = [];
+
+			for (const propDesc of this._entitySchema.properties ?? []) {
+				const value = patch[propDesc.property];
+				if (propDesc.isPrimary || propDesc.isSecondary) {
+					if (!Is.undefined(value) && value !== existing[propDesc.property]) {
+						throw new GeneralError(this.CLASS_NAME, "patchKeyProperty", {
+							property: propDesc.property
+						});
+					}
+					keyConditions.push({
+						property: propDesc.property,
+						value: this.propertyToDbValue(existing[propDesc.property], propDesc)
+					});
+				} else if (!Is.undefined(value) && propDesc.property !== this._versionProperty) {
+					const finalValue = Is.null(value)
+						? null
+						: EntityStoragePatchHelper.applyPatch(
+								existing[propDesc.property] as unknown,
+								value as Partial<unknown>
+							);
+					propValues.push(
+						Is.null(finalValue) ? null : this.propertyToDbValue(finalValue, propDesc)
+					);
+					updateValues.push(`"${String(propDesc.property)}"=?`);
+				}
+			}
+
+			if (updateValues.length === 0) {
+				return;
+			}
+
+			if (!Is.undefined(this._versionProperty)) {
+				propValues.push(EntityStorageVersionHelper.generateVersion());
+				updateValues.push(`"${String(this._versionProperty)}"=?`);
+			}
+
+			const { sqlCondition, conditionValues } = this.buildConditions(keyConditions);
+			propValues.push(...conditionValues);
+
+			const sql = `UPDATE "${this._fullTableName}" SET ${updateValues.join(",")} WHERE ${sqlCondition}`;
+
+			await this._logging?.log({
+				level: "info",
+				source: this.CLASS_NAME,
+				ts: Date.now(),
+				message: "sql",
+				data: { sql }
+			});
+
+			connection = await this.openConnection();
+
+			await this.execute(connection, sql, propValues);
+		} catch (error) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"patchFailed",
+				{
+					id
+				},
+				error
+			);
+		} finally {
+			await this.closeConnection(connection);
+		}
+	}
+
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		const results: IEntityStorageBatchResult<T>[] = [];
+		const validIndexes: number[] = [];
+		const queries: { query: string; params: unknown[] }[] = [];
+
+		for (let i = 0; i < entities.length; i++) {
+			const id = entities[i]?.[this._primaryKey?.property] as string;
+			try {
+				Guards.object<T>(this.CLASS_NAME, nameof(entities[i]), entities[i]);
+				EntitySchemaHelper.validateEntity(entities[i], this.getSchema());
+
+				const entity = EntityStorageVersionHelper.nextVersion(entities[i], this._versionProperty);
+				const propValues: unknown[] = [];
+				const updateValues: string[] = [];
+				const entityConditions = [...(conditions ?? [])];
+
+				for (const propDesc of this._entitySchema.properties ?? []) {
+					if (!propDesc.isPrimary && !propDesc.isSecondary) {
+						propValues.push(this.propertyToDbValue(entity[propDesc.property], propDesc));
+						updateValues.push(`"${String(propDesc.property)}"=?`);
+					} else {
+						entityConditions.unshift({
+							property: propDesc.property,
+							value: this.propertyToDbValue(entity[propDesc.property], propDesc)
+						});
+					}
+				}
+
+				const { sqlCondition, conditionValues } = this.buildConditions(entityConditions);
+				propValues.push(...conditionValues);
+
+				queries.push({
+					query: `UPDATE "${this._fullTableName}"${this.usingTimeToLive(entity)} SET ${updateValues.join(",")} WHERE ${sqlCondition}`,
+					params: propValues
+				});
+				validIndexes.push(i);
+				results.push({ id, success: true });
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		await this.executeBatch("setFailed", results, validIndexes, queries);
+
+		return results;
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		const results: IEntityStorageBatchResult<T>[] = ids.map(id => ({ id, success: true }));
+
+		const queries = ids.map(id => {
+			const { sqlCondition, conditionValues } = this.buildConditions([
+				{ property: this._primaryKey?.property, value: id },
+				...(conditions ?? [])
+			]);
+			return {
+				query: `DELETE FROM "${this._fullTableName}" WHERE ${sqlCondition}`,
+				params: conditionValues
+			};
+		});
+
+		await this.executeBatch(
+			"removeFailed",
+			results,
+			ids.map((_, index) => index),
+			queries
+		);
+
+		return results;
+	}
+
 	/**
 	 * Drops table.
 	 */
@@ -407,6 +643,53 @@ export class ScyllaDBTableConnector<T = unknown>
 		return dbType;
 	}
 
+	/**
+	 * Execute the queries as a batch and update the results if it fails.
+	 * @param failedMessage The message to use if the batch fails.
+	 * @param results The results to update.
+	 * @param indexes The indexes of the results for each of the queries.
+	 * @param queries The queries to execute.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async executeBatch(
+		failedMessage: string,
+		results: IEntityStorageBatchResult<T>[],
+		indexes: number[],
+		queries: { query: string; params: unknown[] }[]
+	): Promise<void> {
+		if (queries.length === 0) {
+			return;
+		}
+
+		let connection;
+		try {
+			await this._logging?.log({
+				level: "info",
+				source: this.CLASS_NAME,
+				ts: Date.now(),
+				message: "sql",
+				data: { sql: queries.map(q => q.query).join("; ") }
+			});
+
+			connection = await this.openConnection();
+
+			await connection.batch(queries, { prepare: true });
+		} catch (error) {
+			for (const index of indexes) {
+				results[index].success = false;
+				results[index].error = new GeneralError(
+					this.CLASS_NAME,
+					failedMessage,
+					{ id: results[index].id },
+					error
+				).toJsonObject();
+			}
+		} finally {
+			await this.closeConnection(connection);
+		}
+	}
+
 	/**
 	 * Build the conditions for the query.
 	 * @param conditions The optional conditions to match for the entities.
@@ -430,4 +713,25 @@ export class ScyllaDBTableConnector<T = unknown>
 		}
 		return { sqlCondition: sqlConditions.join(" AND "), conditionValues };
 	}
+
+	/**
+	 * Was the lightweight transaction applied.
+	 * @param result The result of the statement.
+	 * @returns True if the statement was applied.
+	 */
+	private isApplied(result: CassandraTypes.ResultSet): boolean {
+		return result.first()?.["[applied]"] === true;
+	}
+
+	/**
+	 * Create the clause which expires the columns with the entity, the row is removed by
+	 * the database once all the columns have expired.
+	 * @param entity The entity to create the clause for.
+	 * @returns The clause or an empty string if the entity does not expire.
+	 * @internal
+	 */
+	private usingTimeToLive(entity: T): string {
+		const timeToLive = EntityStorageExpiryHelper.getTimeToLive(entity, this._expiryProperty);
+		return Is.undefined(timeToLive) ? "" : ` USING TTL ${timeToLive}`;
+	}
 }
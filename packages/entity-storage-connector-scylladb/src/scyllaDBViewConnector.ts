@@ -2,7 +2,10 @@
 // SPDX-License-Identifier: Apache-2.0.
 import { BaseError, Is, NotSupportedError, StringHelper, type IError } from "@twin.org/core";
 import { EntitySchemaHelper, type IEntitySchema } from "@twin.org/entity";
-import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import type {
+	IEntityStorageBatchResult,
+	IEntityStorageConnector
+} from "@twin.org/entity-storage-models";
 import { LoggingConnectorFactory } from "@twin.org/logging-models";
 import { nameof } from "@twin.org/nameof";
 import { AbstractScyllaDBConnector } from "./abstractScyllaDBConnector";
@@ -144,4 +147,29 @@ export class ScyllaDBViewConnector<T>
 	public async remove(id: string): Promise<void> {
 		throw new NotSupportedError(this.CLASS_NAME, "remove", {});
 	}
+
+	/**
+	 * Update the properties of an entity.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 */
+	public async patch(id: string, patch: Partial<T>): Promise<void> {
+		throw new NotSupportedError(this.CLASS_NAME, "patch", {});
+	}
+
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 */
+	public async setBatch(entities: T[]): Promise<IEntityStorageBatchResult<T>[]> {
+		throw new NotSupportedError(this.CLASS_NAME, "setBatch", {});
+	}
+
+	/**
+	 * Delete multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 */
+	public async removeBatch(ids: string[]): Promise<IEntityStorageBatchResult<T>[]> {
+		throw new NotSupportedError(this.CLASS_NAME, "removeBatch", {});
+	}
 }
@@ -13,7 +13,10 @@ import {
 	property
 } from "@twin.org/entity";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
-import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType
+} from "@twin.org/entity-storage-models";
 import {
 	EntityStorageLoggingConnector,
 	type LogEntry,
@@ -37,6 +40,30 @@ class SubType {
 	public field1!: Date;
 }
 
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
 /**
  * Test Type Definition.
  */
@@ -75,6 +102,9 @@ describe("ScyllaDBTableConnector", () => {
 
 		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
 		EntitySchemaFactory.register(nameof<SubType>(), () => EntitySchemaHelper.getSchema(SubType));
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
 		initSchema();
 	});
 
@@ -439,6 +469,212 @@ describe("ScyllaDBTableConnector", () => {
 		expect(result).toBeUndefined();
 	});
 
+	test("can set a batch of items", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11, value3: undefined },
+			{ id: "2", value1: "bbb", value2: 22, value3: undefined }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const result = await entityStorage.get("2");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can get a batch of items", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11, value3: undefined });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22, value3: undefined });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results.map(r => r.id)).toEqual(["2", "3", "1"]);
+		expect(results.every(r => r.success)).toEqual(true);
+		expect(results[0].entity?.value1).toEqual("bbb");
+		expect(results[1].entity).toBeUndefined();
+		expect(results[2].entity?.value1).toEqual("aaa");
+	});
+
+	test("can remove a batch of items", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11, value3: undefined });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22, value3: undefined });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33, value3: undefined });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		expect(await entityStorage.get("1")).toBeUndefined();
+		expect(await entityStorage.get("2")).toBeDefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the transaction capability", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		expect(entityStorage.getCapabilities().transactions).toEqual(false);
+	});
+
+	test("can fail to perform a transaction as it is not supported", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await expect(
+			entityStorage.transaction([
+				{
+					type: EntityStorageTransactionOperationType.Set,
+					entity: { id: "1", value1: "aaa", value2: 11, value3: undefined }
+				}
+			])
+		).rejects.toMatchObject({
+			name: "NotSupportedError",
+			message: "entityStorageTransactionHelper.transactionsNotSupported"
+		});
+	});
+
+	test("can check the subscription capability", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(false);
+	});
+
+	test("can fail to subscribe as it is not supported", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await expect(entityStorage.subscribe(undefined, async () => {})).rejects.toMatchObject({
+			name: "NotSupportedError",
+			message: "entityStorageChangeEmitter.subscriptionsNotSupported"
+		});
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa" }, undefined, undefined, 1);
+		await entityStorage.set({ id: "2", value1: "bbb" }, undefined, undefined, 60);
+
+		await vi.waitFor(async () => expect(await entityStorage.get("1")).toBeUndefined(), {
+			timeout: 5000
+		});
+		const item = await entityStorage.get("2");
+		expect(item?.entityExpiry).toBeGreaterThan(Date.now() / 1000);
+		const result = await entityStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await entityStorage.count()).toEqual(1);
+		await entityStorage.dropTable();
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.set(
+				{ id: "1", value1: "aaa", value2: 1, value3: undefined },
+				undefined,
+				undefined,
+				60
+			)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
+	test("can count items with empty store", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11, value3: undefined });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22, value3: undefined });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33, value3: undefined });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "bbb",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11, value3: undefined });
+
+		await entityStorage.patch("1", { value2: 22 });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("aaa");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		const entityStorage = new ScyllaDBTableConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config: TEST_SCYLLA_CONFIG
+		});
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
 	test("can query items with empty store", async () => {
 		const entityStorage = new ScyllaDBTableConnector<TestType>({
 			entitySchema: nameof<TestType>(),
@@ -0,0 +1,6 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+export * from "./shardingEntityStorageConnector";
+export * from "./models/IShardingEntityStorageConnectorConfig";
+export * from "./models/IShardingEntityStorageConnectorConstructorOptions";
+export * from "./models/shardingEntityStorageStrategy";
@@ -0,0 +1,32 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { ShardingEntityStorageStrategy } from "./shardingEntityStorageStrategy";
+
+/**
+ * Configuration for the Sharding Entity Storage Connector.
+ */
+export interface IShardingEntityStorageConnectorConfig {
+	/**
+	 * The types of the entity storage connectors registered in the factory which store the shards,
+	 * the order must not change once entities have been stored.
+	 */
+	shardEntityStorageConnectorTypes: string[];
+
+	/**
+	 * The property used to choose the shard for an entity, defaults to the primary key. The value
+	 * of the property must not change once the entity has been stored.
+	 */
+	shardProperty?: string;
+
+	/**
+	 * The strategy for choosing the shard, defaults to hash.
+	 */
+	strategy?: ShardingEntityStorageStrategy;
+
+	/**
+	 * The boundaries between the shards in ascending order for the range strategy, there must be one
+	 * less than the number of shards. An entity is stored in the first shard whose boundary is greater
+	 * than the shard property value, or the last shard if there is none.
+	 */
+	rangeBoundaries?: (string | number)[];
+}
@@ -0,0 +1,18 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IShardingEntityStorageConnectorConfig } from "./IShardingEntityStorageConnectorConfig";
+
+/**
+ * Options for the Sharding Entity Storage Connector constructor.
+ */
+export interface IShardingEntityStorageConnectorConstructorOptions {
+	/**
+	 * The name of the entity schema.
+	 */
+	entitySchema: string;
+
+	/**
+	 * The configuration for the connector.
+	 */
+	config: IShardingEntityStorageConnectorConfig;
+}
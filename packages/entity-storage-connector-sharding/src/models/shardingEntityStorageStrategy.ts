@@ -0,0 +1,24 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The strategies for choosing the shard an entity is stored in.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const ShardingEntityStorageStrategy = {
+	/**
+	 * The shard is chosen using a hash of the shard property value.
+	 */
+	Hash: "hash",
+
+	/**
+	 * The shard is chosen using the range the shard property value is in.
+	 */
+	Range: "range"
+} as const;
+
+/**
+ * The strategies for choosing the shard an entity is stored in.
+ */
+export type ShardingEntityStorageStrategy =
+	(typeof ShardingEntityStorageStrategy)[keyof typeof ShardingEntityStorageStrategy];
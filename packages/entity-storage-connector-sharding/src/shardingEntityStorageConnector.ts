@@ -0,0 +1,679 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Converter, GeneralError, Guards, Is, ObjectHelper, RandomHelper } from "@twin.org/core";
+import {
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	type EntityCondition,
+	type IEntitySchema,
+	type IEntitySchemaProperty,
+	type IEntitySort,
+	type SortDirection
+} from "@twin.org/entity";
+import {
+	EntityStorageBatchHelper,
+	EntityStorageConnectorFactory,
+	EntityStorageCursorHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { nameof } from "@twin.org/nameof";
+import type { IShardingEntityStorageConnectorConstructorOptions } from "./models/IShardingEntityStorageConnectorConstructorOptions";
+import { ShardingEntityStorageStrategy } from "./models/shardingEntityStorageStrategy";
+
+/**
+ * Class for performing entity storage operations which partitions the entities across multiple
+ * entity storage connectors. Operations on a single entity are routed to the shard which stores it
+ * and queries are made to all the shards with the results merged in the requested sort order.
+ */
+export class ShardingEntityStorageConnector<T = unknown> implements IEntityStorageConnector<T> {
+	/**
+	 * Default page size to use when querying.
+	 * @internal
+	 */
+	private static readonly _DEFAULT_PAGE_SIZE: number = 40;
+
+	/**
+	 * The modulus for the hash of the shard property values.
+	 * @internal
+	 */
+	private static readonly _HASH_MODULUS: number = 4294967296;
+
+	/**
+	 * Runtime name for the class.
+	 */
+	public readonly CLASS_NAME: string = nameof<ShardingEntityStorageConnector>();
+
+	/**
+	 * The schema for the entity.
+	 * @internal
+	 */
+	private readonly _entitySchema: IEntitySchema<T>;
+
+	/**
+	 * The primary key.
+	 * @internal
+	 */
+	private readonly _primaryKey: IEntitySchemaProperty<T>;
+
+	/**
+	 * The property used to choose the shard.
+	 * @internal
+	 */
+	private readonly _shardProperty: keyof T;
+
+	/**
+	 * The strategy for choosing the shard.
+	 * @internal
+	 */
+	private readonly _strategy: ShardingEntityStorageStrategy;
+
+	/**
+	 * The boundaries between the shards for the range strategy.
+	 * @internal
+	 */
+	private readonly _rangeBoundaries: (string | number)[];
+
+	/**
+	 * The entity storage connectors which store the shards.
+	 * @internal
+	 */
+	private readonly _shards: IEntityStorageConnector<T>[];
+
+	/**
+	 * The subscription ids for each shard, by the subscription id returned to the caller.
+	 * @internal
+	 */
+	private readonly _subscriptions: Map<string, string[]>;
+
+	/**
+	 * Create a new instance of ShardingEntityStorageConnector.
+	 * @param options The options for the connector.
+	 */
+	constructor(options: IShardingEntityStorageConnectorConstructorOptions) {
+		Guards.object(this.CLASS_NAME, nameof(options), options);
+		Guards.stringValue(this.CLASS_NAME, nameof(options.entitySchema), options.entitySchema);
+		Guards.object(this.CLASS_NAME, nameof(options.config), options.config);
+		Guards.arrayValue<string>(
+			this.CLASS_NAME,
+			nameof(options.config.shardEntityStorageConnectorTypes),
+			options.config.shardEntityStorageConnectorTypes
+		);
+		if (!Is.undefined(options.config.strategy)) {
+			Guards.arrayOneOf<ShardingEntityStorageStrategy>(
+				this.CLASS_NAME,
+				nameof(options.config.strategy),
+				options.config.strategy,
+				Object.values(ShardingEntityStorageStrategy)
+			);
+		}
+
+		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._primaryKey = EntitySchemaHelper.getPrimaryKey<T>(this._entitySchema);
+		this._shardProperty = (options.config.shardProperty ?? this._primaryKey.property) as keyof T;
+		if (!(this._entitySchema.properties ?? []).some(p => p.property === this._shardProperty)) {
+			throw new GeneralError(this.CLASS_NAME, "shardPropertyInvalid", {
+				property: this._shardProperty
+			});
+		}
+
+		this._strategy = options.config.strategy ?? ShardingEntityStorageStrategy.Hash;
+		this._rangeBoundaries = options.config.rangeBoundaries ?? [];
+		if (
+			this._strategy === ShardingEntityStorageStrategy.Range &&
+			(this._rangeBoundaries.length !==
+				options.config.shardEntityStorageConnectorTypes.length - 1 ||
+				this._rangeBoundaries.some(
+					(boundary, i) => i > 0 && this._rangeBoundaries[i - 1] >= boundary
+				))
+		) {
+			throw new GeneralError(this.CLASS_NAME, "rangeBoundariesInvalid", {
+				shardCount: options.config.shardEntityStorageConnectorTypes.length
+			});
+		}
+
+		this._shards = options.config.shardEntityStorageConnectorTypes.map(shardType =>
+			EntityStorageConnectorFactory.get<IEntityStorageConnector<T>>(shardType)
+		);
+		this._subscriptions = new Map();
+	}
+
+	/**
+	 * Get the schema for the entities.
+	 * @returns The schema for the entities.
+	 */
+	public getSchema(): IEntitySchema {
+		return this._entitySchema as IEntitySchema;
+	}
+
+	/**
+	 * Get the optional capabilities supported by the connector, which are those supported by all the shards.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		const shardCapabilities = this._shards.map(shard => shard.getCapabilities());
+		return {
+			transactions: shardCapabilities.every(capabilities => capabilities.transactions),
+			subscriptions: shardCapabilities.every(capabilities => capabilities.subscriptions)
+		};
+	}
+
+	/**
+	 * Get an entity, the read is routed to a single shard if the id or secondary index is the
+	 * shard property, otherwise all the shards are read.
+	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
+	 * @param secondaryIndex Get the item using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The object if it can be found or undefined.
+	 */
+	public async get(
+		id: string,
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<T | undefined> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		if ((secondaryIndex ?? this._primaryKey.property) === this._shardProperty) {
+			return this._shards[this.getShardIndex(id)].get(id, secondaryIndex, conditions);
+		}
+
+		for (const shard of this._shards) {
+			const entity = await shard.get(id, secondaryIndex, conditions);
+			if (!Is.undefined(entity)) {
+				return entity;
+			}
+		}
+	}
+
+	/**
+	 * Set an entity in the shard chosen by the shard property.
+	 * @param entity The entity to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
+	 * @returns The id of the entity.
+	 */
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
+		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
+
+		await this._shards[this.getEntityShardIndex(entity)].set(
+			entity,
+			conditions,
+			expectedVersion,
+			timeToLive
+		);
+	}
+
+	/**
+	 * Remove the entity from the shard which stores it.
+	 * @param id The id of the entity to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns Nothing.
+	 */
+	public async remove(
+		id: string,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const shardIndex = await this.findShardIndex(id);
+		await this._shards[shardIndex].remove(id, conditions, expectedVersion);
+	}
+
+	/**
+	 * Update the properties of an entity in the shard which stores it, the shard property can not be patched.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.object<Partial<T>>(this.CLASS_NAME, nameof(patch), patch);
+
+		if (this._shardProperty !== this._primaryKey.property && this._shardProperty in patch) {
+			throw new GeneralError(this.CLASS_NAME, "shardPropertyImmutable", {
+				property: this._shardProperty
+			});
+		}
+
+		const shardIndex = await this.findShardIndex(id);
+		await this._shards[shardIndex].patch(id, patch, conditions);
+	}
+
+	/**
+	 * Set multiple entities, each shard is sent a batch of the entities it stores.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		return this.batchByShard(
+			entities.map(entity => this.getEntityShardIndex(entity)),
+			async (shard, indexes) =>
+				shard.setBatch(
+					indexes.map(i => entities[i]),
+					conditions
+				)
+		);
+	}
+
+	/**
+	 * Get multiple entities, each shard is sent a batch of the ids it stores if the ids or
+	 * secondary index are the shard property, otherwise all the shards are read.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if ((secondaryIndex ?? this._primaryKey.property) === this._shardProperty) {
+			return this.batchByShard(
+				ids.map(id => this.getShardIndex(id)),
+				async (shard, indexes) =>
+					shard.getBatch(
+						indexes.map(i => ids[i]),
+						secondaryIndex,
+						conditions
+					)
+			);
+		}
+
+		const results: IEntityStorageBatchResult<T>[] = ids.map(id => ({ id, success: true }));
+		for (const shard of this._shards) {
+			const shardResults = await shard.getBatch(ids, secondaryIndex, conditions);
+			for (let i = 0; i < ids.length; i++) {
+				if (
+					Is.undefined(results[i].entity) &&
+					results[i].success &&
+					(!Is.undefined(shardResults[i].entity) || !shardResults[i].success)
+				) {
+					results[i] = shardResults[i];
+				}
+			}
+		}
+		return results;
+	}
+
+	/**
+	 * Remove multiple entities, each shard is sent a batch of the ids it stores.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (this._shardProperty !== this._primaryKey.property) {
+			return EntityStorageBatchHelper.removeBatch(this, ids, conditions);
+		}
+
+		return this.batchByShard(
+			ids.map(id => this.getShardIndex(id)),
+			async (shard, indexes) =>
+				shard.removeBatch(
+					indexes.map(i => ids[i]),
+					conditions
+				)
+		);
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, all the operations must be for
+	 * entities stored in the same shard as the shards can not be updated atomically together.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			EntityStorageVersionHelper.getVersionProperty(this._entitySchema)
+		);
+
+		const shardIndexes = new Set<number>();
+		for (const operation of operations) {
+			shardIndexes.add(
+				operation.type === EntityStorageTransactionOperationType.Set
+					? this.getEntityShardIndex(operation.entity as T)
+					: await this.findShardIndex(
+							EntityStorageTransactionHelper.getOperationId(operation, this._primaryKey.property)
+						)
+			);
+		}
+
+		if (shardIndexes.size > 1) {
+			throw new GeneralError(this.CLASS_NAME, "transactionMultipleShards", {
+				shardCount: shardIndexes.size
+			});
+		}
+
+		const [shardIndex] = shardIndexes;
+		await this._shards[shardIndex].transaction(operations);
+	}
+
+	/**
+	 * Subscribe to the changes made to entities in all the shards.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		const shardSubscriptionIds: string[] = [];
+		for (const shard of this._shards) {
+			shardSubscriptionIds.push(await shard.subscribe(conditions, callback));
+		}
+
+		const subscriptionId = Converter.bytesToHex(RandomHelper.generate(16));
+		this._subscriptions.set(subscriptionId, shardSubscriptionIds);
+		return subscriptionId;
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities in all the shards.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(subscriptionId), subscriptionId);
+
+		const shardSubscriptionIds = this._subscriptions.get(subscriptionId) ?? [];
+		this._subscriptions.delete(subscriptionId);
+		for (let i = 0; i < shardSubscriptionIds.length; i++) {
+			await this._shards[i].unsubscribe(shardSubscriptionIds[i]);
+		}
+	}
+
+	/**
+	 * Count all the entities in all the shards which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		let total = 0;
+		for (const shard of this._shards) {
+			total += await shard.count(conditions);
+		}
+		return total;
+	}
+
+	/**
+	 * Find all the entities which match the conditions, all the shards are queried and the
+	 * results merged in the sort order. The cursor contains the position in each of the shards.
+	 * @param conditions The conditions to match for the entities.
+	 * @param sortProperties The optional sort order.
+	 * @param properties The optional properties to return, defaults to all.
+	 * @param cursor The cursor to request the next page of entities.
+	 * @param pageSize The suggested number of entities to return in each chunk, in some scenarios can return a different amount.
+	 * @returns All the entities for the storage matching the conditions,
+	 * and a cursor which can be used to request more entities.
+	 */
+	public async query(
+		conditions?: EntityCondition<T>,
+		sortProperties?: {
+			property: keyof T;
+			sortDirection: SortDirection;
+		}[],
+		properties?: (keyof T)[],
+		cursor?: string,
+		pageSize?: number
+	): Promise<{
+		/**
+		 * The entities, which can be partial if a limited keys list was provided.
+		 */
+		entities: Partial<T>[];
+		/**
+		 * An optional cursor, when defined can be used to call find to get more entities.
+		 */
+		cursor?: string;
+	}> {
+		const finalPageSize = pageSize ?? ShardingEntityStorageConnector._DEFAULT_PAGE_SIZE;
+		const sortKeys: IEntitySort<T>[] =
+			EntitySchemaHelper.buildSortProperties<T>(
+				this._entitySchema,
+				EntityStorageCursorHelper.getSortKeys(
+					EntitySchemaHelper.buildSortProperties<T>(this._entitySchema, sortProperties),
+					this._primaryKey.property
+				)
+			) ?? [];
+
+		// The sort keys are needed to merge the results, so are added to the requested properties
+		const queryProperties = Is.undefined(properties)
+			? undefined
+			: [...new Set([...properties, ...sortKeys.map(sortKey => sortKey.property)])];
+
+		const positions: ({ cursor?: string; skip: number } | null)[] = Is.stringValue(cursor)
+			? this.parseCursor(cursor)
+			: this._shards.map(() => ({ skip: 0 }));
+
+		// Each shard is read from its position so that it has a full page of entities to merge,
+		// unless it has no more entities
+		const pages: { entities: Partial<T>[]; cursor?: string; consumed: number }[] = [];
+		for (let i = 0; i < this._shards.length; i++) {
+			let position = positions[i];
+			let page: { entities: Partial<T>[]; cursor?: string } = { entities: [] };
+			while (!Is.null(position)) {
+				page = await this._shards[i].query(
+					conditions,
+					sortProperties,
+					queryProperties,
+					position.cursor,
+					position.skip + finalPageSize
+				);
+				page.entities = page.entities.slice(position.skip);
+				if (page.entities.length > 0 || !Is.stringValue(page.cursor)) {
+					break;
+				}
+				position = { cursor: page.cursor, skip: 0 };
+			}
+			positions[i] = position;
+			pages.push({ ...page, consumed: 0 });
+		}
+
+		// Merge the pages until the page is full, or a shard has run out of entities but has
+		// more pages, as its next entity could be before those remaining in the other shards
+		const entities: Partial<T>[] = [];
+		while (entities.length < finalPageSize) {
+			let nextIndex: number | undefined;
+			let canContinue = true;
+			for (let i = 0; i < pages.length; i++) {
+				const page = pages[i];
+				if (page.consumed < page.entities.length) {
+					if (
+						Is.undefined(nextIndex) ||
+						EntityStorageCursorHelper.compare(
+							page.entities[page.consumed],
+							pages[nextIndex].entities[pages[nextIndex].consumed],
+							sortKeys
+						) < 0
+					) {
+						nextIndex = i;
+					}
+				} else if (!Is.null(positions[i]) && Is.stringValue(page.cursor)) {
+					canContinue = false;
+				}
+			}
+			if (Is.undefined(nextIndex) || !canContinue) {
+				break;
+			}
+			entities.push(pages[nextIndex].entities[pages[nextIndex].consumed]);
+			pages[nextIndex].consumed++;
+		}
+
+		const nextPositions: ({ cursor?: string; skip: number } | null)[] = [];
+		for (let i = 0; i < pages.length; i++) {
+			const position = positions[i];
+			const page = pages[i];
+			if (Is.null(position) || page.consumed < page.entities.length) {
+				nextPositions.push(
+					Is.null(position)
+						? null
+						: { cursor: position.cursor, skip: position.skip + page.consumed }
+				);
+			} else {
+				nextPositions.push(Is.stringValue(page.cursor) ? { cursor: page.cursor, skip: 0 } : null);
+			}
+		}
+
+		return {
+			entities: Is.undefined(properties)
+				? entities
+				: entities.map(entity => ObjectHelper.pick<Partial<T>>(entity, properties)),
+			cursor: nextPositions.every(position => Is.null(position))
+				? undefined
+				: Converter.bytesToBase64Url(ObjectHelper.toBytes(nextPositions))
+		};
+	}
+
+	/**
+	 * Get the index of the shard for a shard property value.
+	 * @param value The value of the shard property.
+	 * @returns The index of the shard.
+	 * @internal
+	 */
+	private getShardIndex(value: unknown): number {
+		if (this._strategy === ShardingEntityStorageStrategy.Range) {
+			const boundaryIndex = this._rangeBoundaries.findIndex(
+				boundary => (value as string | number) < boundary
+			);
+			return boundaryIndex === -1 ? this._rangeBoundaries.length : boundaryIndex;
+		}
+
+		// A polynomial hash of the UTF-8 bytes, which must give the same shard in every process
+		let hash = 0;
+		for (const byte of Converter.utf8ToBytes(String(value))) {
+			const multiplied = hash * 31;
+			hash = (multiplied + byte) % ShardingEntityStorageConnector._HASH_MODULUS;
+		}
+		return hash % this._shards.length;
+	}
+
+	/**
+	 * Get the index of the shard for an entity.
+	 * @param entity The entity to get the shard for.
+	 * @returns The index of the shard.
+	 * @throws GeneralError if the entity has no value for the shard property.
+	 * @internal
+	 */
+	private getEntityShardIndex(entity: T): number {
+		const value = entity[this._shardProperty];
+		if (Is.empty(value)) {
+			throw new GeneralError(this.CLASS_NAME, "shardPropertyMissing", {
+				property: this._shardProperty
+			});
+		}
+		return this.getShardIndex(value);
+	}
+
+	/**
+	 * Find the index of the shard which stores an entity, if the shard property is not the primary
+	 * key the shards are read until the entity is found, an entity which does not exist in any of
+	 * the shards is handled by the first shard.
+	 * @param id The id of the entity.
+	 * @returns The index of the shard.
+	 * @internal
+	 */
+	private async findShardIndex(id: string): Promise<number> {
+		if (this._shardProperty === this._primaryKey.property) {
+			return this.getShardIndex(id);
+		}
+
+		for (let i = 0; i < this._shards.length; i++) {
+			const entity = await this._shards[i].get(id);
+			if (!Is.undefined(entity)) {
+				return i;
+			}
+		}
+		return 0;
+	}
+
+	/**
+	 * Perform a batch operation by sending each shard a batch of the items it stores.
+	 * @param shardIndexes The index of the shard for each item.
+	 * @param action The batch operation to perform on a shard with the indexes of its items.
+	 * @returns The result for each of the items, in the same order they were provided.
+	 * @internal
+	 */
+	private async batchByShard(
+		shardIndexes: number[],
+		action: (
+			shard: IEntityStorageConnector<T>,
+			indexes: number[]
+		) => Promise<IEntityStorageBatchResult<T>[]>
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		const itemIndexes = new Map<number, number[]>();
+		for (let i = 0; i < shardIndexes.length; i++) {
+			const indexes = itemIndexes.get(shardIndexes[i]) ?? [];
+			indexes.push(i);
+			itemIndexes.set(shardIndexes[i], indexes);
+		}
+
+		const results: IEntityStorageBatchResult<T>[] = [];
+		for (const [shardIndex, indexes] of itemIndexes) {
+			const shardResults = await action(this._shards[shardIndex], indexes);
+			for (let i = 0; i < indexes.length; i++) {
+				results[indexes[i]] = shardResults[i];
+			}
+		}
+		return results;
+	}
+
+	/**
+	 * Parse the position in each of the shards from a cursor.
+	 * @param cursor The cursor to parse.
+	 * @returns The position in each of the shards, null if the shard has no more entities.
+	 * @throws GeneralError if the cursor is not valid.
+	 * @internal
+	 */
+	private parseCursor(cursor: string): ({ cursor?: string; skip: number } | null)[] {
+		try {
+			const positions = ObjectHelper.fromBytes<unknown>(Converter.base64UrlToBytes(cursor));
+			if (
+				Is.arrayValue<{ cursor?: string; skip: number } | null>(positions) &&
+				positions.length === this._shards.length &&
+				positions.every(position => Is.null(position) || Is.integer(position.skip))
+			) {
+				return positions;
+			}
+		} catch {
+			// A cursor which can not be decoded is invalid
+		}
+
+		throw new GeneralError(this.CLASS_NAME, "cursorInvalid", { cursor });
+	}
+}
@@ -0,0 +1,465 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { I18n } from "@twin.org/core";
+import {
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	SortDirection,
+	entity,
+	property
+} from "@twin.org/entity";
+import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType,
+	type IEntityStorageChange
+} from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorTestSuite,
+	type TestSuiteEntity
+} from "@twin.org/entity-storage-test-suite";
+import { nameof } from "@twin.org/nameof";
+import type { IShardingEntityStorageConnectorConfig } from "../src/models/IShardingEntityStorageConnectorConfig";
+import { ShardingEntityStorageStrategy } from "../src/models/shardingEntityStorageStrategy";
+import { ShardingEntityStorageConnector } from "../src/shardingEntityStorageConnector";
+
+/**
+ * Test Type Definition.
+ */
+@entity()
+class TestType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Node identity.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public nodeIdentity!: string;
+
+	/**
+	 * Value.
+	 */
+	@property({ type: "integer" })
+	public value!: number;
+}
+
+const SHARD_TYPES = ["shard0", "shard1", "shard2"];
+
+let shards: MemoryEntityStorageConnector<TestType>[];
+
+/**
+ * Create a connector which shards the entities across the memory connectors.
+ * @param config The optional config to use in addition to the shard types.
+ * @returns The connector.
+ */
+function createConnector(
+	config?: Omit<IShardingEntityStorageConnectorConfig, "shardEntityStorageConnectorTypes">
+): ShardingEntityStorageConnector<TestType> {
+	return new ShardingEntityStorageConnector<TestType>({
+		entitySchema: nameof<TestType>(),
+		config: {
+			shardEntityStorageConnectorTypes: SHARD_TYPES,
+			...config
+		}
+	});
+}
+
+/**
+ * Create the test entities.
+ * @param count The number of entities to create.
+ * @returns The entities.
+ */
+function createEntities(count: number): TestType[] {
+	const entities: TestType[] = [];
+	for (let i = 0; i < count; i++) {
+		entities.push({ id: `id${i}`, nodeIdentity: `node${i % 4}`, value: (i * 7) % count });
+	}
+	return entities;
+}
+
+describe("ShardingEntityStorageConnector", () => {
+	beforeAll(async () => {
+		I18n.addDictionary("en", await import("../locales/en.json"));
+
+		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
+	});
+
+	beforeEach(() => {
+		shards = SHARD_TYPES.map(
+			() => new MemoryEntityStorageConnector<TestType>({ entitySchema: nameof<TestType>() })
+		);
+		for (let i = 0; i < SHARD_TYPES.length; i++) {
+			EntityStorageConnectorFactory.register(SHARD_TYPES[i], () => shards[i]);
+		}
+	});
+
+	afterEach(() => {
+		for (const shardType of SHARD_TYPES) {
+			EntityStorageConnectorFactory.unregister(shardType);
+		}
+	});
+
+	test("can fail to construct when there is no options", async () => {
+		expect(
+			() =>
+				new ShardingEntityStorageConnector(
+					undefined as unknown as {
+						entitySchema: string;
+						config: IShardingEntityStorageConnectorConfig;
+					}
+				)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.objectUndefined",
+				properties: {
+					property: "options",
+					value: "undefined"
+				}
+			})
+		);
+	});
+
+	test("can fail to construct with a shard property which is not in the schema", async () => {
+		expect(() => createConnector({ shardProperty: "missing" })).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "shardingEntityStorageConnector.shardPropertyInvalid",
+				properties: { property: "missing" }
+			})
+		);
+	});
+
+	test("can fail to construct with range boundaries which are not valid", async () => {
+		expect(() =>
+			createConnector({ strategy: ShardingEntityStorageStrategy.Range, rangeBoundaries: ["m"] })
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "shardingEntityStorageConnector.rangeBoundariesInvalid",
+				properties: { shardCount: 3 }
+			})
+		);
+		expect(() =>
+			createConnector({
+				strategy: ShardingEntityStorageStrategy.Range,
+				rangeBoundaries: ["m", "f"]
+			})
+		).toThrow(
+			expect.objectContaining({
+				message: "shardingEntityStorageConnector.rangeBoundariesInvalid"
+			})
+		);
+	});
+
+	test("can construct", async () => {
+		const connector = createConnector();
+		expect(connector).toBeDefined();
+		expect(connector.getSchema()).toEqual(EntitySchemaHelper.getSchema(TestType));
+		expect(connector.getCapabilities()).toEqual({ transactions: true, subscriptions: true });
+	});
+
+	test("can distribute the entities across the shards using a hash of the primary key", async () => {
+		const connector = createConnector();
+		const entities = createEntities(30);
+		for (const testEntity of entities) {
+			await connector.set(testEntity);
+		}
+
+		const shardSizes = shards.map(shard => shard.getStore().length);
+		expect(shardSizes.reduce((total, size) => total + size, 0)).toEqual(30);
+		expect(shardSizes.every(size => size > 0)).toEqual(true);
+
+		// The same shard is chosen by another instance of the connector
+		const otherConnector = createConnector();
+		for (const testEntity of entities) {
+			const getSpies = shards.map(shard => vi.spyOn(shard, "get"));
+			expect(await otherConnector.get(testEntity.id)).toEqual(testEntity);
+			expect(getSpies.filter(spy => spy.mock.calls.length > 0)).toHaveLength(1);
+			vi.restoreAllMocks();
+		}
+	});
+
+	test("can distribute the entities across the shards using ranges", async () => {
+		const connector = createConnector({
+			strategy: ShardingEntityStorageStrategy.Range,
+			rangeBoundaries: ["id2", "id6"]
+		});
+		await connector.setBatch(createEntities(10));
+
+		expect(shards[0].getStore().map(e => e.id)).toEqual(["id0", "id1"]);
+		expect(shards[1].getStore().map(e => e.id)).toEqual(["id2", "id3", "id4", "id5"]);
+		expect(shards[2].getStore().map(e => e.id)).toEqual(["id6", "id7", "id8", "id9"]);
+	});
+
+	test("can route the operations for an entity to its shard", async () => {
+		const connector = createConnector({
+			strategy: ShardingEntityStorageStrategy.Range,
+			rangeBoundaries: ["id2", "id6"]
+		});
+		await connector.set({ id: "id3", nodeIdentity: "node1", value: 1 });
+		expect(shards[1].getStore()).toEqual([{ id: "id3", nodeIdentity: "node1", value: 1 }]);
+
+		await connector.patch("id3", { value: 2 });
+		expect(await connector.get("id3")).toEqual({ id: "id3", nodeIdentity: "node1", value: 2 });
+
+		await connector.remove("id3");
+		expect(await connector.get("id3")).toBeUndefined();
+		expect(shards.map(shard => shard.getStore().length)).toEqual([0, 0, 0]);
+	});
+
+	test("can shard using a property which is not the primary key", async () => {
+		const connector = createConnector({ shardProperty: "nodeIdentity" });
+		const entities = createEntities(12);
+		await connector.setBatch(entities);
+
+		for (const shard of shards) {
+			const nodeIdentities = new Set(shard.getStore().map(e => e.nodeIdentity));
+			for (const otherShard of shards.filter(s => s !== shard)) {
+				expect(otherShard.getStore().some(e => nodeIdentities.has(e.nodeIdentity))).toEqual(false);
+			}
+		}
+
+		expect(await connector.get("id5")).toEqual(entities[5]);
+		expect(await connector.get("node1", "nodeIdentity")).toEqual(entities[1]);
+
+		await connector.patch("id5", { value: 100 });
+		expect(await connector.get("id5")).toEqual({ ...entities[5], value: 100 });
+
+		const removeResults = await connector.removeBatch(["id5", "id6", "missing"]);
+		expect(removeResults.map(r => r.success)).toEqual([true, true, true]);
+		expect(await connector.count()).toEqual(10);
+
+		const getResults = await connector.getBatch(["id0", "id5", "id7"]);
+		expect(getResults).toEqual([
+			{ id: "id0", success: true, entity: entities[0] },
+			{ id: "id5", success: true },
+			{ id: "id7", success: true, entity: entities[7] }
+		]);
+	});
+
+	test("can fail to set an entity without a value for the shard property", async () => {
+		const connector = createConnector({ shardProperty: "nodeIdentity" });
+		await expect(connector.set({ id: "1", value: 1 } as unknown as TestType)).rejects.toMatchObject(
+			{
+				name: "GeneralError",
+				message: "shardingEntityStorageConnector.shardPropertyMissing",
+				properties: { property: "nodeIdentity" }
+			}
+		);
+	});
+
+	test("can fail to patch the shard property", async () => {
+		const connector = createConnector({ shardProperty: "nodeIdentity" });
+		await connector.set({ id: "1", nodeIdentity: "node1", value: 1 });
+
+		await expect(connector.patch("1", { nodeIdentity: "node2" })).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "shardingEntityStorageConnector.shardPropertyImmutable",
+			properties: { property: "nodeIdentity" }
+		});
+	});
+
+	test("can set, get and remove batches across the shards", async () => {
+		const connector = createConnector();
+		const entities = createEntities(10);
+
+		const setResults = await connector.setBatch(entities);
+		expect(setResults.map(r => r.id)).toEqual(entities.map(e => e.id));
+		expect(setResults.every(r => r.success)).toEqual(true);
+
+		const getResults = await connector.getBatch(["id9", "id0", "missing", "id4"]);
+		expect(getResults).toEqual([
+			{ id: "id9", success: true, entity: entities[9] },
+			{ id: "id0", success: true, entity: entities[0] },
+			{ id: "missing", success: true },
+			{ id: "id4", success: true, entity: entities[4] }
+		]);
+
+		const removeResults = await connector.removeBatch(["id9", "id0"]);
+		expect(removeResults.map(r => r.id)).toEqual(["id9", "id0"]);
+		expect(await connector.count()).toEqual(8);
+	});
+
+	test("can perform a transaction for entities in the same shard", async () => {
+		const connector = createConnector({ shardProperty: "nodeIdentity" });
+		await connector.set({ id: "1", nodeIdentity: "node1", value: 1 });
+
+		await connector.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "2", nodeIdentity: "node1", value: 2 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "1" }
+		]);
+
+		expect(await connector.get("1")).toBeUndefined();
+		expect(await connector.get("2")).toEqual({ id: "2", nodeIdentity: "node1", value: 2 });
+	});
+
+	test("can fail to perform a transaction for entities in multiple shards", async () => {
+		const connector = createConnector({
+			strategy: ShardingEntityStorageStrategy.Range,
+			rangeBoundaries: ["id2", "id6"]
+		});
+
+		await expect(
+			connector.transaction([
+				{
+					type: EntityStorageTransactionOperationType.Set,
+					entity: { id: "id1", nodeIdentity: "node1", value: 1 }
+				},
+				{
+					type: EntityStorageTransactionOperationType.Set,
+					entity: { id: "id7", nodeIdentity: "node1", value: 7 }
+				}
+			])
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "shardingEntityStorageConnector.transactionMultipleShards",
+			properties: { shardCount: 2 }
+		});
+		expect(await connector.count()).toEqual(0);
+	});
+
+	test("can query all the shards merging the results in the sort order", async () => {
+		const connector = createConnector();
+		const entities = createEntities(25);
+		await connector.setBatch(entities);
+
+		const sortProperties: { property: keyof TestType; sortDirection: SortDirection }[] = [
+			{ property: "value", sortDirection: SortDirection.Descending }
+		];
+		const expected = [...entities].sort((a, b) => b.value - a.value).map(e => e.id);
+
+		for (const pageSize of [1, 3, 7, 25, 40]) {
+			const ids: string[] = [];
+			let cursor: string | undefined;
+			do {
+				const page = await connector.query(undefined, sortProperties, undefined, cursor, pageSize);
+				expect(page.entities.length).toBeLessThanOrEqual(pageSize);
+				ids.push(...page.entities.map(e => e.id as string));
+				cursor = page.cursor;
+			} while (cursor);
+			expect(ids).toEqual(expected);
+		}
+	});
+
+	test("can query with a page size which changes between the pages", async () => {
+		const connector = createConnector();
+		const entities = createEntities(20);
+		await connector.setBatch(entities);
+
+		const pageSizes = [6, 2, 9, 1, 20];
+		const ids: string[] = [];
+		let cursor: string | undefined;
+		for (const pageSize of pageSizes) {
+			const page = await connector.query(undefined, undefined, undefined, cursor, pageSize);
+			ids.push(...page.entities.map(e => e.id as string));
+			cursor = page.cursor;
+		}
+
+		expect(cursor).toBeUndefined();
+		expect(ids).toEqual(entities.map(e => e.id).sort());
+	});
+
+	test("can query with only the requested properties when they do not include the sort keys", async () => {
+		const connector = createConnector();
+		await connector.setBatch(createEntities(6));
+
+		const page = await connector.query(
+			undefined,
+			[{ property: "value", sortDirection: SortDirection.Ascending }],
+			["nodeIdentity"],
+			undefined,
+			3
+		);
+		expect(page.entities).toEqual([
+			{ nodeIdentity: "node0" },
+			{ nodeIdentity: "node1" },
+			{ nodeIdentity: "node2" }
+		]);
+	});
+
+	test("can fail to query with a cursor which is not valid", async () => {
+		const connector = createConnector();
+
+		await expect(
+			connector.query(undefined, undefined, undefined, "not-a-cursor")
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "shardingEntityStorageConnector.cursorInvalid",
+			properties: { cursor: "not-a-cursor" }
+		});
+	});
+
+	test("can subscribe to the changes in all the shards", async () => {
+		const connector = createConnector();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await connector.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await connector.setBatch(createEntities(6));
+		expect(changes.map(c => c.id).sort()).toEqual(["id0", "id1", "id2", "id3", "id4", "id5"]);
+
+		await connector.unsubscribe(subscriptionId);
+		await connector.remove("id0");
+		expect(changes).toHaveLength(6);
+	});
+});
+
+describe("ShardingEntityStorageConnector conformance using a hash of the primary key", () => {
+	EntityStorageConnectorTestSuite.run({
+		createConnector: async entitySchema => {
+			for (const shardType of SHARD_TYPES) {
+				EntityStorageConnectorFactory.register(
+					`${shardType}-test-suite`,
+					() => new MemoryEntityStorageConnector<TestSuiteEntity>({ entitySchema })
+				);
+			}
+			return new ShardingEntityStorageConnector<TestSuiteEntity>({
+				entitySchema,
+				config: {
+					shardEntityStorageConnectorTypes: SHARD_TYPES.map(shardType => `${shardType}-test-suite`)
+				}
+			});
+		},
+		removeConnector: async () => {
+			for (const shardType of SHARD_TYPES) {
+				EntityStorageConnectorFactory.unregister(`${shardType}-test-suite`);
+			}
+		}
+	});
+});
+
+describe("ShardingEntityStorageConnector conformance using a range of a property", () => {
+	EntityStorageConnectorTestSuite.run({
+		createConnector: async entitySchema => {
+			for (const shardType of SHARD_TYPES) {
+				EntityStorageConnectorFactory.register(
+					`${shardType}-test-suite`,
+					() => new MemoryEntityStorageConnector<TestSuiteEntity>({ entitySchema })
+				);
+			}
+			return new ShardingEntityStorageConnector<TestSuiteEntity>({
+				entitySchema,
+				config: {
+					shardEntityStorageConnectorTypes: SHARD_TYPES.map(shardType => `${shardType}-test-suite`),
+					shardProperty: "category",
+					strategy: ShardingEntityStorageStrategy.Range,
+					rangeBoundaries: ["b", "c"]
+				}
+			});
+		},
+		removeConnector: async () => {
+			for (const shardType of SHARD_TYPES) {
+				EntityStorageConnectorFactory.unregister(`${shardType}-test-suite`);
+			}
+		}
+	});
+});
@@ -0,0 +1,5 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+export * from "./models/ISqliteEntityStorageConnectorConfig";
+export * from "./models/ISqliteEntityStorageConnectorConstructorOptions";
+export * from "./sqliteEntityStorageConnector";
@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Configuration for the SQLite Entity Storage Connector.
+ */
+export interface ISqliteEntityStorageConnectorConfig {
+	/**
+	 * The filename for the SQLite database, use ":memory:" for a database which is not persisted.
+	 */
+	filename: string;
+
+	/**
+	 * The name of the table to be used.
+	 */
+	tableName: string;
+
+	/**
+	 * The interval in milliseconds for sweeping the expired entities while the connector is started,
+	 * only used if the schema supports expiry, defaults to 60000.
+	 */
+	expirySweepInterval?: number;
+}
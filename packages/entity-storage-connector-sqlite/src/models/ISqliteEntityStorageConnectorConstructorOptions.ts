@@ -0,0 +1,24 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { ISqliteEntityStorageConnectorConfig } from "./ISqliteEntityStorageConnectorConfig";
+
+/**
+ * The options for the SQLite entity storage connector constructor.
+ */
+export interface ISqliteEntityStorageConnectorConstructorOptions {
+	/**
+	 * The schema for the entity.
+	 */
+	entitySchema: string;
+
+	/**
+	 * The type of logging connector to use.
+	 * @default logging
+	 */
+	loggingConnectorType?: string;
+
+	/**
+	 * The configuration for the connector.
+	 */
+	config: ISqliteEntityStorageConnectorConfig;
+}
@@ -0,0 +1,1292 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import { BaseError, Coerce, GeneralError, Guards, Is, ObjectHelper } from "@twin.org/core";
+import {
+	ComparisonOperator,
+	type EntityCondition,
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	EntitySchemaPropertyType,
+	type IComparator,
+	type IEntitySchema,
+	LogicalOperator,
+	SortDirection
+} from "@twin.org/entity";
+import {
+	EntityStorageChangeEmitter,
+	EntityStorageChangeType,
+	EntityStorageCursorHelper,
+	EntityStorageExpiryHelper,
+	EntityStoragePatchHelper,
+	EntityStorageTransactionHelper,
+	EntityStorageTransactionOperationType,
+	EntityStorageVersionHelper,
+	type IEntityStorageBatchResult,
+	type IEntityStorageChange,
+	type IEntityStorageConnector,
+	type IEntityStorageConnectorCapabilities,
+	type IEntityStorageTransactionOperation
+} from "@twin.org/entity-storage-models";
+import { LoggingConnectorFactory } from "@twin.org/logging-models";
+import { nameof } from "@twin.org/nameof";
+import Database from "better-sqlite3";
+import type { ISqliteEntityStorageConnectorConfig } from "./models/ISqliteEntityStorageConnectorConfig";
+import type { ISqliteEntityStorageConnectorConstructorOptions } from "./models/ISqliteEntityStorageConnectorConstructorOptions";
+
+/**
+ * Class for performing entity storage operations using SQLite.
+ */
+export class SqliteEntityStorageConnector<T = unknown> implements IEntityStorageConnector<T> {
+	/**
+	 * Limit the number of entities when finding.
+	 * @internal
+	 */
+	private static readonly _PAGE_SIZE: number = 40;
+
+	/**
+	 * The filename which creates a database that is not persisted.
+	 * @internal
+	 */
+	private static readonly _MEMORY_FILENAME: string = ":memory:";
+
+	/**
+	 * Runtime name for the class.
+	 */
+	public readonly CLASS_NAME: string = nameof<SqliteEntityStorageConnector>();
+
+	/**
+	 * The schema for the entity.
+	 * @internal
+	 */
+	private readonly _entitySchema: IEntitySchema<T>;
+
+	/**
+	 * The version property, if the schema supports versions.
+	 * @internal
+	 */
+	private readonly _versionProperty?: keyof T;
+
+	/**
+	 * The expiry property, if the schema supports expiry.
+	 * @internal
+	 */
+	private readonly _expiryProperty?: keyof T;
+
+	/**
+	 * The configuration for the connector.
+	 * @internal
+	 */
+	private readonly _config: ISqliteEntityStorageConnectorConfig;
+
+	/**
+	 * The database for the connector.
+	 * @internal
+	 */
+	private _database?: Database.Database;
+
+	/**
+	 * The subscriptions to changes in the table.
+	 * @internal
+	 */
+	private readonly _changeEmitter: EntityStorageChangeEmitter<T>;
+
+	/**
+	 * The timer for sweeping the expired entities, only active while the connector is started.
+	 * @internal
+	 */
+	private _expirySweepTimer?: ReturnType<typeof setInterval>;
+
+	/**
+	 * Create a new instance of SqliteEntityStorageConnector.
+	 * @param options The options for the connector.
+	 */
+	constructor(options: ISqliteEntityStorageConnectorConstructorOptions) {
+		Guards.object(this.CLASS_NAME, nameof(options), options);
+		Guards.stringValue(this.CLASS_NAME, nameof(options.entitySchema), options.entitySchema);
+		Guards.object<ISqliteEntityStorageConnectorConfig>(
+			this.CLASS_NAME,
+			nameof(options.config),
+			options.config
+		);
+		Guards.stringValue(this.CLASS_NAME, nameof(options.config.filename), options.config.filename);
+		Guards.stringValue(this.CLASS_NAME, nameof(options.config.tableName), options.config.tableName);
+
+		this._entitySchema = EntitySchemaFactory.get(options.entitySchema);
+		this._versionProperty = EntityStorageVersionHelper.getVersionProperty(this._entitySchema);
+		this._expiryProperty = EntityStorageExpiryHelper.getExpiryProperty(this._entitySchema);
+
+		this._config = options.config;
+		this._changeEmitter = new EntityStorageChangeEmitter<T>();
+	}
+
+	/**
+	 * Initialize the SQLite environment.
+	 * @param nodeLoggingConnectorType Optional type of the logging connector.
+	 * @returns A promise that resolves to a boolean indicating success.
+	 */
+	public async bootstrap(nodeLoggingConnectorType?: string): Promise<boolean> {
+		const nodeLogging = LoggingConnectorFactory.getIfExists(
+			nodeLoggingConnectorType ?? "node-logging"
+		);
+
+		try {
+			await nodeLogging?.log({
+				level: "info",
+				source: this.CLASS_NAME,
+				ts: Date.now(),
+				message: "databaseCreating",
+				data: {
+					filename: this._config.filename
+				}
+			});
+
+			if (this._config.filename !== SqliteEntityStorageConnector._MEMORY_FILENAME) {
+				// SQLite creates the database file but not the directory it is in
+				await mkdir(path.dirname(path.resolve(this._config.filename)), { recursive: true });
+			}
+			const database = this.getDatabase();
+
+			await nodeLogging?.log({
+				level: "info",
+				source: this.CLASS_NAME,
+				ts: Date.now(),
+				message: "databaseExists",
+				data: {
+					filename: this._config.filename
+				}
+			});
+
+			database.exec(
+				`CREATE TABLE IF NOT EXISTS "${this._config.tableName}" (${this.mapSqliteProperties(this._entitySchema)})`
+			);
+
+			await nodeLogging?.log({
+				level: "info",
+				source: this.CLASS_NAME,
+				ts: Date.now(),
+				message: "tableExists",
+				data: {
+					table: this._config.tableName
+				}
+			});
+		} catch (err) {
+			await nodeLogging?.log({
+				level: "error",
+				source: this.CLASS_NAME,
+				ts: Date.now(),
+				message: "databaseCreateFailed",
+				error: BaseError.fromError(err),
+				data: {
+					filename: this._config.filename
+				}
+			});
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * The component needs to be started when the node is initialized.
+	 * @param nodeIdentity The identity of the node starting the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async start(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._expiryProperty) && Is.undefined(this._expirySweepTimer)) {
+			this._expirySweepTimer = setInterval(
+				async () => this.removeExpired(),
+				this._config.expirySweepInterval ?? EntityStorageExpiryHelper.DEFAULT_SWEEP_INTERVAL
+			);
+		}
+	}
+
+	/**
+	 * The component needs to be stopped when the node is closed.
+	 * @param nodeIdentity The identity of the node stopping the component.
+	 * @param nodeLoggingConnectorType The node logging connector type, defaults to "node-logging".
+	 * @returns Nothing.
+	 */
+	public async stop(
+		nodeIdentity: string,
+		nodeLoggingConnectorType: string | undefined
+	): Promise<void> {
+		if (!Is.undefined(this._expirySweepTimer)) {
+			clearInterval(this._expirySweepTimer);
+			this._expirySweepTimer = undefined;
+		}
+
+		if (!Is.undefined(this._database)) {
+			// The database is opened again if the connector is used after it has been stopped
+			const database = this._database;
+			this._database = undefined;
+			database.close();
+		}
+	}
+
+	/**
+	 * Get the schema for the entities.
+	 * @returns The schema for the entities.
+	 */
+	public getSchema(): IEntitySchema {
+		return this._entitySchema as IEntitySchema;
+	}
+
+	/**
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	public getCapabilities(): IEntityStorageConnectorCapabilities {
+		return {
+			transactions: true,
+			subscriptions: true
+		};
+	}
+
+	/**
+	 * Get an entity from SQLite.
+	 * @param id The id of the entity to get, or the index value if secondaryIndex is set.
+	 * @param secondaryIndex Get the item using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The object if it can be found or undefined.
+	 */
+	public async get(
+		id: string,
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<T | undefined> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		try {
+			return this.readEntity(id, secondaryIndex, conditions);
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"getFailed",
+				{
+					id
+				},
+				err
+			);
+		}
+	}
+
+	/**
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
+	 * @param entity The entity to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
+	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 */
+	public async set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void> {
+		Guards.object<T>(this.CLASS_NAME, nameof(entity), entity);
+
+		EntitySchemaHelper.validateEntity(entity, this.getSchema());
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const id = entity[primaryKey.property as keyof T] as unknown as string;
+
+		EntityStorageVersionHelper.guardExpectedVersion(this._versionProperty, expectedVersion);
+		const versionedEntity = EntityStorageVersionHelper.nextVersion(
+			EntityStorageExpiryHelper.applyTimeToLive(entity, this._expiryProperty, timeToLive),
+			this._versionProperty
+		);
+
+		let change: IEntityStorageChange<T> | undefined;
+		try {
+			const database = this.getDatabase();
+			change = database.transaction(() => {
+				if (Is.arrayValue(conditions) && Is.undefined(expectedVersion)) {
+					const itemData = this.readEntity(id);
+					if (!Is.undefined(itemData) && !this.verifyConditions(conditions, itemData)) {
+						return;
+					}
+				}
+				return this.writeEntity(id, versionedEntity, conditions, expectedVersion);
+			})();
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"setFailed",
+				{
+					id
+				},
+				err
+			);
+		}
+
+		if (!Is.undefined(change)) {
+			await this._changeEmitter.notify(change);
+		}
+	}
+
+	/**
+	 * Remove the entity.
+	 * @param id The id of the entity to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 */
+	public async remove(
+		id: string,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		let change: IEntityStorageChange<T> | undefined;
+		try {
+			const database = this.getDatabase();
+			change = database.transaction(() => {
+				const itemData = this.readEntity(id);
+				EntityStorageVersionHelper.verifyVersion(
+					id,
+					this._versionProperty,
+					expectedVersion,
+					itemData
+				);
+
+				if (!Is.undefined(itemData)) {
+					return this.deleteEntity(id, itemData, conditions);
+				}
+			})();
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"removeFailed",
+				{
+					id
+				},
+				err
+			);
+		}
+
+		if (!Is.undefined(change)) {
+			await this._changeEmitter.notify(change);
+		}
+	}
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void> {
+		EntityStoragePatchHelper.validatePatch(id, patch, this.getSchema());
+
+		let change: IEntityStorageChange<T> | undefined;
+		try {
+			const database = this.getDatabase();
+			// The database only has a single connection so reading the existing entity
+			// and writing the patched one in a transaction can not lose any updates
+			change = database.transaction(() => {
+				const existing = this.readEntity(id, undefined, conditions);
+				if (Is.undefined(existing)) {
+					return;
+				}
+				const patchedEntity = EntityStorageVersionHelper.nextVersion(
+					EntityStoragePatchHelper.applyPatch(existing, patch),
+					this._versionProperty
+				);
+				this.writeEntity(id, patchedEntity);
+				return {
+					type: EntityStorageChangeType.Updated,
+					id,
+					entity: patchedEntity
+				};
+			})();
+		} catch (err) {
+			throw new GeneralError(
+				this.CLASS_NAME,
+				"patchFailed",
+				{
+					id
+				},
+				err
+			);
+		}
+
+		if (!Is.undefined(change)) {
+			await this._changeEmitter.notify(change);
+		}
+	}
+
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public async setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(this.CLASS_NAME, nameof(entities), entities);
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const results: IEntityStorageBatchResult<T>[] = [];
+		const validEntities: { index: number; entity: T }[] = [];
+
+		for (let i = 0; i < entities.length; i++) {
+			const id = entities[i]?.[primaryKey.property as keyof T] as unknown as string;
+			try {
+				Guards.object<T>(this.CLASS_NAME, nameof(entities[i]), entities[i]);
+				EntitySchemaHelper.validateEntity(entities[i], this.getSchema());
+				results.push({ id, success: true });
+				validEntities.push({
+					index: i,
+					entity: EntityStorageVersionHelper.nextVersion(entities[i], this._versionProperty)
+				});
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		const changes: IEntityStorageChange<T>[] = [];
+		try {
+			const database = this.getDatabase();
+			database.transaction(() => {
+				for (const e of validEntities) {
+					const id = results[e.index].id;
+					const itemData = Is.arrayValue(conditions) ? this.readEntity(id) : undefined;
+					if (
+						Is.undefined(itemData) ||
+						!Is.arrayValue(conditions) ||
+						this.verifyConditions(conditions, itemData)
+					) {
+						changes.push(this.writeEntity(id, e.entity));
+					}
+				}
+			})();
+		} catch (err) {
+			changes.length = 0;
+			for (const e of validEntities) {
+				const result = results[e.index];
+				result.success = false;
+				result.error = new GeneralError(
+					this.CLASS_NAME,
+					"setFailed",
+					{ id: result.id },
+					err
+				).toJsonObject();
+			}
+		}
+
+		for (const change of changes) {
+			await this._changeEmitter.notify(change);
+		}
+
+		return results;
+	}
+
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	public async getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		const lookupProperty = Is.empty(secondaryIndex)
+			? EntitySchemaHelper.getPrimaryKey(this.getSchema()).property
+			: secondaryIndex;
+
+		try {
+			const values: unknown[] = [...ids];
+			const whereClauses: string[] = [
+				`"${String(lookupProperty)}" IN (${ids.map(() => "?").join(", ")})`
+			];
+
+			if (conditions) {
+				for (const condition of conditions) {
+					whereClauses.push(`"${String(condition.property)}" = ?`);
+					values.push(this.propertyToDbValue(condition.value));
+				}
+			}
+			this.addExpiryClause(whereClauses);
+
+			const query = `SELECT * FROM "${this._config.tableName}" WHERE ${whereClauses.join(" AND ")}`;
+			const rows = this.getDatabase().prepare(query).all(values) as { [key: string]: unknown }[];
+
+			const entities = rows.map(row => this.rowToEntity(row) as T);
+
+			return ids.map(id => ({
+				id,
+				success: true,
+				entity: entities.find(e => e[lookupProperty as keyof T] === id)
+			}));
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "getFailed", { id }, err).toJsonObject()
+			}));
+		}
+	}
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public async removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(this.CLASS_NAME, nameof(ids), ids);
+
+		if (ids.length === 0) {
+			return [];
+		}
+
+		const changes: IEntityStorageChange<T>[] = [];
+		try {
+			const database = this.getDatabase();
+			database.transaction(() => {
+				for (const id of ids) {
+					const itemData = this.readEntity(id);
+					if (!Is.undefined(itemData)) {
+						const change = this.deleteEntity(id, itemData, conditions);
+						if (!Is.undefined(change)) {
+							changes.push(change);
+						}
+					}
+				}
+			})();
+		} catch (err) {
+			return ids.map(id => ({
+				id,
+				success: false,
+				error: new GeneralError(this.CLASS_NAME, "removeFailed", { id }, err).toJsonObject()
+			}));
+		}
+
+		for (const change of changes) {
+			await this._changeEmitter.notify(change);
+		}
+
+		return ids.map(id => ({ id, success: true }));
+	}
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
+	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 */
+	public async transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void> {
+		EntityStorageTransactionHelper.validateOperations(
+			operations,
+			this._entitySchema,
+			this._versionProperty
+		);
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const changes: IEntityStorageChange<T>[] = [];
+
+		try {
+			const database = this.getDatabase();
+
+			// If any of the operations throw the transaction is rolled back
+			database.transaction(() => {
+				for (const operation of operations) {
+					const id = EntityStorageTransactionHelper.getOperationId(
+						operation,
+						primaryKey.property as keyof T
+					);
+					if (operation.type === EntityStorageTransactionOperationType.Set) {
+						changes.push(
+							this.writeEntity(
+								id,
+								EntityStorageVersionHelper.nextVersion(
+									operation.entity as T,
+									this._versionProperty
+								),
+								undefined,
+								operation.expectedVersion
+							)
+						);
+					} else {
+						const itemData = this.readEntity(id);
+						EntityStorageVersionHelper.verifyVersion(
+							id,
+							this._versionProperty,
+							operation.expectedVersion,
+							itemData
+						);
+						if (!Is.undefined(itemData)) {
+							const change = this.deleteEntity(id, itemData);
+							if (!Is.undefined(change)) {
+								changes.push(change);
+							}
+						}
+					}
+				}
+			})();
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "transactionFailed", undefined, err);
+		}
+
+		// Only notify the changes once all of the operations have been applied
+		for (const change of changes) {
+			await this._changeEmitter.notify(change);
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, only the changes made through this instance
+	 * of the connector are notified, not those made by other connections to the database.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		return this._changeEmitter.subscribe(conditions, callback);
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		this._changeEmitter.unsubscribe(subscriptionId);
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		try {
+			const whereClauses: string[] = [];
+			const values: unknown[] = [];
+
+			if (conditions) {
+				this.buildQueryParameters("", conditions, whereClauses, values);
+			}
+			this.addExpiryClause(whereClauses);
+
+			const query = `SELECT COUNT(*) AS "count" FROM "${this._config.tableName}" ${whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : ""}`;
+			const row = this.getDatabase().prepare(query).get(values) as
+				| { [key: string]: unknown }
+				| undefined;
+
+			return Coerce.number(row?.count) ?? 0;
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "countFailed", undefined, err);
+		}
+	}
+
+	/**
+	 * Find all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @param sortProperties The optional sort order.
+	 * @param properties The optional properties to return, defaults to all.
+	 * @param cursor The cursor to request the next page of entities.
+	 * @param pageSize The suggested number of entities to return in each chunk, in some scenarios can return a different amount.
+	 * @returns All the entities for the storage matching the conditions,
+	 * and a cursor which can be used to request more entities.
+	 */
+	public async query(
+		conditions?: EntityCondition<T>,
+		sortProperties?: { property: keyof T; sortDirection: SortDirection }[],
+		properties?: (keyof T)[],
+		cursor?: string,
+		pageSize?: number
+	): Promise<{ entities: Partial<T>[]; cursor?: string }> {
+		try {
+			const returnSize = pageSize ?? SqliteEntityStorageConnector._PAGE_SIZE;
+			const sortKeys = EntityStorageCursorHelper.getSortKeys(
+				sortProperties,
+				EntitySchemaHelper.getPrimaryKey(this._entitySchema).property
+			);
+
+			const orderByClause = `ORDER BY ${sortKeys
+				.map(
+					sortKey =>
+						`"${String(sortKey.property)}" ${sortKey.sortDirection === SortDirection.Ascending ? "ASC" : "DESC"}`
+				)
+				.join(", ")}`;
+
+			const whereClauses: string[] = [];
+			const values: unknown[] = [];
+
+			if (conditions) {
+				this.buildQueryParameters("", conditions, whereClauses, values);
+			}
+			this.addExpiryClause(whereClauses);
+			if (Is.stringValue(cursor)) {
+				this.addCursorClause(
+					sortKeys,
+					EntityStorageCursorHelper.parseCursor(cursor, sortKeys),
+					whereClauses,
+					values
+				);
+			}
+			values.push(returnSize);
+
+			// The sort keys are always selected so that the cursor can be created from the last entity
+			const columns = Is.arrayValue(properties)
+				? [...new Set([...properties, ...sortKeys.map(sortKey => sortKey.property)])]
+				: undefined;
+
+			const query = `SELECT ${columns ? columns.map(p => `"${String(p)}"`).join(", ") : "*"} FROM "${this._config.tableName}" ${whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : ""} ${orderByClause} LIMIT ?`;
+			const rows = this.getDatabase().prepare(query).all(values) as { [key: string]: unknown }[];
+			const entities = rows.map(row => this.rowToEntity(row)) as Partial<T>[];
+
+			return {
+				entities: Is.arrayValue(properties)
+					? entities.map(entity => ObjectHelper.pick(entity as T, properties))
+					: entities,
+				cursor:
+					entities.length === returnSize
+						? EntityStorageCursorHelper.createCursor(entities[entities.length - 1], sortKeys)
+						: undefined
+			};
+		} catch (err) {
+			throw new GeneralError(this.CLASS_NAME, "queryFailed", undefined, err);
+		}
+	}
+
+	/**
+	 * Drop the table.
+	 * @returns Nothing.
+	 */
+	public async tableDrop(): Promise<void> {
+		try {
+			this.getDatabase().exec(`DROP TABLE IF EXISTS "${this._config.tableName}";`);
+		} catch {
+			// Ignore errors
+		}
+	}
+
+	/**
+	 * Read an entity from the table, expired entities are not returned.
+	 * @param id The id of the entity to read, or the index value if secondaryIndex is set.
+	 * @param secondaryIndex Read the entity using a secondary index.
+	 * @param conditions The optional conditions to match for the entity.
+	 * @returns The entity if it can be found or undefined.
+	 * @internal
+	 */
+	private readEntity(
+		id: string,
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): T | undefined {
+		const whereClauses: string[] = [];
+		const values: unknown[] = [id];
+
+		if (secondaryIndex) {
+			whereClauses.push(`"${String(secondaryIndex)}" = ?`);
+		} else {
+			const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+			whereClauses.push(`"${primaryKey.property}" = ?`);
+		}
+
+		if (conditions) {
+			for (const condition of conditions) {
+				whereClauses.push(`"${String(condition.property)}" = ?`);
+				values.push(this.propertyToDbValue(condition.value));
+			}
+		}
+		this.addExpiryClause(whereClauses);
+
+		const query = `SELECT * FROM "${this._config.tableName}" WHERE ${whereClauses.join(" AND ")} LIMIT 1`;
+		const row = this.getDatabase().prepare(query).get(values) as
+			| { [key: string]: unknown }
+			| undefined;
+
+		return Is.undefined(row) ? undefined : (this.rowToEntity(row) as T);
+	}
+
+	/**
+	 * Write the entity to the table, if an expected version is provided the existing entity
+	 * is only updated if it still has that version.
+	 * @param id The id of the entity.
+	 * @param entity The entity to write.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns The change made to the table.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 * @internal
+	 */
+	private writeEntity(
+		id: string,
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): IEntityStorageChange<T> {
+		const database = this.getDatabase();
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const row = this.entityToRow(entity);
+		const columns = Object.keys(row).map(key => `"${key}"`);
+		const values = Object.values(row);
+
+		if (!Is.undefined(expectedVersion)) {
+			// The update only succeeds if the stored entity still has the expected version
+			values.push(id, expectedVersion);
+			const whereClauses: string[] = [
+				`"${primaryKey.property}" = ?`,
+				`"${String(this._versionProperty)}" = ?`
+			];
+			if (Is.arrayValue(conditions)) {
+				for (const condition of conditions) {
+					values.push(this.propertyToDbValue(condition.value));
+					whereClauses.push(`"${String(condition.property)}" = ?`);
+				}
+			}
+			const result = database
+				.prepare(
+					`UPDATE "${this._config.tableName}" SET ${columns
+						.map(col => `${col} = ?`)
+						.join(", ")} WHERE ${whereClauses.join(" AND ")};`
+				)
+				.run(values);
+			if (result.changes === 0) {
+				throw EntityStorageVersionHelper.conflictError(id, expectedVersion);
+			}
+			return { type: EntityStorageChangeType.Updated, id, entity };
+		}
+
+		const exists = !Is.undefined(
+			database
+				.prepare(`SELECT 1 FROM "${this._config.tableName}" WHERE "${primaryKey.property}" = ?`)
+				.get(id)
+		);
+
+		database
+			.prepare(
+				`INSERT INTO "${this._config.tableName}" (${columns.join(", ")}) VALUES (${columns
+					.map(() => "?")
+					.join(", ")}) ON CONFLICT ("${primaryKey.property}") DO UPDATE SET ${columns
+					.map(col => `${col} = excluded.${col}`)
+					.join(", ")};`
+			)
+			.run(values);
+
+		return {
+			type: exists ? EntityStorageChangeType.Updated : EntityStorageChangeType.Created,
+			id,
+			entity
+		};
+	}
+
+	/**
+	 * Delete the entity from the table.
+	 * @param id The id of the entity to delete.
+	 * @param entity The entity which is being deleted.
+	 * @param conditions The optional conditions to match for the entity.
+	 * @returns The change made to the table, or undefined if nothing was deleted.
+	 * @internal
+	 */
+	private deleteEntity(
+		id: string,
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): IEntityStorageChange<T> | undefined {
+		const primaryKey = EntitySchemaHelper.getPrimaryKey(this.getSchema());
+		const values: unknown[] = [id];
+		const whereClauses: string[] = [`"${primaryKey.property}" = ?`];
+
+		if (Is.arrayValue(conditions)) {
+			for (const condition of conditions) {
+				values.push(this.propertyToDbValue(condition.value));
+				whereClauses.push(`"${String(condition.property)}" = ?`);
+			}
+		}
+
+		const result = this.getDatabase()
+			.prepare(`DELETE FROM "${this._config.tableName}" WHERE ${whereClauses.join(" AND ")}`)
+			.run(values);
+
+		if (result.changes > 0) {
+			return { type: EntityStorageChangeType.Removed, id, entity };
+		}
+	}
+
+	/**
+	 * Add the clause to start after the entity the cursor was created from, an entity is after
+	 * the cursor if it has the same values for the leading sort keys and is after it for the next one.
+	 * SQLite sorts null values before all other values.
+	 * @param sortKeys The sort keys for the query.
+	 * @param cursorValues The values of the sort keys from the cursor.
+	 * @param whereClauses The where clauses to add the cursor clause to.
+	 * @param values The values to use in the query.
+	 * @internal
+	 */
+	private addCursorClause(
+		sortKeys: { property: keyof T; sortDirection: SortDirection }[],
+		cursorValues: unknown[],
+		whereClauses: string[],
+		values: unknown[]
+	): void {
+		const keyClauses: string[] = [];
+		for (let i = 0; i < sortKeys.length; i++) {
+			const clauses: string[] = [];
+			for (let j = 0; j < i; j++) {
+				const column = `"${String(sortKeys[j].property)}"`;
+				if (Is.null(cursorValues[j])) {
+					clauses.push(`${column} IS NULL`);
+				} else {
+					clauses.push(`${column} = ?`);
+					values.push(this.propertyToDbValue(cursorValues[j]));
+				}
+			}
+
+			const column = `"${String(sortKeys[i].property)}"`;
+			const ascending = sortKeys[i].sortDirection === SortDirection.Ascending;
+			if (Is.null(cursorValues[i])) {
+				clauses.push(ascending ? `${column} IS NOT NULL` : "FALSE");
+			} else {
+				clauses.push(ascending ? `${column} > ?` : `(${column} < ? OR ${column} IS NULL)`);
+				values.push(this.propertyToDbValue(cursorValues[i]));
+			}
+			keyClauses.push(`(${clauses.join(" AND ")})`);
+		}
+		whereClauses.push(`(${keyClauses.join(" OR ")})`);
+	}
+
+	/**
+	 * Add the clause to exclude the expired entities, if the schema supports expiry.
+	 * @param whereClauses The where clauses to add the expiry clause to.
+	 * @internal
+	 */
+	private addExpiryClause(whereClauses: string[]): void {
+		if (!Is.undefined(this._expiryProperty)) {
+			const expiryColumn = `"${String(this._expiryProperty)}"`;
+			whereClauses.push(
+				`(${expiryColumn} IS NULL OR ${expiryColumn} > ${EntityStorageExpiryHelper.now()})`
+			);
+		}
+	}
+
+	/**
+	 * Delete the expired entities from the table.
+	 * @returns Nothing.
+	 * @internal
+	 */
+	private async removeExpired(): Promise<void> {
+		try {
+			this.getDatabase().exec(
+				`DELETE FROM "${this._config.tableName}" WHERE "${String(this._expiryProperty)}" <= ${EntityStorageExpiryHelper.now()}`
+			);
+		} catch {
+			// The expired entities are removed the next time the sweep runs
+		}
+	}
+
+	/**
+	 * Convert an entity in to a row for the database, every property in the schema has a value
+	 * so that properties which are no longer in the entity are cleared when it is replaced.
+	 * @param entity The entity to convert.
+	 * @returns The converted entity.
+	 * @internal
+	 */
+	private entityToRow(entity: T): { [key: string]: unknown } {
+		const row: { [key: string]: unknown } = {};
+		for (const prop of this._entitySchema.properties ?? []) {
+			row[prop.property as string] = this.propertyToDbValue(entity[prop.property]);
+		}
+		return row;
+	}
+
+	/**
+	 * Convert a row from the database in to an entity.
+	 * @param row The row to convert, it is updated in place.
+	 * @returns The converted row.
+	 * @internal
+	 */
+	private rowToEntity(row: { [key: string]: unknown }): { [key: string]: unknown } {
+		if (this._entitySchema.properties) {
+			for (const prop of this._entitySchema.properties) {
+				const propColumn = prop.property as string;
+				if (row[propColumn] === null) {
+					delete row[propColumn];
+				} else if (
+					(prop.type === EntitySchemaPropertyType.Object ||
+						prop.type === EntitySchemaPropertyType.Array) &&
+					Is.string(row[propColumn])
+				) {
+					row[propColumn] = JSON.parse(row[propColumn]);
+				} else if (prop.type === EntitySchemaPropertyType.Boolean && propColumn in row) {
+					row[propColumn] = row[propColumn] === 1;
+				}
+			}
+		}
+		return row;
+	}
+
+	/**
+	 * Get the database, opening it if it is not already open.
+	 * @returns The SQLite database.
+	 * @internal
+	 */
+	private getDatabase(): Database.Database {
+		if (this._database) {
+			return this._database;
+		}
+		const database = new Database(this._config.filename);
+		// Write ahead logging lets readers continue while an entity is being written
+		database.pragma("journal_mode = WAL");
+		this._database = database;
+		return database;
+	}
+
+	/**
+	 * Create an SQL condition clause.
+	 * @param objectPath The path for the nested object.
+	 * @param condition The conditions to create the query from.
+	 * @param whereClauses The where clauses to use in the query.
+	 * @param values The values to use in the query.
+	 * @internal
+	 */
+	private buildQueryParameters(
+		objectPath: string,
+		condition: EntityCondition<T> | undefined,
+		whereClauses: string[],
+		values: unknown[]
+	): void {
+		if (Is.undefined(condition)) {
+			return;
+		}
+
+		if ("conditions" in condition) {
+			if (condition.conditions.length === 0) {
+				return;
+			}
+			const joinConditions: string[] = condition.conditions.map(c => {
+				const subWhereClauses: string[] = [];
+				const subValues: unknown[] = [];
+				this.buildQueryParameters(objectPath, c, subWhereClauses, subValues);
+				values.push(...subValues);
+				return subWhereClauses.join(" AND ");
+			});
+
+			const logicalOperator = this.mapConditionalOperator(condition.logicalOperator);
+			const queryClause = joinConditions.filter(j => j.length > 0).join(` ${logicalOperator} `);
+
+			if (queryClause.length > 0) {
+				whereClauses.push(`(${queryClause})`);
+			}
+			return;
+		}
+
+		const schemaProp = this._entitySchema.properties?.find(p => p.property === condition.property);
+		const comparison = this.mapComparisonOperator(objectPath, condition, schemaProp?.type, values);
+		whereClauses.push(comparison);
+	}
+
+	/**
+	 * Map the framework comparison operators to those in SQLite.
+	 * @param objectPath The prefix to use for the condition.
+	 * @param comparator The operator to map.
+	 * @param type The type of the property.
+	 * @param values The values to use in the query.
+	 * @returns The comparison expression.
+	 * @throws GeneralError if the comparison operator is not supported.
+	 * @internal
+	 */
+	private mapComparisonOperator(
+		objectPath: string,
+		comparator: IComparator,
+		type: EntitySchemaPropertyType | undefined,
+		values: unknown[]
+	): string {
+		let prop = objectPath;
+		if (prop.length > 0) {
+			prop += ".";
+		}
+
+		prop += comparator.property as string;
+
+		// Properties of objects are stored in the JSON column for the top level property
+		const propParts = prop.split(".");
+		const column =
+			propParts.length > 1
+				? `json_extract("${propParts[0]}", '$.${propParts.slice(1).join(".")}')`
+				: `"${prop}"`;
+
+		if (comparator.comparison === ComparisonOperator.In) {
+			const inValues = Array.isArray(comparator.value) ? comparator.value : [comparator.value];
+			values.push(...inValues.map(val => this.propertyToDbValue(val, type)));
+			return `${column} IN (${inValues.map(() => "?").join(", ")})`;
+		}
+		values.push(this.propertyToDbValue(comparator.value, type));
+
+		if (comparator.comparison === ComparisonOperator.Equals) {
+			return `${column} = ?`;
+		} else if (comparator.comparison === ComparisonOperator.NotEquals) {
+			return `${column} <> ?`;
+		} else if (comparator.comparison === ComparisonOperator.GreaterThan) {
+			return `${column} > ?`;
+		} else if (comparator.comparison === ComparisonOperator.LessThan) {
+			return `${column} < ?`;
+		} else if (comparator.comparison === ComparisonOperator.GreaterThanOrEqual) {
+			return `${column} >= ?`;
+		} else if (comparator.comparison === ComparisonOperator.LessThanOrEqual) {
+			return `${column} <= ?`;
+		} else if (
+			comparator.comparison === ComparisonOperator.Includes ||
+			comparator.comparison === ComparisonOperator.NotIncludes
+		) {
+			const includes =
+				type === EntitySchemaPropertyType.Array
+					? `EXISTS (SELECT 1 FROM json_each(${column}) WHERE json_each.value = ?)`
+					: `instr(${column}, ?) > 0`;
+			return comparator.comparison === ComparisonOperator.Includes ? includes : `NOT (${includes})`;
+		}
+
+		throw new GeneralError(this.CLASS_NAME, "comparisonNotSupported", {
+			comparison: comparator.comparison
+		});
+	}
+
+	/**
+	 * Format a value to insert into DB, SQLite has no boolean or JSON types so booleans are
+	 * stored as integers and objects and arrays as JSON text.
+	 * @param value The value to format.
+	 * @param type The type for the property.
+	 * @returns The value after conversion.
+	 * @internal
+	 */
+	private propertyToDbValue(value: unknown, type?: EntitySchemaPropertyType): unknown {
+		if (Is.undefined(value) || Is.null(value)) {
+			return null;
+		} else if (Is.boolean(value)) {
+			return value ? 1 : 0;
+		} else if (Is.object(value) || Is.array(value)) {
+			return JSON.stringify(value);
+		}
+
+		if (type === EntitySchemaPropertyType.String) {
+			return String(value);
+		} else if (
+			type === EntitySchemaPropertyType.Number ||
+			type === EntitySchemaPropertyType.Integer
+		) {
+			return Number(value);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Map the framework conditional operators to those in SQLite.
+	 * @param operator The operator to map.
+	 * @returns The conditional operator.
+	 * @throws GeneralError if the conditional operator is not supported.
+	 * @internal
+	 */
+	private mapConditionalOperator(operator?: LogicalOperator): string {
+		if ((operator ?? LogicalOperator.And) === LogicalOperator.And) {
+			return "AND";
+		} else if (operator === LogicalOperator.Or) {
+			return "OR";
+		}
+
+		throw new GeneralError(this.CLASS_NAME, "conditionalNotSupported", { operator });
+	}
+
+	/**
+	 * Verify the conditions for the entity.
+	 * @param conditions The conditions to verify.
+	 * @param obj The entity to verify the conditions against.
+	 * @returns True if all the conditions match.
+	 * @internal
+	 */
+	private verifyConditions(
+		conditions: { property: keyof T; value: unknown }[],
+		obj: { [key in keyof T]: unknown }
+	): boolean {
+		return conditions.every(
+			condition => ObjectHelper.propertyGet(obj, condition.property as string) === condition.value
+		);
+	}
+
+	/**
+	 * Map entity schema properties to SQL properties.
+	 * @param entitySchema The schema of the entity.
+	 * @returns The SQL properties as a string.
+	 * @throws GeneralError if the entity properties do not exist.
+	 * @internal
+	 */
+	private mapSqliteProperties(entitySchema: IEntitySchema<T>): string {
+		const sqlTypeMap: { [key in EntitySchemaPropertyType]: string } = {
+			[EntitySchemaPropertyType.String]: "TEXT",
+			[EntitySchemaPropertyType.Number]: "REAL",
+			[EntitySchemaPropertyType.Integer]: "INTEGER",
+			[EntitySchemaPropertyType.Object]: "TEXT",
+			[EntitySchemaPropertyType.Array]: "TEXT",
+			[EntitySchemaPropertyType.Boolean]: "INTEGER"
+		};
+
+		if (!entitySchema.properties) {
+			throw new GeneralError(this.CLASS_NAME, "entitySchemaPropertiesUndefined");
+		}
+
+		const primaryKeys: string[] = [];
+
+		const columnDefinitions = entitySchema.properties
+			.map(prop => {
+				const sqlType = sqlTypeMap[prop.type] || "TEXT";
+				const columnName = String(prop.property);
+				const nullable = prop.optional ? " NULL" : " NOT NULL";
+				// The JSON columns are text which must always contain valid JSON
+				const check =
+					prop.type === EntitySchemaPropertyType.Object ||
+					prop.type === EntitySchemaPropertyType.Array
+						? ` CHECK (json_valid("${columnName}"))`
+						: "";
+
+				if (prop.isPrimary) {
+					primaryKeys.push(`"${columnName}"`);
+				}
+
+				return `"${columnName}" ${sqlType}${nullable}${check}`;
+			})
+			.join(", ");
+
+		const primaryKeyDefinition =
+			primaryKeys.length > 0 ? `, PRIMARY KEY (${primaryKeys.join(", ")})` : "";
+		return columnDefinitions + primaryKeyDefinition;
+	}
+}
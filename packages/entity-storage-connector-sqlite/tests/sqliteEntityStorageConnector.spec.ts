@@ -0,0 +1,1396 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+/* eslint-disable max-classes-per-file */
+import { rm } from "node:fs/promises";
+import { BaseError, GeneralError, I18n, ObjectHelper } from "@twin.org/core";
+import {
+	ComparisonOperator,
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	SortDirection,
+	entity,
+	property
+} from "@twin.org/entity";
+import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
+import {
+	EntityStorageConnectorFactory,
+	EntityStorageTransactionOperationType,
+	type IEntityStorageChange
+} from "@twin.org/entity-storage-models";
+import {
+	EntityStorageConnectorTestSuite,
+	type TestSuiteEntity
+} from "@twin.org/entity-storage-test-suite";
+import {
+	EntityStorageLoggingConnector,
+	type LogEntry,
+	initSchema
+} from "@twin.org/logging-connector-entity-storage";
+import { LoggingConnectorFactory } from "@twin.org/logging-models";
+import { nameof } from "@twin.org/nameof";
+import type { ISqliteEntityStorageConnectorConfig } from "../src/models/ISqliteEntityStorageConnectorConfig";
+import { SqliteEntityStorageConnector } from "../src/sqliteEntityStorageConnector";
+
+/**
+ * Test SubType Definition.
+ */
+@entity()
+class SubType {
+	/**
+	 * Field1.
+	 */
+	@property({ type: "string", format: "date-time" })
+	public field1!: string;
+}
+
+/**
+ * Test Type Definition.
+ */
+@entity()
+class TestType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public value1!: string;
+
+	/**
+	 * Value2.
+	 */
+	@property({ type: "number", format: "uint8" })
+	public value2!: number;
+
+	/**
+	 * Value3.
+	 */
+	@property({ type: "object", itemTypeRef: "SubType", optional: true })
+	public value3?: SubType;
+
+	/**
+	 * Value4.
+	 */
+	@property({ type: "object", optional: true })
+	public valueObject?: {
+		[id: string]: {
+			value: string;
+		};
+	};
+
+	/**
+	 * Value5.
+	 */
+	@property({ type: "array", optional: true })
+	public valueArray?: {
+		field: string;
+		value: string;
+	}[];
+}
+
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
+let memoryEntityStorage: MemoryEntityStorageConnector<LogEntry>;
+const TEST_DIRECTORY_ROOT = "./.tmp/";
+const config: ISqliteEntityStorageConnectorConfig = {
+	filename: `${TEST_DIRECTORY_ROOT}entity-storage.db`,
+	tableName: "test_type"
+};
+
+describe("SqliteEntityStorageConnector", () => {
+	beforeAll(async () => {
+		I18n.addDictionary("en", await import("../locales/en.json"));
+
+		EntitySchemaFactory.register(nameof<TestType>(), () => EntitySchemaHelper.getSchema(TestType));
+		EntitySchemaFactory.register(nameof<SubType>(), () => EntitySchemaHelper.getSchema(SubType));
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
+
+		initSchema();
+	});
+
+	beforeEach(async () => {
+		memoryEntityStorage = new MemoryEntityStorageConnector<LogEntry>({
+			entitySchema: nameof<LogEntry>()
+		});
+		EntityStorageConnectorFactory.register("log-entry", () => memoryEntityStorage);
+		LoggingConnectorFactory.register("logging", () => new EntityStorageLoggingConnector());
+		LoggingConnectorFactory.register("node-logging", () => new EntityStorageLoggingConnector());
+	});
+
+	afterEach(async () => {
+		await rm(TEST_DIRECTORY_ROOT, { recursive: true, force: true });
+	});
+
+	test("can fail to construct when there are no options", async () => {
+		expect(
+			() =>
+				new SqliteEntityStorageConnector(
+					undefined as unknown as {
+						entitySchema: string;
+						config: ISqliteEntityStorageConnectorConfig;
+					}
+				)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.objectUndefined",
+				properties: {
+					property: "options",
+					value: "undefined"
+				}
+			})
+		);
+	});
+
+	test("can fail to construct when there is no schema", async () => {
+		expect(
+			() =>
+				new SqliteEntityStorageConnector(
+					{} as unknown as {
+						entitySchema: string;
+						config: ISqliteEntityStorageConnectorConfig;
+					}
+				)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.string",
+				properties: {
+					property: "options.entitySchema",
+					value: "undefined"
+				}
+			})
+		);
+	});
+
+	test("can construct and bootstrap", async () => {
+		const entityStorage = new SqliteEntityStorageConnector({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const logs = memoryEntityStorage.getStore();
+		expect(logs).toBeDefined();
+
+		expect(logs?.length).toEqual(3);
+		expect(logs?.[0].message).toEqual("databaseCreating");
+		expect(logs?.[1].message).toEqual("databaseExists");
+		expect(logs?.[2].message).toEqual("tableExists");
+
+		expect(I18n.hasMessage("info.sqliteEntityStorageConnector.databaseCreating")).toEqual(true);
+		expect(I18n.hasMessage("info.sqliteEntityStorageConnector.databaseExists")).toEqual(true);
+		expect(I18n.hasMessage("info.sqliteEntityStorageConnector.tableExists")).toEqual(true);
+	});
+
+	test("can reopen the database and get an item which was set", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 35, valueArray: [] });
+
+		const reopenedStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await reopenedStorage.bootstrap();
+		const result = await reopenedStorage.get("1");
+		expect(result).toEqual({ id: "1", value1: "aaa", value2: 35, valueArray: [] });
+	});
+
+	test("can stop and get an item after reopening the database", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 35, valueArray: [] });
+
+		await entityStorage.stop("node", undefined);
+		const result = await entityStorage.get("1");
+		expect(result).toEqual({ id: "1", value1: "aaa", value2: 35, valueArray: [] });
+	});
+
+	test("can drop the table", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 35 });
+		await entityStorage.tableDrop();
+		await expect(entityStorage.count()).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "sqliteEntityStorageConnector.countFailed"
+		});
+	});
+
+	test("can fail to set an item with no entity", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await expect(entityStorage.set(undefined as unknown as TestType)).rejects.toMatchObject({
+			name: "GuardError",
+			message: "guard.objectUndefined",
+			properties: {
+				property: "entity",
+				value: "undefined"
+			}
+		});
+	});
+
+	test("can fail to set an item with an entity that do not match the table", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const entityId = "1";
+		const objectSet = {
+			id: entityId,
+			value1: "aaa"
+		} as TestType;
+
+		await expect(entityStorage.set(objectSet)).rejects.toThrowError(
+			new GeneralError("EntitySchemaHelper", "invalidOptional", {
+				property: "value2",
+				type: "number",
+				value: undefined
+			})
+		);
+	});
+
+	test("can set an item", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const entityId = "1";
+		const objectSet = {
+			id: entityId,
+			value1: "aaa",
+			value2: 35,
+			value3: undefined,
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+
+		await entityStorage.set(objectSet);
+
+		const result = await entityStorage.get(entityId);
+		expect(result).toEqual(objectSet);
+	});
+
+	test("can set an item with a condition", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const entityId = "1";
+		const objectSet = {
+			id: entityId,
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+
+		await entityStorage.set(objectSet, [{ property: "value1", value: "aaa" }]);
+
+		const result = await entityStorage.get(entityId);
+		expect(result).toEqual(objectSet);
+	});
+
+	test("can set an item to update it", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		const entityId = "1";
+		const objectSet = {
+			id: entityId,
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+		await entityStorage.set(objectSet);
+
+		objectSet.value2 = 99;
+		await entityStorage.set(objectSet);
+
+		const result = await entityStorage.get(entityId);
+		expect(result).toEqual(objectSet);
+	});
+
+	test("can set an item to update it with a condition", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const entityId = "1";
+		const objectSet = {
+			id: entityId,
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+
+		await entityStorage.set(objectSet);
+
+		const objectUpdate = ObjectHelper.clone(objectSet);
+		objectUpdate.value2 = 99;
+		await entityStorage.set(objectUpdate, [{ property: "value1", value: "aaa" }]);
+
+		const result = await entityStorage.get(entityId);
+		expect(result).toEqual(objectUpdate);
+	});
+
+	test("can fail set an item to update it with an unmatched condition", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const entityId = "1";
+		const objectSet = {
+			id: entityId,
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+
+		await entityStorage.set(objectSet);
+		const objectUpdate = ObjectHelper.clone(objectSet);
+		objectUpdate.value2 = 99;
+
+		await entityStorage.set(objectUpdate, [{ property: "value1", value: "bbb" }]);
+
+		// Should still have original value set
+		const result = await entityStorage.get(entityId);
+		expect(result).toEqual(objectSet);
+	});
+
+	test("can fail to get an item with no id", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await expect(entityStorage.get(undefined as unknown as string)).rejects.toMatchObject({
+			name: "GuardError",
+			message: "guard.string",
+			properties: {
+				property: "id",
+				value: "undefined"
+			}
+		});
+	});
+
+	test("can not get an item", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const item = await entityStorage.get("20000");
+
+		expect(item).toBeUndefined();
+	});
+
+	test("can get an item", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const object = {
+			id: "2",
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+		await entityStorage.set(object);
+		const item = await entityStorage.get("2");
+
+		expect(item).toBeDefined();
+		expect(item).toEqual(object);
+	});
+
+	test("can get an item by secondary index", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+
+		await entityStorage.bootstrap();
+		const secondaryValue = "zzz";
+		const object = {
+			id: "2",
+			value1: "zzz",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+		await entityStorage.set(object);
+		const item = await entityStorage.get(secondaryValue, "value1");
+
+		expect(item).toBeDefined();
+		expect(item).toEqual(object);
+	});
+
+	test("can fail to remove an item with no id", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(entityStorage.remove(undefined as unknown as string)).rejects.toMatchObject({
+			name: "GuardError",
+			message: "guard.string",
+			properties: {
+				property: "id",
+				value: "undefined"
+			}
+		});
+	});
+
+	test("can not remove an item", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		const object = {
+			id: "2",
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+		await entityStorage.set(object);
+
+		const idToRemove = "1000999";
+		await entityStorage.remove(idToRemove);
+		// No exception should be thrown
+	});
+
+	test("can remove an item", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const idToRemove = "65432";
+		const object = {
+			id: "65432",
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+		await entityStorage.set(object);
+		await entityStorage.remove(idToRemove);
+
+		const result = await entityStorage.get(idToRemove);
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to remove an item with conditions", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+
+		await entityStorage.bootstrap();
+		const object = {
+			id: "1",
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+		await entityStorage.set(object);
+		await entityStorage.remove("1", [{ property: "value1", value: "aaa1" }]);
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeDefined();
+	});
+
+	test("can remove an item with conditions", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+
+		await entityStorage.bootstrap();
+		const object = {
+			id: "1",
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+		await entityStorage.set(object);
+		await entityStorage.remove("1", [{ property: "value1", value: "aaa" }]);
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can set a batch of items", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		const results = await entityStorage.setBatch([
+			{ id: "1", value1: "aaa", value2: 11 },
+			{ id: "2", value1: "bbb", value2: 22 }
+		]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "2", success: true }
+		]);
+		const result = await entityStorage.get("2");
+		expect(result?.value1).toEqual("bbb");
+		expect(result?.value2).toEqual(22);
+	});
+
+	test("can get a batch of items", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+
+		const results = await entityStorage.getBatch(["2", "3", "1"]);
+
+		expect(results.map(r => r.id)).toEqual(["2", "3", "1"]);
+		expect(results.every(r => r.success)).toEqual(true);
+		expect(results[0].entity?.value1).toEqual("bbb");
+		expect(results[1].entity).toBeUndefined();
+		expect(results[2].entity?.value1).toEqual("aaa");
+	});
+
+	test("can remove a batch of items", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		const results = await entityStorage.removeBatch(["1", "3"]);
+
+		expect(results).toEqual([
+			{ id: "1", success: true },
+			{ id: "3", success: true }
+		]);
+		expect(await entityStorage.get("1")).toBeUndefined();
+		expect(await entityStorage.get("2")).toBeDefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the transaction capability", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().transactions).toEqual(true);
+	});
+
+	test("can set and remove items in a transaction", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		await entityStorage.transaction([
+			{
+				type: EntityStorageTransactionOperationType.Set,
+				entity: { id: "1", value1: "aaa", value2: 11 }
+			},
+			{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+			{ type: EntityStorageTransactionOperationType.Remove, id: "3" }
+		]);
+
+		expect(await entityStorage.get("1")).toBeDefined();
+		expect(await entityStorage.get("2")).toBeUndefined();
+		expect(await entityStorage.get("3")).toBeUndefined();
+	});
+
+	test("can check the subscription capability", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		expect(entityStorage.getCapabilities().subscriptions).toEqual(true);
+	});
+
+	test("can subscribe to the changes made to items", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await entityStorage.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await vi.waitFor(() => expect(changes.map(c => c.id)).toContain("1"), { timeout: 5000 });
+		await entityStorage.unsubscribe(subscriptionId);
+		expect(changes[0].entity?.value1).toEqual("aaa");
+	});
+
+	test("can not get, query or count items which have expired", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { ...config, tableName: `${config.tableName}expiring` }
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({
+			id: "1",
+			value1: "aaa",
+			entityExpiry: Math.floor(Date.now() / 1000) - 10
+		});
+		await entityStorage.set({ id: "2", value1: "bbb" }, undefined, undefined, 60);
+
+		expect(await entityStorage.get("1")).toBeUndefined();
+		const item = await entityStorage.get("2");
+		expect(item?.entityExpiry).toBeGreaterThan(Date.now() / 1000);
+		const result = await entityStorage.query();
+		expect(result.entities.map(e => e.id)).toEqual(["2"]);
+		expect(await entityStorage.count()).toEqual(1);
+		await entityStorage.tableDrop();
+	});
+
+	test("can fail to set an item with a time to live when the schema has no expiry", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.set({ id: "1", value1: "aaa", value2: 1 }, undefined, undefined, 60)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStorageExpiryHelper.expiryNotSupported"
+		});
+	});
+
+	test("can count items with empty store", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const count = await entityStorage.count();
+		expect(count).toEqual(0);
+	});
+
+	test("can count items with multiple entries and apply conditions", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+		await entityStorage.set({ id: "2", value1: "bbb", value2: 22 });
+		await entityStorage.set({ id: "3", value1: "ccc", value2: 33 });
+
+		expect(await entityStorage.count()).toEqual(3);
+		expect(
+			await entityStorage.count({
+				property: "value1",
+				value: "bbb",
+				comparison: ComparisonOperator.Equals
+			})
+		).toEqual(1);
+	});
+
+	test("can patch an item", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.set({ id: "1", value1: "aaa", value2: 11 });
+
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result?.value1).toEqual("patched");
+		expect(result?.value2).toEqual(11);
+	});
+
+	test("can not patch an item which does not exist", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await entityStorage.patch("1", { value1: "patched" });
+
+		const result = await entityStorage.get("1");
+		expect(result).toBeUndefined();
+	});
+
+	test("can fail to patch an item with an invalid property", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		await expect(
+			entityStorage.patch("1", { foo: "bar" } as unknown as Partial<TestType>)
+		).rejects.toMatchObject({
+			name: "GeneralError",
+			message: "entityStoragePatchHelper.invalidPatchKeys"
+		});
+	});
+
+	test("can find items with empty store", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const result = await entityStorage.query();
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(0);
+		expect(result.cursor).toBeUndefined();
+	});
+
+	test("can find items with single entry", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const entry = {
+			id: "1",
+			value1: "aaa",
+			value2: 35,
+			value3: { field1: new Date().toISOString() },
+			valueObject: {
+				"1": {
+					value: "bob"
+				}
+			},
+			valueArray: [
+				{
+					field: "name",
+					value: "bob"
+				}
+			]
+		};
+		await entityStorage.set(entry);
+		const result = await entityStorage.query();
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(1);
+		expect(result.entities[0]).toEqual(entry);
+		expect(result.cursor).toBeUndefined();
+	});
+
+	test("can find items with multiple entries", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 80; i++) {
+			await entityStorage.set({
+				id: (i + 1).toString(),
+				value1: "aaa",
+				value2: 999,
+				value3: undefined,
+				valueObject: {
+					"1": {
+						value: "bob"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+		const result = await entityStorage.query();
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(40);
+	});
+
+	test("can find items with multiple entries and cursor", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 50; i++) {
+			await entityStorage.set({
+				id: (i + 1).toString(),
+				value1: "aaa",
+				value2: 5555,
+				valueObject: {
+					"1": {
+						value: "bob"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+		const result = await entityStorage.query();
+		const result2 = await entityStorage.query(undefined, undefined, undefined, result.cursor);
+		expect(result2).toBeDefined();
+		expect(result2.entities.length).toEqual(10);
+		expect(result2.cursor).toBeUndefined();
+	});
+
+	test("can find items with a cursor when items are added and removed between pages", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 1; i <= 6; i++) {
+			await entityStorage.set({ id: i.toString(), value1: "aaa", value2: i * 10 });
+		}
+		const sortProperties = [
+			{ property: "value2" as const, sortDirection: SortDirection.Ascending }
+		];
+
+		const result = await entityStorage.query(undefined, sortProperties, undefined, undefined, 3);
+		expect(result.entities.map(e => e.id)).toEqual(["1", "2", "3"]);
+
+		await entityStorage.remove("2");
+		await entityStorage.set({ id: "0", value1: "aaa", value2: 5 });
+		await entityStorage.set({ id: "9", value1: "aaa", value2: 45 });
+
+		const result2 = await entityStorage.query(
+			undefined,
+			sortProperties,
+			undefined,
+			result.cursor,
+			3
+		);
+		expect(result2.entities.map(e => e.id)).toEqual(["4", "9", "5"]);
+		const result3 = await entityStorage.query(
+			undefined,
+			sortProperties,
+			undefined,
+			result2.cursor,
+			3
+		);
+		expect(result3.entities.map(e => e.id)).toEqual(["6"]);
+		expect(result3.cursor).toBeUndefined();
+	});
+
+	test("can find items with a cursor when sorting by a property with missing values", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestExpiringType>({
+			entitySchema: nameof<TestExpiringType>(),
+			config: { ...config, tableName: `${config.tableName}expiring` }
+		});
+		await entityStorage.bootstrap();
+		const now = Math.floor(Date.now() / 1000);
+		await entityStorage.set({ id: "1", value1: "aaa", entityExpiry: now + 200 });
+		await entityStorage.set({ id: "2", value1: "bbb" });
+		await entityStorage.set({ id: "3", value1: "ccc", entityExpiry: now + 100 });
+		await entityStorage.set({ id: "4", value1: "ddd" });
+
+		for (const [sortDirection, expectedIds] of [
+			[SortDirection.Ascending, ["2", "4", "3", "1"]],
+			[SortDirection.Descending, ["1", "3", "2", "4"]]
+		] as const) {
+			const ids: string[] = [];
+			let cursor: string | undefined;
+			do {
+				const result = await entityStorage.query(
+					undefined,
+					[{ property: "entityExpiry", sortDirection }],
+					["id"],
+					cursor,
+					1
+				);
+				for (const e of result.entities) {
+					expect(Object.keys(e)).toEqual(["id"]);
+					ids.push(e.id as string);
+				}
+				cursor = result.cursor;
+			} while (cursor);
+			expect(ids).toEqual(expectedIds);
+		}
+	});
+
+	test("can fail to find items with an invalid cursor", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		const error = await entityStorage
+			.query(undefined, undefined, undefined, "invalid")
+			.catch(err => err);
+		expect(BaseError.isErrorMessage(error, "sqliteEntityStorageConnector.queryFailed")).toEqual(
+			true
+		);
+		expect(BaseError.someErrorMessage(error, "entityStorageCursorHelper.cursorInvalid")).toEqual(
+			true
+		);
+	});
+
+	test("can find items with multiple entries and apply conditions", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 30; i++) {
+			await entityStorage.set({
+				id: (i + 1).toString(),
+				value1: "aaa",
+				value2: 7777,
+				value3: { field1: new Date().toISOString() },
+				valueObject: {
+					"1": {
+						value: "bob"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+
+		const result = await entityStorage.query({
+			property: "id",
+			value: "20",
+			comparison: ComparisonOperator.Equals
+		});
+
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(1);
+		expect(result.cursor).toBeUndefined();
+	});
+
+	test("can find items with multiple entries and apply custom sort", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 30; i++) {
+			await entityStorage.set({
+				id: (30 - i).toString(),
+				value1: (30 - i).toString(),
+				value2: 7777,
+				valueObject: {
+					"1": {
+						value: "bob"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+		const result = await entityStorage.query(
+			{
+				conditions: [
+					{
+						property: "value1",
+						value: ["26", "20"],
+						comparison: ComparisonOperator.In
+					}
+				]
+			},
+			[
+				{
+					property: "id",
+					sortDirection: SortDirection.Ascending
+				}
+			]
+		);
+
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(2);
+		expect(result.entities[0].value1).toEqual("20");
+		expect(result.entities[1].value1).toEqual("26");
+	});
+
+	test("can find items with multiple entries and apply custom sort on multiple properties", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 30; i++) {
+			await entityStorage.set({
+				id: (30 - i).toString(),
+				value1: (30 - i).toString(),
+				value2: i % 2 === 0 ? 100 : 200,
+				valueObject: {
+					"1": {
+						value: "bob"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+		const result = await entityStorage.query(
+			{
+				conditions: [
+					{
+						property: "value1",
+						value: ["26", "20"],
+						comparison: ComparisonOperator.In
+					}
+				]
+			},
+			[
+				{
+					property: "value1",
+					sortDirection: SortDirection.Descending
+				},
+				{
+					property: "id",
+					sortDirection: SortDirection.Ascending
+				}
+			]
+		);
+
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(2);
+		expect(result.entities[0].value1).toEqual("26");
+		expect(result.entities[1].value1).toEqual("20");
+	});
+
+	test("can query items and get a reduced data set", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 30; i++) {
+			await entityStorage.set({
+				id: (i + 1).toString(),
+				value1: "aaa",
+				value2: 7777,
+				valueObject: {
+					"1": {
+						value: "bob"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+		const result = await entityStorage.query(undefined, undefined, ["id", "value1"]);
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(30);
+		expect(result.entities[0].value2).toBeUndefined();
+		expect(result.entities[0].value3).toBeUndefined();
+	});
+
+	test("can query sub items in object", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 5; i++) {
+			await entityStorage.set({
+				id: (i + 1).toString(),
+				value1: "aaa",
+				value2: 7777,
+				valueObject: {
+					name: {
+						value: "bob"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+		for (let i = 0; i < 5; i++) {
+			await entityStorage.set({
+				id: (i + 10).toString(),
+				value1: "aaa",
+				value2: 7777,
+				valueObject: {
+					name: {
+						value: "fred"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+		const result = await entityStorage.query({
+			conditions: [
+				{ property: "valueObject.name.value", value: "bob", comparison: ComparisonOperator.Equals }
+			]
+		});
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(5);
+	});
+
+	test("can query sub items in array", async () => {
+		const entityStorage = new SqliteEntityStorageConnector<TestType>({
+			entitySchema: nameof<TestType>(),
+			config
+		});
+		await entityStorage.bootstrap();
+		for (let i = 0; i < 5; i++) {
+			await entityStorage.set({
+				id: (i + 1).toString(),
+				value1: "aaa",
+				value2: 7777,
+				valueObject: {
+					name: {
+						value: "fred"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "bob"
+					}
+				]
+			});
+		}
+		for (let i = 0; i < 5; i++) {
+			await entityStorage.set({
+				id: (i + 10).toString(),
+				value1: "aaa",
+				value2: 7777,
+				valueObject: {
+					name: {
+						value: "fred"
+					}
+				},
+				valueArray: [
+					{
+						field: "name",
+						value: "fred"
+					}
+				]
+			});
+		}
+		const result = await entityStorage.query({
+			conditions: [
+				{
+					property: "valueArray",
+					value: { field: "name", value: "bob" },
+					comparison: ComparisonOperator.Includes
+				}
+			]
+		});
+		expect(result).toBeDefined();
+		expect(result.entities.length).toEqual(5);
+	});
+});
+
+EntityStorageConnectorTestSuite.run({
+	createConnector: async entitySchema => {
+		const connector = new SqliteEntityStorageConnector<TestSuiteEntity>({
+			entitySchema,
+			config: { filename: ":memory:", tableName: "test_suite" }
+		});
+		await connector.bootstrap();
+		return connector;
+	}
+});
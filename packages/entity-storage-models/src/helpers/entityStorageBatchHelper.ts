@@ -0,0 +1,106 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { BaseError, Guards } from "@twin.org/core";
+import { EntitySchemaHelper } from "@twin.org/entity";
+import { nameof } from "@twin.org/nameof";
+import type { IEntityStorageBatchResult } from "../models/IEntityStorageBatchResult";
+import type { IEntityStorageConnector } from "../models/IEntityStorageConnector";
+
+/**
+ * Helper methods for connectors which do not have native batch operations.
+ */
+export class EntityStorageBatchHelper {
+	/**
+	 * Runtime name for the class.
+	 * @internal
+	 */
+	private static readonly _CLASS_NAME: string = nameof<EntityStorageBatchHelper>();
+
+	/**
+	 * Set multiple entities by calling set on the connector for each one.
+	 * @param connector The connector to perform the operations on.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	public static async setBatch<T>(
+		connector: IEntityStorageConnector<T>,
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<T>(EntityStorageBatchHelper._CLASS_NAME, nameof(entities), entities);
+
+		const primaryKey = EntitySchemaHelper.getPrimaryKey<T>(connector.getSchema());
+		const results: IEntityStorageBatchResult<T>[] = [];
+
+		for (const entity of entities) {
+			const id = entity?.[primaryKey.property] as string;
+			try {
+				await connector.set(entity, conditions);
+				results.push({ id, success: true });
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Get multiple entities by calling get on the connector for each one.
+	 * @param connector The connector to perform the operations on.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public static async getBatch<T>(
+		connector: IEntityStorageConnector<T>,
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(EntityStorageBatchHelper._CLASS_NAME, nameof(ids), ids);
+
+		const results: IEntityStorageBatchResult<T>[] = [];
+
+		for (const id of ids) {
+			try {
+				const entity = await connector.get(id, secondaryIndex, conditions);
+				results.push({ id, success: true, entity });
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Remove multiple entities by calling remove on the connector for each one.
+	 * @param connector The connector to perform the operations on.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	public static async removeBatch<T>(
+		connector: IEntityStorageConnector<T>,
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]> {
+		Guards.array<string>(EntityStorageBatchHelper._CLASS_NAME, nameof(ids), ids);
+
+		const results: IEntityStorageBatchResult<T>[] = [];
+
+		for (const id of ids) {
+			try {
+				await connector.remove(id, conditions);
+				results.push({ id, success: true });
+			} catch (err) {
+				results.push({ id, success: false, error: BaseError.fromError(err).toJsonObject() });
+			}
+		}
+
+		return results;
+	}
+}
@@ -0,0 +1,117 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import {
+	Converter,
+	Guards,
+	Is,
+	NotSupportedError,
+	ObjectHelper,
+	RandomHelper
+} from "@twin.org/core";
+import { type EntityCondition, EntityConditions } from "@twin.org/entity";
+import { nameof } from "@twin.org/nameof";
+import type { IEntityStorageChange } from "../models/IEntityStorageChange";
+
+/**
+ * Maintains the subscriptions for a connector and notifies them of changes to entities.
+ */
+export class EntityStorageChangeEmitter<T = unknown> {
+	/**
+	 * Runtime name for the class.
+	 * @internal
+	 */
+	private static readonly _CLASS_NAME: string = nameof<EntityStorageChangeEmitter>();
+
+	/**
+	 * The current subscriptions.
+	 * @internal
+	 */
+	private readonly _subscriptions: Map<
+		string,
+		{
+			conditions?: EntityCondition<T>;
+			callback: (change: IEntityStorageChange<T>) => Promise<void>;
+		}
+	>;
+
+	/**
+	 * Create a new instance of EntityStorageChangeEmitter.
+	 */
+	constructor() {
+		this._subscriptions = new Map();
+	}
+
+	/**
+	 * Create the error for connectors which do not support subscriptions.
+	 * @returns The not supported error.
+	 */
+	public static notSupportedError(): NotSupportedError {
+		return new NotSupportedError(
+			EntityStorageChangeEmitter._CLASS_NAME,
+			"subscriptionsNotSupported"
+		);
+	}
+
+	/**
+	 * Add a subscription.
+	 * @param conditions The conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 */
+	public subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): string {
+		Guards.function(EntityStorageChangeEmitter._CLASS_NAME, nameof(callback), callback);
+
+		const subscriptionId = Converter.bytesToHex(RandomHelper.generate(16));
+		this._subscriptions.set(subscriptionId, { conditions, callback });
+		return subscriptionId;
+	}
+
+	/**
+	 * Remove a subscription, unknown ids are ignored.
+	 * @param subscriptionId The id of the subscription to remove.
+	 */
+	public unsubscribe(subscriptionId: string): void {
+		Guards.stringValue(
+			EntityStorageChangeEmitter._CLASS_NAME,
+			nameof(subscriptionId),
+			subscriptionId
+		);
+		this._subscriptions.delete(subscriptionId);
+	}
+
+	/**
+	 * Are there any subscriptions.
+	 * @returns True if there is at least one subscription.
+	 */
+	public hasSubscriptions(): boolean {
+		return this._subscriptions.size > 0;
+	}
+
+	/**
+	 * Notify the subscriptions whose conditions match the entity in the change, changes without
+	 * an entity can not be matched so are notified to all the subscriptions. Errors thrown by the
+	 * callbacks are ignored so they can not affect the operation which made the change.
+	 * @param change The change to notify.
+	 */
+	public async notify(change: IEntityStorageChange<T>): Promise<void> {
+		const subscriptions = [...this._subscriptions.values()];
+		for (const subscription of subscriptions) {
+			if (
+				Is.undefined(change.entity) ||
+				EntityConditions.check(change.entity, subscription.conditions)
+			) {
+				try {
+					await subscription.callback({
+						...change,
+						entity: ObjectHelper.clone(change.entity)
+					});
+				} catch {
+					// A failing subscriber should not stop the others being notified.
+				}
+			}
+		}
+	}
+}
@@ -0,0 +1,127 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Converter, GeneralError, Guards, Is, ObjectHelper } from "@twin.org/core";
+import { EntitySorter, type IEntitySort, SortDirection } from "@twin.org/entity";
+import { nameof } from "@twin.org/nameof";
+
+/**
+ * Helper methods for the cursors returned when querying a page of entities.
+ * A cursor contains the sort key values of the last entity in the page, so the next
+ * page starts after that entity even if entities are added or removed in between,
+ * the primary key is always the final sort key so that every entity has a unique position.
+ */
+export class EntityStorageCursorHelper {
+	/**
+	 * Runtime name for the class.
+	 * @internal
+	 */
+	private static readonly _CLASS_NAME: string = nameof<EntityStorageCursorHelper>();
+
+	/**
+	 * Get the sort keys for a query, which are the sort properties followed by the primary key.
+	 * @param sortProperties The optional sort order for the query.
+	 * @param primaryKey The primary key property for the schema.
+	 * @returns The sort keys.
+	 */
+	public static getSortKeys<T>(
+		sortProperties: { property: keyof T; sortDirection: SortDirection }[] | undefined,
+		primaryKey: keyof T
+	): { property: keyof T; sortDirection: SortDirection }[] {
+		const sortKeys = [...(sortProperties ?? [])];
+		if (!sortKeys.some(s => s.property === primaryKey)) {
+			sortKeys.push({ property: primaryKey, sortDirection: SortDirection.Ascending });
+		}
+		return sortKeys;
+	}
+
+	/**
+	 * Create a cursor which starts after the entity.
+	 * @param entity The last entity in the page.
+	 * @param sortKeys The sort keys for the query.
+	 * @returns The cursor.
+	 */
+	public static createCursor<T>(
+		entity: Partial<T>,
+		sortKeys: { property: keyof T; sortDirection: SortDirection }[]
+	): string {
+		const values = sortKeys.map(s => entity[s.property] ?? null);
+		return Converter.bytesToBase64Url(ObjectHelper.toBytes(values));
+	}
+
+	/**
+	 * Parse the sort key values from a cursor.
+	 * @param cursor The cursor to parse.
+	 * @param sortKeys The sort keys for the query.
+	 * @returns The sort key values of the entity the cursor starts after, null if the entity has no value.
+	 * @throws GeneralError if the cursor was not created for the sort keys.
+	 */
+	public static parseCursor<T>(
+		cursor: string,
+		sortKeys: { property: keyof T; sortDirection: SortDirection }[]
+	): unknown[] {
+		Guards.stringValue(EntityStorageCursorHelper._CLASS_NAME, nameof(cursor), cursor);
+
+		try {
+			const values = ObjectHelper.fromBytes<unknown>(Converter.base64UrlToBytes(cursor));
+			if (Is.array(values) && values.length === sortKeys.length) {
+				return values;
+			}
+		} catch {
+			// A cursor which can not be decoded is invalid
+		}
+
+		throw new GeneralError(EntityStorageCursorHelper._CLASS_NAME, "cursorInvalid", { cursor });
+	}
+
+	/**
+	 * Compare two entities using the sort keys, entities without a value for a sort key
+	 * are positioned in the same way as EntitySorter.
+	 * @param entity1 The first entity.
+	 * @param entity2 The second entity.
+	 * @param sortKeys The sort keys for the query.
+	 * @returns A negative number if entity1 is first, a positive number if entity2 is first, or 0 if they have the same position.
+	 */
+	public static compare<T>(
+		entity1: Partial<T>,
+		entity2: Partial<T>,
+		sortKeys: IEntitySort<T>[]
+	): number {
+		for (const sortKey of sortKeys) {
+			// EntitySorter does not treat two missing values as equal, which would leave their order undefined
+			if (!Is.empty(entity1[sortKey.property]) || !Is.empty(entity2[sortKey.property])) {
+				const result = EntitySorter.compare<Partial<T>>(
+					entity1,
+					entity2,
+					sortKey.property,
+					sortKey.type,
+					sortKey.sortDirection
+				);
+				if (result !== 0) {
+					return result;
+				}
+			}
+		}
+		return 0;
+	}
+
+	/**
+	 * Compare an entity with the position of a cursor.
+	 * @param entity The entity to compare.
+	 * @param sortKeys The sort keys for the query.
+	 * @param cursorValues The values of the sort keys from the cursor.
+	 * @returns A positive number if the entity is after the cursor, otherwise a negative number or 0.
+	 */
+	public static compareToCursor<T>(
+		entity: Partial<T>,
+		sortKeys: IEntitySort<T>[],
+		cursorValues: unknown[]
+	): number {
+		const cursorEntity: Partial<T> = {};
+		for (let i = 0; i < sortKeys.length; i++) {
+			if (!Is.null(cursorValues[i])) {
+				cursorEntity[sortKeys[i].property] = cursorValues[i] as T[keyof T];
+			}
+		}
+		return EntityStorageCursorHelper.compare(entity, cursorEntity, sortKeys);
+	}
+}
@@ -0,0 +1,137 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { GeneralError, Guards, Is } from "@twin.org/core";
+import type { IEntitySchema } from "@twin.org/entity";
+import { nameof } from "@twin.org/nameof";
+
+/**
+ * Helper methods for maintaining entity expiry.
+ * Expiry is opt-in, an entity schema enables it by including an integer property with
+ * the name EXPIRY_PROPERTY, which contains the time the entity expires in seconds since
+ * the epoch, entities without a value for the property never expire.
+ */
+export class EntityStorageExpiryHelper {
+	/**
+	 * The name of the schema property which contains the expiry of the entity.
+	 */
+	public static readonly EXPIRY_PROPERTY: string = "entityExpiry";
+
+	/**
+	 * The default interval in milliseconds for connectors which sweep the expired entities.
+	 */
+	public static readonly DEFAULT_SWEEP_INTERVAL: number = 60000;
+
+	/**
+	 * Runtime name for the class.
+	 * @internal
+	 */
+	private static readonly _CLASS_NAME: string = nameof<EntityStorageExpiryHelper>();
+
+	/**
+	 * Get the expiry property for the schema.
+	 * @param entitySchema The schema for the entities.
+	 * @returns The expiry property if the schema supports expiry, or undefined.
+	 */
+	public static getExpiryProperty<T>(entitySchema: IEntitySchema<T>): keyof T | undefined {
+		return entitySchema.properties?.find(
+			p => p.property === EntityStorageExpiryHelper.EXPIRY_PROPERTY
+		)?.property;
+	}
+
+	/**
+	 * Get the current time in the same format as the expiry.
+	 * @returns The current time in seconds since the epoch.
+	 */
+	public static now(): number {
+		return Math.floor(Date.now() / 1000);
+	}
+
+	/**
+	 * Guard that a time to live is valid and can only be used if the schema supports expiry.
+	 * @param expiryProperty The expiry property for the schema.
+	 * @param timeToLive The number of seconds until the entity expires.
+	 * @throws GeneralError if a time to live is provided but the schema does not support expiry, or it is not positive.
+	 * @throws GuardError if the time to live is not an integer.
+	 */
+	public static guardTimeToLive<T>(
+		expiryProperty: keyof T | undefined,
+		timeToLive: number | undefined
+	): void {
+		if (Is.undefined(timeToLive)) {
+			return;
+		}
+		if (Is.undefined(expiryProperty)) {
+			throw new GeneralError(EntityStorageExpiryHelper._CLASS_NAME, "expiryNotSupported", {
+				property: EntityStorageExpiryHelper.EXPIRY_PROPERTY
+			});
+		}
+		Guards.integer(EntityStorageExpiryHelper._CLASS_NAME, nameof(timeToLive), timeToLive);
+		if (timeToLive <= 0) {
+			throw new GeneralError(EntityStorageExpiryHelper._CLASS_NAME, "timeToLiveInvalid", {
+				timeToLive
+			});
+		}
+	}
+
+	/**
+	 * Create a copy of the entity which expires after the time to live, if one is provided.
+	 * @param entity The entity to set the expiry for.
+	 * @param expiryProperty The expiry property for the schema.
+	 * @param timeToLive The number of seconds until the entity expires.
+	 * @returns The entity with the expiry.
+	 * @throws GeneralError if a time to live is provided but the schema does not support expiry.
+	 */
+	public static applyTimeToLive<T>(
+		entity: T,
+		expiryProperty: keyof T | undefined,
+		timeToLive: number | undefined
+	): T {
+		EntityStorageExpiryHelper.guardTimeToLive(expiryProperty, timeToLive);
+		if (Is.undefined(expiryProperty) || Is.undefined(timeToLive)) {
+			return entity;
+		}
+		return {
+			...entity,
+			[expiryProperty]: EntityStorageExpiryHelper.now() + timeToLive
+		};
+	}
+
+	/**
+	 * Has the entity expired.
+	 * @param entity The entity to check.
+	 * @param expiryProperty The expiry property for the schema.
+	 * @param now The current time in seconds since the epoch, defaults to now.
+	 * @returns True if the entity has an expiry which has passed.
+	 */
+	public static isExpired<T>(
+		entity: T | undefined,
+		expiryProperty: keyof T | undefined,
+		now: number = EntityStorageExpiryHelper.now()
+	): boolean {
+		if (Is.undefined(entity) || Is.undefined(expiryProperty)) {
+			return false;
+		}
+		const expiry = entity[expiryProperty];
+		return Is.number(expiry) && expiry <= now;
+	}
+
+	/**
+	 * Get the remaining time to live for an entity, for connectors with native expiry.
+	 * @param entity The entity to get the time to live for.
+	 * @param expiryProperty The expiry property for the schema.
+	 * @returns The number of seconds until the entity expires, at least 1, or undefined if it does not expire.
+	 */
+	public static getTimeToLive<T>(
+		entity: T,
+		expiryProperty: keyof T | undefined
+	): number | undefined {
+		if (Is.undefined(expiryProperty)) {
+			return undefined;
+		}
+		const expiry = entity[expiryProperty];
+		if (!Is.number(expiry)) {
+			return undefined;
+		}
+		return Math.max(expiry - EntityStorageExpiryHelper.now(), 1);
+	}
+}
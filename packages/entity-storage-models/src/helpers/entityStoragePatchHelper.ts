@@ -0,0 +1,172 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { GeneralError, Guards, Is } from "@twin.org/core";
+import type { IEntitySchema } from "@twin.org/entity";
+import { nameof } from "@twin.org/nameof";
+
+/**
+ * Helper methods for applying partial updates using JSON Merge Patch semantics.
+ * A property with a null value in the patch removes the property, an object value
+ * is merged recursively and any other value replaces the existing one.
+ */
+export class EntityStoragePatchHelper {
+	/**
+	 * Runtime name for the class.
+	 * @internal
+	 */
+	private static readonly _CLASS_NAME: string = nameof<EntityStoragePatchHelper>();
+
+	/**
+	 * Validate a patch against the schema for the entities.
+	 * @param id The id of the entity being patched.
+	 * @param patch The patch to validate.
+	 * @param entitySchema The schema for the entities.
+	 * @throws GeneralError if the patch is not valid for the schema.
+	 */
+	public static validatePatch<T>(
+		id: string,
+		patch: Partial<T>,
+		entitySchema: IEntitySchema<T>
+	): void {
+		Guards.stringValue(EntityStoragePatchHelper._CLASS_NAME, nameof(id), id);
+		Guards.object<Partial<T>>(EntityStoragePatchHelper._CLASS_NAME, nameof(patch), patch);
+		Guards.object<IEntitySchema<T>>(
+			EntityStoragePatchHelper._CLASS_NAME,
+			nameof(entitySchema),
+			entitySchema
+		);
+
+		const properties = entitySchema.properties ?? [];
+		const unknownKeys: string[] = [];
+
+		for (const key of Object.keys(patch)) {
+			const prop = properties.find(p => p.property === key);
+			const value = patch[key as keyof T];
+			if (Is.undefined(prop)) {
+				unknownKeys.push(key);
+			} else if (prop.isPrimary) {
+				// The primary key can be included but it can not be changed
+				if (value !== id) {
+					throw new GeneralError(EntityStoragePatchHelper._CLASS_NAME, "primaryKeyPatch", {
+						property: prop.property
+					});
+				}
+			} else if (Is.undefined(value)) {
+				// Undefined values are not part of a JSON patch so are ignored
+			} else if (Is.null(value)) {
+				// A null value removes the property so it must be optional
+				if (!prop.optional) {
+					throw new GeneralError(EntityStoragePatchHelper._CLASS_NAME, "invalidPatchOptional", {
+						property: prop.property,
+						type: prop.type
+					});
+				}
+			} else if (
+				!(prop.type === "integer" && Is.integer(value)) &&
+				!(prop.type === "object" && Is.object(value)) &&
+				!(prop.type === "array" && Is.array(value)) &&
+				(prop.type === "object" || prop.type !== typeof value)
+			) {
+				// The schema type does not match the value type
+				throw new GeneralError(EntityStoragePatchHelper._CLASS_NAME, "invalidPatchProperty", {
+					value,
+					property: prop.property,
+					type: prop.type
+				});
+			}
+		}
+
+		if (unknownKeys.length > 0) {
+			throw new GeneralError(EntityStoragePatchHelper._CLASS_NAME, "invalidPatchKeys", {
+				keys: unknownKeys.join(", ")
+			});
+		}
+	}
+
+	/**
+	 * Apply a patch to an entity.
+	 * @param entity The entity to apply the patch to.
+	 * @param patch The patch to apply.
+	 * @returns A new entity with the patch applied.
+	 */
+	public static applyPatch<T>(entity: T | undefined, patch: Partial<T>): T {
+		return EntityStoragePatchHelper.mergePatch(entity, patch) as T;
+	}
+
+	/**
+	 * Flatten a patch in to the list of paths to set and the list of paths to remove,
+	 * nested objects are expanded so that each leaf value has its own path, arrays are
+	 * treated as leaf values and replace any existing value.
+	 * @param patch The patch to flatten.
+	 * @returns The paths to set with their values and the paths to remove.
+	 */
+	public static flattenPatch<T>(patch: Partial<T>): {
+		/**
+		 * The paths to set with the value for each.
+		 */
+		set: { path: string[]; value: unknown }[];
+		/**
+		 * The paths to remove.
+		 */
+		remove: string[][];
+	} {
+		const result: { set: { path: string[]; value: unknown }[]; remove: string[][] } = {
+			set: [],
+			remove: []
+		};
+		EntityStoragePatchHelper.flattenValue([], patch, result);
+		return result;
+	}
+
+	/**
+	 * Recursively merge the patch with the target.
+	 * @param target The target to merge in to.
+	 * @param patch The patch to merge.
+	 * @returns The merged value.
+	 * @internal
+	 */
+	private static mergePatch(target: unknown, patch: unknown): unknown {
+		if (!Is.object(patch)) {
+			return patch;
+		}
+
+		const result: { [key: string]: unknown } = Is.object(target) ? { ...target } : {};
+		for (const key of Object.keys(patch)) {
+			const value = patch[key];
+			if (Is.null(value)) {
+				delete result[key];
+			} else if (!Is.undefined(value)) {
+				result[key] = EntityStoragePatchHelper.mergePatch(result[key], value);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Recursively flatten the value in to the result.
+	 * @param path The path for the current value.
+	 * @param value The value to flatten.
+	 * @param result The result to add the paths to.
+	 * @param result.set The paths to set.
+	 * @param result.remove The paths to remove.
+	 * @internal
+	 */
+	private static flattenValue(
+		path: string[],
+		value: unknown,
+		result: { set: { path: string[]; value: unknown }[]; remove: string[][] }
+	): void {
+		if (Is.object(value)) {
+			for (const key of Object.keys(value)) {
+				const childValue = value[key];
+				if (Is.null(childValue)) {
+					result.remove.push([...path, key]);
+				} else if (!Is.undefined(childValue)) {
+					EntityStoragePatchHelper.flattenValue([...path, key], childValue, result);
+				}
+			}
+		} else {
+			result.set.push({ path, value });
+		}
+	}
+}
@@ -0,0 +1,94 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Guards, NotSupportedError } from "@twin.org/core";
+import { EntitySchemaHelper, type IEntitySchema } from "@twin.org/entity";
+import { nameof } from "@twin.org/nameof";
+import { EntityStorageVersionHelper } from "./entityStorageVersionHelper";
+import { EntityStorageTransactionOperationType } from "../models/entityStorageTransactionOperationType";
+import type { IEntityStorageTransactionOperation } from "../models/IEntityStorageTransactionOperation";
+
+/**
+ * Helper methods for connectors performing transactions.
+ */
+export class EntityStorageTransactionHelper {
+	/**
+	 * Runtime name for the class.
+	 * @internal
+	 */
+	private static readonly _CLASS_NAME: string = nameof<EntityStorageTransactionHelper>();
+
+	/**
+	 * Validate the operations for a transaction.
+	 * @param operations The operations to validate.
+	 * @param entitySchema The schema for the entities.
+	 * @param versionProperty The version property for the schema.
+	 * @throws GuardError if any of the operations are not valid.
+	 */
+	public static validateOperations<T>(
+		operations: IEntityStorageTransactionOperation<T>[],
+		entitySchema: IEntitySchema<T>,
+		versionProperty: keyof T | undefined
+	): void {
+		Guards.arrayValue<IEntityStorageTransactionOperation<T>>(
+			EntityStorageTransactionHelper._CLASS_NAME,
+			nameof(operations),
+			operations
+		);
+
+		for (let i = 0; i < operations.length; i++) {
+			const operation = operations[i];
+			Guards.object<IEntityStorageTransactionOperation<T>>(
+				EntityStorageTransactionHelper._CLASS_NAME,
+				`operations[${i}]`,
+				operation
+			);
+			Guards.arrayOneOf<EntityStorageTransactionOperationType>(
+				EntityStorageTransactionHelper._CLASS_NAME,
+				`operations[${i}].type`,
+				operation.type,
+				Object.values(EntityStorageTransactionOperationType)
+			);
+			if (operation.type === EntityStorageTransactionOperationType.Set) {
+				Guards.object<T>(
+					EntityStorageTransactionHelper._CLASS_NAME,
+					`operations[${i}].entity`,
+					operation.entity
+				);
+				EntitySchemaHelper.validateEntity(operation.entity, entitySchema);
+			} else {
+				Guards.stringValue(
+					EntityStorageTransactionHelper._CLASS_NAME,
+					`operations[${i}].id`,
+					operation.id
+				);
+			}
+			EntityStorageVersionHelper.guardExpectedVersion(versionProperty, operation.expectedVersion);
+		}
+	}
+
+	/**
+	 * Get the id of the entity an operation applies to.
+	 * @param operation The operation to get the id for.
+	 * @param primaryKey The primary key property for the schema.
+	 * @returns The id of the entity.
+	 */
+	public static getOperationId<T>(
+		operation: IEntityStorageTransactionOperation<T>,
+		primaryKey: keyof T
+	): string {
+		return operation.type === EntityStorageTransactionOperationType.Set
+			? (operation.entity?.[primaryKey] as string)
+			: (operation.id as string);
+	}
+
+	/**
+	 * Create the error for connectors which do not support transactions.
+	 * @returns The not supported error.
+	 */
+	public static notSupportedError(): NotSupportedError {
+		return new NotSupportedError(
+			EntityStorageTransactionHelper._CLASS_NAME,
+			"transactionsNotSupported"
+		);
+	}
+}
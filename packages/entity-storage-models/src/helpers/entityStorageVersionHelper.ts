@@ -0,0 +1,146 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { ConflictError, Converter, GeneralError, Is, RandomHelper } from "@twin.org/core";
+import type { IEntitySchema } from "@twin.org/entity";
+import { nameof } from "@twin.org/nameof";
+
+/**
+ * Helper methods for maintaining entity versions for optimistic concurrency.
+ * Versioning is opt-in, an entity schema enables it by including a string property
+ * with the name VERSION_PROPERTY, the connectors then generate a new version token
+ * each time the entity is written.
+ */
+export class EntityStorageVersionHelper {
+	/**
+	 * The name of the schema property which contains the version of the entity.
+	 */
+	public static readonly VERSION_PROPERTY: string = "entityVersion";
+
+	/**
+	 * Runtime name for the class.
+	 * @internal
+	 */
+	private static readonly _CLASS_NAME: string = nameof<EntityStorageVersionHelper>();
+
+	/**
+	 * Get the version property for the schema.
+	 * @param entitySchema The schema for the entities.
+	 * @returns The version property if the schema supports versions, or undefined.
+	 */
+	public static getVersionProperty<T>(entitySchema: IEntitySchema<T>): keyof T | undefined {
+		return entitySchema.properties?.find(
+			p => p.property === EntityStorageVersionHelper.VERSION_PROPERTY
+		)?.property;
+	}
+
+	/**
+	 * Generate a new version token.
+	 * @returns The version token.
+	 */
+	public static generateVersion(): string {
+		return Converter.bytesToHex(RandomHelper.generate(16));
+	}
+
+	/**
+	 * Create a copy of the entity with a new version token, if the schema supports versions.
+	 * @param entity The entity to update the version for.
+	 * @param versionProperty The version property for the schema.
+	 * @returns The entity with the new version.
+	 */
+	public static nextVersion<T>(entity: T, versionProperty: keyof T | undefined): T {
+		if (Is.undefined(versionProperty)) {
+			return entity;
+		}
+		return {
+			...entity,
+			[versionProperty]: EntityStorageVersionHelper.generateVersion()
+		};
+	}
+
+	/**
+	 * Guard that an expected version can only be used if the schema supports versions.
+	 * @param versionProperty The version property for the schema.
+	 * @param expectedVersion The version the entity is expected to have.
+	 * @throws GeneralError if an expected version is provided but the schema does not support versions.
+	 */
+	public static guardExpectedVersion<T>(
+		versionProperty: keyof T | undefined,
+		expectedVersion: string | undefined
+	): void {
+		if (!Is.undefined(expectedVersion) && Is.undefined(versionProperty)) {
+			throw new GeneralError(EntityStorageVersionHelper._CLASS_NAME, "versionNotSupported", {
+				property: EntityStorageVersionHelper.VERSION_PROPERTY
+			});
+		}
+	}
+
+	/**
+	 * Verify the version of an entity matches the expected version.
+	 * @param id The id of the entity being verified.
+	 * @param versionProperty The version property for the schema.
+	 * @param expectedVersion The version the entity is expected to have, nothing is verified if undefined.
+	 * @param entity The current entity from storage, or undefined if it does not exist.
+	 * @throws GeneralError if an expected version is provided but the schema does not support versions.
+	 * @throws ConflictError if the entity does not exist or its version does not match.
+	 */
+	public static verifyVersion<T>(
+		id: string,
+		versionProperty: keyof T | undefined,
+		expectedVersion: string | undefined,
+		entity?: T
+	): void {
+		EntityStorageVersionHelper.guardExpectedVersion(versionProperty, expectedVersion);
+		if (Is.undefined(expectedVersion) || Is.undefined(versionProperty)) {
+			return;
+		}
+		const currentVersion = entity?.[versionProperty];
+		if (currentVersion !== expectedVersion) {
+			throw EntityStorageVersionHelper.conflictError(id, expectedVersion, currentVersion);
+		}
+	}
+
+	/**
+	 * Convert a version in to an ETag header value.
+	 * @param version The version to convert.
+	 * @returns The ETag header value.
+	 */
+	public static toETag(version: string): string {
+		return `"${version}"`;
+	}
+
+	/**
+	 * Convert an ETag or If-Match header value in to a version.
+	 * @param eTag The header value to convert.
+	 * @returns The version or undefined if there is no header value.
+	 */
+	public static fromETag(eTag: string | undefined): string | undefined {
+		if (!Is.stringValue(eTag)) {
+			return undefined;
+		}
+		const version = eTag
+			.trim()
+			.replace(/^W\//, "")
+			.replace(/^"(.*)"$/, "$1");
+		return Is.stringValue(version) ? version : undefined;
+	}
+
+	/**
+	 * Create the error for a version which does not match.
+	 * @param id The id of the entity with the conflicting version.
+	 * @param expectedVersion The version the entity was expected to have.
+	 * @param currentVersion The current version of the entity if it is known.
+	 * @returns The conflict error.
+	 */
+	public static conflictError(
+		id: string,
+		expectedVersion: string,
+		currentVersion?: unknown
+	): ConflictError {
+		return new ConflictError(
+			EntityStorageVersionHelper._CLASS_NAME,
+			"versionMismatch",
+			id,
+			Is.stringValue(currentVersion) ? [expectedVersion, currentVersion] : [expectedVersion]
+		);
+	}
+}
@@ -1,11 +1,33 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
 export * from "./factories/entityStorageConnectorFactory";
+export * from "./helpers/entityStorageBatchHelper";
+export * from "./helpers/entityStorageChangeEmitter";
+export * from "./helpers/entityStorageCursorHelper";
+export * from "./helpers/entityStorageExpiryHelper";
+export * from "./helpers/entityStoragePatchHelper";
+export * from "./helpers/entityStorageTransactionHelper";
+export * from "./helpers/entityStorageVersionHelper";
+export * from "./models/api/IEntityStorageCountRequest";
+export * from "./models/api/IEntityStorageCountResponse";
 export * from "./models/api/IEntityStorageGetRequest";
 export * from "./models/api/IEntityStorageGetResponse";
 export * from "./models/api/IEntityStorageListRequest";
 export * from "./models/api/IEntityStorageListResponse";
+export * from "./models/api/IEntityStoragePatchRequest";
+export * from "./models/api/IEntityStoragePreconditionFailedResponse";
 export * from "./models/api/IEntityStorageRemoveRequest";
 export * from "./models/api/IEntityStorageSetRequest";
+export * from "./models/api/IEntityStorageSubscribeRequest";
+export * from "./models/api/IEntityStorageSubscribeResponse";
+export * from "./models/entityStorageChangeType";
+export * from "./models/entityStorageTransactionOperationType";
+export * from "./models/IEntityStorageBatchResult";
+export * from "./models/IEntityStorageChange";
 export * from "./models/IEntityStorageComponent";
+export * from "./models/IEntityStorageComponentPatchOptions";
+export * from "./models/IEntityStorageComponentRemoveOptions";
+export * from "./models/IEntityStorageComponentSetOptions";
 export * from "./models/IEntityStorageConnector";
+export * from "./models/IEntityStorageConnectorCapabilities";
+export * from "./models/IEntityStorageTransactionOperation";
@@ -0,0 +1,28 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IError } from "@twin.org/core";
+
+/**
+ * The result for an individual item in a batch operation.
+ */
+export interface IEntityStorageBatchResult<T = unknown> {
+	/**
+	 * The id of the entity the result relates to.
+	 */
+	id: string;
+
+	/**
+	 * Was the operation successful for the item.
+	 */
+	success: boolean;
+
+	/**
+	 * The entity, only populated by get operations when the item was found.
+	 */
+	entity?: T;
+
+	/**
+	 * The error if the operation failed for the item.
+	 */
+	error?: IError;
+}
@@ -0,0 +1,25 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { EntityStorageChangeType } from "./entityStorageChangeType";
+
+/**
+ * A change to an entity notified to subscribers.
+ */
+export interface IEntityStorageChange<T = unknown> {
+	/**
+	 * The type of the change.
+	 */
+	type: EntityStorageChangeType;
+
+	/**
+	 * The id of the entity which changed.
+	 */
+	id: string;
+
+	/**
+	 * The entity after the change, or the entity before it was removed, some connectors
+	 * can not provide the entity for removals in which case it is undefined or only contains
+	 * the primary key and identity properties.
+	 */
+	entity?: T;
+}
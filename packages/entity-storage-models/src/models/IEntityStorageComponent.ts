@@ -2,6 +2,10 @@
 // SPDX-License-Identifier: Apache-2.0.
 import type { IComponent } from "@twin.org/core";
 import type { EntityCondition, SortDirection } from "@twin.org/entity";
+import type { IEntityStorageChange } from "./IEntityStorageChange";
+import type { IEntityStorageComponentPatchOptions } from "./IEntityStorageComponentPatchOptions";
+import type { IEntityStorageComponentRemoveOptions } from "./IEntityStorageComponentRemoveOptions";
+import type { IEntityStorageComponentSetOptions } from "./IEntityStorageComponentSetOptions";
 
 /**
  * Interface describing an entity storage component.
@@ -12,9 +16,15 @@ export interface IEntityStorageComponent<T = unknown> extends IComponent {
 	 * @param entity The entity to set.
 	 * @param userIdentity The user identity to use with storage operations.
 	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @param options The optional options for setting the entity.
 	 * @returns The id of the entity.
 	 */
-	set(entity: T, userIdentity?: string, nodeIdentity?: string): Promise<void>;
+	set(
+		entity: T,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentSetOptions
+	): Promise<void>;
 
 	/**
 	 * Get an entity.
@@ -36,9 +46,67 @@ export interface IEntityStorageComponent<T = unknown> extends IComponent {
 	 * @param id The id of the entity to remove.
 	 * @param userIdentity The user identity to use with storage operations.
 	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @param options The optional options for removing the entity.
+	 * @returns Nothing.
+	 */
+	remove(
+		id: string,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentRemoveOptions
+	): Promise<void>;
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param userIdentity The user identity to use with storage operations.
+	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @param options The optional options for patching the entity.
 	 * @returns Nothing.
 	 */
-	remove(id: string, userIdentity?: string, nodeIdentity?: string): Promise<void>;
+	patch(
+		id: string,
+		patch: Partial<T>,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentPatchOptions
+	): Promise<void>;
+
+	/**
+	 * Subscribe to the changes made to entities.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @param userIdentity The user identity to use with storage operations.
+	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @returns The id of the subscription.
+	 */
+	subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<string>;
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	unsubscribe(subscriptionId: string): Promise<void>;
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @param userIdentity The user identity to use with storage operations.
+	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	count(
+		conditions?: EntityCondition<T>,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<number>;
 
 	/**
 	 * Query all the entities which match the conditions.
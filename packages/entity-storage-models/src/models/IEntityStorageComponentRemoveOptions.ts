@@ -0,0 +1,12 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The options for removing an entity using the entity storage component.
+ */
+export interface IEntityStorageComponentRemoveOptions {
+	/**
+	 * The optional version the existing entity is expected to have.
+	 */
+	expectedVersion?: string;
+}
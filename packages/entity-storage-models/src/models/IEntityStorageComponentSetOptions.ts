@@ -0,0 +1,17 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The options for setting an entity using the entity storage component.
+ */
+export interface IEntityStorageComponentSetOptions {
+	/**
+	 * The optional version the existing entity is expected to have.
+	 */
+	expectedVersion?: string;
+
+	/**
+	 * The optional number of seconds until the entity expires.
+	 */
+	timeToLive?: number;
+}
@@ -2,6 +2,10 @@
 // SPDX-License-Identifier: Apache-2.0.
 import type { IComponent } from "@twin.org/core";
 import type { EntityCondition, IEntitySchema, SortDirection } from "@twin.org/entity";
+import type { IEntityStorageBatchResult } from "./IEntityStorageBatchResult";
+import type { IEntityStorageChange } from "./IEntityStorageChange";
+import type { IEntityStorageConnectorCapabilities } from "./IEntityStorageConnectorCapabilities";
+import type { IEntityStorageTransactionOperation } from "./IEntityStorageTransactionOperation";
 
 /**
  * Interface describing an entity storage connector.
@@ -14,12 +18,26 @@ export interface IEntityStorageConnector<T = unknown> extends IComponent {
 	getSchema(): IEntitySchema;
 
 	/**
-	 * Set an entity.
+	 * Get the optional capabilities supported by the connector.
+	 * @returns The capabilities of the connector.
+	 */
+	getCapabilities(): IEntityStorageConnectorCapabilities;
+
+	/**
+	 * Set an entity, if the schema supports versions a new version is generated for the entity.
 	 * @param entity The entity to set.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @param timeToLive The optional number of seconds until the entity expires, requires the schema to support expiry.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	set(entity: T, conditions?: { property: keyof T; value: unknown }[]): Promise<void>;
+	set(
+		entity: T,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string,
+		timeToLive?: number
+	): Promise<void>;
 
 	/**
 	 * Get an entity.
@@ -38,9 +56,103 @@ export interface IEntityStorageConnector<T = unknown> extends IComponent {
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
 	 * @param conditions The optional conditions to match for the entities.
+	 * @param expectedVersion The optional version the existing entity is expected to have.
+	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 */
+	remove(
+		id: string,
+		conditions?: { property: keyof T; value: unknown }[],
+		expectedVersion?: string
+	): Promise<void>;
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics, properties with
+	 * a null value are removed, object values are merged and all other values are replaced.
+	 * If the entity does not exist or the conditions do not match nothing is updated.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns Nothing.
+	 */
+	patch(
+		id: string,
+		patch: Partial<T>,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<void>;
+
+	/**
+	 * Set multiple entities.
+	 * @param entities The entities to set.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the entities, in the same order they were provided.
+	 */
+	setBatch(
+		entities: T[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]>;
+
+	/**
+	 * Get multiple entities.
+	 * @param ids The ids of the entities to get, or the index values if secondaryIndex is set.
+	 * @param secondaryIndex Get the items using a secondary index.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided,
+	 * the entity is undefined if it could not be found.
+	 */
+	getBatch(
+		ids: string[],
+		secondaryIndex?: keyof T,
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]>;
+
+	/**
+	 * Remove multiple entities.
+	 * @param ids The ids of the entities to remove.
+	 * @param conditions The optional conditions to match for the entities.
+	 * @returns The result for each of the ids, in the same order they were provided.
+	 */
+	removeBatch(
+		ids: string[],
+		conditions?: { property: keyof T; value: unknown }[]
+	): Promise<IEntityStorageBatchResult<T>[]>;
+
+	/**
+	 * Perform multiple set and remove operations atomically, either all of the operations
+	 * are applied or none of them are, check the transactions capability before calling.
+	 * @param operations The operations to perform.
 	 * @returns Nothing.
+	 * @throws ConflictError if an expected version does not match, none of the operations are applied.
+	 * @throws NotSupportedError if the connector does not support transactions.
+	 */
+	transaction(operations: IEntityStorageTransactionOperation<T>[]): Promise<void>;
+
+	/**
+	 * Subscribe to the changes made to entities, check the subscriptions capability before calling.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 * @throws NotSupportedError if the connector does not support subscriptions.
+	 */
+	subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string>;
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 * @throws NotSupportedError if the connector does not support subscriptions.
+	 */
+	unsubscribe(subscriptionId: string): Promise<void>;
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
 	 */
-	remove(id: string, conditions?: { property: keyof T; value: unknown }[]): Promise<void>;
+	count(conditions?: EntityCondition<T>): Promise<number>;
 
 	/**
 	 * Query all the entities which match the conditions.
@@ -0,0 +1,17 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The optional capabilities supported by an entity storage connector.
+ */
+export interface IEntityStorageConnectorCapabilities {
+	/**
+	 * Does the connector support applying multiple operations atomically using transaction.
+	 */
+	transactions: boolean;
+
+	/**
+	 * Does the connector support notifying changes to entities using subscribe.
+	 */
+	subscriptions: boolean;
+}
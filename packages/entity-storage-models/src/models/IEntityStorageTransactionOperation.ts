@@ -0,0 +1,29 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { EntityStorageTransactionOperationType } from "./entityStorageTransactionOperationType";
+
+/**
+ * An operation to perform as part of a transaction.
+ */
+export interface IEntityStorageTransactionOperation<T = unknown> {
+	/**
+	 * The type of the operation.
+	 */
+	type: EntityStorageTransactionOperationType;
+
+	/**
+	 * The entity to set, required for set operations.
+	 */
+	entity?: T;
+
+	/**
+	 * The id of the entity to remove, required for remove operations.
+	 */
+	id?: string;
+
+	/**
+	 * The optional version the existing entity is expected to have, if it does not match
+	 * none of the operations in the transaction are applied.
+	 */
+	expectedVersion?: string;
+}
@@ -0,0 +1,17 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Count the entries in entity storage.
+ */
+export interface IEntityStorageCountRequest {
+	/**
+	 * The parameters from the query.
+	 */
+	query?: {
+		/**
+		 * The condition for the count as JSON version of EntityCondition type.
+		 */
+		conditions?: string;
+	};
+}
@@ -0,0 +1,17 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Response to counting the entries matching a query.
+ */
+export interface IEntityStorageCountResponse {
+	/**
+	 * The count of entries.
+	 */
+	body: {
+		/**
+		 * The number of entities matching the conditions.
+		 */
+		count: number;
+	};
+}
@@ -5,6 +5,16 @@
  * Get an entry from entity storage.
  */
 export interface IEntityStorageGetResponse {
+	/**
+	 * The headers for the response.
+	 */
+	headers?: {
+		/**
+		 * The version of the entity if the schema supports versions.
+		 */
+		etag?: string;
+	};
+
 	/**
 	 * The data for the requested entity.
 	 */
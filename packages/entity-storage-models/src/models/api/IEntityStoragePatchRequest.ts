@@ -0,0 +1,32 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Patch an entry in entity storage.
+ */
+export interface IEntityStoragePatchRequest {
+	/**
+	 * The headers for the request.
+	 */
+	headers?: {
+		/**
+		 * The version the existing entity is expected to have.
+		 */
+		"if-match"?: string;
+	};
+
+	/**
+	 * The parameters from the path.
+	 */
+	pathParams: {
+		/**
+		 * The id of the entity to patch.
+		 */
+		id: string;
+	};
+
+	/**
+	 * The properties to update in the entity as a JSON Merge Patch.
+	 */
+	body: unknown;
+}
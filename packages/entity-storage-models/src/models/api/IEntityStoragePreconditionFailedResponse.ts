@@ -0,0 +1,19 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IError } from "@twin.org/core";
+import type { HttpStatusCode } from "@twin.org/web";
+
+/**
+ * The entity does not have the version provided in the If-Match header.
+ */
+export interface IEntityStoragePreconditionFailedResponse {
+	/**
+	 * Response status code.
+	 */
+	statusCode: typeof HttpStatusCode.preconditionFailed;
+
+	/**
+	 * The body which contains the error.
+	 */
+	body: IError;
+}
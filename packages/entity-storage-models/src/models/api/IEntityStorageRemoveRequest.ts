@@ -5,6 +5,16 @@
  * Remove an entry from entity storage.
  */
 export interface IEntityStorageRemoveRequest {
+	/**
+	 * The headers for the request.
+	 */
+	headers?: {
+		/**
+		 * The version the existing entity is expected to have.
+		 */
+		"if-match"?: string;
+	};
+
 	/**
 	 * The parameters from the path.
 	 */
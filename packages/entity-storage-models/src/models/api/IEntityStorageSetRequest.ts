@@ -5,6 +5,26 @@
  * Set an entry in entity storage.
  */
 export interface IEntityStorageSetRequest {
+	/**
+	 * The headers for the request.
+	 */
+	headers?: {
+		/**
+		 * The version the existing entity is expected to have.
+		 */
+		"if-match"?: string;
+	};
+
+	/**
+	 * The parameters from the query.
+	 */
+	query?: {
+		/**
+		 * The number of seconds until the entity expires.
+		 */
+		timeToLive?: number | string;
+	};
+
 	/**
 	 * The data to be used in the entity.
 	 */
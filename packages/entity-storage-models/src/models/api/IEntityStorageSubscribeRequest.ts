@@ -0,0 +1,17 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * Subscribe to the changes made to entries in entity storage.
+ */
+export interface IEntityStorageSubscribeRequest {
+	/**
+	 * The parameters from the query.
+	 */
+	query?: {
+		/**
+		 * The condition the changed entries must match as JSON version of EntityCondition type.
+		 */
+		conditions?: string;
+	};
+}
@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The stream of changes made to entries in entity storage as server-sent events, each event
+ * is named with the change type and its data is the JSON version of the change.
+ */
+export interface IEntityStorageSubscribeResponse {
+	/**
+	 * The headers for the response.
+	 */
+	headers: {
+		/**
+		 * The events should not be cached.
+		 */
+		"cache-control": string;
+	};
+
+	/**
+	 * The stream of events.
+	 */
+	body: ReadableStream<Uint8Array>;
+}
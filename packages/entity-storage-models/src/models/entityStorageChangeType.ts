@@ -0,0 +1,29 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The types of change which can be notified to subscribers.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const EntityStorageChangeType = {
+	/**
+	 * An entity was created.
+	 */
+	Created: "created",
+
+	/**
+	 * An existing entity was updated.
+	 */
+	Updated: "updated",
+
+	/**
+	 * An entity was removed.
+	 */
+	Removed: "removed"
+} as const;
+
+/**
+ * The types of change which can be notified to subscribers.
+ */
+export type EntityStorageChangeType =
+	(typeof EntityStorageChangeType)[keyof typeof EntityStorageChangeType];
@@ -0,0 +1,24 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+
+/**
+ * The types of operation which can be performed in a transaction.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const EntityStorageTransactionOperationType = {
+	/**
+	 * Set an entity.
+	 */
+	Set: "set",
+
+	/**
+	 * Remove an entity.
+	 */
+	Remove: "remove"
+} as const;
+
+/**
+ * The types of operation which can be performed in a transaction.
+ */
+export type EntityStorageTransactionOperationType =
+	(typeof EntityStorageTransactionOperationType)[keyof typeof EntityStorageTransactionOperationType];
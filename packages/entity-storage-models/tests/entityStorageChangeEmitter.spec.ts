@@ -0,0 +1,138 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { GeneralError } from "@twin.org/core";
+import { ComparisonOperator } from "@twin.org/entity";
+import { EntityStorageChangeEmitter } from "../src/helpers/entityStorageChangeEmitter";
+import { EntityStorageChangeType } from "../src/models/entityStorageChangeType";
+import type { IEntityStorageChange } from "../src/models/IEntityStorageChange";
+
+/**
+ * Test Type Definition.
+ */
+interface TestType {
+	/**
+	 * Id.
+	 */
+	id: string;
+
+	/**
+	 * Value1.
+	 */
+	value1: string;
+}
+
+describe("EntityStorageChangeEmitter", () => {
+	test("can fail to subscribe with no callback", () => {
+		const emitter = new EntityStorageChangeEmitter<TestType>();
+		expect(() =>
+			emitter.subscribe(
+				undefined,
+				undefined as unknown as (change: IEntityStorageChange<TestType>) => Promise<void>
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.function",
+				properties: { property: "callback", value: "undefined" }
+			})
+		);
+	});
+
+	test("can subscribe and notify a change", async () => {
+		const emitter = new EntityStorageChangeEmitter<TestType>();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = emitter.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		expect(subscriptionId).toMatch(/^[\da-f]{32}$/);
+		expect(emitter.hasSubscriptions()).toEqual(true);
+
+		await emitter.notify({
+			type: EntityStorageChangeType.Created,
+			id: "1",
+			entity: { id: "1", value1: "aaa" }
+		});
+
+		expect(changes).toEqual([
+			{ type: EntityStorageChangeType.Created, id: "1", entity: { id: "1", value1: "aaa" } }
+		]);
+	});
+
+	test("can notify a copy of the entity so subscribers can not modify it", async () => {
+		const emitter = new EntityStorageChangeEmitter<TestType>();
+		emitter.subscribe(undefined, async change => {
+			if (change.entity) {
+				change.entity.value1 = "bbb";
+			}
+		});
+
+		const entity = { id: "1", value1: "aaa" };
+		await emitter.notify({ type: EntityStorageChangeType.Updated, id: "1", entity });
+
+		expect(entity.value1).toEqual("aaa");
+	});
+
+	test("can only notify the subscriptions with matching conditions", async () => {
+		const emitter = new EntityStorageChangeEmitter<TestType>();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		emitter.subscribe(
+			{ property: "value1", comparison: ComparisonOperator.Equals, value: "aaa" },
+			async change => {
+				changes.push(change);
+			}
+		);
+
+		await emitter.notify({
+			type: EntityStorageChangeType.Created,
+			id: "1",
+			entity: { id: "1", value1: "aaa" }
+		});
+		await emitter.notify({
+			type: EntityStorageChangeType.Created,
+			id: "2",
+			entity: { id: "2", value1: "bbb" }
+		});
+		await emitter.notify({ type: EntityStorageChangeType.Removed, id: "3" });
+
+		expect(changes.map(c => c.id)).toEqual(["1", "3"]);
+	});
+
+	test("can continue notifying when a subscription fails", async () => {
+		const emitter = new EntityStorageChangeEmitter<TestType>();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		emitter.subscribe(undefined, async () => {
+			throw new GeneralError("test", "failed");
+		});
+		emitter.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await emitter.notify({ type: EntityStorageChangeType.Removed, id: "1" });
+
+		expect(changes.map(c => c.id)).toEqual(["1"]);
+	});
+
+	test("can unsubscribe", async () => {
+		const emitter = new EntityStorageChangeEmitter<TestType>();
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = emitter.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		emitter.unsubscribe(subscriptionId);
+		emitter.unsubscribe("unknown");
+
+		await emitter.notify({ type: EntityStorageChangeType.Removed, id: "1" });
+
+		expect(emitter.hasSubscriptions()).toEqual(false);
+		expect(changes).toEqual([]);
+	});
+
+	test("can create the error for connectors which do not support subscriptions", () => {
+		expect(EntityStorageChangeEmitter.notSupportedError()).toMatchObject({
+			name: "NotSupportedError",
+			message: "entityStorageChangeEmitter.subscriptionsNotSupported"
+		});
+	});
+});
@@ -0,0 +1,161 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { type IEntitySort, SortDirection } from "@twin.org/entity";
+import { EntityStorageCursorHelper } from "../src/helpers/entityStorageCursorHelper";
+
+/**
+ * Test Type Definition.
+ */
+interface TestType {
+	/**
+	 * Id.
+	 */
+	id: string;
+
+	/**
+	 * Value1.
+	 */
+	value1?: string;
+
+	/**
+	 * Value2.
+	 */
+	value2: number;
+}
+
+describe("EntityStorageCursorHelper", () => {
+	test("can get the sort keys when there are no sort properties", () => {
+		expect(EntityStorageCursorHelper.getSortKeys<TestType>(undefined, "id")).toEqual([
+			{ property: "id", sortDirection: SortDirection.Ascending }
+		]);
+	});
+
+	test("can get the sort keys with the primary key added after the sort properties", () => {
+		expect(
+			EntityStorageCursorHelper.getSortKeys<TestType>(
+				[{ property: "value2", sortDirection: SortDirection.Descending }],
+				"id"
+			)
+		).toEqual([
+			{ property: "value2", sortDirection: SortDirection.Descending },
+			{ property: "id", sortDirection: SortDirection.Ascending }
+		]);
+	});
+
+	test("can get the sort keys when the sort properties already contain the primary key", () => {
+		expect(
+			EntityStorageCursorHelper.getSortKeys<TestType>(
+				[{ property: "id", sortDirection: SortDirection.Descending }],
+				"id"
+			)
+		).toEqual([{ property: "id", sortDirection: SortDirection.Descending }]);
+	});
+
+	test("can create and parse a cursor", () => {
+		const sortKeys = EntityStorageCursorHelper.getSortKeys<TestType>(
+			[
+				{ property: "value1", sortDirection: SortDirection.Ascending },
+				{ property: "value2", sortDirection: SortDirection.Descending }
+			],
+			"id"
+		);
+		const cursor = EntityStorageCursorHelper.createCursor<TestType>(
+			{ id: "1", value2: 10 },
+			sortKeys
+		);
+		expect(EntityStorageCursorHelper.parseCursor(cursor, sortKeys)).toEqual([null, 10, "1"]);
+	});
+
+	test("can fail to parse a cursor which can not be decoded", () => {
+		const sortKeys = EntityStorageCursorHelper.getSortKeys<TestType>(undefined, "id");
+		expect(() => EntityStorageCursorHelper.parseCursor("10", sortKeys)).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStorageCursorHelper.cursorInvalid",
+				properties: { cursor: "10" }
+			})
+		);
+	});
+
+	test("can fail to parse a cursor which was created for different sort keys", () => {
+		const cursor = EntityStorageCursorHelper.createCursor<TestType>(
+			{ id: "1", value2: 10 },
+			EntityStorageCursorHelper.getSortKeys<TestType>(
+				[{ property: "value2", sortDirection: SortDirection.Ascending }],
+				"id"
+			)
+		);
+		expect(() =>
+			EntityStorageCursorHelper.parseCursor(
+				cursor,
+				EntityStorageCursorHelper.getSortKeys<TestType>(undefined, "id")
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStorageCursorHelper.cursorInvalid"
+			})
+		);
+	});
+	test("can compare entities using the sort keys with missing values sorted last", () => {
+		const sortKeys: IEntitySort<TestType>[] = [
+			{ property: "value1", type: "string", sortDirection: SortDirection.Ascending },
+			{ property: "id", type: "string", sortDirection: SortDirection.Ascending }
+		];
+		const entities: TestType[] = [
+			{ id: "4", value2: 1 },
+			{ id: "2", value1: "b", value2: 1 },
+			{ id: "3", value2: 1 },
+			{ id: "1", value1: "b", value2: 1 },
+			{ id: "5", value1: "a", value2: 1 }
+		];
+		entities.sort((a, b) => EntityStorageCursorHelper.compare(a, b, sortKeys));
+		expect(entities.map(e => e.id)).toEqual(["5", "1", "2", "3", "4"]);
+	});
+
+	test("can compare entities with the position of a cursor", () => {
+		const sortKeys: IEntitySort<TestType>[] = [
+			{ property: "value2", type: "number", sortDirection: SortDirection.Descending },
+			{ property: "id", type: "string", sortDirection: SortDirection.Ascending }
+		];
+		const cursorValues = EntityStorageCursorHelper.parseCursor(
+			EntityStorageCursorHelper.createCursor<TestType>({ id: "2", value2: 10 }, sortKeys),
+			sortKeys
+		);
+		expect(
+			EntityStorageCursorHelper.compareToCursor<TestType>(
+				{ id: "2", value2: 10 },
+				sortKeys,
+				cursorValues
+			)
+		).toEqual(0);
+		expect(
+			EntityStorageCursorHelper.compareToCursor<TestType>(
+				{ id: "3", value2: 10 },
+				sortKeys,
+				cursorValues
+			)
+		).toBeGreaterThan(0);
+		expect(
+			EntityStorageCursorHelper.compareToCursor<TestType>(
+				{ id: "1", value2: 10 },
+				sortKeys,
+				cursorValues
+			)
+		).toBeLessThan(0);
+		expect(
+			EntityStorageCursorHelper.compareToCursor<TestType>(
+				{ id: "1", value2: 5 },
+				sortKeys,
+				cursorValues
+			)
+		).toBeGreaterThan(0);
+		expect(
+			EntityStorageCursorHelper.compareToCursor<TestType>(
+				{ id: "9", value2: 20 },
+				sortKeys,
+				cursorValues
+			)
+		).toBeLessThan(0);
+	});
+});
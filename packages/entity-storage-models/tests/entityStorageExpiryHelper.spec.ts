@@ -0,0 +1,164 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IEntitySchema } from "@twin.org/entity";
+import { EntityStorageExpiryHelper } from "../src/helpers/entityStorageExpiryHelper";
+
+/**
+ * Test Type Definition.
+ */
+interface TestType {
+	/**
+	 * Id.
+	 */
+	id: string;
+
+	/**
+	 * Value1.
+	 */
+	value1: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	entityExpiry?: number;
+}
+
+const schema: IEntitySchema<TestType> = {
+	type: "TestType",
+	properties: [
+		{ property: "id", type: "string", isPrimary: true },
+		{ property: "value1", type: "string" },
+		{ property: "entityExpiry", type: "integer", optional: true }
+	]
+};
+
+const schemaNoExpiry: IEntitySchema<TestType> = {
+	type: "TestType",
+	properties: [
+		{ property: "id", type: "string", isPrimary: true },
+		{ property: "value1", type: "string" }
+	]
+};
+
+describe("EntityStorageExpiryHelper", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	test("can get the expiry property for a schema which supports expiry", () => {
+		expect(EntityStorageExpiryHelper.getExpiryProperty(schema)).toEqual("entityExpiry");
+	});
+
+	test("can not get the expiry property for a schema which does not support expiry", () => {
+		expect(EntityStorageExpiryHelper.getExpiryProperty(schemaNoExpiry)).toBeUndefined();
+	});
+
+	test("can get the current time in seconds", () => {
+		expect(EntityStorageExpiryHelper.now()).toEqual(1704067200);
+	});
+
+	test("can apply a time to live to an entity", () => {
+		const entity: TestType = { id: "1", value1: "aaa" };
+		const result = EntityStorageExpiryHelper.applyTimeToLive(entity, "entityExpiry", 60);
+		expect(result).toEqual({ id: "1", value1: "aaa", entityExpiry: 1704067260 });
+		expect(entity.entityExpiry).toBeUndefined();
+	});
+
+	test("can leave the entity unchanged when there is no time to live", () => {
+		const entity: TestType = { id: "1", value1: "aaa", entityExpiry: 1704067100 };
+		expect(EntityStorageExpiryHelper.applyTimeToLive(entity, "entityExpiry", undefined)).toBe(
+			entity
+		);
+	});
+
+	test("can fail to apply a time to live when the schema does not support expiry", () => {
+		expect(() =>
+			EntityStorageExpiryHelper.applyTimeToLive<TestType>({ id: "1", value1: "aaa" }, undefined, 60)
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStorageExpiryHelper.expiryNotSupported",
+				properties: { property: "entityExpiry" }
+			})
+		);
+	});
+
+	test("can fail to apply a time to live which is not an integer", () => {
+		expect(() =>
+			EntityStorageExpiryHelper.applyTimeToLive<TestType>(
+				{ id: "1", value1: "aaa" },
+				"entityExpiry",
+				1.5
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.integer"
+			})
+		);
+	});
+
+	test("can fail to apply a time to live which is not positive", () => {
+		expect(() =>
+			EntityStorageExpiryHelper.applyTimeToLive<TestType>(
+				{ id: "1", value1: "aaa" },
+				"entityExpiry",
+				0
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStorageExpiryHelper.timeToLiveInvalid",
+				properties: { timeToLive: 0 }
+			})
+		);
+	});
+
+	test("can check if an entity has expired", () => {
+		expect(
+			EntityStorageExpiryHelper.isExpired<TestType>(
+				{ id: "1", value1: "aaa", entityExpiry: 1704067200 },
+				"entityExpiry"
+			)
+		).toEqual(true);
+		expect(
+			EntityStorageExpiryHelper.isExpired<TestType>(
+				{ id: "1", value1: "aaa", entityExpiry: 1704067201 },
+				"entityExpiry"
+			)
+		).toEqual(false);
+		expect(
+			EntityStorageExpiryHelper.isExpired<TestType>({ id: "1", value1: "aaa" }, "entityExpiry")
+		).toEqual(false);
+		expect(
+			EntityStorageExpiryHelper.isExpired<TestType>(
+				{ id: "1", value1: "aaa", entityExpiry: 1704067200 },
+				undefined
+			)
+		).toEqual(false);
+		expect(EntityStorageExpiryHelper.isExpired<TestType>(undefined, "entityExpiry")).toEqual(false);
+	});
+
+	test("can get the remaining time to live for an entity", () => {
+		expect(
+			EntityStorageExpiryHelper.getTimeToLive<TestType>(
+				{ id: "1", value1: "aaa", entityExpiry: 1704067260 },
+				"entityExpiry"
+			)
+		).toEqual(60);
+		expect(
+			EntityStorageExpiryHelper.getTimeToLive<TestType>(
+				{ id: "1", value1: "aaa", entityExpiry: 1704067100 },
+				"entityExpiry"
+			)
+		).toEqual(1);
+		expect(
+			EntityStorageExpiryHelper.getTimeToLive<TestType>({ id: "1", value1: "aaa" }, "entityExpiry")
+		).toBeUndefined();
+	});
+});
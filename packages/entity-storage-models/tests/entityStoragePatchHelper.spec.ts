@@ -0,0 +1,137 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IEntitySchema } from "@twin.org/entity";
+import { EntityStoragePatchHelper } from "../src/helpers/entityStoragePatchHelper";
+
+/**
+ * Test Type Definition.
+ */
+interface TestType {
+	/**
+	 * Id.
+	 */
+	id: string;
+
+	/**
+	 * Value1.
+	 */
+	value1: string;
+
+	/**
+	 * Value2.
+	 */
+	value2?: number;
+
+	/**
+	 * Value3.
+	 */
+	value3?: { [key: string]: unknown };
+}
+
+const schema: IEntitySchema<TestType> = {
+	type: "TestType",
+	properties: [
+		{ property: "id", type: "string", isPrimary: true },
+		{ property: "value1", type: "string" },
+		{ property: "value2", type: "integer", optional: true },
+		{ property: "value3", type: "object", optional: true }
+	]
+};
+
+describe("EntityStoragePatchHelper", () => {
+	test("can validate a patch", () => {
+		expect(() =>
+			EntityStoragePatchHelper.validatePatch(
+				"1",
+				{ id: "1", value1: "aaa", value2: null as unknown as number, value3: { a: 1 } },
+				schema
+			)
+		).not.toThrow();
+	});
+
+	test("can fail to validate a patch which changes the primary key", () => {
+		expect(() => EntityStoragePatchHelper.validatePatch("1", { id: "2" }, schema)).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStoragePatchHelper.primaryKeyPatch"
+			})
+		);
+	});
+
+	test("can fail to validate a patch which removes a required property", () => {
+		expect(() =>
+			EntityStoragePatchHelper.validatePatch("1", { value1: null as unknown as string }, schema)
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStoragePatchHelper.invalidPatchOptional"
+			})
+		);
+	});
+
+	test("can fail to validate a patch with an invalid property type", () => {
+		expect(() => EntityStoragePatchHelper.validatePatch("1", { value2: 1.5 }, schema)).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStoragePatchHelper.invalidPatchProperty"
+			})
+		);
+	});
+
+	test("can fail to validate a patch with a value which is not an object for an object property", () => {
+		for (const value3 of ["aaa", 1, [1, 2]]) {
+			expect(() =>
+				EntityStoragePatchHelper.validatePatch(
+					"1",
+					{ value3: value3 as unknown as { [key: string]: unknown } },
+					schema
+				)
+			).toThrow(
+				expect.objectContaining({
+					name: "GeneralError",
+					message: "entityStoragePatchHelper.invalidPatchProperty"
+				})
+			);
+		}
+	});
+
+	test("can fail to validate a patch with unknown properties", () => {
+		expect(() =>
+			EntityStoragePatchHelper.validatePatch(
+				"1",
+				{ foo: "bar" } as unknown as Partial<TestType>,
+				schema
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStoragePatchHelper.invalidPatchKeys"
+			})
+		);
+	});
+
+	test("can apply a patch", () => {
+		const result = EntityStoragePatchHelper.applyPatch<TestType>(
+			{ id: "1", value1: "aaa", value2: 10, value3: { a: 1, b: { c: 2, d: 3 } } },
+			{ value1: "bbb", value2: null as unknown as number, value3: { b: { c: null, e: [4] } } }
+		);
+
+		expect(result).toEqual({ id: "1", value1: "bbb", value3: { a: 1, b: { d: 3, e: [4] } } });
+	});
+
+	test("can flatten a patch", () => {
+		const result = EntityStoragePatchHelper.flattenPatch<TestType>({
+			value1: "bbb",
+			value2: null as unknown as number,
+			value3: { b: { c: null, e: [4] } }
+		});
+
+		expect(result).toEqual({
+			set: [
+				{ path: ["value1"], value: "bbb" },
+				{ path: ["value3", "b", "e"], value: [4] }
+			],
+			remove: [["value2"], ["value3", "b", "c"]]
+		});
+	});
+});
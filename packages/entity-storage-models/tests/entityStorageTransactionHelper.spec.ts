@@ -0,0 +1,120 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IEntitySchema } from "@twin.org/entity";
+import { EntityStorageTransactionHelper } from "../src/helpers/entityStorageTransactionHelper";
+import { EntityStorageTransactionOperationType } from "../src/models/entityStorageTransactionOperationType";
+import type { IEntityStorageTransactionOperation } from "../src/models/IEntityStorageTransactionOperation";
+
+/**
+ * Test Type Definition.
+ */
+interface TestType {
+	/**
+	 * Id.
+	 */
+	id: string;
+
+	/**
+	 * Value1.
+	 */
+	value1: string;
+}
+
+const schema: IEntitySchema<TestType> = {
+	type: "TestType",
+	properties: [
+		{ property: "id", type: "string", isPrimary: true },
+		{ property: "value1", type: "string" }
+	]
+};
+
+describe("EntityStorageTransactionHelper", () => {
+	test("can validate a set of operations", () => {
+		expect(() =>
+			EntityStorageTransactionHelper.validateOperations<TestType>(
+				[
+					{
+						type: EntityStorageTransactionOperationType.Set,
+						entity: { id: "1", value1: "aaa" }
+					},
+					{ type: EntityStorageTransactionOperationType.Remove, id: "2" }
+				],
+				schema,
+				undefined
+			)
+		).not.toThrow();
+	});
+
+	test("can fail to validate when there are no operations", () => {
+		expect(() =>
+			EntityStorageTransactionHelper.validateOperations<TestType>([], schema, undefined)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.arrayValue",
+				properties: { property: "operations", value: [] }
+			})
+		);
+	});
+
+	test("can fail to validate an operation with an invalid type", () => {
+		expect(() =>
+			EntityStorageTransactionHelper.validateOperations<TestType>(
+				[{ type: "foo" } as unknown as IEntityStorageTransactionOperation<TestType>],
+				schema,
+				undefined
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.arrayOneOf"
+			})
+		);
+	});
+
+	test("can fail to validate a set operation with no entity", () => {
+		expect(() =>
+			EntityStorageTransactionHelper.validateOperations<TestType>(
+				[{ type: EntityStorageTransactionOperationType.Set }],
+				schema,
+				undefined
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.objectUndefined",
+				properties: { property: "operations[0].entity", value: "undefined" }
+			})
+		);
+	});
+
+	test("can fail to validate an expected version when the schema does not support versions", () => {
+		expect(() =>
+			EntityStorageTransactionHelper.validateOperations<TestType>(
+				[{ type: EntityStorageTransactionOperationType.Remove, id: "1", expectedVersion: "v1" }],
+				schema,
+				undefined
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStorageVersionHelper.versionNotSupported"
+			})
+		);
+	});
+
+	test("can get the id for operations", () => {
+		expect(
+			EntityStorageTransactionHelper.getOperationId<TestType>(
+				{ type: EntityStorageTransactionOperationType.Set, entity: { id: "1", value1: "aaa" } },
+				"id"
+			)
+		).toEqual("1");
+		expect(
+			EntityStorageTransactionHelper.getOperationId<TestType>(
+				{ type: EntityStorageTransactionOperationType.Remove, id: "2" },
+				"id"
+			)
+		).toEqual("2");
+	});
+});
@@ -0,0 +1,120 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IEntitySchema } from "@twin.org/entity";
+import { EntityStorageVersionHelper } from "../src/helpers/entityStorageVersionHelper";
+
+/**
+ * Test Type Definition.
+ */
+interface TestType {
+	/**
+	 * Id.
+	 */
+	id: string;
+
+	/**
+	 * Value1.
+	 */
+	value1: string;
+
+	/**
+	 * Entity Version.
+	 */
+	entityVersion?: string;
+}
+
+const schema: IEntitySchema<TestType> = {
+	type: "TestType",
+	properties: [
+		{ property: "id", type: "string", isPrimary: true },
+		{ property: "value1", type: "string" },
+		{ property: "entityVersion", type: "string", optional: true }
+	]
+};
+
+const schemaNoVersion: IEntitySchema<TestType> = {
+	type: "TestType",
+	properties: [
+		{ property: "id", type: "string", isPrimary: true },
+		{ property: "value1", type: "string" }
+	]
+};
+
+describe("EntityStorageVersionHelper", () => {
+	test("can get the version property for a schema which supports versions", () => {
+		expect(EntityStorageVersionHelper.getVersionProperty(schema)).toEqual("entityVersion");
+	});
+
+	test("can not get the version property for a schema which does not support versions", () => {
+		expect(EntityStorageVersionHelper.getVersionProperty(schemaNoVersion)).toBeUndefined();
+	});
+
+	test("can generate a new version for an entity", () => {
+		const entity: TestType = { id: "1", value1: "aaa", entityVersion: "v1" };
+		const result = EntityStorageVersionHelper.nextVersion(entity, "entityVersion");
+		expect(result.id).toEqual("1");
+		expect(result.entityVersion).toMatch(/^[\da-f]{32}$/);
+		expect(result.entityVersion).not.toEqual("v1");
+		expect(entity.entityVersion).toEqual("v1");
+	});
+
+	test("can not generate a new version when there is no version property", () => {
+		const entity: TestType = { id: "1", value1: "aaa" };
+		expect(EntityStorageVersionHelper.nextVersion(entity, undefined)).toBe(entity);
+	});
+
+	test("can verify a matching version", () => {
+		expect(() =>
+			EntityStorageVersionHelper.verifyVersion("1", "entityVersion", "v1", {
+				id: "1",
+				value1: "aaa",
+				entityVersion: "v1"
+			})
+		).not.toThrow();
+	});
+
+	test("can fail to verify a version which does not match", () => {
+		expect(() =>
+			EntityStorageVersionHelper.verifyVersion<TestType>("1", "entityVersion", "v1", {
+				id: "1",
+				value1: "aaa",
+				entityVersion: "v2"
+			})
+		).toThrow(
+			expect.objectContaining({
+				name: "ConflictError",
+				message: "entityStorageVersionHelper.versionMismatch",
+				properties: { conflictId: "1", conflicts: ["v1", "v2"] }
+			})
+		);
+	});
+
+	test("can fail to verify a version when the entity does not exist", () => {
+		expect(() =>
+			EntityStorageVersionHelper.verifyVersion<TestType>("1", "entityVersion", "v1")
+		).toThrow(
+			expect.objectContaining({
+				name: "ConflictError",
+				message: "entityStorageVersionHelper.versionMismatch"
+			})
+		);
+	});
+
+	test("can fail to verify a version when the schema does not support versions", () => {
+		expect(() => EntityStorageVersionHelper.verifyVersion<TestType>("1", undefined, "v1")).toThrow(
+			expect.objectContaining({
+				name: "GeneralError",
+				message: "entityStorageVersionHelper.versionNotSupported"
+			})
+		);
+	});
+
+	test("can convert versions to and from ETags", () => {
+		expect(EntityStorageVersionHelper.toETag("v1")).toEqual('"v1"');
+		expect(EntityStorageVersionHelper.fromETag('"v1"')).toEqual("v1");
+		expect(EntityStorageVersionHelper.fromETag('W/"v1"')).toEqual("v1");
+		expect(EntityStorageVersionHelper.fromETag("v1")).toEqual("v1");
+		expect(EntityStorageVersionHelper.fromETag('""')).toBeUndefined();
+		expect(EntityStorageVersionHelper.fromETag(undefined)).toBeUndefined();
+	});
+});
@@ -6,16 +6,24 @@ import {
 	type IBaseRestClientConfig,
 	type INoContentResponse
 } from "@twin.org/api-models";
-import { Guards } from "@twin.org/core";
+import { BaseError, ConflictError, Guards, Is, NotSupportedError } from "@twin.org/core";
 import type { EntityCondition, SortDirection } from "@twin.org/entity";
-import type {
-	IEntityStorageComponent,
-	IEntityStorageGetRequest,
-	IEntityStorageGetResponse,
-	IEntityStorageListRequest,
-	IEntityStorageListResponse,
-	IEntityStorageRemoveRequest,
-	IEntityStorageSetRequest
+import {
+	EntityStorageVersionHelper,
+	type IEntityStorageChange,
+	type IEntityStorageComponent,
+	type IEntityStorageComponentPatchOptions,
+	type IEntityStorageComponentRemoveOptions,
+	type IEntityStorageComponentSetOptions,
+	type IEntityStorageCountRequest,
+	type IEntityStorageCountResponse,
+	type IEntityStorageGetRequest,
+	type IEntityStorageGetResponse,
+	type IEntityStorageListRequest,
+	type IEntityStorageListResponse,
+	type IEntityStoragePatchRequest,
+	type IEntityStorageRemoveRequest,
+	type IEntityStorageSetRequest
 } from "@twin.org/entity-storage-models";
 import { nameof } from "@twin.org/nameof";
 
@@ -39,14 +47,37 @@ export class EntityStorageClient<T> extends BaseRestClient implements IEntitySto
 	/**
 	 * Set an entity.
 	 * @param entity The entity to set.
+	 * @param userIdentity The user identity to use with storage operations, not used by the client.
+	 * @param nodeIdentity The node identity to use with storage operations, not used by the client.
+	 * @param options The optional options for setting the entity.
 	 * @returns The id of the entity.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async set(entity: T): Promise<void> {
+	public async set(
+		entity: T,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentSetOptions
+	): Promise<void> {
 		Guards.object(this.CLASS_NAME, nameof(entity), entity);
 
-		await this.fetch<IEntityStorageSetRequest, INoContentResponse>("/", "POST", {
-			body: entity
-		});
+		const expectedVersion = options?.expectedVersion;
+		const timeToLive = options?.timeToLive;
+
+		try {
+			await this.fetch<IEntityStorageSetRequest, INoContentResponse>("/", "POST", {
+				headers: Is.stringValue(expectedVersion)
+					? { "if-match": EntityStorageVersionHelper.toETag(expectedVersion) }
+					: undefined,
+				query: Is.undefined(timeToLive) ? undefined : { timeToLive },
+				body: entity
+			});
+		} catch (err) {
+			if (BaseError.someErrorName(err, ConflictError.CLASS_NAME)) {
+				throw new ConflictError(this.CLASS_NAME, "versionMismatch", undefined, undefined, err);
+			}
+			throw err;
+		}
 	}
 
 	/**
@@ -77,16 +108,122 @@ export class EntityStorageClient<T> extends BaseRestClient implements IEntitySto
 	/**
 	 * Remove the entity.
 	 * @param id The id of the entity to remove.
+	 * @param userIdentity The user identity to use with storage operations, not used by the client.
+	 * @param nodeIdentity The node identity to use with storage operations, not used by the client.
+	 * @param options The optional options for removing the entity.
+	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 */
+	public async remove(
+		id: string,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentRemoveOptions
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+
+		const expectedVersion = options?.expectedVersion;
+
+		try {
+			await this.fetch<IEntityStorageRemoveRequest, INoContentResponse>("/:id", "DELETE", {
+				headers: Is.stringValue(expectedVersion)
+					? { "if-match": EntityStorageVersionHelper.toETag(expectedVersion) }
+					: undefined,
+				pathParams: {
+					id
+				}
+			});
+		} catch (err) {
+			if (BaseError.someErrorName(err, ConflictError.CLASS_NAME)) {
+				throw new ConflictError(this.CLASS_NAME, "versionMismatch", id, undefined, err);
+			}
+			throw err;
+		}
+	}
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param userIdentity The user identity to use with storage operations, not used by the client.
+	 * @param nodeIdentity The node identity to use with storage operations, not used by the client.
+	 * @param options The optional options for patching the entity.
 	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
 	 */
-	public async remove(id: string): Promise<void> {
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentPatchOptions
+	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.object(this.CLASS_NAME, nameof(patch), patch);
+
+		const expectedVersion = options?.expectedVersion;
+
+		try {
+			await this.fetch<IEntityStoragePatchRequest, INoContentResponse>("/:id", "PATCH", {
+				headers: Is.stringValue(expectedVersion)
+					? { "if-match": EntityStorageVersionHelper.toETag(expectedVersion) }
+					: undefined,
+				pathParams: {
+					id
+				},
+				body: patch
+			});
+		} catch (err) {
+			if (BaseError.someErrorName(err, ConflictError.CLASS_NAME)) {
+				throw new ConflictError(this.CLASS_NAME, "versionMismatch", id, undefined, err);
+			}
+			throw err;
+		}
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, this is not supported by the client as the
+	 * changes are streamed as server-sent events, so an EventSource should be connected to the
+	 * changes route instead.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @returns The id of the subscription.
+	 * @throws NotSupportedError as the client does not support subscriptions.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>
+	): Promise<string> {
+		throw new NotSupportedError(this.CLASS_NAME, "subscriptionsNotSupported");
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities, this is not supported by the client.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 * @throws NotSupportedError as the client does not support subscriptions.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		throw new NotSupportedError(this.CLASS_NAME, "subscriptionsNotSupported");
+	}
 
-		await this.fetch<IEntityStorageRemoveRequest, INoContentResponse>("/:id", "DELETE", {
-			pathParams: {
-				id
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(conditions?: EntityCondition<T>): Promise<number> {
+		const result = await this.fetch<IEntityStorageCountRequest, IEntityStorageCountResponse>(
+			"/count",
+			"GET",
+			{
+				query: {
+					conditions: HttpParameterHelper.objectToString(conditions)
+				}
 			}
-		});
+		);
+
+		return result.body.count;
 	}
 
 	/**
@@ -6,17 +6,35 @@ import {
 	type IHttpRequestContext,
 	type INoContentResponse,
 	type IRestRoute,
+	type IRestRouteResponseOptions,
 	type ITag
 } from "@twin.org/api-models";
-import { Coerce, ComponentFactory, Guards, StringHelper } from "@twin.org/core";
-import type {
-	IEntityStorageComponent,
-	IEntityStorageGetRequest,
-	IEntityStorageGetResponse,
-	IEntityStorageListRequest,
-	IEntityStorageListResponse,
-	IEntityStorageRemoveRequest,
-	IEntityStorageSetRequest
+import {
+	BaseError,
+	Coerce,
+	ComponentFactory,
+	ConflictError,
+	Guards,
+	Is,
+	Converter,
+	ObjectHelper,
+	StringHelper
+} from "@twin.org/core";
+import {
+	EntityStorageVersionHelper,
+	type IEntityStorageComponent,
+	type IEntityStorageCountRequest,
+	type IEntityStorageCountResponse,
+	type IEntityStorageGetRequest,
+	type IEntityStorageGetResponse,
+	type IEntityStorageListRequest,
+	type IEntityStorageListResponse,
+	type IEntityStoragePatchRequest,
+	type IEntityStoragePreconditionFailedResponse,
+	type IEntityStorageRemoveRequest,
+	type IEntityStorageSetRequest,
+	type IEntityStorageSubscribeRequest,
+	type IEntityStorageSubscribeResponse
 } from "@twin.org/entity-storage-models";
 import { nameof } from "@twin.org/nameof";
 import { HttpStatusCode } from "@twin.org/web";
@@ -60,7 +78,10 @@ export function generateRestRoutesEntityStorage(
 	const lowerName = typeName.toLowerCase();
 	const camelTypeName = StringHelper.camelCase(typeName);
 
-	const setRoute: IRestRoute<IEntityStorageSetRequest, INoContentResponse> = {
+	const setRoute: IRestRoute<
+		IEntityStorageSetRequest,
+		INoContentResponse | IEntityStoragePreconditionFailedResponse
+	> = {
 		operationId: `${camelTypeName}Set`,
 		summary: `Set an entry in ${lowerName}.`,
 		tag: options?.tagName ?? tagsEntityStorage[0].name,
@@ -85,6 +106,9 @@ export function generateRestRoutesEntityStorage(
 		responseType: [
 			{
 				type: nameof<INoContentResponse>()
+			},
+			{
+				type: nameof<IEntityStoragePreconditionFailedResponse>()
 			}
 		]
 	};
@@ -131,7 +155,10 @@ export function generateRestRoutesEntityStorage(
 		]
 	};
 
-	const removeRoute: IRestRoute<IEntityStorageRemoveRequest, INoContentResponse> = {
+	const removeRoute: IRestRoute<
+		IEntityStorageRemoveRequest,
+		INoContentResponse | IEntityStoragePreconditionFailedResponse
+	> = {
 		operationId: `${camelTypeName}Remove`,
 		summary: `Remove an entry from ${lowerName}.`,
 		tag: options?.tagName ?? tagsEntityStorage[0].name,
@@ -158,6 +185,46 @@ export function generateRestRoutesEntityStorage(
 			},
 			{
 				type: nameof<INotFoundResponse>()
+			},
+			{
+				type: nameof<IEntityStoragePreconditionFailedResponse>()
+			}
+		]
+	};
+
+	const patchRoute: IRestRoute<
+		IEntityStoragePatchRequest,
+		INoContentResponse | IEntityStoragePreconditionFailedResponse
+	> = {
+		operationId: `${camelTypeName}Patch`,
+		summary: `Update the properties of an entry in ${lowerName}.`,
+		tag: options?.tagName ?? tagsEntityStorage[0].name,
+		method: "PATCH",
+		path: `${baseRouteName}/:id`,
+		handler: async (httpRequestContext, request) =>
+			entityStoragePatch(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IEntityStoragePatchRequest>(),
+			examples: options?.examples?.patch?.requestExamples ?? [
+				{
+					id: `${camelTypeName}PatchRequestExample`,
+					request: {
+						pathParams: {
+							id: "12345"
+						},
+						body: {
+							name: "My Updated Item"
+						}
+					}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<INoContentResponse>()
+			},
+			{
+				type: nameof<IEntityStoragePreconditionFailedResponse>()
 			}
 		]
 	};
@@ -196,7 +263,69 @@ export function generateRestRoutesEntityStorage(
 		]
 	};
 
-	return [setRoute, getRoute, removeRoute, listRoute];
+	const countRoute: IRestRoute<IEntityStorageCountRequest, IEntityStorageCountResponse> = {
+		operationId: `${camelTypeName}Count`,
+		summary: `Count entries in ${lowerName}.`,
+		tag: options?.tagName ?? tagsEntityStorage[0].name,
+		method: "GET",
+		path: `${baseRouteName}/count`,
+		handler: async (httpRequestContext, request) =>
+			entityStorageCount(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IEntityStorageCountRequest>(),
+			examples: options?.examples?.count?.requestExamples ?? [
+				{
+					id: `${camelTypeName}CountRequestExample`,
+					request: {}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IEntityStorageCountResponse>(),
+				examples: options?.examples?.count?.responseExamples ?? [
+					{
+						id: `${camelTypeName}CountResponseExample`,
+						response: {
+							body: {
+								count: 1
+							}
+						}
+					}
+				]
+			}
+		]
+	};
+
+	const subscribeRoute: IRestRoute<
+		IEntityStorageSubscribeRequest,
+		IEntityStorageSubscribeResponse & IRestRouteResponseOptions
+	> = {
+		operationId: `${camelTypeName}Subscribe`,
+		summary: `Subscribe to the changes made to entries in ${lowerName} as server-sent events.`,
+		tag: options?.tagName ?? tagsEntityStorage[0].name,
+		method: "GET",
+		path: `${baseRouteName}/changes`,
+		handler: async (httpRequestContext, request) =>
+			entityStorageSubscribe(httpRequestContext, componentName, request),
+		requestType: {
+			type: nameof<IEntityStorageSubscribeRequest>(),
+			examples: options?.examples?.subscribe?.requestExamples ?? [
+				{
+					id: `${camelTypeName}SubscribeRequestExample`,
+					request: {}
+				}
+			]
+		},
+		responseType: [
+			{
+				type: nameof<IEntityStorageSubscribeResponse>(),
+				mimeType: "text/event-stream"
+			}
+		]
+	};
+
+	return [setRoute, getRoute, removeRoute, patchRoute, listRoute, countRoute, subscribeRoute];
 }
 
 /**
@@ -210,15 +339,28 @@ export async function entityStorageSet(
 	httpRequestContext: IHttpRequestContext,
 	componentName: string,
 	request: IEntityStorageSetRequest
-): Promise<INoContentResponse> {
+): Promise<INoContentResponse | IEntityStoragePreconditionFailedResponse> {
 	Guards.object<IEntityStorageSetRequest>(ROUTES_SOURCE, nameof(request), request);
 
+	const expectedVersion = EntityStorageVersionHelper.fromETag(request.headers?.["if-match"]);
+
 	const component = ComponentFactory.get<IEntityStorageComponent>(componentName);
-	await component.set(
-		request.body,
-		httpRequestContext.userIdentity,
-		httpRequestContext.nodeIdentity
-	);
+	try {
+		await component.set(
+			request.body,
+			httpRequestContext.userIdentity,
+			httpRequestContext.nodeIdentity,
+			{ expectedVersion, timeToLive: Coerce.integer(request.query?.timeToLive) }
+		);
+	} catch (err) {
+		if (!Is.undefined(expectedVersion) && BaseError.someErrorName(err, ConflictError.CLASS_NAME)) {
+			return {
+				statusCode: HttpStatusCode.preconditionFailed,
+				body: BaseError.fromError(err).toJsonObject()
+			};
+		}
+		throw err;
+	}
 	return {
 		statusCode: HttpStatusCode.noContent
 	};
@@ -251,7 +393,11 @@ export async function entityStorageGet(
 		httpRequestContext.userIdentity,
 		httpRequestContext.nodeIdentity
 	);
+	const version = ObjectHelper.propertyGet(item, EntityStorageVersionHelper.VERSION_PROPERTY);
 	return {
+		headers: Is.stringValue(version)
+			? { etag: EntityStorageVersionHelper.toETag(version) }
+			: undefined,
 		body: item
 	};
 }
@@ -267,7 +413,7 @@ export async function entityStorageRemove(
 	httpRequestContext: IHttpRequestContext,
 	componentName: string,
 	request: IEntityStorageRemoveRequest
-): Promise<INoContentResponse> {
+): Promise<INoContentResponse | IEntityStoragePreconditionFailedResponse> {
 	Guards.object<IEntityStorageRemoveRequest>(ROUTES_SOURCE, nameof(request), request);
 	Guards.object<IEntityStorageRemoveRequest["pathParams"]>(
 		ROUTES_SOURCE,
@@ -276,12 +422,71 @@ export async function entityStorageRemove(
 	);
 	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
 
+	const expectedVersion = EntityStorageVersionHelper.fromETag(request.headers?.["if-match"]);
+
 	const component = ComponentFactory.get<IEntityStorageComponent>(componentName);
-	await component.remove(
-		request.pathParams.id,
-		httpRequestContext.userIdentity,
-		httpRequestContext.nodeIdentity
+	try {
+		await component.remove(
+			request.pathParams.id,
+			httpRequestContext.userIdentity,
+			httpRequestContext.nodeIdentity,
+			{ expectedVersion }
+		);
+	} catch (err) {
+		if (!Is.undefined(expectedVersion) && BaseError.someErrorName(err, ConflictError.CLASS_NAME)) {
+			return {
+				statusCode: HttpStatusCode.preconditionFailed,
+				body: BaseError.fromError(err).toJsonObject()
+			};
+		}
+		throw err;
+	}
+	return {
+		statusCode: HttpStatusCode.noContent
+	};
+}
+
+/**
+ * Patch the entry in entity storage.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function entityStoragePatch(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IEntityStoragePatchRequest
+): Promise<INoContentResponse | IEntityStoragePreconditionFailedResponse> {
+	Guards.object<IEntityStoragePatchRequest>(ROUTES_SOURCE, nameof(request), request);
+	Guards.object<IEntityStoragePatchRequest["pathParams"]>(
+		ROUTES_SOURCE,
+		nameof(request.pathParams),
+		request.pathParams
 	);
+	Guards.stringValue(ROUTES_SOURCE, nameof(request.pathParams.id), request.pathParams.id);
+	Guards.object(ROUTES_SOURCE, nameof(request.body), request.body);
+
+	const expectedVersion = EntityStorageVersionHelper.fromETag(request.headers?.["if-match"]);
+
+	const component = ComponentFactory.get<IEntityStorageComponent>(componentName);
+	try {
+		await component.patch(
+			request.pathParams.id,
+			request.body,
+			httpRequestContext.userIdentity,
+			httpRequestContext.nodeIdentity,
+			{ expectedVersion }
+		);
+	} catch (err) {
+		if (!Is.undefined(expectedVersion) && BaseError.someErrorName(err, ConflictError.CLASS_NAME)) {
+			return {
+				statusCode: HttpStatusCode.preconditionFailed,
+				body: BaseError.fromError(err).toJsonObject()
+			};
+		}
+		throw err;
+	}
 	return {
 		statusCode: HttpStatusCode.noContent
 	};
@@ -316,3 +521,83 @@ export async function entityStorageList(
 		body: result
 	};
 }
+
+/**
+ * Count the entries in entity storage.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function entityStorageCount(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IEntityStorageCountRequest
+): Promise<IEntityStorageCountResponse> {
+	Guards.object<IEntityStorageCountRequest>(ROUTES_SOURCE, nameof(request), request);
+
+	const component = ComponentFactory.get<IEntityStorageComponent>(componentName);
+	const count = await component.count(
+		HttpParameterHelper.objectFromString(request.query?.conditions),
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity
+	);
+	return {
+		body: {
+			count
+		}
+	};
+}
+
+/**
+ * Subscribe to the changes made to entries in entity storage, the changes are streamed as
+ * server-sent events until the client disconnects.
+ * @param httpRequestContext The request context for the API.
+ * @param componentName The name of the component to use in the routes.
+ * @param request The request.
+ * @returns The response object with additional http response properties.
+ */
+export async function entityStorageSubscribe(
+	httpRequestContext: IHttpRequestContext,
+	componentName: string,
+	request: IEntityStorageSubscribeRequest
+): Promise<IEntityStorageSubscribeResponse & IRestRouteResponseOptions> {
+	Guards.object<IEntityStorageSubscribeRequest>(ROUTES_SOURCE, nameof(request), request);
+
+	const component = ComponentFactory.get<IEntityStorageComponent>(componentName);
+
+	// Subscribe before the stream is created so that any failure is returned as the response
+	let streamController: ReadableStreamDefaultController<Uint8Array> | undefined;
+	const subscriptionId = await component.subscribe(
+		HttpParameterHelper.objectFromString(request.query?.conditions),
+		async change => {
+			streamController?.enqueue(
+				Converter.utf8ToBytes(`event: ${change.type}\ndata: ${JSON.stringify(change)}\n\n`)
+			);
+		},
+		httpRequestContext.userIdentity,
+		httpRequestContext.nodeIdentity
+	);
+
+	const body = new ReadableStream<Uint8Array>({
+		start: controller => {
+			streamController = controller;
+		},
+		cancel: async () => {
+			// The client has disconnected so the changes are no longer needed
+			streamController = undefined;
+			await component.unsubscribe(subscriptionId);
+		}
+	});
+
+	return {
+		headers: {
+			"cache-control": "no-cache"
+		},
+		body,
+		attachment: {
+			mimeType: "text/event-stream",
+			inline: true
+		}
+	};
+}
@@ -5,12 +5,18 @@ import {
 	ComparisonOperator,
 	type EntityCondition,
 	EntitySchemaHelper,
+	type IComparatorGroup,
 	LogicalOperator,
 	SortDirection
 } from "@twin.org/entity";
 import {
 	EntityStorageConnectorFactory,
+	EntityStorageVersionHelper,
+	type IEntityStorageChange,
 	type IEntityStorageComponent,
+	type IEntityStorageComponentPatchOptions,
+	type IEntityStorageComponentRemoveOptions,
+	type IEntityStorageComponentSetOptions,
 	type IEntityStorageConnector
 } from "@twin.org/entity-storage-models";
 import { nameof } from "@twin.org/nameof";
@@ -62,9 +68,15 @@ export class EntityStorageService<T = any> implements IEntityStorageComponent<T>
 	 * @param entity The entity to set.
 	 * @param userIdentity The user identity to use with storage operations.
 	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @param options The optional options for setting the entity.
 	 * @returns The id of the entity.
 	 */
-	public async set(entity: T, userIdentity?: string, nodeIdentity?: string): Promise<void> {
+	public async set(
+		entity: T,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentSetOptions
+	): Promise<void> {
 		Guards.object(this.CLASS_NAME, nameof(entity), entity);
 
 		const conditions: {
@@ -88,7 +100,12 @@ export class EntityStorageService<T = any> implements IEntityStorageComponent<T>
 			ObjectHelper.propertySet(entity, "nodeIdentity", nodeIdentity);
 		}
 
-		return this._entityStorage.set(entity, conditions);
+		return this._entityStorage.set(
+			entity,
+			conditions,
+			options?.expectedVersion,
+			options?.timeToLive
+		);
 	}
 
 	/**
@@ -115,31 +132,129 @@ export class EntityStorageService<T = any> implements IEntityStorageComponent<T>
 	 * @param id The id of the entity to remove.
 	 * @param userIdentity The user identity to use with storage operations.
 	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @param options The optional options for removing the entity.
 	 * @returns Nothing.
 	 */
-	public async remove(id: string, userIdentity?: string, nodeIdentity?: string): Promise<void> {
+	public async remove(
+		id: string,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentRemoveOptions
+	): Promise<void> {
 		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
 
-		const conditions: {
-			property: keyof T;
-			value: unknown;
-		}[] = [];
-		if (this._includeUserIdentity) {
-			Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
-			conditions.push({
-				property: "userIdentity" as keyof T,
-				value: userIdentity
-			});
-		}
-		if (this._includeNodeIdentity) {
-			Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
-			conditions.push({
-				property: "nodeIdentity" as keyof T,
-				value: nodeIdentity
-			});
+		const conditions = this.buildIdentityMatch(userIdentity, nodeIdentity);
+
+		await this._entityStorage.remove(id, conditions, options?.expectedVersion);
+	}
+
+	/**
+	 * Update the properties of an entity using JSON Merge Patch semantics.
+	 * @param id The id of the entity to patch.
+	 * @param patch The properties to update.
+	 * @param userIdentity The user identity to use with storage operations.
+	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @param options The optional options for patching the entity.
+	 * @returns Nothing.
+	 * @throws ConflictError if the expected version is provided and does not match.
+	 */
+	public async patch(
+		id: string,
+		patch: Partial<T>,
+		userIdentity?: string,
+		nodeIdentity?: string,
+		options?: IEntityStorageComponentPatchOptions
+	): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(id), id);
+		Guards.object<Partial<T>>(this.CLASS_NAME, nameof(patch), patch);
+
+		const conditions = this.buildIdentityMatch(userIdentity, nodeIdentity);
+
+		const expectedVersion = options?.expectedVersion;
+		if (!Is.undefined(expectedVersion)) {
+			// The version is verified first so a mismatch is reported, it is also a condition of the
+			// patch so nothing is updated if the entity is changed before the patch is applied
+			const versionProperty = EntityStorageVersionHelper.getVersionProperty(
+				this._entityStorage.getSchema()
+			) as keyof T | undefined;
+			const existing = await this._entityStorage.get(id, undefined, conditions);
+			EntityStorageVersionHelper.verifyVersion(id, versionProperty, expectedVersion, existing);
+			conditions.push({ property: versionProperty as keyof T, value: expectedVersion });
 		}
 
-		await this._entityStorage.remove(id, conditions);
+		// The identities are managed by the service so can not be patched
+		const finalPatch = ObjectHelper.omit<Partial<T>>(patch, [
+			"userIdentity" as keyof T,
+			"nodeIdentity" as keyof T
+		]);
+
+		await this._entityStorage.patch(id, finalPatch, conditions);
+	}
+
+	/**
+	 * Subscribe to the changes made to entities, when identities are included only the changes
+	 * to entities with matching identities are notified, so changes without an entity are skipped.
+	 * @param conditions The optional conditions the changed entities must match.
+	 * @param callback The method to call with each change.
+	 * @param userIdentity The user identity to use with storage operations.
+	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @returns The id of the subscription.
+	 */
+	public async subscribe(
+		conditions: EntityCondition<T> | undefined,
+		callback: (change: IEntityStorageChange<T>) => Promise<void>,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<string> {
+		Guards.function(this.CLASS_NAME, nameof(callback), callback);
+
+		const finalConditions = this.buildIdentityConditions(conditions, userIdentity, nodeIdentity);
+		const includeIdentity = this._includeUserIdentity || this._includeNodeIdentity;
+
+		return this._entityStorage.subscribe(
+			finalConditions.conditions.length > 0 ? finalConditions : undefined,
+			async change => {
+				if (Is.undefined(change.entity)) {
+					if (!includeIdentity) {
+						await callback(change);
+					}
+				} else {
+					ObjectHelper.propertyDelete(change.entity, "nodeIdentity");
+					ObjectHelper.propertyDelete(change.entity, "userIdentity");
+					await callback(change);
+				}
+			}
+		);
+	}
+
+	/**
+	 * Unsubscribe from the changes made to entities.
+	 * @param subscriptionId The id of the subscription to remove.
+	 * @returns Nothing.
+	 */
+	public async unsubscribe(subscriptionId: string): Promise<void> {
+		Guards.stringValue(this.CLASS_NAME, nameof(subscriptionId), subscriptionId);
+
+		await this._entityStorage.unsubscribe(subscriptionId);
+	}
+
+	/**
+	 * Count all the entities which match the conditions.
+	 * @param conditions The conditions to match for the entities.
+	 * @param userIdentity The user identity to use with storage operations.
+	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @returns The number of entities in the storage matching the conditions.
+	 */
+	public async count(
+		conditions?: EntityCondition<T>,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): Promise<number> {
+		const finalConditions = this.buildIdentityConditions(conditions, userIdentity, nodeIdentity);
+
+		return this._entityStorage.count(
+			finalConditions.conditions.length > 0 ? finalConditions : undefined
+		);
 	}
 
 	/**
@@ -174,31 +289,7 @@ export class EntityStorageService<T = any> implements IEntityStorageComponent<T>
 		 */
 		cursor?: string;
 	}> {
-		const finalConditions: EntityCondition<T> = {
-			conditions: [],
-			logicalOperator: LogicalOperator.And
-		};
-
-		if (this._includeNodeIdentity) {
-			Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
-			finalConditions.conditions.push({
-				property: "nodeIdentity",
-				comparison: ComparisonOperator.Equals,
-				value: nodeIdentity
-			});
-		}
-		if (this._includeUserIdentity) {
-			Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
-			finalConditions.conditions.push({
-				property: "userIdentity",
-				comparison: ComparisonOperator.Equals,
-				value: userIdentity
-			});
-		}
-
-		if (!Is.empty(conditions)) {
-			finalConditions.conditions.push(conditions);
-		}
+		const finalConditions = this.buildIdentityConditions(conditions, userIdentity, nodeIdentity);
 
 		const result = await this._entityStorage.query(
 			finalConditions.conditions.length > 0 ? finalConditions : undefined,
@@ -297,4 +388,78 @@ export class EntityStorageService<T = any> implements IEntityStorageComponent<T>
 
 		return entity;
 	}
+
+	/**
+	 * Combine the conditions with those for the identities.
+	 * @param conditions The conditions to match for the entities.
+	 * @param userIdentity The user identity to use with storage operations.
+	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @returns The combined conditions.
+	 * @internal
+	 */
+	private buildIdentityConditions(
+		conditions?: EntityCondition<T>,
+		userIdentity?: string,
+		nodeIdentity?: string
+	): IComparatorGroup<T> {
+		const finalConditions: IComparatorGroup<T> = {
+			conditions: [],
+			logicalOperator: LogicalOperator.And
+		};
+
+		if (this._includeNodeIdentity) {
+			Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
+			finalConditions.conditions.push({
+				property: "nodeIdentity",
+				comparison: ComparisonOperator.Equals,
+				value: nodeIdentity
+			});
+		}
+		if (this._includeUserIdentity) {
+			Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
+			finalConditions.conditions.push({
+				property: "userIdentity",
+				comparison: ComparisonOperator.Equals,
+				value: userIdentity
+			});
+		}
+
+		if (!Is.empty(conditions)) {
+			finalConditions.conditions.push(conditions);
+		}
+
+		return finalConditions;
+	}
+
+	/**
+	 * Build the conditions to match the identities for an entity.
+	 * @param userIdentity The user identity to use with storage operations.
+	 * @param nodeIdentity The node identity to use with storage operations.
+	 * @returns The conditions to match.
+	 * @internal
+	 */
+	private buildIdentityMatch(
+		userIdentity?: string,
+		nodeIdentity?: string
+	): { property: keyof T; value: unknown }[] {
+		const conditions: {
+			property: keyof T;
+			value: unknown;
+		}[] = [];
+		if (this._includeUserIdentity) {
+			Guards.stringValue(this.CLASS_NAME, nameof(userIdentity), userIdentity);
+			conditions.push({
+				property: "userIdentity" as keyof T,
+				value: userIdentity
+			});
+		}
+		if (this._includeNodeIdentity) {
+			Guards.stringValue(this.CLASS_NAME, nameof(nodeIdentity), nodeIdentity);
+			conditions.push({
+				property: "nodeIdentity" as keyof T,
+				value: nodeIdentity
+			});
+		}
+		return conditions;
+	}
 }
@@ -2,12 +2,16 @@
 // SPDX-License-Identifier: Apache-2.0.
 import type { IRestRouteRequestExample, IRestRouteResponseExample } from "@twin.org/api-models";
 import type {
+	IEntityStorageCountRequest,
+	IEntityStorageCountResponse,
 	IEntityStorageGetRequest,
 	IEntityStorageGetResponse,
 	IEntityStorageListRequest,
 	IEntityStorageListResponse,
+	IEntityStoragePatchRequest,
 	IEntityStorageRemoveRequest,
-	IEntityStorageSetRequest
+	IEntityStorageSetRequest,
+	IEntityStorageSubscribeRequest
 } from "@twin.org/entity-storage-models";
 
 /**
@@ -36,6 +40,13 @@ export interface IEntityStorageRoutesExamples {
 		requestExamples: IRestRouteRequestExample<IEntityStorageRemoveRequest>[];
 	};
 
+	/**
+	 * Examples for the patch route.
+	 */
+	patch?: {
+		requestExamples: IRestRouteRequestExample<IEntityStoragePatchRequest>[];
+	};
+
 	/**
 	 * Examples for the list route.
 	 */
@@ -43,4 +54,19 @@ export interface IEntityStorageRoutesExamples {
 		requestExamples: IRestRouteRequestExample<IEntityStorageListRequest>[];
 		responseExamples: IRestRouteResponseExample<IEntityStorageListResponse>[];
 	};
+
+	/**
+	 * Examples for the count route.
+	 */
+	count?: {
+		requestExamples: IRestRouteRequestExample<IEntityStorageCountRequest>[];
+		responseExamples: IRestRouteResponseExample<IEntityStorageCountResponse>[];
+	};
+
+	/**
+	 * Examples for the subscribe route.
+	 */
+	subscribe?: {
+		requestExamples: IRestRouteRequestExample<IEntityStorageSubscribeRequest>[];
+	};
 }
@@ -1,9 +1,29 @@
 // Copyright 2024 IOTA Stiftung.
 // SPDX-License-Identifier: Apache-2.0.
-import { entity, EntitySchemaFactory, EntitySchemaHelper, property } from "@twin.org/entity";
+/* eslint-disable max-classes-per-file */
+import type { IHttpRequestContext } from "@twin.org/api-models";
+import { ComponentFactory } from "@twin.org/core";
+import {
+	ComparisonOperator,
+	entity,
+	EntitySchemaFactory,
+	EntitySchemaHelper,
+	property
+} from "@twin.org/entity";
 import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
-import { EntityStorageConnectorFactory } from "@twin.org/entity-storage-models";
+import {
+	EntityStorageChangeEmitter,
+	EntityStorageChangeType,
+	EntityStorageConnectorFactory,
+	type IEntityStorageChange
+} from "@twin.org/entity-storage-models";
 import { nameof } from "@twin.org/nameof";
+import {
+	entityStorageGet,
+	entityStoragePatch,
+	entityStorageSet,
+	entityStorageSubscribe
+} from "../src/entityStorageRoutes";
 import { EntityStorageService } from "../src/entityStorageService";
 
 /**
@@ -42,9 +62,58 @@ class TestType {
 	public userIdentity?: string;
 }
 
+/**
+ * Test Versioned Type Definition.
+ */
+@entity()
+class TestVersionedType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Version.
+	 */
+	@property({ type: "string", optional: true })
+	public entityVersion?: string;
+}
+
+/**
+ * Test Expiring Type Definition.
+ */
+@entity()
+class TestExpiringType {
+	/**
+	 * Id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * Value1.
+	 */
+	@property({ type: "string" })
+	public value1!: string;
+
+	/**
+	 * Entity Expiry.
+	 */
+	@property({ type: "integer", optional: true })
+	public entityExpiry?: number;
+}
+
 const TEST_USER_IDENTITY = "test-user-identity";
 const TEST_NODE_IDENTITY = "test-node-identity";
 let storage: MemoryEntityStorageConnector<TestType>;
+let versionedStorage: MemoryEntityStorageConnector<TestVersionedType>;
 
 describe("EntityStorageService", () => {
 	beforeEach(() => {
@@ -55,6 +124,29 @@ describe("EntityStorageService", () => {
 		});
 
 		EntityStorageConnectorFactory.register("test-type", () => storage);
+
+		EntitySchemaFactory.register(nameof<TestVersionedType>(), () =>
+			EntitySchemaHelper.getSchema(TestVersionedType)
+		);
+		versionedStorage = new MemoryEntityStorageConnector<TestVersionedType>({
+			entitySchema: nameof<TestVersionedType>()
+		});
+		EntityStorageConnectorFactory.register("test-versioned-type", () => versionedStorage);
+
+		EntitySchemaFactory.register(nameof<TestExpiringType>(), () =>
+			EntitySchemaHelper.getSchema(TestExpiringType)
+		);
+		EntityStorageConnectorFactory.register(
+			"test-expiring-type",
+			() =>
+				new MemoryEntityStorageConnector<TestExpiringType>({
+					entitySchema: nameof<TestExpiringType>()
+				})
+		);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
 	});
 
 	test("can create the service", async () => {
@@ -231,4 +323,358 @@ describe("EntityStorageService", () => {
 			value2: 42
 		});
 	});
+
+	test("can patch an entity with user and node identity", async () => {
+		const service = new EntityStorageService({ entityStorageType: "test-type" });
+		await service.set(
+			{ id: "1", value1: "value1", value2: 42 },
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.patch(
+			"1",
+			{ value2: 43, userIdentity: "other-user-identity" },
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		expect(storage.getStore()).toEqual([
+			{
+				id: "1",
+				value1: "value1",
+				value2: 43,
+				userIdentity: TEST_USER_IDENTITY,
+				nodeIdentity: TEST_NODE_IDENTITY
+			}
+		]);
+	});
+
+	test("can not patch an entity with a different user identity", async () => {
+		const service = new EntityStorageService({ entityStorageType: "test-type" });
+		await service.set(
+			{ id: "1", value1: "value1", value2: 42 },
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.patch("1", { value2: 43 }, "other-user-identity", TEST_NODE_IDENTITY);
+
+		expect(storage.getStore()[0].value2).toEqual(42);
+	});
+
+	test("can count entities with user and node identity", async () => {
+		const service = new EntityStorageService({ entityStorageType: "test-type" });
+
+		for (let i = 0; i < 10; i++) {
+			await service.set(
+				{ id: (i + 1).toString(), value1: "value1", value2: 42 },
+				TEST_USER_IDENTITY,
+				TEST_NODE_IDENTITY
+			);
+		}
+		await service.set(
+			{ id: "11", value1: "value1", value2: 42 },
+			"other-user-identity",
+			TEST_NODE_IDENTITY
+		);
+
+		const count = await service.count(undefined, TEST_USER_IDENTITY, TEST_NODE_IDENTITY);
+
+		expect(count).toEqual(10);
+	});
+
+	test("can count entities with no user and node identity", async () => {
+		const service = new EntityStorageService({
+			entityStorageType: "test-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+
+		for (let i = 0; i < 10; i++) {
+			await service.set({ id: (i + 1).toString(), value1: `value${i % 2}`, value2: 42 });
+		}
+
+		const count = await service.count({
+			property: "value1",
+			comparison: ComparisonOperator.Equals,
+			value: "value1"
+		});
+
+		expect(count).toEqual(5);
+	});
+
+	test("can set an entity with the expected version", async () => {
+		const service = new EntityStorageService<TestVersionedType>({
+			entityStorageType: "test-versioned-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+		await service.set({ id: "1", value1: "value1" });
+		const current = await service.get("1");
+
+		await service.set({ id: "1", value1: "value2" }, undefined, undefined, {
+			expectedVersion: current?.entityVersion
+		});
+
+		const result = await service.get("1");
+		expect(result?.value1).toEqual("value2");
+	});
+
+	test("can fail to set an entity with a different expected version", async () => {
+		const service = new EntityStorageService<TestVersionedType>({
+			entityStorageType: "test-versioned-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+		await service.set({ id: "1", value1: "value1" });
+
+		await expect(
+			service.set({ id: "1", value1: "value2" }, undefined, undefined, {
+				expectedVersion: "foo"
+			})
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+	});
+
+	test("can get an entity ETag and fail to set it with a stale If-Match header", async () => {
+		const service = new EntityStorageService<TestVersionedType>({
+			entityStorageType: "test-versioned-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+		ComponentFactory.register("entity-storage-versioned", () => service);
+		const httpRequestContext: IHttpRequestContext = { serverRequest: {}, processorState: {} };
+		await service.set({ id: "1", value1: "value1" });
+
+		const getResponse = await entityStorageGet(httpRequestContext, "entity-storage-versioned", {
+			pathParams: { id: "1" }
+		});
+		expect(getResponse.headers?.etag).toEqual(
+			`"${(getResponse.body as TestVersionedType).entityVersion}"`
+		);
+
+		const setResponse = await entityStorageSet(httpRequestContext, "entity-storage-versioned", {
+			headers: { "if-match": getResponse.headers?.etag },
+			body: { id: "1", value1: "value2" }
+		});
+		expect(setResponse.statusCode).toEqual(204);
+
+		const staleResponse = await entityStorageSet(httpRequestContext, "entity-storage-versioned", {
+			headers: { "if-match": getResponse.headers?.etag },
+			body: { id: "1", value1: "value3" }
+		});
+		expect(staleResponse.statusCode).toEqual(412);
+	});
+
+	test("can patch an entity with the expected version", async () => {
+		const service = new EntityStorageService<TestVersionedType>({
+			entityStorageType: "test-versioned-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+		await service.set({ id: "1", value1: "value1" });
+		const current = await service.get("1");
+
+		await service.patch("1", { value1: "value2" }, undefined, undefined, {
+			expectedVersion: current?.entityVersion
+		});
+
+		const result = await service.get("1");
+		expect(result?.value1).toEqual("value2");
+		expect(result?.entityVersion).not.toEqual(current?.entityVersion);
+
+		await expect(
+			service.patch("1", { value1: "value3" }, undefined, undefined, {
+				expectedVersion: current?.entityVersion
+			})
+		).rejects.toMatchObject({
+			name: "ConflictError",
+			message: "entityStorageVersionHelper.versionMismatch"
+		});
+	});
+
+	test("can fail to patch an entity with a stale If-Match header", async () => {
+		const service = new EntityStorageService<TestVersionedType>({
+			entityStorageType: "test-versioned-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+		ComponentFactory.register("entity-storage-versioned", () => service);
+		const httpRequestContext: IHttpRequestContext = { serverRequest: {}, processorState: {} };
+		await service.set({ id: "1", value1: "value1" });
+
+		const getResponse = await entityStorageGet(httpRequestContext, "entity-storage-versioned", {
+			pathParams: { id: "1" }
+		});
+
+		const patchResponse = await entityStoragePatch(httpRequestContext, "entity-storage-versioned", {
+			headers: { "if-match": getResponse.headers?.etag },
+			pathParams: { id: "1" },
+			body: { value1: "value2" }
+		});
+		expect(patchResponse.statusCode).toEqual(204);
+
+		const staleResponse = await entityStoragePatch(httpRequestContext, "entity-storage-versioned", {
+			headers: { "if-match": getResponse.headers?.etag },
+			pathParams: { id: "1" },
+			body: { value1: "value3" }
+		});
+		expect(staleResponse.statusCode).toEqual(412);
+
+		const result = await service.get("1");
+		expect(result?.value1).toEqual("value2");
+	});
+
+	test("can set an entity with a time to live using the route query", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+
+		const service = new EntityStorageService<TestExpiringType>({
+			entityStorageType: "test-expiring-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+		ComponentFactory.register("entity-storage-expiring", () => service);
+		const httpRequestContext: IHttpRequestContext = { serverRequest: {}, processorState: {} };
+
+		const setResponse = await entityStorageSet(httpRequestContext, "entity-storage-expiring", {
+			query: { timeToLive: "60" },
+			body: { id: "1", value1: "value1" }
+		});
+		expect(setResponse.statusCode).toEqual(204);
+
+		const result = await service.get("1");
+		expect(result?.entityExpiry).toEqual(1704067260);
+
+		vi.setSystemTime(new Date("2024-01-01T00:01:00.000Z"));
+		await expect(service.get("1")).rejects.toMatchObject({
+			name: "NotFoundError",
+			message: "entityStorageService.entityNotFound"
+		});
+	});
+
+	test("can subscribe to the changes for entities with user and node identity", async () => {
+		const service = new EntityStorageService({ entityStorageType: "test-type" });
+		const changes: IEntityStorageChange<TestType>[] = [];
+		await service.subscribe(
+			undefined,
+			async change => {
+				changes.push(change);
+			},
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await service.set(
+			{ id: "1", value1: "value1", value2: 42 },
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+		await service.set(
+			{ id: "2", value1: "value1", value2: 42 },
+			"other-user-identity",
+			TEST_NODE_IDENTITY
+		);
+		await service.remove("1", TEST_USER_IDENTITY, TEST_NODE_IDENTITY);
+
+		expect(changes).toEqual([
+			{
+				type: EntityStorageChangeType.Created,
+				id: "1",
+				entity: { id: "1", value1: "value1", value2: 42 }
+			},
+			{
+				type: EntityStorageChangeType.Removed,
+				id: "1",
+				entity: { id: "1", value1: "value1", value2: 42 }
+			}
+		]);
+	});
+
+	test("can subscribe to the removals notified with only the identities of the entities", async () => {
+		// Connectors which can not read a removed entity, such as PostgreSql, only notify its
+		// primary key and identities
+		const changeEmitter = new EntityStorageChangeEmitter<TestType>();
+		vi.spyOn(storage, "subscribe").mockImplementation(async (conditions, callback) =>
+			changeEmitter.subscribe(conditions, callback)
+		);
+		const service = new EntityStorageService({ entityStorageType: "test-type" });
+		const changes: IEntityStorageChange<TestType>[] = [];
+		await service.subscribe(
+			undefined,
+			async change => {
+				changes.push(change);
+			},
+			TEST_USER_IDENTITY,
+			TEST_NODE_IDENTITY
+		);
+
+		await changeEmitter.notify({
+			type: EntityStorageChangeType.Removed,
+			id: "1",
+			entity: {
+				id: "1",
+				userIdentity: TEST_USER_IDENTITY,
+				nodeIdentity: TEST_NODE_IDENTITY
+			} as TestType
+		});
+		await changeEmitter.notify({
+			type: EntityStorageChangeType.Removed,
+			id: "2",
+			entity: {
+				id: "2",
+				userIdentity: "other-user-identity",
+				nodeIdentity: TEST_NODE_IDENTITY
+			} as TestType
+		});
+
+		expect(changes).toEqual([
+			{
+				type: EntityStorageChangeType.Removed,
+				id: "1",
+				entity: { id: "1" }
+			}
+		]);
+	});
+
+	test("can unsubscribe from the changes for entities", async () => {
+		const service = new EntityStorageService({
+			entityStorageType: "test-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+		const changes: IEntityStorageChange<TestType>[] = [];
+		const subscriptionId = await service.subscribe(undefined, async change => {
+			changes.push(change);
+		});
+
+		await service.set({ id: "1", value1: "value1", value2: 42 });
+		await service.unsubscribe(subscriptionId);
+		await service.set({ id: "2", value1: "value1", value2: 42 });
+
+		expect(changes.map(c => c.id)).toEqual(["1"]);
+	});
+
+	test("can stream the changes for entities as server-sent events", async () => {
+		const service = new EntityStorageService({
+			entityStorageType: "test-type",
+			config: { includeNodeIdentity: false, includeUserIdentity: false }
+		});
+		ComponentFactory.register("entity-storage-changes", () => service);
+		const httpRequestContext: IHttpRequestContext = { serverRequest: {}, processorState: {} };
+
+		const response = await entityStorageSubscribe(httpRequestContext, "entity-storage-changes", {});
+		expect(response.attachment?.mimeType).toEqual("text/event-stream");
+
+		await service.set({ id: "1", value1: "value1", value2: 42 });
+
+		const reader = response.body.getReader();
+		const chunk = await reader.read();
+		expect(new TextDecoder().decode(chunk.value)).toEqual(
+			`event: created\ndata: ${JSON.stringify({
+				type: "created",
+				id: "1",
+				entity: { id: "1", value1: "value1", value2: 42 }
+			})}\n\n`
+		);
+
+		const unsubscribeSpy = vi.spyOn(service, "unsubscribe");
+		await reader.cancel();
+		expect(unsubscribeSpy).toHaveBeenCalledTimes(1);
+	});
 });
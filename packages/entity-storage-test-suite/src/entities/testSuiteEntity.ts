@@ -0,0 +1,39 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { entity, property } from "@twin.org/entity";
+
+/**
+ * The entity stored by the connectors when running the test suite.
+ */
+@entity()
+export class TestSuiteEntity {
+	/**
+	 * The id.
+	 */
+	@property({ type: "string", isPrimary: true })
+	public id!: string;
+
+	/**
+	 * The name, which is unique and can be used as a secondary index.
+	 */
+	@property({ type: "string", isSecondary: true })
+	public name!: string;
+
+	/**
+	 * The category shared by some of the entities.
+	 */
+	@property({ type: "string" })
+	public category!: string;
+
+	/**
+	 * The numeric value.
+	 */
+	@property({ type: "integer" })
+	public value!: number;
+
+	/**
+	 * Is the entity active.
+	 */
+	@property({ type: "boolean" })
+	public active!: boolean;
+}
@@ -0,0 +1,492 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { Guards, Is } from "@twin.org/core";
+import {
+	ComparisonOperator,
+	type EntityCondition,
+	LogicalOperator,
+	SortDirection
+} from "@twin.org/entity";
+import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import { nameof } from "@twin.org/nameof";
+import { afterEach, beforeAll, beforeEach, describe, expect, test } from "vitest";
+import type { TestSuiteEntity } from "./entities/testSuiteEntity";
+import type { IEntityStorageConnectorTestSuiteOptions } from "./models/IEntityStorageConnectorTestSuiteOptions";
+import { initSchema } from "./schema";
+
+/**
+ * Conformance tests which can be run against any entity storage connector, so that
+ * behavioural differences between the connectors become visible as test failures.
+ */
+export class EntityStorageConnectorTestSuite {
+	/**
+	 * Runtime name for the class.
+	 * @internal
+	 */
+	private static readonly _CLASS_NAME: string = nameof<EntityStorageConnectorTestSuite>();
+
+	/**
+	 * The entities stored in the connector before each test.
+	 * @internal
+	 */
+	private static readonly _ENTITIES: TestSuiteEntity[] = [
+		{ id: "1", name: "alpha", category: "a", value: 10, active: true },
+		{ id: "2", name: "bravo", category: "b", value: 20, active: false },
+		{ id: "3", name: "charlie", category: "a", value: 30, active: true },
+		{ id: "4", name: "delta", category: "b", value: 40, active: false },
+		{ id: "5", name: "echo", category: "c", value: 50, active: true },
+		{ id: "6", name: "foxtrot", category: "a", value: 60, active: false }
+	];
+
+	/**
+	 * The conditions to query with and the ids of the entities they should match.
+	 * @internal
+	 */
+	private static readonly _CONDITION_CASES: {
+		description: string;
+		conditions: EntityCondition<TestSuiteEntity>;
+		expectedIds: string[];
+	}[] = [
+		{
+			description: "equals on a string property",
+			conditions: { property: "category", comparison: ComparisonOperator.Equals, value: "a" },
+			expectedIds: ["1", "3", "6"]
+		},
+		{
+			description: "equals on a number property",
+			conditions: { property: "value", comparison: ComparisonOperator.Equals, value: 30 },
+			expectedIds: ["3"]
+		},
+		{
+			description: "equals on a boolean property",
+			conditions: { property: "active", comparison: ComparisonOperator.Equals, value: true },
+			expectedIds: ["1", "3", "5"]
+		},
+		{
+			description: "not equals",
+			conditions: { property: "category", comparison: ComparisonOperator.NotEquals, value: "a" },
+			expectedIds: ["2", "4", "5"]
+		},
+		{
+			description: "greater than",
+			conditions: { property: "value", comparison: ComparisonOperator.GreaterThan, value: 30 },
+			expectedIds: ["4", "5", "6"]
+		},
+		{
+			description: "greater than or equal",
+			conditions: {
+				property: "value",
+				comparison: ComparisonOperator.GreaterThanOrEqual,
+				value: 30
+			},
+			expectedIds: ["3", "4", "5", "6"]
+		},
+		{
+			description: "less than",
+			conditions: { property: "value", comparison: ComparisonOperator.LessThan, value: 30 },
+			expectedIds: ["1", "2"]
+		},
+		{
+			description: "less than or equal",
+			conditions: { property: "value", comparison: ComparisonOperator.LessThanOrEqual, value: 30 },
+			expectedIds: ["1", "2", "3"]
+		},
+		{
+			description: "includes",
+			conditions: { property: "name", comparison: ComparisonOperator.Includes, value: "ha" },
+			expectedIds: ["1", "3"]
+		},
+		{
+			description: "not includes",
+			conditions: { property: "name", comparison: ComparisonOperator.NotIncludes, value: "a" },
+			expectedIds: ["5", "6"]
+		},
+		{
+			description: "in",
+			conditions: { property: "category", comparison: ComparisonOperator.In, value: ["b", "c"] },
+			expectedIds: ["2", "4", "5"]
+		},
+		{
+			description: "and",
+			conditions: {
+				conditions: [
+					{ property: "category", comparison: ComparisonOperator.Equals, value: "a" },
+					{ property: "value", comparison: ComparisonOperator.GreaterThan, value: 20 }
+				],
+				logicalOperator: LogicalOperator.And
+			},
+			expectedIds: ["3", "6"]
+		},
+		{
+			description: "or",
+			conditions: {
+				conditions: [
+					{ property: "category", comparison: ComparisonOperator.Equals, value: "b" },
+					{ property: "value", comparison: ComparisonOperator.LessThan, value: 20 }
+				],
+				logicalOperator: LogicalOperator.Or
+			},
+			expectedIds: ["1", "2", "4"]
+		},
+		{
+			description: "or nested in and",
+			conditions: {
+				conditions: [
+					{ property: "category", comparison: ComparisonOperator.Equals, value: "a" },
+					{
+						conditions: [
+							{ property: "value", comparison: ComparisonOperator.LessThan, value: 20 },
+							{ property: "value", comparison: ComparisonOperator.GreaterThan, value: 50 }
+						],
+						logicalOperator: LogicalOperator.Or
+					}
+				],
+				logicalOperator: LogicalOperator.And
+			},
+			expectedIds: ["1", "6"]
+		},
+		{
+			description: "and nested in or",
+			conditions: {
+				conditions: [
+					{
+						conditions: [
+							{ property: "category", comparison: ComparisonOperator.Equals, value: "b" },
+							{ property: "active", comparison: ComparisonOperator.Equals, value: false }
+						],
+						logicalOperator: LogicalOperator.And
+					},
+					{ property: "category", comparison: ComparisonOperator.Equals, value: "c" }
+				],
+				logicalOperator: LogicalOperator.Or
+			},
+			expectedIds: ["2", "4", "5"]
+		}
+	];
+
+	/**
+	 * Register the tests with the current test runner.
+	 * @param options The options for running the tests.
+	 */
+	public static run(options: IEntityStorageConnectorTestSuiteOptions): void {
+		Guards.object<IEntityStorageConnectorTestSuiteOptions>(
+			EntityStorageConnectorTestSuite._CLASS_NAME,
+			nameof(options),
+			options
+		);
+		Guards.function(
+			EntityStorageConnectorTestSuite._CLASS_NAME,
+			nameof(options.createConnector),
+			options.createConnector
+		);
+
+		let connector: IEntityStorageConnector<TestSuiteEntity>;
+
+		describe(EntityStorageConnectorTestSuite._CLASS_NAME, () => {
+			beforeAll(() => {
+				initSchema();
+			});
+
+			beforeEach(async () => {
+				connector = await options.createConnector(nameof<TestSuiteEntity>());
+				for (const entity of EntityStorageConnectorTestSuite._ENTITIES) {
+					await connector.set({ ...entity });
+				}
+			});
+
+			afterEach(async () => {
+				await options.removeConnector?.(connector);
+			});
+
+			describe("conditions", () => {
+				for (const conditionCase of EntityStorageConnectorTestSuite._CONDITION_CASES) {
+					test(`can query using ${conditionCase.description}`, async () => {
+						const entities = await EntityStorageConnectorTestSuite.queryAll(
+							connector,
+							conditionCase.conditions
+						);
+						expect(EntityStorageConnectorTestSuite.sortedIds(entities)).toEqual(
+							conditionCase.expectedIds
+						);
+					});
+
+					test(`can count using ${conditionCase.description}`, async () => {
+						expect(await connector.count(conditionCase.conditions)).toEqual(
+							conditionCase.expectedIds.length
+						);
+					});
+				}
+
+				test("can query and count with no conditions", async () => {
+					const entities = await EntityStorageConnectorTestSuite.queryAll(connector);
+					expect(EntityStorageConnectorTestSuite.sortedIds(entities)).toEqual([
+						"1",
+						"2",
+						"3",
+						"4",
+						"5",
+						"6"
+					]);
+					expect(await connector.count()).toEqual(6);
+				});
+			});
+
+			describe("sorting", () => {
+				test("can query sorted by a number property in descending order", async () => {
+					const entities = await EntityStorageConnectorTestSuite.queryAll(connector, undefined, [
+						{ property: "value", sortDirection: SortDirection.Descending }
+					]);
+					expect(entities.map(e => e.id)).toEqual(["6", "5", "4", "3", "2", "1"]);
+				});
+
+				test("can query sorted by a string property in ascending order", async () => {
+					const entities = await EntityStorageConnectorTestSuite.queryAll(connector, undefined, [
+						{ property: "name", sortDirection: SortDirection.Ascending }
+					]);
+					expect(entities.map(e => e.id)).toEqual(["1", "2", "3", "4", "5", "6"]);
+				});
+
+				test("can query sorted by multiple properties", async () => {
+					const entities = await EntityStorageConnectorTestSuite.queryAll(connector, undefined, [
+						{ property: "category", sortDirection: SortDirection.Ascending },
+						{ property: "value", sortDirection: SortDirection.Descending }
+					]);
+					expect(entities.map(e => e.id)).toEqual(["6", "3", "1", "4", "2", "5"]);
+				});
+
+				test("can query sorted with conditions", async () => {
+					const entities = await EntityStorageConnectorTestSuite.queryAll(
+						connector,
+						{ property: "active", comparison: ComparisonOperator.Equals, value: true },
+						[{ property: "value", sortDirection: SortDirection.Descending }]
+					);
+					expect(entities.map(e => e.id)).toEqual(["5", "3", "1"]);
+				});
+			});
+
+			describe("pagination", () => {
+				test("can query a page and a final page without a cursor", async () => {
+					const sortProperties: {
+						property: keyof TestSuiteEntity;
+						sortDirection: SortDirection;
+					}[] = [{ property: "value", sortDirection: SortDirection.Ascending }];
+
+					const page1 = await connector.query(undefined, sortProperties, undefined, undefined, 4);
+					expect(page1.entities.map(e => e.id)).toEqual(["1", "2", "3", "4"]);
+					expect(page1.cursor).toBeDefined();
+
+					const page2 = await connector.query(
+						undefined,
+						sortProperties,
+						undefined,
+						page1.cursor,
+						4
+					);
+					expect(page2.entities.map(e => e.id)).toEqual(["5", "6"]);
+					expect(page2.cursor).toBeUndefined();
+				});
+
+				test("can query all the pages without duplicates or omissions", async () => {
+					const sortProperties: {
+						property: keyof TestSuiteEntity;
+						sortDirection: SortDirection;
+					}[] = [{ property: "name", sortDirection: SortDirection.Descending }];
+					const entities = await EntityStorageConnectorTestSuite.queryAll(
+						connector,
+						undefined,
+						sortProperties,
+						undefined,
+						2
+					);
+					expect(entities.map(e => e.id)).toEqual(["6", "5", "4", "3", "2", "1"]);
+				});
+
+				test("can query all the pages with conditions", async () => {
+					const entities = await EntityStorageConnectorTestSuite.queryAll(
+						connector,
+						{ property: "category", comparison: ComparisonOperator.Equals, value: "a" },
+						[{ property: "value", sortDirection: SortDirection.Ascending }],
+						undefined,
+						2
+					);
+					expect(entities.map(e => e.id)).toEqual(["1", "3", "6"]);
+				});
+
+				test("can query the same pages when repeated", async () => {
+					const sortProperties: {
+						property: keyof TestSuiteEntity;
+						sortDirection: SortDirection;
+					}[] = [{ property: "value", sortDirection: SortDirection.Ascending }];
+
+					const first = await connector.query(undefined, sortProperties, undefined, undefined, 3);
+					const repeated = await connector.query(
+						undefined,
+						sortProperties,
+						undefined,
+						undefined,
+						3
+					);
+					expect(repeated.entities).toEqual(first.entities);
+
+					const next = await connector.query(undefined, sortProperties, undefined, first.cursor, 3);
+					const repeatedNext = await connector.query(
+						undefined,
+						sortProperties,
+						undefined,
+						repeated.cursor,
+						3
+					);
+					expect(repeatedNext.entities).toEqual(next.entities);
+				});
+			});
+
+			describe("projection", () => {
+				test("can query with only the requested properties", async () => {
+					const entities = await EntityStorageConnectorTestSuite.queryAll(
+						connector,
+						{ property: "category", comparison: ComparisonOperator.Equals, value: "b" },
+						[{ property: "value", sortDirection: SortDirection.Ascending }],
+						["id", "value"]
+					);
+					expect(entities).toEqual([
+						{ id: "2", value: 20 },
+						{ id: "4", value: 40 }
+					]);
+				});
+
+				test("can query with all the properties when none are requested", async () => {
+					const entities = await EntityStorageConnectorTestSuite.queryAll(connector, {
+						property: "id",
+						comparison: ComparisonOperator.Equals,
+						value: "3"
+					});
+					expect(entities).toEqual([EntityStorageConnectorTestSuite._ENTITIES[2]]);
+				});
+			});
+
+			describe("get", () => {
+				test("can get an entity using the primary key", async () => {
+					expect(await connector.get("4")).toEqual(EntityStorageConnectorTestSuite._ENTITIES[3]);
+				});
+
+				test("can not get an entity which does not exist", async () => {
+					expect(await connector.get("7")).toBeUndefined();
+				});
+
+				test("can get an entity using a secondary index", async () => {
+					expect(await connector.get("charlie", "name")).toEqual(
+						EntityStorageConnectorTestSuite._ENTITIES[2]
+					);
+				});
+
+				test("can not get an entity using a secondary index which does not match", async () => {
+					expect(await connector.get("golf", "name")).toBeUndefined();
+				});
+
+				test("can get an entity with conditions", async () => {
+					expect(
+						await connector.get("5", undefined, [{ property: "category", value: "c" }])
+					).toEqual(EntityStorageConnectorTestSuite._ENTITIES[4]);
+					expect(
+						await connector.get("5", undefined, [{ property: "category", value: "a" }])
+					).toBeUndefined();
+				});
+
+				test("can get an entity using a secondary index with conditions", async () => {
+					expect(
+						await connector.get("delta", "name", [{ property: "active", value: false }])
+					).toEqual(EntityStorageConnectorTestSuite._ENTITIES[3]);
+					expect(
+						await connector.get("delta", "name", [{ property: "active", value: true }])
+					).toBeUndefined();
+				});
+			});
+
+			describe("set and remove", () => {
+				test("can replace an entity", async () => {
+					const updated = { ...EntityStorageConnectorTestSuite._ENTITIES[0], value: 15 };
+					await connector.set(updated);
+					expect(await connector.get("1")).toEqual(updated);
+					expect(await connector.count()).toEqual(6);
+				});
+
+				test("can set an entity when the conditions match", async () => {
+					const updated = { ...EntityStorageConnectorTestSuite._ENTITIES[0], value: 15 };
+					await connector.set(updated, [{ property: "category", value: "a" }]);
+					expect(await connector.get("1")).toEqual(updated);
+				});
+
+				test("can not set an entity when the conditions do not match", async () => {
+					await connector.set({ ...EntityStorageConnectorTestSuite._ENTITIES[0], value: 15 }, [
+						{ property: "category", value: "b" }
+					]);
+					expect(await connector.get("1")).toEqual(EntityStorageConnectorTestSuite._ENTITIES[0]);
+				});
+
+				test("can remove an entity", async () => {
+					await connector.remove("2");
+					expect(await connector.get("2")).toBeUndefined();
+					expect(await connector.count()).toEqual(5);
+				});
+
+				test("can remove an entity when the conditions match", async () => {
+					await connector.remove("2", [{ property: "category", value: "b" }]);
+					expect(await connector.get("2")).toBeUndefined();
+				});
+
+				test("can not remove an entity when the conditions do not match", async () => {
+					await connector.remove("2", [{ property: "category", value: "a" }]);
+					expect(await connector.get("2")).toEqual(EntityStorageConnectorTestSuite._ENTITIES[1]);
+				});
+
+				test("can remove an entity which does not exist", async () => {
+					await connector.remove("7");
+					expect(await connector.count()).toEqual(6);
+				});
+			});
+		});
+	}
+
+	/**
+	 * Query all the pages of entities from the connector.
+	 * @param connector The connector to query.
+	 * @param conditions The optional conditions to match.
+	 * @param sortProperties The optional sort order.
+	 * @param properties The optional properties to return.
+	 * @param pageSize The optional page size.
+	 * @returns The entities from all the pages.
+	 * @internal
+	 */
+	private static async queryAll(
+		connector: IEntityStorageConnector<TestSuiteEntity>,
+		conditions?: EntityCondition<TestSuiteEntity>,
+		sortProperties?: { property: keyof TestSuiteEntity; sortDirection: SortDirection }[],
+		properties?: (keyof TestSuiteEntity)[],
+		pageSize?: number
+	): Promise<Partial<TestSuiteEntity>[]> {
+		const entities: Partial<TestSuiteEntity>[] = [];
+		let cursor: string | undefined;
+		do {
+			const result = await connector.query(
+				conditions,
+				sortProperties,
+				properties,
+				cursor,
+				pageSize
+			);
+			entities.push(...result.entities);
+			cursor = result.cursor;
+		} while (Is.stringValue(cursor));
+		return entities;
+	}
+
+	/**
+	 * Get the ids of the entities in sorted order, for comparing queries without a sort order.
+	 * @param entities The entities to get the ids for.
+	 * @returns The sorted ids.
+	 * @internal
+	 */
+	private static sortedIds(entities: Partial<TestSuiteEntity>[]): (string | undefined)[] {
+		return entities.map(e => e.id).sort();
+	}
+}
@@ -0,0 +1,6 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+export * from "./entities/testSuiteEntity";
+export * from "./entityStorageConnectorTestSuite";
+export * from "./models/IEntityStorageConnectorTestSuiteOptions";
+export * from "./schema";
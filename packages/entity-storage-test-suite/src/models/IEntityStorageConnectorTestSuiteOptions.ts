@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import type { IEntityStorageConnector } from "@twin.org/entity-storage-models";
+import type { TestSuiteEntity } from "../entities/testSuiteEntity";
+
+/**
+ * Options for running the entity storage connector test suite.
+ */
+export interface IEntityStorageConnectorTestSuiteOptions {
+	/**
+	 * Create an empty connector for the schema, called before each test.
+	 * @param entitySchema The name of the entity schema to create the connector for.
+	 * @returns The connector, which must have been bootstrapped if it requires it.
+	 */
+	createConnector: (entitySchema: string) => Promise<IEntityStorageConnector<TestSuiteEntity>>;
+
+	/**
+	 * Remove the storage used by the connector, called after each test.
+	 * @param connector The connector to remove the storage for.
+	 * @returns Nothing.
+	 */
+	removeConnector?: (connector: IEntityStorageConnector<TestSuiteEntity>) => Promise<void>;
+}
@@ -0,0 +1,14 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { EntitySchemaFactory, EntitySchemaHelper } from "@twin.org/entity";
+import { nameof } from "@twin.org/nameof";
+import { TestSuiteEntity } from "./entities/testSuiteEntity";
+
+/**
+ * Initialize the schema for the test suite entities.
+ */
+export function initSchema(): void {
+	EntitySchemaFactory.register(nameof<TestSuiteEntity>(), () =>
+		EntitySchemaHelper.getSchema(TestSuiteEntity)
+	);
+}
@@ -0,0 +1,23 @@
+// Copyright 2024 IOTA Stiftung.
+// SPDX-License-Identifier: Apache-2.0.
+import { MemoryEntityStorageConnector } from "@twin.org/entity-storage-connector-memory";
+import { EntityStorageConnectorTestSuite } from "../src/entityStorageConnectorTestSuite";
+
+describe("EntityStorageConnectorTestSuite", () => {
+	test("can fail to run when there are no options", () => {
+		expect(() =>
+			EntityStorageConnectorTestSuite.run(
+				undefined as unknown as Parameters<typeof EntityStorageConnectorTestSuite.run>[0]
+			)
+		).toThrow(
+			expect.objectContaining({
+				name: "GuardError",
+				message: "guard.objectUndefined"
+			})
+		);
+	});
+});
+
+EntityStorageConnectorTestSuite.run({
+	createConnector: async entitySchema => new MemoryEntityStorageConnector({ entitySchema })
+});